@@ -6,9 +6,7 @@
 
 import { generateTypes } from "../generator.js";
 
-try {
-    generateTypes();
-} catch (error) {
+generateTypes().catch((error) => {
     console.error("Error generating types:", error);
     process.exit(1);
-}
+});
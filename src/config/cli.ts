@@ -2,8 +2,16 @@
  * Command line argument parsing
  */
 
-import type { NamingConvention, SourceType } from "../types/index.js";
+import type {
+    NamingConvention,
+    SourceType,
+    DiagnosticFormat,
+    DiagramFormat,
+    Int8Type,
+    TypegenOptions,
+} from "../types/index.js";
 import { GENERATOR_CONFIG } from "./constants.js";
+import { readEnvOptions, splitList } from "./config-file.js";
 import { log } from "../utils/logger.js";
 
 interface CliArgs {
@@ -23,79 +31,135 @@ interface CliArgs {
     usePrettier: boolean;
     includeIndexes: boolean;
     includeComments: boolean;
+    diagnosticsFormat: DiagnosticFormat;
+    check: boolean;
+    watch: boolean;
+    zod: boolean;
+    valibot: boolean;
+    jsonSchema: boolean;
+    kysely: boolean;
+    drizzle: boolean;
+    int8Type: Int8Type;
+    diagram: DiagramFormat | null;
+    diagramSchema: string | null;
+    diagramTables: string[];
+    markdown: boolean;
+    markdownPerSchema: boolean;
+    brandDomains: boolean;
+    functionMetadata: boolean;
+    includeTriggerFunctions: boolean;
+    includeFunctions: string[];
+    excludeFunctions: string[];
 }
 
-export function parseCommandLineArgs(): CliArgs {
-    const args = process.argv.slice(2);
+/**
+ * Options given explicitly on the command line, plus the flags that only
+ * exist there
+ */
+export interface CliFlags extends TypegenOptions {
+    useLocal?: boolean;
+    useWorkdir?: boolean;
+    configPath?: string;
+}
+
+type BooleanOption = {
+    [K in keyof TypegenOptions]-?: NonNullable<
+        TypegenOptions[K]
+    > extends boolean
+        ? K
+        : never;
+}[keyof TypegenOptions];
+
+/**
+ * Boolean options that can be switched off with --no-<flag>, keyed by the
+ * flag name without the --no- prefix
+ */
+const NEGATABLE_FLAGS: Record<string, BooleanOption> = {
+    "extract-nested": "extractNestedTypes",
+    "deep-nested": "extractNestedTypes",
+    deduplicate: "deduplicateTypes",
+    dedupe: "deduplicateTypes",
+    "dedupe-types": "deduplicateTypes",
+    logs: "verboseLogging",
+    alphabetical: "alphabetical",
+    sort: "alphabetical",
+    "sort-alphabetical": "alphabetical",
+    prettier: "usePrettier",
+    "use-prettier": "usePrettier",
+    indexes: "includeIndexes",
+    "include-indexes": "includeIndexes",
+    comments: "includeComments",
+    check: "check",
+    watch: "watch",
+    zod: "zod",
+    valibot: "valibot",
+    "json-schema": "jsonSchema",
+    kysely: "kysely",
+    drizzle: "drizzle",
+    markdown: "markdown",
+    "markdown-per-schema": "markdownPerSchema",
+    "brand-domains": "brandDomains",
+    "function-metadata": "functionMetadata",
+    "include-trigger-functions": "includeTriggerFunctions",
+};
 
-    let useLocal: boolean = GENERATOR_CONFIG.useLocalFlag;
-    let explicitWorkdirFlag = false;
-    let workdir: string | null = null;
-    let connectionString: string | null = null;
-    let useDatabase = false;
-    let schema: string = GENERATOR_CONFIG.defaultSchema;
-    let outputDir: string | null = null;
-    let extractNestedTypes: boolean = GENERATOR_CONFIG.extractNestedTypes;
-    let deduplicateTypes: boolean = GENERATOR_CONFIG.deduplicateTypes;
-    let verboseLogging: boolean = GENERATOR_CONFIG.verboseLogging;
-    let namingConvention: NamingConvention = GENERATOR_CONFIG.namingConvention;
-    let alphabetical: boolean = GENERATOR_CONFIG.alphabetical;
-    let indentSize: number | null = null;
-    let usePrettier: boolean = false;
-    let includeIndexes: boolean = GENERATOR_CONFIG.includeIndexes;
-    let includeComments: boolean = GENERATOR_CONFIG.includeComments;
+/**
+ * Collect the flags present in `args`; options that are not mentioned stay
+ * undefined so that lower-precedence sources can fill them in
+ */
+export function parseCliFlags(args: string[]): CliFlags {
+    const flags: CliFlags = {};
 
     for (let i = 0; i < args.length; i++) {
         const arg = args[i];
 
         if (arg === "--local") {
-            useLocal = true;
+            flags.useLocal = true;
             if (i + 1 < args.length && !args[i + 1].startsWith("--")) {
-                workdir = args[++i];
-                explicitWorkdirFlag = false;
+                flags.workdir = args[++i];
+                flags.useWorkdir = false;
             }
         } else if (arg === "--workdir") {
-            explicitWorkdirFlag = true;
-            workdir = args[++i];
+            flags.useWorkdir = true;
+            flags.workdir = args[++i];
+        } else if (arg === "--config") {
+            flags.configPath = args[++i];
         } else if (arg === "--db" || arg === "--use-database") {
-            useDatabase = true;
+            flags.source = "db";
         } else if (arg === "--connection-string") {
-            connectionString = args[++i];
-            useDatabase = true;
+            flags.connectionString = args[++i];
+            flags.source = "db";
         } else if (arg === "--schema") {
-            schema = args[++i];
+            flags.schema = args[++i];
         } else if (arg === "--output" || arg === "-o") {
-            outputDir = args[++i];
+            flags.outputDir = args[++i];
         } else if (arg === "--deep-nested" || arg === "--extract-nested") {
-            extractNestedTypes = true;
+            flags.extractNestedTypes = true;
         } else if (
             arg === "--deduplicate" ||
             arg === "--dedupe" ||
             arg === "--dedupe-types"
         ) {
-            deduplicateTypes = true;
-        } else if (arg === "--no-deduplicate" || arg === "--no-dedupe") {
-            deduplicateTypes = false;
+            flags.deduplicateTypes = true;
         } else if (
-            arg === "--no-logs" ||
-            arg === "--silent" ||
-            arg === "--quiet"
+            arg.startsWith("--no-") &&
+            Object.hasOwn(NEGATABLE_FLAGS, arg.slice("--no-".length))
         ) {
-            verboseLogging = false;
+            flags[NEGATABLE_FLAGS[arg.slice("--no-".length)]] = false;
+        } else if (arg === "--silent" || arg === "--quiet") {
+            flags.verboseLogging = false;
         } else if (
             arg === "--alphabetical" ||
             arg === "--sort" ||
             arg === "--sort-alphabetical"
         ) {
-            alphabetical = true;
+            flags.alphabetical = true;
         } else if (arg === "--use-prettier") {
-            usePrettier = true;
-        } else if (arg === "--no-prettier") {
-            usePrettier = false;
+            flags.usePrettier = true;
         } else if (arg === "--indent" || arg === "--indent-size") {
             const size = parseInt(args[++i]);
             if (!isNaN(size) && size > 0 && size <= 8) {
-                indentSize = size;
+                flags.indentSize = size;
             } else {
                 log(
                     `Invalid indent size: ${args[i]}. Must be between 1 and 8. Using default or Prettier config.`,
@@ -104,9 +168,90 @@ export function parseCommandLineArgs(): CliArgs {
                 );
             }
         } else if (arg === "--include-indexes" || arg === "--indexes") {
-            includeIndexes = true;
-        } else if (arg === "--no-comments" || arg === "--skip-comments") {
-            includeComments = false;
+            flags.includeIndexes = true;
+        } else if (arg === "--skip-comments") {
+            flags.includeComments = false;
+        } else if (arg === "--check") {
+            flags.check = true;
+        } else if (arg === "--watch") {
+            flags.watch = true;
+        } else if (arg === "--zod") {
+            flags.zod = true;
+        } else if (arg === "--valibot") {
+            flags.valibot = true;
+        } else if (arg === "--format") {
+            const nextArg = args[++i];
+            if (
+                nextArg === "zod" ||
+                nextArg === "valibot" ||
+                nextArg === "kysely" ||
+                nextArg === "drizzle" ||
+                nextArg === "markdown"
+            ) {
+                flags[nextArg] = true;
+            } else if (nextArg === "json-schema") {
+                flags.jsonSchema = true;
+            } else {
+                log(
+                    `Invalid format: ${nextArg}. Expected zod, valibot, json-schema, kysely, drizzle or markdown`,
+                    "yellow",
+                    true
+                );
+            }
+        } else if (arg === "--int8-type") {
+            const nextArg = args[++i];
+            if (
+                nextArg === "string" ||
+                nextArg === "number" ||
+                nextArg === "bigint"
+            ) {
+                flags.int8Type = nextArg;
+            } else {
+                log(
+                    `Invalid int8 type: ${nextArg}. Using default: ${GENERATOR_CONFIG.int8Type}`,
+                    "yellow",
+                    true
+                );
+            }
+        } else if (arg === "--diagram") {
+            const nextArg = args[++i];
+            if (nextArg === "mermaid" || nextArg === "dbml") {
+                flags.diagram = nextArg;
+            } else {
+                log(
+                    `Invalid diagram format: ${nextArg}. Expected mermaid or dbml`,
+                    "yellow",
+                    true
+                );
+            }
+        } else if (arg === "--diagram-schema") {
+            flags.diagramSchema = args[++i];
+        } else if (arg === "--diagram-tables") {
+            flags.diagramTables = splitList(args[++i] ?? "");
+        } else if (arg === "--markdown-per-schema") {
+            flags.markdown = true;
+            flags.markdownPerSchema = true;
+        } else if (arg === "--brand-domains") {
+            flags.brandDomains = true;
+        } else if (arg === "--function-metadata") {
+            flags.functionMetadata = true;
+        } else if (arg === "--include-trigger-functions") {
+            flags.includeTriggerFunctions = true;
+        } else if (arg === "--include-functions") {
+            flags.includeFunctions = splitList(args[++i] ?? "");
+        } else if (arg === "--exclude-functions") {
+            flags.excludeFunctions = splitList(args[++i] ?? "");
+        } else if (arg === "--diagnostics") {
+            const nextArg = args[++i];
+            if (nextArg === "text" || nextArg === "json") {
+                flags.diagnosticsFormat = nextArg;
+            } else {
+                log(
+                    `Invalid diagnostics format: ${nextArg}. Using default: ${GENERATOR_CONFIG.diagnosticsFormat}`,
+                    "yellow",
+                    true
+                );
+            }
         } else if (arg === "--naming" || arg === "--naming-convention") {
             const nextArg = args[++i];
             if (
@@ -118,7 +263,7 @@ export function parseCommandLineArgs(): CliArgs {
                     "SCREAMING_SNAKE_CASE",
                 ].includes(nextArg)
             ) {
-                namingConvention = nextArg as NamingConvention;
+                flags.namingConvention = nextArg as NamingConvention;
             } else {
                 log(
                     `Invalid naming convention: ${nextArg}. Using default: ${GENERATOR_CONFIG.namingConvention}`,
@@ -127,29 +272,77 @@ export function parseCommandLineArgs(): CliArgs {
                 );
             }
         } else if (!arg.startsWith("--")) {
-            workdir = arg;
-            explicitWorkdirFlag = false;
+            flags.workdir = arg;
+            flags.useWorkdir = false;
         }
     }
 
-    const source: SourceType = useDatabase ? "db" : "sql";
+    return flags;
+}
+
+/**
+ * Resolve every option with the precedence
+ * command line > `base` (environment and config files) > defaults
+ */
+export function parseCommandLineArgs(
+    base: TypegenOptions = readEnvOptions(process.env),
+    flags: CliFlags = parseCliFlags(process.argv.slice(2))
+): CliArgs {
+    const options: TypegenOptions = { ...base };
+    for (const [key, value] of Object.entries(flags)) {
+        if (value !== undefined) {
+            Object.assign(options, { [key]: value });
+        }
+    }
 
     return {
-        useLocal,
-        useWorkdir: explicitWorkdirFlag,
-        workdir: workdir || GENERATOR_CONFIG.defaultWorkdir,
-        connectionString: connectionString || process.env.DATABASE_URL,
-        source,
-        schema,
-        outputDir: outputDir || GENERATOR_CONFIG.defaultOutputDir,
-        extractNestedTypes,
-        deduplicateTypes,
-        verboseLogging,
-        namingConvention,
-        alphabetical,
-        indentSize,
-        usePrettier,
-        includeIndexes,
-        includeComments,
+        useLocal: flags.useLocal ?? GENERATOR_CONFIG.useLocalFlag,
+        useWorkdir: flags.useWorkdir ?? false,
+        workdir: options.workdir || GENERATOR_CONFIG.defaultWorkdir,
+        connectionString: options.connectionString,
+        source: options.source ?? GENERATOR_CONFIG.defaultSource,
+        schema: options.schema ?? GENERATOR_CONFIG.defaultSchema,
+        outputDir: options.outputDir || GENERATOR_CONFIG.defaultOutputDir,
+        extractNestedTypes:
+            options.extractNestedTypes ?? GENERATOR_CONFIG.extractNestedTypes,
+        deduplicateTypes:
+            options.deduplicateTypes ?? GENERATOR_CONFIG.deduplicateTypes,
+        verboseLogging:
+            options.verboseLogging ?? GENERATOR_CONFIG.verboseLogging,
+        namingConvention:
+            options.namingConvention ?? GENERATOR_CONFIG.namingConvention,
+        alphabetical: options.alphabetical ?? GENERATOR_CONFIG.alphabetical,
+        indentSize: options.indentSize ?? null,
+        usePrettier: options.usePrettier ?? GENERATOR_CONFIG.usePrettier,
+        includeIndexes:
+            options.includeIndexes ?? GENERATOR_CONFIG.includeIndexes,
+        includeComments:
+            options.includeComments ?? GENERATOR_CONFIG.includeComments,
+        diagnosticsFormat:
+            options.diagnosticsFormat ?? GENERATOR_CONFIG.diagnosticsFormat,
+        check: options.check ?? GENERATOR_CONFIG.check,
+        watch: options.watch ?? GENERATOR_CONFIG.watch,
+        zod: options.zod ?? GENERATOR_CONFIG.zod,
+        valibot: options.valibot ?? GENERATOR_CONFIG.valibot,
+        jsonSchema: options.jsonSchema ?? GENERATOR_CONFIG.jsonSchema,
+        kysely: options.kysely ?? GENERATOR_CONFIG.kysely,
+        drizzle: options.drizzle ?? GENERATOR_CONFIG.drizzle,
+        int8Type: options.int8Type ?? GENERATOR_CONFIG.int8Type,
+        diagram: options.diagram ?? GENERATOR_CONFIG.diagram,
+        diagramSchema: options.diagramSchema ?? GENERATOR_CONFIG.diagramSchema,
+        diagramTables: options.diagramTables ?? GENERATOR_CONFIG.diagramTables,
+        markdown: options.markdown ?? GENERATOR_CONFIG.markdown,
+        markdownPerSchema:
+            options.markdownPerSchema ?? GENERATOR_CONFIG.markdownPerSchema,
+        brandDomains: options.brandDomains ?? GENERATOR_CONFIG.brandDomains,
+        functionMetadata:
+            options.functionMetadata ?? GENERATOR_CONFIG.functionMetadata,
+        includeTriggerFunctions:
+            options.includeTriggerFunctions ??
+            GENERATOR_CONFIG.includeTriggerFunctions,
+        includeFunctions:
+            options.includeFunctions ?? GENERATOR_CONFIG.includeFunctions,
+        excludeFunctions:
+            options.excludeFunctions ?? GENERATOR_CONFIG.excludeFunctions,
     };
 }
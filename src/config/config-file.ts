@@ -0,0 +1,467 @@
+/**
+ * Project configuration: typegen.config.json, the [typegen] section of
+ * config.toml and TYPEGEN_* environment variables
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { resolve } from "path";
+import type { TypegenOptions } from "../types/index.js";
+import type { CliFlags } from "./cli.js";
+import { GENERATOR_CONFIG } from "./constants.js";
+import { readTypegenSection } from "./toml.js";
+import { convertCase } from "../utils/naming.js";
+import { log } from "../utils/logger.js";
+
+export const CONFIG_FILE_NAME = "typegen.config.json";
+
+const ENV_PREFIX = "TYPEGEN_";
+
+interface OptionSchema {
+    type: "string" | "boolean" | "integer" | "array";
+    description: string;
+    items?: { type: "string" };
+    enum?: readonly string[];
+    minimum?: number;
+    maximum?: number;
+}
+
+const OPTION_SCHEMAS: Record<keyof TypegenOptions, OptionSchema> = {
+    workdir: {
+        type: "string",
+        description: "Supabase directory containing config.toml",
+    },
+    source: {
+        type: "string",
+        enum: ["sql", "db"],
+        description: "Read SQL files or introspect a live database",
+    },
+    connectionString: {
+        type: "string",
+        description: "Database URL used when source is db",
+    },
+    schema: { type: "string", description: "Schema to generate types for" },
+    outputDir: {
+        type: "string",
+        description: "Directory the types file is written to",
+    },
+    extractNestedTypes: {
+        type: "boolean",
+        description: "Extract nested JSONB objects into named types",
+    },
+    deduplicateTypes: {
+        type: "boolean",
+        description: "Merge structurally identical JSONB types",
+    },
+    verboseLogging: { type: "boolean", description: "Print progress logs" },
+    namingConvention: {
+        type: "string",
+        enum: [
+            "preserve",
+            "PascalCase",
+            "camelCase",
+            "snake_case",
+            "SCREAMING_SNAKE_CASE",
+        ],
+        description: "Naming convention for generated identifiers",
+    },
+    alphabetical: {
+        type: "boolean",
+        description: "Sort tables, columns and other members",
+    },
+    indentSize: {
+        type: "integer",
+        minimum: 1,
+        maximum: 8,
+        description: "Spaces per indentation level",
+    },
+    usePrettier: {
+        type: "boolean",
+        description: "Take the indentation from the Prettier config",
+    },
+    includeIndexes: {
+        type: "boolean",
+        description: "Include index metadata in table types",
+    },
+    includeComments: {
+        type: "boolean",
+        description: "Emit SQL comments as JSDoc",
+    },
+    diagnosticsFormat: {
+        type: "string",
+        enum: ["text", "json"],
+        description: "How diagnostics are printed",
+    },
+    check: {
+        type: "boolean",
+        description: "Fail instead of writing when the types are stale",
+    },
+    watch: {
+        type: "boolean",
+        description: "Regenerate when schema files change",
+    },
+    zod: {
+        type: "boolean",
+        description: "Also write Zod schemas next to the types file",
+    },
+    valibot: {
+        type: "boolean",
+        description: "Also write Valibot schemas next to the types file",
+    },
+    jsonSchema: {
+        type: "boolean",
+        description: "Also write JSON Schema documents for every table",
+    },
+    kysely: {
+        type: "boolean",
+        description: "Also write a Kysely DB interface next to the types file",
+    },
+    drizzle: {
+        type: "boolean",
+        description: "Also write a Drizzle ORM schema to drizzle/schema.ts",
+    },
+    int8Type: {
+        type: "string",
+        enum: ["string", "number", "bigint"],
+        description:
+            "TypeScript type of int8 columns in the Kysely and Drizzle output",
+    },
+    diagram: {
+        type: "string",
+        enum: ["mermaid", "dbml"],
+        description: "Also write an entity-relationship diagram",
+    },
+    diagramSchema: {
+        type: "string",
+        description: "Only draw the tables of this schema",
+    },
+    diagramTables: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only draw these tables (table or schema.table)",
+    },
+    markdown: {
+        type: "boolean",
+        description: "Also write a Markdown data dictionary of the schema",
+    },
+    markdownPerSchema: {
+        type: "boolean",
+        description: "Write the Markdown data dictionary as docs/<schema>.md",
+    },
+    brandDomains: {
+        type: "boolean",
+        description: 'Brand domain types, e.g. string & { __domain: "email" }',
+    },
+    functionMetadata: {
+        type: "boolean",
+        description:
+            "Document function volatility, security, language and search_path",
+    },
+    includeTriggerFunctions: {
+        type: "boolean",
+        description: "Keep functions returning trigger or event_trigger",
+    },
+    includeFunctions: {
+        type: "array",
+        items: { type: "string" },
+        description:
+            "Only keep these functions (name or schema.name, * wildcards)",
+    },
+    excludeFunctions: {
+        type: "array",
+        items: { type: "string" },
+        description:
+            "Leave out these functions (name or schema.name, * wildcards)",
+    },
+};
+
+/**
+ * JSON Schema of typegen.config.json, published as
+ * typegen.config.schema.json for editor completion
+ */
+export const TYPEGEN_CONFIG_SCHEMA = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    title: "supabase-typegen configuration",
+    type: "object",
+    additionalProperties: false,
+    properties: {
+        $schema: { type: "string" },
+        ...OPTION_SCHEMAS,
+    },
+};
+
+function distance(a: string, b: string): number {
+    const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = row[j];
+            row[j] = Math.min(
+                row[j] + 1,
+                row[j - 1] + 1,
+                diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+            diagonal = above;
+        }
+    }
+    return row[b.length];
+}
+
+function suggestKey(name: string, candidates: string[]): string {
+    let best = "";
+    let bestDistance = Infinity;
+    for (const candidate of candidates) {
+        const d = distance(name.toLowerCase(), candidate.toLowerCase());
+        if (d < bestDistance) {
+            best = candidate;
+            bestDistance = d;
+        }
+    }
+    return bestDistance <= Math.max(2, Math.floor(name.length / 3))
+        ? ` (did you mean "${best}"?)`
+        : "";
+}
+
+function checkValue(schema: OptionSchema, value: unknown): string | null {
+    if (schema.type === "integer") {
+        if (typeof value !== "number" || !Number.isInteger(value)) {
+            return "must be an integer";
+        }
+        if (
+            (schema.minimum !== undefined && value < schema.minimum) ||
+            (schema.maximum !== undefined && value > schema.maximum)
+        ) {
+            return `must be between ${schema.minimum} and ${schema.maximum}`;
+        }
+        return null;
+    }
+
+    if (schema.type === "array") {
+        return Array.isArray(value) &&
+            value.every((item) => typeof item === "string")
+            ? null
+            : "must be a list of strings";
+    }
+
+    if (typeof value !== schema.type) {
+        return `must be a ${schema.type}`;
+    }
+    if (schema.enum && !schema.enum.includes(value as string)) {
+        return `must be one of ${schema.enum.map((v) => `"${v}"`).join(", ")}`;
+    }
+    return null;
+}
+
+/**
+ * Validate raw option values against the config schema
+ *
+ * @param values - Values keyed by the name the user wrote
+ * @param origin - Where the values came from, used in the error message
+ * @param toKey - Maps a written name to its option key
+ * @param toName - Maps an option key back to the written style
+ * @throws Error listing every unknown key and invalid value
+ */
+function validateOptions(
+    values: Record<string, unknown>,
+    origin: string,
+    toKey: (name: string) => string = (name) => name,
+    toName: (key: string) => string = (key) => key
+): TypegenOptions {
+    const options: Record<string, unknown> = {};
+    const errors: string[] = [];
+    const knownNames = Object.keys(OPTION_SCHEMAS).map(toName);
+
+    for (const [name, value] of Object.entries(values)) {
+        const key = toKey(name);
+        const schema = Object.hasOwn(OPTION_SCHEMAS, key)
+            ? OPTION_SCHEMAS[key as keyof TypegenOptions]
+            : undefined;
+
+        if (!schema) {
+            errors.push(`unknown key "${name}"${suggestKey(name, knownNames)}`);
+            continue;
+        }
+
+        const problem = checkValue(schema, value);
+        if (problem) {
+            errors.push(`"${name}" ${problem}, got ${JSON.stringify(value)}`);
+        } else {
+            options[key] = value;
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(
+            `Invalid configuration in ${origin}:\n${errors
+                .map((error) => `  - ${error}`)
+                .join("\n")}`
+        );
+    }
+
+    return options as TypegenOptions;
+}
+
+/**
+ * A connection string in a config file selects the database source, the
+ * same way --connection-string does, unless the file sets source itself
+ */
+function withImpliedSource(options: TypegenOptions): TypegenOptions {
+    return options.connectionString !== undefined &&
+        options.source === undefined
+        ? { ...options, source: "db" }
+        : options;
+}
+
+/**
+ * Read typegen.config.json from the current directory, or the file passed
+ * with --config (which then has to exist)
+ */
+export function readConfigFile(configPath?: string): TypegenOptions {
+    const path = resolve(configPath ?? CONFIG_FILE_NAME);
+    if (!existsSync(path)) {
+        if (configPath) {
+            throw new Error(`Config file not found: ${path}`);
+        }
+        return {};
+    }
+
+    let values: unknown;
+    try {
+        values = JSON.parse(readFileSync(path, "utf8"));
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid JSON in ${path}: ${errorMsg}`);
+    }
+
+    if (
+        typeof values !== "object" ||
+        values === null ||
+        Array.isArray(values)
+    ) {
+        throw new Error(`Invalid configuration in ${path}: expected an object`);
+    }
+
+    log(`  Reading typegen config from: ${path}`, "cyan");
+
+    const { $schema: _schema, ...options } = values as Record<string, unknown>;
+    return withImpliedSource(validateOptions(options, path));
+}
+
+/**
+ * Write an option key in another case; a digit ends a word, so int8Type
+ * becomes int8_type rather than int8type
+ */
+function optionName(
+    key: string,
+    convention: "snake_case" | "SCREAMING_SNAKE_CASE"
+): string {
+    return convertCase(key.replace(/(\d)([A-Z])/g, "$1_$2"), convention);
+}
+
+/**
+ * Read the [typegen] section of config.toml. Keys use snake_case like the
+ * rest of the file; workdir cannot be set there since it locates the file.
+ */
+export function readTomlOptions(workdir: string): TypegenOptions {
+    const section = readTypegenSection(workdir);
+    if (!section) {
+        return {};
+    }
+
+    log(`  Reading [typegen] from: ${section.path}`, "cyan");
+
+    const { workdir: nestedWorkdir, ...values } = section.values;
+    if (nestedWorkdir !== undefined) {
+        throw new Error(
+            `Invalid configuration in ${section.path}:\n  - "workdir" cannot be set in [typegen], use --workdir or ${CONFIG_FILE_NAME}`
+        );
+    }
+
+    return withImpliedSource(
+        validateOptions(
+            values,
+            `[typegen] of ${section.path}`,
+            (name) => convertCase(name, "camelCase"),
+            (key) => optionName(key, "snake_case")
+        )
+    );
+}
+
+function envVarName(key: string): string {
+    return ENV_PREFIX + optionName(key, "SCREAMING_SNAKE_CASE");
+}
+
+/**
+ * Split a comma-separated list as written on the command line or in an
+ * environment variable
+ */
+export function splitList(value: string): string[] {
+    return value
+        .split(",")
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0);
+}
+
+/**
+ * Read TYPEGEN_* environment variables, e.g. TYPEGEN_NAMING_CONVENTION.
+ * Lists such as TYPEGEN_DIAGRAM_TABLES are comma-separated.
+ * DATABASE_URL is used as the connection string unless
+ * TYPEGEN_CONNECTION_STRING is set.
+ */
+export function readEnvOptions(env: NodeJS.ProcessEnv): TypegenOptions {
+    const values: Record<string, unknown> = {};
+
+    for (const [key, schema] of Object.entries(OPTION_SCHEMAS)) {
+        const raw = env[envVarName(key)];
+        if (raw === undefined || raw === "") continue;
+
+        if (schema.type === "boolean") {
+            values[envVarName(key)] =
+                raw === "true" || raw === "1"
+                    ? true
+                    : raw === "false" || raw === "0"
+                      ? false
+                      : raw;
+        } else if (schema.type === "integer" && /^-?\d+$/.test(raw)) {
+            values[envVarName(key)] = Number(raw);
+        } else if (schema.type === "array") {
+            values[envVarName(key)] = splitList(raw);
+        } else {
+            values[envVarName(key)] = raw;
+        }
+    }
+
+    if (
+        values[envVarName("connectionString")] === undefined &&
+        env.DATABASE_URL
+    ) {
+        values[envVarName("connectionString")] = env.DATABASE_URL;
+    }
+
+    return validateOptions(
+        values,
+        "environment variables",
+        (name) => convertCase(name.slice(ENV_PREFIX.length), "camelCase"),
+        envVarName
+    );
+}
+
+/**
+ * Combine every configuration source below the command line:
+ * environment > typegen.config.json > [typegen] in config.toml
+ */
+export function loadTypegenOptions(
+    flags: CliFlags,
+    env: NodeJS.ProcessEnv
+): TypegenOptions {
+    const envOptions = readEnvOptions(env);
+    const fileOptions = readConfigFile(flags.configPath);
+    const workdir =
+        flags.workdir ??
+        envOptions.workdir ??
+        fileOptions.workdir ??
+        GENERATOR_CONFIG.defaultWorkdir;
+    const tomlOptions = readTomlOptions(workdir);
+
+    return { ...tomlOptions, ...fileOptions, ...envOptions };
+}
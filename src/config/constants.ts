@@ -19,6 +19,35 @@ export const GENERATOR_CONFIG = {
     usePrettier: false,
     includeIndexes: false,
     includeComments: true,
+    diagnosticsFormat: "text" as const,
+
+    // Compare with the existing output instead of writing it
+    check: false,
+
+    // Regenerate on schema changes, batching changes within this window
+    watch: false,
+    watchDebounceMs: 250,
+
+    // Companion outputs written next to the types file
+    zod: false,
+    valibot: false,
+    jsonSchema: false,
+    jsonSchemaDir: "json-schema",
+    kysely: false,
+    drizzle: false,
+    drizzleFile: "drizzle/schema.ts",
+    diagram: null,
+    diagramSchema: null,
+    diagramTables: [] as string[],
+    markdown: false,
+    markdownPerSchema: false,
+    markdownDir: "docs",
+    brandDomains: false,
+    functionMetadata: false,
+    includeTriggerFunctions: false,
+    includeFunctions: [] as string[],
+    excludeFunctions: [] as string[],
+    int8Type: "string" as const,
 
     // Source priority: 'sql' = read from SQL files, 'db' = query database
     defaultSource: "sql" as const,
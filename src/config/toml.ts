@@ -3,11 +3,57 @@
  */
 
 import { readFileSync, existsSync, statSync } from "fs";
-import { join, resolve } from "path";
+import { join, resolve, relative, isAbsolute } from "path";
 import { globSync } from "glob";
-import type { SupabaseConfig } from "../types/index.js";
+import type { SupabaseConfig, TomlValue, WatchRoots } from "../types/index.js";
 import { log } from "../utils/logger.js";
 
+function parseTomlValue(raw: string): TomlValue {
+    const value = raw.trim();
+
+    const basic = value.match(/^"((?:[^"\\]|\\.)*)"/);
+    if (basic) {
+        return basic[1].replace(/\\(["\\])/g, "$1");
+    }
+
+    const literal = value.match(/^'([^']*)'/);
+    if (literal) {
+        return literal[1];
+    }
+
+    const bare = value.replace(/\s+#.*$/, "");
+    if (bare === "true" || bare === "false") {
+        return bare === "true";
+    }
+    if (/^[+-]?\d+(?:\.\d+)?$/.test(bare)) {
+        return Number(bare);
+    }
+    return bare;
+}
+
+function assignArray(
+    config: SupabaseConfig,
+    section: string[],
+    key: string,
+    items: string[]
+): void {
+    if (
+        section[0] === "db" &&
+        section[1] === "migrations" &&
+        key === "schema_paths"
+    ) {
+        if (!config.db) {
+            config.db = {};
+        }
+        if (!config.db.migrations) {
+            config.db.migrations = {};
+        }
+        config.db.migrations.schema_paths = items;
+    } else if (section.length === 1 && section[0] === "typegen") {
+        config.typegen = { ...config.typegen, [key]: items };
+    }
+}
+
 export function parseToml(content: string): SupabaseConfig {
     const config: SupabaseConfig = {};
     const lines = content.split("\n");
@@ -40,65 +86,41 @@ export function parseToml(content: string): SupabaseConfig {
                 inArray = true;
                 arrayItems = [];
 
+                const itemMatches = trimmed.matchAll(/"([^"]+)"/g);
+                for (const item of itemMatches) {
+                    arrayItems.push(item[1]);
+                }
+
                 if (trimmed.includes("]")) {
-                    const itemMatches = trimmed.matchAll(/"([^"]+)"/g);
-                    for (const item of itemMatches) {
-                        arrayItems.push(item[1]);
-                    }
                     inArray = false;
-
-                    if (
-                        currentSection[0] === "db" &&
-                        currentSection[1] === "migrations" &&
-                        arrayKey === "schema_paths"
-                    ) {
-                        if (!config.db) {
-                            config.db = {};
-                        }
-                        if (!config.db.migrations) {
-                            config.db.migrations = {};
-                        }
-                        config.db.migrations.schema_paths = arrayItems;
-                    }
-                } else {
-                    const itemMatches = trimmed.matchAll(/"([^"]+)"/g);
-                    for (const item of itemMatches) {
-                        arrayItems.push(item[1]);
-                    }
+                    assignArray(config, currentSection, arrayKey, arrayItems);
                 }
                 continue;
             }
         }
 
         if (inArray) {
+            const itemMatches = trimmed.matchAll(/"([^"]+)"/g);
+            for (const item of itemMatches) {
+                arrayItems.push(item[1]);
+            }
+
             if (trimmed.includes("]")) {
-                const itemMatches = trimmed.matchAll(/"([^"]+)"/g);
-                for (const item of itemMatches) {
-                    arrayItems.push(item[1]);
-                }
                 inArray = false;
-
-                if (
-                    currentSection[0] === "db" &&
-                    currentSection[1] === "migrations" &&
-                    arrayKey === "schema_paths"
-                ) {
-                    if (!config.db) {
-                        config.db = {};
-                    }
-                    if (!config.db.migrations) {
-                        config.db.migrations = {};
-                    }
-                    config.db.migrations.schema_paths = arrayItems;
-                }
-            } else {
-                const itemMatches = trimmed.matchAll(/"([^"]+)"/g);
-                for (const item of itemMatches) {
-                    arrayItems.push(item[1]);
-                }
+                assignArray(config, currentSection, arrayKey, arrayItems);
             }
             continue;
         }
+
+        if (currentSection.length === 1 && currentSection[0] === "typegen") {
+            const match = trimmed.match(/^(\w+)\s*=\s*(.+)$/);
+            if (match) {
+                config.typegen = {
+                    ...config.typegen,
+                    [match[1]]: parseTomlValue(match[2]),
+                };
+            }
+        }
     }
 
     return config;
@@ -157,13 +179,39 @@ export function readSupabaseConfig(
     return [schemaPaths, actualWorkdir];
 }
 
+/**
+ * Read the [typegen] section of the workdir's config.toml, using the same
+ * `<workdir>/supabase/config.toml` fallback as readSupabaseConfig
+ *
+ * @returns The raw values and the file they came from, or null when there
+ * is no config.toml or no [typegen] section
+ */
+export function readTypegenSection(
+    workdir: string
+): { path: string; values: Record<string, TomlValue> } | null {
+    const path = [
+        join(workdir, "config.toml"),
+        join(workdir, "supabase", "config.toml"),
+    ].find((candidate) => existsSync(candidate));
+    if (!path) {
+        return null;
+    }
+
+    const values = parseToml(readFileSync(path, "utf8")).typegen;
+    return values ? { path, values } : null;
+}
+
+function schemaBaseDir(workdir: string | null): string {
+    return workdir
+        ? resolve(process.cwd(), workdir)
+        : resolve(process.cwd(), "supabase");
+}
+
 export function resolveSchemaFiles(
     schemaPaths: string[],
     workdir: string | null
 ): string[] {
-    const baseDir = workdir
-        ? resolve(process.cwd(), workdir)
-        : resolve(process.cwd(), "supabase");
+    const baseDir = schemaBaseDir(workdir);
 
     log(
         `\n  📁 Resolving schema files from base directory: ${baseDir}`,
@@ -180,10 +228,11 @@ export function resolveSchemaFiles(
             if (pattern.includes("*")) {
                 const normalizedPattern = pattern.replace(/\\/g, "/");
                 log(`  🔍 Expanding glob pattern: ${schemaPath}`, "cyan");
+                // Sorted so migrations replay in filename (timestamp) order
                 const files = globSync(normalizedPattern, {
                     nodir: true,
                     absolute: true,
-                });
+                }).sort();
 
                 log(
                     `    Found ${files.length} file(s) matching pattern`,
@@ -249,3 +298,55 @@ export function resolveSchemaFiles(
 
     return allFiles;
 }
+
+function isInside(directory: string, parent: string): boolean {
+    const path = relative(parent, directory);
+    return !path.startsWith("..") && !isAbsolute(path);
+}
+
+/**
+ * Paths to watch so that edits to matching files, newly created matching
+ * files and config.toml changes are all noticed
+ *
+ * Each glob is watched from its last directory before the first wildcard,
+ * and literal paths and config.toml as single files, so unrelated
+ * directories such as functions/ are left alone.
+ */
+export function resolveSchemaWatchRoots(
+    schemaPaths: string[],
+    workdir: string | null
+): WatchRoots {
+    const baseDir = schemaBaseDir(workdir);
+    const directories: string[] = [];
+    const files: string[] = [join(baseDir, "config.toml")];
+
+    for (const schemaPath of schemaPaths) {
+        const segments = schemaPath.replace(/\\/g, "/").split("/");
+        const firstGlob = segments.findIndex((s) => /[*?[{]/.test(s));
+        if (firstGlob === -1) {
+            files.push(resolve(baseDir, schemaPath));
+        } else {
+            directories.push(
+                resolve(baseDir, segments.slice(0, firstGlob).join("/"))
+            );
+        }
+    }
+
+    const roots = directories.filter(
+        (root, index) =>
+            existsSync(root) &&
+            directories.indexOf(root) === index &&
+            !directories.some(
+                (other) => other !== root && isInside(root, other)
+            )
+    );
+
+    return {
+        directories: roots,
+        files: files.filter(
+            (file, index) =>
+                files.indexOf(file) === index &&
+                !roots.some((root) => isInside(file, root))
+        ),
+    };
+}
@@ -2,21 +2,40 @@
  * Main type generation orchestrator
  */
 
-import { writeFileSync, mkdirSync, existsSync } from "fs";
-import { join } from "path";
+import { writeFileSync, readFileSync, mkdirSync, existsSync } from "fs";
+import { join, basename, dirname, relative } from "path";
+import { createHash } from "crypto";
 import type {
     GeneratorConfig,
+    IndentSource,
     TableDefinition,
     EnumDefinition,
     FunctionDefinition,
     CompositeTypeDefinition,
+    DomainDefinition,
     ViewDefinition,
     TypeDefinition,
+    SchemaModel,
+    GeneratedFile,
 } from "./types/index.js";
 import { log, setVerboseLogging } from "./utils/logger.js";
-import { parseCommandLineArgs } from "./config/cli.js";
-import { readSupabaseConfig, resolveSchemaFiles } from "./config/toml.js";
+import { createUnifiedDiff } from "./utils/diff.js";
+import { watchDirectories } from "./utils/watch.js";
+import { parseCommandLineArgs, parseCliFlags } from "./config/cli.js";
+import { loadTypegenOptions } from "./config/config-file.js";
+import {
+    readSupabaseConfig,
+    resolveSchemaFiles,
+    resolveSchemaWatchRoots,
+} from "./config/toml.js";
 import { parseSqlFiles } from "./parsers/sql-file-parser.js";
+import { introspectDatabaseUrl } from "./parsers/db-introspector.js";
+import { collectModelDiagnostics } from "./parsers/model-diagnostics.js";
+import {
+    createDiagnosticCollector,
+    printDiagnostics,
+    type DiagnosticCollector,
+} from "./utils/diagnostics.js";
 import {
     detectPrettierConfig,
     getPrettierIndentSize,
@@ -38,10 +57,24 @@ import {
     generateJsonbTypeDefinitions,
     generateMergeDeepStructure,
     generateViewTypes,
+    generateZodSchemas,
+    generateValibotSchemas,
+    generateJsonSchemas,
+    generateKyselyTypes,
+    generateDrizzleSchema,
+    generateMermaidDiagram,
+    generateDbmlDiagram,
+    generateMarkdownDocs,
+    generateMarkdownDocsPerSchema,
+    selectFunctions,
 } from "./generators/index.js";
 
 export function initializeConfig(): GeneratorConfig {
-    const cliArgs = parseCommandLineArgs();
+    const flags = parseCliFlags(process.argv.slice(2));
+    const cliArgs = parseCommandLineArgs(
+        loadTypegenOptions(flags, process.env),
+        flags
+    );
 
     log("\n🔧 Initializing configuration...", "bright");
     log(
@@ -56,10 +89,31 @@ export function initializeConfig(): GeneratorConfig {
     log(`  Alphabetical sorting: ${cliArgs.alphabetical}`, "cyan");
     log(`  Include indexes: ${cliArgs.includeIndexes}`, "cyan");
     log(`  Include comments: ${cliArgs.includeComments}`, "cyan");
+    log(`  Zod schemas: ${cliArgs.zod}`, "cyan");
+    log(`  Valibot schemas: ${cliArgs.valibot}`, "cyan");
+    log(`  JSON Schema: ${cliArgs.jsonSchema}`, "cyan");
+    log(`  Kysely types: ${cliArgs.kysely}`, "cyan");
+    log(`  Drizzle schema: ${cliArgs.drizzle}`, "cyan");
+    if (cliArgs.kysely || cliArgs.drizzle) {
+        log(`  int8 type: ${cliArgs.int8Type}`, "cyan");
+    }
+    log(`  Diagram: ${cliArgs.diagram ?? "none"}`, "cyan");
+    log(
+        `  Markdown docs: ${
+            cliArgs.markdownPerSchema ? "per schema" : cliArgs.markdown
+        }`,
+        "cyan"
+    );
+    log(`  Brand domain types: ${cliArgs.brandDomains}`, "cyan");
+    log(`  Function metadata: ${cliArgs.functionMetadata}`, "cyan");
+    log(
+        `  Include trigger functions: ${cliArgs.includeTriggerFunctions}`,
+        "cyan"
+    );
     log(`  Exclude 'this' and 'constraint' columns: true (automatic)`, "cyan");
 
     let finalIndentSize: number = GENERATOR_CONFIG.indentSize;
-    let indentSource = "default";
+    let indentSource: IndentSource = "default";
 
     if (cliArgs.indentSize !== null) {
         finalIndentSize = cliArgs.indentSize;
@@ -110,6 +164,7 @@ export function initializeConfig(): GeneratorConfig {
             dir: cliArgs.outputDir,
             tempFile: `database${outputSuffix}-temp.ts`,
             finalFile: `database${outputSuffix}.ts`,
+            suffix: outputSuffix,
         },
         extractNestedTypes: cliArgs.extractNestedTypes,
         deduplicateTypes: cliArgs.deduplicateTypes,
@@ -117,8 +172,29 @@ export function initializeConfig(): GeneratorConfig {
         namingConvention: cliArgs.namingConvention,
         alphabetical: cliArgs.alphabetical,
         indentSize: finalIndentSize,
+        indentSource,
         includeIndexes: cliArgs.includeIndexes,
         includeComments: cliArgs.includeComments,
+        diagnosticsFormat: cliArgs.diagnosticsFormat,
+        timestamp: true,
+        check: cliArgs.check,
+        watch: cliArgs.watch,
+        zod: cliArgs.zod,
+        valibot: cliArgs.valibot,
+        jsonSchema: cliArgs.jsonSchema,
+        kysely: cliArgs.kysely,
+        drizzle: cliArgs.drizzle,
+        diagram: cliArgs.diagram,
+        diagramSchema: cliArgs.diagramSchema,
+        diagramTables: cliArgs.diagramTables,
+        markdown: cliArgs.markdown,
+        markdownPerSchema: cliArgs.markdownPerSchema,
+        brandDomains: cliArgs.brandDomains,
+        functionMetadata: cliArgs.functionMetadata,
+        includeTriggerFunctions: cliArgs.includeTriggerFunctions,
+        includeFunctions: cliArgs.includeFunctions,
+        excludeFunctions: cliArgs.excludeFunctions,
+        int8Type: cliArgs.int8Type,
     };
 }
 
@@ -129,11 +205,11 @@ function generateFinalTypes(
     functions: FunctionDefinition[],
     compositeTypes: CompositeTypeDefinition[],
     views: ViewDefinition[],
+    domains: DomainDefinition[],
     jsonbTypes: TypeDefinition[]
-): void {
+): string {
     log("\n🔨 Step 3: Generating type definitions...", "bright");
 
-    const finalPath = join(config.output.dir, config.output.finalFile);
     const convention = config.namingConvention;
     const schema = config.supabase.schema;
     const indentSize = config.indentSize;
@@ -323,7 +399,9 @@ function generateFinalTypes(
                     config.includeComments,
                     availableEnums,
                     schemaName,
-                    useGeometricTypes
+                    useGeometricTypes,
+                    domains,
+                    config.brandDomains
                 )
             )
             .join("\n");
@@ -339,7 +417,11 @@ function generateFinalTypes(
             availableEnums,
             schemaName,
             useGeometricTypes,
-            config.alphabetical
+            config.alphabetical,
+            domains,
+            config.brandDomains,
+            { tables, views, compositeTypes },
+            config.functionMetadata
         );
         const compositeTypesDef = generateCompositeTypes(
             schemaCompositeTypes,
@@ -353,7 +435,9 @@ function generateFinalTypes(
             config.includeComments,
             availableEnums,
             schemaName,
-            useGeometricTypes
+            useGeometricTypes,
+            domains,
+            config.brandDomains
         );
 
         if (schemaName === "graphql_public") {
@@ -427,18 +511,12 @@ ${indent}}`);
         config.supabase.source === "sql" ? "SQL files" : "database";
     const sortNote = config.alphabetical ? " (alphabetically sorted)" : "";
 
-    let indentSourceNote = "";
-    if (indentSize === 2) {
-        const prettierConfig = detectPrettierConfig();
-        const prettierIndent = getPrettierIndentSize(prettierConfig);
-        if (prettierIndent === indentSize) {
-            indentSourceNote = " (from Prettier config)";
-        } else {
-            indentSourceNote = " (default)";
-        }
-    } else {
-        indentSourceNote = " (custom)";
-    }
+    const indentSourceNote =
+        config.indentSource === "Prettier config"
+            ? " (from Prettier config)"
+            : config.indentSource === "default"
+              ? " (default)"
+              : " (custom)";
 
     const header = `/**
  * Auto-generated TypeScript types for Supabase
@@ -670,9 +748,6 @@ ${indent.repeat(2)}: never
         jsonbSection +
         constantsSection;
 
-    writeFileSync(finalPath, content, "utf8");
-
-    log(`  ✓ Types generated: ${finalPath}`, "green");
     log(`  ✓ ${tables.length} table(s)`, "green");
 
     const totalRelationships = tables.reduce(
@@ -738,9 +813,403 @@ ${indent.repeat(2)}: never
         "cyan"
     );
     log(`  ✓ Automatically excluded 'this' and 'constraint' columns`, "cyan");
+
+    return content;
+}
+
+/**
+ * Render the types file and every enabled companion file, with paths
+ * relative to the output directory
+ *
+ * Trigger functions and excluded functions are left out of every file.
+ */
+export function renderOutputFiles(
+    config: GeneratorConfig,
+    schemaModel: SchemaModel,
+    jsonbTypes: TypeDefinition[]
+): GeneratedFile[] {
+    const functions = selectFunctions(schemaModel.functions, config);
+    const leftOut = schemaModel.functions.length - functions.length;
+    if (leftOut > 0) {
+        log(`  ✓ Left out ${leftOut} trigger or excluded function(s)`, "cyan");
+    }
+    const model = { ...schemaModel, functions };
+
+    const finalFile = config.output.finalFile;
+    const files: GeneratedFile[] = [
+        {
+            path: finalFile,
+            content: generateFinalTypes(
+                config,
+                model.tables,
+                model.enums,
+                model.functions,
+                model.compositeTypes,
+                model.views,
+                model.domains,
+                jsonbTypes
+            ),
+        },
+    ];
+
+    // Companion files import from the types file, e.g. database.zod.ts
+    const typesModule = `./${finalFile.replace(/\.ts$/, "")}`;
+    const companionFile = (kind: string) =>
+        finalFile.replace(/(\.ts)?$/, `.${kind}.ts`);
+
+    if (config.zod) {
+        files.push({
+            path: companionFile("zod"),
+            content: generateZodSchemas(
+                model,
+                jsonbTypes,
+                typesModule,
+                config.namingConvention,
+                config.indentSize,
+                config.includeComments,
+                config.supabase.schema
+            ),
+        });
+        log("  ✓ Zod schemas", "green");
+    }
+
+    if (config.valibot) {
+        files.push({
+            path: companionFile("valibot"),
+            content: generateValibotSchemas(
+                model,
+                typesModule,
+                config.namingConvention,
+                config.indentSize,
+                config.includeComments,
+                config.supabase.schema
+            ),
+        });
+        log("  ✓ Valibot schemas", "green");
+    }
+
+    if (config.jsonSchema) {
+        const documents = generateJsonSchemas(
+            model,
+            jsonbTypes,
+            config.namingConvention,
+            config.indentSize,
+            config.includeComments,
+            config.supabase.schema
+        );
+        for (const document of documents) {
+            files.push({
+                path: `${GENERATOR_CONFIG.jsonSchemaDir}/${document.path}`,
+                content: document.content,
+            });
+        }
+        log(`  ✓ ${documents.length} JSON Schema document(s)`, "green");
+    }
+
+    if (config.kysely) {
+        files.push({
+            path: companionFile("kysely"),
+            content: generateKyselyTypes(
+                model,
+                config.namingConvention,
+                config.int8Type,
+                config.indentSize,
+                config.includeComments,
+                config.supabase.schema
+            ),
+        });
+        log("  ✓ Kysely types", "green");
+    }
+
+    if (config.drizzle) {
+        files.push({
+            path: GENERATOR_CONFIG.drizzleFile.replace(
+                /\.ts$/,
+                `${config.output.suffix}.ts`
+            ),
+            content: generateDrizzleSchema(
+                model,
+                config.namingConvention,
+                config.int8Type,
+                config.indentSize,
+                config.includeComments,
+                config.supabase.schema
+            ),
+        });
+        log("  ✓ Drizzle schema", "green");
+    }
+
+    if (config.diagram) {
+        const filter = {
+            schema: config.diagramSchema,
+            tables: config.diagramTables,
+        };
+        files.push(
+            config.diagram === "mermaid"
+                ? {
+                      path: finalFile.replace(/(\.ts)?$/, ".erd.md"),
+                      content: generateMermaidDiagram(
+                          model,
+                          filter,
+                          config.indentSize,
+                          config.includeComments,
+                          config.supabase.schema
+                      ),
+                  }
+                : {
+                      path: finalFile.replace(/(\.ts)?$/, ".dbml"),
+                      content: generateDbmlDiagram(
+                          model,
+                          filter,
+                          config.indentSize,
+                          config.includeComments
+                      ),
+                  }
+        );
+        log(`  ✓ ${config.diagram} diagram`, "green");
+    }
+
+    if (config.markdownPerSchema) {
+        const documents = generateMarkdownDocsPerSchema(
+            model,
+            config.includeComments,
+            config.supabase.schema
+        );
+        for (const document of documents) {
+            files.push({
+                path: `${GENERATOR_CONFIG.markdownDir}/${document.path}`,
+                content: document.content,
+            });
+        }
+        log(`  ✓ ${documents.length} Markdown document(s)`, "green");
+    } else if (config.markdown) {
+        files.push({
+            path: finalFile.replace(/(\.ts)?$/, ".md"),
+            content: generateMarkdownDocs(
+                model,
+                config.includeComments,
+                config.supabase.schema
+            ),
+        });
+        log("  ✓ Markdown docs", "green");
+    }
+
+    // The generate() API leaves the timestamp out, so that the same schema
+    // always renders the same files
+    return config.timestamp
+        ? files
+        : files.map((file) => ({
+              ...file,
+              content: file.content.replace(/^ \* Generated: .*\n/m, ""),
+          }));
+}
+
+// The generation timestamp changes on every run and must not count as a
+// difference in --check mode
+const GENERATED_AT_LINE = /^ \* Generated: .*$/m;
+
+function withoutTimestamp(content: string): string {
+    return content.replace(GENERATED_AT_LINE, " * Generated: <timestamp>");
+}
+
+/**
+ * Compare freshly generated types with the file on disk
+ *
+ * @returns true when the file exists and only the timestamp differs
+ */
+function checkFinalTypes(finalPath: string, content: string): boolean {
+    if (!existsSync(finalPath)) {
+        log(`\n❌ ${finalPath} does not exist`, "red", true);
+        return false;
+    }
+
+    const existing = withoutTimestamp(readFileSync(finalPath, "utf8"));
+    const diff = createUnifiedDiff(
+        existing,
+        withoutTimestamp(content),
+        finalPath,
+        `${finalPath} (generated)`
+    );
+
+    if (!diff) {
+        log(`\n✅ Types are up to date: ${finalPath}`, "green", true);
+        return true;
+    }
+
+    log(`\n❌ Types are out of date: ${finalPath}\n`, "red", true);
+    for (const line of diff.split("\n")) {
+        const color = line.startsWith("@@")
+            ? "cyan"
+            : line.startsWith("-")
+              ? "red"
+              : line.startsWith("+")
+                ? "green"
+                : "reset";
+        log(line, color, true);
+    }
+    return false;
+}
+
+/**
+ * Check the parsed schema and render the output files
+ *
+ * @returns The files, or null when no tables were found
+ */
+function buildTypes(
+    config: GeneratorConfig,
+    model: SchemaModel,
+    diagnostics: DiagnosticCollector
+): GeneratedFile[] | null {
+    const useDatabase = config.supabase.source === "db";
+    const { tables } = model;
+
+    collectModelDiagnostics(model, diagnostics);
+    printDiagnostics(diagnostics.diagnostics, config.diagnosticsFormat);
+
+    if (tables.length === 0) {
+        if (useDatabase) {
+            log("\n❌ No tables found in database!", "red", true);
+            log(
+                `   Check that schema "${config.supabase.schema}" contains tables`,
+                "yellow",
+                true
+            );
+        } else {
+            log("\n❌ No tables found in SQL files!", "red", true);
+            log("   Check your schema paths in config.toml", "yellow", true);
+        }
+        return null;
+    }
+
+    // Scan for JSONB columns
+    log("\n🔍 Step 2: Scanning SQL schemas for JSONB columns...", "bright");
+    const jsonbTypes = scanSchemas(
+        config.schemaPaths,
+        config.extractNestedTypes,
+        config.namingConvention
+    );
+
+    if (jsonbTypes.length > 0) {
+        log(`  📊 Total JSONB columns found: ${jsonbTypes.length}`, "green");
+    }
+
+    // Generate final types
+    return renderOutputFiles(config, model, jsonbTypes);
+}
+
+// Companion files may live in a subdirectory of the output directory
+function writeOutputFile(filePath: string, content: string): void {
+    const dir = dirname(filePath);
+    if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+    }
+    writeFileSync(filePath, content, "utf8");
+}
+
+function isSchemaSource(path: string): boolean {
+    return path.endsWith(".sql") || basename(path) === "config.toml";
+}
+
+// Covers everything SQL-file generation reads, so saving a file without
+// changing it does not trigger a rebuild
+function fingerprintSources(config: GeneratorConfig): string {
+    const hash = createHash("sha256");
+    for (const file of [config.supabase.configPath, ...config.schemaPaths]) {
+        hash.update(file);
+        hash.update(existsSync(file) ? readFileSync(file) : "");
+    }
+    return hash.digest("hex");
+}
+
+/**
+ * Regenerate whenever config.toml or a schema file changes
+ *
+ * The schema_paths globs are resolved again on every change, so new
+ * migrations are picked up. The output file is only rewritten when its
+ * content (ignoring the timestamp) actually changes.
+ */
+function watchTypes(config: GeneratorConfig): void {
+    const [schemaPatterns, configWorkdir] = readSupabaseConfig(
+        config.supabase.inputWorkdir
+    );
+    const roots = resolveSchemaWatchRoots(schemaPatterns, configWorkdir);
+    let fingerprint = fingerprintSources(config);
+
+    const regenerate = (changedPaths: string[]) => {
+        log(
+            `\n🔄 Changed: ${changedPaths
+                .map((path) => relative(process.cwd(), path))
+                .join(", ")}`,
+            "cyan",
+            true
+        );
+
+        const [patterns, workdir] = readSupabaseConfig(
+            config.supabase.inputWorkdir
+        );
+        const next: GeneratorConfig = {
+            ...config,
+            schemaPaths: resolveSchemaFiles(patterns, workdir),
+        };
+        const nextFingerprint = fingerprintSources(next);
+        if (nextFingerprint === fingerprint) {
+            log("  Schema files unchanged, skipped", "cyan", true);
+            return;
+        }
+        fingerprint = nextFingerprint;
+
+        const diagnostics = createDiagnosticCollector();
+        const model = parseSqlFiles(
+            next.schemaPaths,
+            next.supabase.schema,
+            next.includeComments,
+            diagnostics
+        );
+        const files = buildTypes(next, model, diagnostics);
+        if (files === null) {
+            return;
+        }
+
+        for (const file of files) {
+            const filePath = join(config.output.dir, file.path);
+            if (
+                existsSync(filePath) &&
+                withoutTimestamp(readFileSync(filePath, "utf8")) ===
+                    withoutTimestamp(file.content)
+            ) {
+                log(`  ✓ Types unchanged: ${filePath}`, "green", true);
+                continue;
+            }
+
+            writeOutputFile(filePath, file.content);
+            log(`  ✓ Types regenerated: ${filePath}`, "green", true);
+        }
+    };
+
+    watchDirectories(
+        roots,
+        isSchemaSource,
+        (changedPaths) => {
+            try {
+                regenerate(changedPaths);
+            } catch (error) {
+                const errorMsg =
+                    error instanceof Error ? error.message : String(error);
+                log(`\n❌ Regeneration failed: ${errorMsg}`, "red", true);
+            }
+        },
+        GENERATOR_CONFIG.watchDebounceMs
+    );
+
+    const watched = [...roots.directories, ...roots.files];
+    log(
+        `\n👀 Watching ${watched.join(", ")} for changes (Ctrl+C to stop)`,
+        "cyan",
+        true
+    );
 }
 
-export function generateTypes(): void {
+export async function generateTypes(): Promise<void> {
     log(
         "╔════════════════════════════════════════════════════════════╗",
         "bright"
@@ -754,49 +1223,86 @@ export function generateTypes(): void {
         "bright"
     );
 
-    const config = initializeConfig();
+    let config: GeneratorConfig;
+    try {
+        config = initializeConfig();
+    } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        log(`\n❌ ${errorMsg}`, "red", true);
+        process.exit(1);
+        return;
+    }
     setVerboseLogging(config.verboseLogging);
 
     // Ensure output directory exists
-    if (!existsSync(config.output.dir)) {
+    if (!config.check && !existsSync(config.output.dir)) {
         mkdirSync(config.output.dir, { recursive: true });
     }
 
-    // Parse SQL files
-    const { tables, enums, functions, compositeTypes, views } = parseSqlFiles(
-        config.schemaPaths,
-        config.supabase.schema,
-        config.includeComments
-    );
+    const useDatabase = config.supabase.source === "db";
 
-    if (tables.length === 0) {
-        log("\n❌ No tables found in SQL files!", "red", true);
-        log("   Check your schema paths in config.toml", "yellow", true);
+    if (useDatabase && !config.supabase.connectionString) {
+        log("\n❌ No database connection string provided!", "red", true);
+        log(
+            "   Pass --connection-string <url> or set DATABASE_URL",
+            "yellow",
+            true
+        );
         process.exit(1);
+        return;
     }
 
-    // Scan for JSONB columns
-    log("\n🔍 Step 2: Scanning SQL schemas for JSONB columns...", "bright");
-    const jsonbTypes = scanSchemas(
-        config.schemaPaths,
-        config.extractNestedTypes,
-        config.namingConvention
-    );
+    if (config.watch && (useDatabase || config.check)) {
+        log(
+            `\n❌ --watch cannot be combined with ${
+                useDatabase ? "--db" : "--check"
+            }`,
+            "red",
+            true
+        );
+        process.exit(1);
+        return;
+    }
 
-    if (jsonbTypes.length > 0) {
-        log(`  📊 Total JSONB columns found: ${jsonbTypes.length}`, "green");
+    // Parse SQL files or introspect the live database
+    const diagnostics = createDiagnosticCollector();
+    const model = useDatabase
+        ? await introspectDatabaseUrl(config.supabase.connectionString!, [
+              config.supabase.schema,
+          ])
+        : parseSqlFiles(
+              config.schemaPaths,
+              config.supabase.schema,
+              config.includeComments,
+              diagnostics
+          );
+
+    const files = buildTypes(config, model, diagnostics);
+    if (files === null) {
+        process.exit(1);
+        return;
     }
 
-    // Generate final types
-    generateFinalTypes(
-        config,
-        tables,
-        enums,
-        functions,
-        compositeTypes,
-        views,
-        jsonbTypes
-    );
+    if (config.check) {
+        const upToDate = files.map((file) =>
+            checkFinalTypes(join(config.output.dir, file.path), file.content)
+        );
+        if (upToDate.includes(false)) {
+            log(
+                "   Run the generator without --check to update them",
+                "yellow",
+                true
+            );
+            process.exit(1);
+        }
+        return;
+    }
+
+    for (const file of files) {
+        const filePath = join(config.output.dir, file.path);
+        writeOutputFile(filePath, file.content);
+        log(`  ✓ Types generated: ${filePath}`, "green");
+    }
 
     log("\n✅ Type generation complete!", "green", true);
     log(`\n📝 Import your types with:`, "cyan", true);
@@ -808,4 +1314,8 @@ export function generateTypes(): void {
         "cyan",
         true
     );
+
+    if (config.watch) {
+        watchTypes(config);
+    }
 }
@@ -0,0 +1,292 @@
+/**
+ * Entity-relationship diagram generation (Mermaid and DBML)
+ */
+
+import type {
+    ColumnDefinition,
+    DiagramFilter,
+    EnumDefinition,
+    RelationshipDefinition,
+    SchemaModel,
+    TableDefinition,
+} from "../types/index.js";
+import { findReferencedTable } from "../utils/relationships.js";
+
+const GENERATED_NOTE =
+    "Auto-generated by supabase-typegen - DO NOT EDIT MANUALLY";
+
+interface DiagramRelationship {
+    table: TableDefinition;
+    target: TableDefinition;
+    relationship: RelationshipDefinition;
+}
+
+function isUserColumn(col: ColumnDefinition): boolean {
+    const colNameLower = col.name.toLowerCase();
+    return colNameLower !== "this" && colNameLower !== "constraint";
+}
+
+function selectTables(
+    model: SchemaModel,
+    filter: DiagramFilter
+): TableDefinition[] {
+    return model.tables.filter(
+        (table) =>
+            (!filter.schema || table.schema === filter.schema) &&
+            (!filter.tables?.length ||
+                filter.tables.some(
+                    (name) =>
+                        name === table.name ||
+                        name === `${table.schema}.${table.name}`
+                ))
+    );
+}
+
+/**
+ * Foreign keys between the selected tables; keys to tables that are
+ * filtered out or not in the model are not drawn
+ */
+function selectRelationships(
+    model: SchemaModel,
+    tables: TableDefinition[]
+): DiagramRelationship[] {
+    const selected = new Set(tables);
+    return tables.flatMap((table) =>
+        table.relationships.flatMap((relationship) => {
+            const target = findReferencedTable(
+                model.tables,
+                relationship.referencedRelation,
+                table.schema
+            );
+            return target && selected.has(target)
+                ? [{ table, target, relationship }]
+                : [];
+        })
+    );
+}
+
+function referencingColumns(
+    relationship: RelationshipDefinition,
+    table: TableDefinition
+): ColumnDefinition[] {
+    return relationship.columns.flatMap((name) => {
+        const col = table.columns.find((c) => c.name === name);
+        return col ? [col] : [];
+    });
+}
+
+/**
+ * Mermaid cardinality between the referenced and the referencing table:
+ * the parent side is optional when a key column is nullable, the child
+ * side is "zero or one" for one-to-one keys. Keys made of primary key
+ * columns are identifying (`--`), all others are drawn dashed (`..`).
+ */
+function mermaidCardinality({
+    table,
+    relationship,
+}: DiagramRelationship): string {
+    const columns = referencingColumns(relationship, table);
+    const parent = columns.some((col) => col.nullable) ? "|o" : "||";
+    const child = relationship.isOneToOne ? "o|" : "o{";
+    const identifying =
+        columns.length > 0 && columns.every((col) => col.isPrimaryKey);
+    return `${parent}${identifying ? "--" : ".."}${child}`;
+}
+
+/**
+ * Generate a Markdown file with a Mermaid `erDiagram` of the tables, which
+ * GitHub renders inline
+ *
+ * Tables outside the main schema are named `schema.table`.
+ */
+export function generateMermaidDiagram(
+    model: SchemaModel,
+    filter: DiagramFilter = {},
+    indentSize: number = 2,
+    includeComments: boolean = true,
+    schema: string = "public"
+): string {
+    const indent = " ".repeat(indentSize);
+    const tables = selectTables(model, filter);
+    const relationships = selectRelationships(model, tables);
+
+    const entityName = (table: TableDefinition): string => {
+        const name =
+            table.schema === schema
+                ? table.name
+                : `${table.schema}.${table.name}`;
+        return /^[A-Za-z_][\w-]*$/.test(name) ? name : JSON.stringify(name);
+    };
+
+    const foreignKeyColumns = new Set(
+        relationships.flatMap(({ table, relationship }) =>
+            relationship.columns.map((name) => `${entityName(table)}.${name}`)
+        )
+    );
+
+    const entityLines = tables.map((table) => {
+        const attributes = table.columns.filter(isUserColumn).map((col) => {
+            const type = `${col.type
+                .toLowerCase()
+                .replace(/\([^)]*\)/, "")
+                .trim()
+                .replace(/[^\w-]+/g, "_")}${col.isArray ? "[]" : ""}`;
+            const keys = [
+                ...(col.isPrimaryKey ? ["PK"] : []),
+                ...(foreignKeyColumns.has(`${entityName(table)}.${col.name}`)
+                    ? ["FK"]
+                    : []),
+                ...(col.isUnique ? ["UK"] : []),
+            ];
+            const comment =
+                includeComments && col.comment
+                    ? ` "${col.comment.replace(/"/g, "'")}"`
+                    : "";
+            return `${indent.repeat(2)}${type} ${col.name.replace(
+                /[^\w-]/g,
+                "_"
+            )}${keys.length > 0 ? ` ${keys.join(", ")}` : ""}${comment}`;
+        });
+
+        return attributes.length > 0
+            ? `${indent}${entityName(table)} {\n${attributes.join(
+                  "\n"
+              )}\n${indent}}`
+            : `${indent}${entityName(table)}`;
+    });
+
+    const relationshipLines = relationships.map(
+        (entry) =>
+            `${indent}${entityName(entry.target)} ${mermaidCardinality(
+                entry
+            )} ${entityName(entry.table)} : ${JSON.stringify(
+                entry.relationship.columns.join(", ")
+            )}`
+    );
+
+    return `<!-- ${GENERATED_NOTE} -->
+
+\`\`\`mermaid
+erDiagram
+${[...entityLines, ...relationshipLines].join("\n")}
+\`\`\`
+`;
+}
+
+function dbmlName(name: string): string {
+    return /^[A-Za-z_]\w*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function dbmlString(value: string): string {
+    return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+function dbmlDefault(defaultValue: string): string {
+    const value = defaultValue.replace(/::[\w\s."]+(\[\])?$/, "").trim();
+    if (/^(-?\d+(\.\d+)?|true|false|null)$/i.test(value)) {
+        return value.toLowerCase();
+    }
+    const stringMatch = value.match(/^'((?:[^']|'')*)'$/s);
+    if (stringMatch) {
+        return dbmlString(stringMatch[1].replace(/''/g, "'"));
+    }
+    return `\`${defaultValue.replace(/`/g, "'")}\``;
+}
+
+/**
+ * Generate a DBML document of the tables, enums and foreign keys, for
+ * dbdiagram.io and other DBML tools
+ *
+ * Objects outside `public` are schema-qualified, as DBML expects.
+ */
+export function generateDbmlDiagram(
+    model: SchemaModel,
+    filter: DiagramFilter = {},
+    indentSize: number = 2,
+    includeComments: boolean = true
+): string {
+    const indent = " ".repeat(indentSize);
+    const tables = selectTables(model, filter);
+    const relationships = selectRelationships(model, tables);
+
+    const qualifiedName = (schemaName: string, name: string): string =>
+        schemaName === "public"
+            ? dbmlName(name)
+            : `${dbmlName(schemaName)}.${dbmlName(name)}`;
+
+    const enumsByKey = new Map<string, EnumDefinition>(
+        model.enums.map((e) => [`${e.schema}.${e.name}`, e])
+    );
+    const usedEnums = new Set<EnumDefinition>();
+
+    const columnType = (col: ColumnDefinition, schemaName: string): string => {
+        const enumDef = enumsByKey.get(`${schemaName}.${col.type}`);
+        if (enumDef) {
+            usedEnums.add(enumDef);
+            return `${qualifiedName(enumDef.schema, enumDef.name)}${
+                col.isArray ? "[]" : ""
+            }`;
+        }
+        const type = `${col.type}${col.isArray ? "[]" : ""}`;
+        return /^\w+(\(\s*\d+(\s*,\s*\d+)?\s*\))?$/.test(type)
+            ? type
+            : JSON.stringify(type);
+    };
+
+    const tableLines = tables.map((table) => {
+        const columnLines = table.columns.filter(isUserColumn).map((col) => {
+            const settings = [
+                ...(col.isPrimaryKey ? ["pk"] : []),
+                ...(!col.nullable && !col.isPrimaryKey ? ["not null"] : []),
+                ...(col.isUnique ? ["unique"] : []),
+                ...(col.defaultValue !== null
+                    ? [`default: ${dbmlDefault(col.defaultValue)}`]
+                    : []),
+                ...(includeComments && col.comment
+                    ? [`note: ${dbmlString(col.comment)}`]
+                    : []),
+            ];
+            return `${indent}${dbmlName(col.name)} ${columnType(
+                col,
+                table.schema
+            )}${settings.length > 0 ? ` [${settings.join(", ")}]` : ""}`;
+        });
+
+        const note =
+            includeComments && table.comment
+                ? ` [note: ${dbmlString(table.comment)}]`
+                : "";
+        return `Table ${qualifiedName(table.schema, table.name)}${note} {\n${columnLines.join(
+            "\n"
+        )}\n}`;
+    });
+
+    const enumLines = Array.from(usedEnums).map(
+        (enumDef) =>
+            `Enum ${qualifiedName(enumDef.schema, enumDef.name)} {\n${enumDef.values
+                .map((value) => `${indent}${dbmlName(value)}`)
+                .join("\n")}\n}`
+    );
+
+    const refLines = relationships.map(({ table, target, relationship }) => {
+        const endpoint = (t: TableDefinition, columns: string[]) =>
+            `${qualifiedName(t.schema, t.name)}.${
+                columns.length === 1
+                    ? dbmlName(columns[0])
+                    : `(${columns.map(dbmlName).join(", ")})`
+            }`;
+        const name = /^\w+$/.test(relationship.foreignKeyName)
+            ? ` ${relationship.foreignKeyName}`
+            : "";
+        return `Ref${name}: ${endpoint(table, relationship.columns)} ${
+            relationship.isOneToOne ? "-" : ">"
+        } ${endpoint(target, relationship.referencedColumns)}`;
+    });
+
+    return `// ${GENERATED_NOTE}
+
+${[enumLines.join("\n\n"), tableLines.join("\n\n"), refLines.join("\n")]
+    .filter((section) => section.length > 0)
+    .join("\n\n")}
+`;
+}
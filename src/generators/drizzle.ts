@@ -0,0 +1,573 @@
+/**
+ * Drizzle ORM schema generation
+ */
+
+import type {
+    ColumnDefinition,
+    IndexDefinition,
+    Int8Type,
+    NamingConvention,
+    SchemaModel,
+    TableDefinition,
+} from "../types/index.js";
+import { convertCase, propertyKey } from "../utils/naming.js";
+import { findReferencedTable } from "../utils/relationships.js";
+import {
+    applyDomainConstraints,
+    mapPostgresTypeToTypeScript,
+} from "../utils/type-mapping.js";
+
+// Drizzle refuses pgSchema("public"), its tables use pgTable instead
+const DEFAULT_SCHEMA = "public";
+
+// Postgres types with a column builder of the same shape in drizzle-orm/pg-core
+const SIMPLE_BUILDERS: Record<string, string> = {
+    smallint: "smallint",
+    int2: "smallint",
+    integer: "integer",
+    int: "integer",
+    int4: "integer",
+    smallserial: "smallserial",
+    serial: "serial",
+    real: "real",
+    float4: "real",
+    "double precision": "doublePrecision",
+    float8: "doublePrecision",
+    text: "text",
+    boolean: "boolean",
+    bool: "boolean",
+    date: "date",
+    interval: "interval",
+    json: "json",
+    jsonb: "jsonb",
+    uuid: "uuid",
+    inet: "inet",
+    cidr: "cidr",
+    macaddr: "macaddr",
+    macaddr8: "macaddr8",
+    point: "point",
+    line: "line",
+};
+
+const NUMBER_BUILDERS = new Set([
+    "smallint",
+    "integer",
+    "real",
+    "doublePrecision",
+]);
+
+const STRING_BUILDERS = new Set(["text", "varchar", "char", "uuid"]);
+
+const TIMESTAMP_BUILDERS = new Set(["timestamp", "date"]);
+
+function isUserColumn(col: ColumnDefinition): boolean {
+    const colNameLower = col.name.toLowerCase();
+    return colNameLower !== "this" && colNameLower !== "constraint";
+}
+
+/**
+ * camelCase variable name such as `userProfiles`, prefixed with the schema
+ * name outside the main schema
+ */
+function variableName(
+    schemaName: string,
+    mainSchema: string,
+    ...parts: string[]
+): string {
+    const words = schemaName === mainSchema ? parts : [schemaName, ...parts];
+    const name = convertCase(words.join("_").replace(/\W+/g, "_"), "camelCase");
+    return /^\d/.test(name) ? `_${name}` : name;
+}
+
+function sqlTemplate(expression: string): string {
+    return `sql\`${expression
+        .replace(/\\/g, "\\\\")
+        .replace(/`/g, "\\`")
+        .replace(/\$\{/g, "\\${")}\``;
+}
+
+/**
+ * Generate a Drizzle `schema.ts` with `pgTable`, `pgEnum`, `pgView` and
+ * `pgSchema` declarations
+ *
+ * Primary keys, unique columns, foreign keys and indexes are declared so
+ * that the schema matches the migrations. Views are declared with
+ * `.existing()` because the migrations, not drizzle-kit, create them.
+ *
+ * @param int8Type - `bigint` mode follows this; `bigserial` has no
+ * `string` mode and uses `bigint` instead
+ */
+export function generateDrizzleSchema(
+    model: SchemaModel,
+    convention: NamingConvention,
+    int8Type: Int8Type = "string",
+    indentSize: number = 2,
+    includeComments: boolean = true,
+    schema: string = "public"
+): string {
+    const indent = " ".repeat(indentSize);
+    const coreImports = new Set<string>();
+    let usesSql = false;
+
+    const schemaVariables = new Map<string, string>();
+    const schemaLines: string[] = [];
+    const declare = (schemaName: string, kind: string): string => {
+        if (schemaName === DEFAULT_SCHEMA) {
+            const builder = `pg${kind.charAt(0).toUpperCase()}${kind.slice(1)}`;
+            coreImports.add(builder);
+            return builder;
+        }
+        let variable = schemaVariables.get(schemaName);
+        if (!variable) {
+            variable = variableName(schema, schema, schemaName, "schema");
+            schemaVariables.set(schemaName, variable);
+            coreImports.add("pgSchema");
+            schemaLines.push(
+                `export const ${variable} = pgSchema(${JSON.stringify(
+                    schemaName
+                )});`
+            );
+        }
+        return `${variable}.${kind}`;
+    };
+
+    const enumVariables = new Map<string, string>();
+    const enumLines = model.enums.map((enumDef) => {
+        const variable = variableName(enumDef.schema, schema, enumDef.name);
+        enumVariables.set(`${enumDef.schema}.${enumDef.name}`, variable);
+        return `export const ${variable} = ${declare(
+            enumDef.schema,
+            "enum"
+        )}(${JSON.stringify(enumDef.name)}, [${enumDef.values
+            .map((value) => JSON.stringify(value))
+            .join(", ")}]);`;
+    });
+
+    const customTypes = new Map<string, string>();
+    const customTypeLines: string[] = [];
+    const customType = (pgType: string): string => {
+        let variable = customTypes.get(pgType);
+        if (!variable) {
+            variable = variableName(schema, schema, pgType, "type");
+            customTypes.set(pgType, variable);
+            coreImports.add("customType");
+            customTypeLines.push(
+                `export const ${variable} = customType<{ data: ${mapPostgresTypeToTypeScript(
+                    pgType,
+                    false,
+                    schema,
+                    new Set(),
+                    false,
+                    model.domains
+                )} }>({\n${indent}dataType: () => ${JSON.stringify(
+                    pgType
+                )},\n});`
+            );
+        }
+        return variable;
+    };
+
+    /**
+     * Builder call such as `varchar("email", { length: 255 })`, and the
+     * builder name used to decide how defaults are written
+     */
+    const typeBuilder = (
+        col: ColumnDefinition,
+        schemaName: string
+    ): [call: string, builder: string] => {
+        const name = JSON.stringify(col.name);
+        const enumVariable = enumVariables.get(`${schemaName}.${col.type}`);
+        if (enumVariable) {
+            return [`${enumVariable}(${name})`, "enum"];
+        }
+
+        const lower = col.type.toLowerCase().trim();
+        const baseType = lower.replace(/\([^)]*\)/, "").trim();
+        const modifiers = (lower.match(/\(([^)]*)\)/)?.[1] ?? "")
+            .split(",")
+            .map((value) => value.trim())
+            .filter((value) => value.length > 0);
+
+        const call = (builder: string, options: string[] = []) => {
+            coreImports.add(builder);
+            return [
+                `${builder}(${name}${
+                    options.length > 0 ? `, { ${options.join(", ")} }` : ""
+                })`,
+                builder,
+            ] as [string, string];
+        };
+
+        if (SIMPLE_BUILDERS[baseType]) {
+            return call(SIMPLE_BUILDERS[baseType]);
+        }
+        if (["bigint", "int8"].includes(baseType)) {
+            return call("bigint", [`mode: ${JSON.stringify(int8Type)}`]);
+        }
+        // bigserial has no string mode
+        if (["bigserial", "serial8"].includes(baseType)) {
+            return call("bigserial", [
+                `mode: "${int8Type === "number" ? "number" : "bigint"}"`,
+            ]);
+        }
+        if (baseType === "numeric" || baseType === "decimal") {
+            const [precision, scale] = modifiers;
+            return call("numeric", [
+                ...(precision ? [`precision: ${precision}`] : []),
+                ...(scale ? [`scale: ${scale}`] : []),
+            ]);
+        }
+        if (baseType === "varchar" || baseType === "character varying") {
+            return call(
+                "varchar",
+                modifiers[0] ? [`length: ${modifiers[0]}`] : []
+            );
+        }
+        if (baseType === "char" || baseType === "character") {
+            return call(
+                "char",
+                modifiers[0] ? [`length: ${modifiers[0]}`] : []
+            );
+        }
+        if (baseType.startsWith("timestamp") || baseType.startsWith("time")) {
+            const builder = baseType.startsWith("timestamp")
+                ? "timestamp"
+                : "time";
+            return call(builder, [
+                ...(/with time zone|tz$/.test(baseType)
+                    ? ["withTimezone: true"]
+                    : []),
+                ...(modifiers[0] ? [`precision: ${modifiers[0]}`] : []),
+            ]);
+        }
+
+        return [`${customType(col.type)}(${name})`, "custom"];
+    };
+
+    const defaultModifier = (col: ColumnDefinition, builder: string) => {
+        const expression = col.defaultValue!.trim();
+        const value = expression.replace(/::[\w\s."]+(\[\])?$/, "").trim();
+
+        if (
+            TIMESTAMP_BUILDERS.has(builder) &&
+            /^(now\(\)|current_timestamp)$/i.test(value)
+        ) {
+            return ".defaultNow()";
+        }
+        if (
+            builder === "uuid" &&
+            /^(gen_random_uuid|uuid_generate_v4)\(\)$/i.test(value)
+        ) {
+            return ".defaultRandom()";
+        }
+        if (/^(true|false)$/i.test(value) && builder === "boolean") {
+            return `.default(${value.toLowerCase()})`;
+        }
+        if (/^-?\d+(\.\d+)?$/.test(value) && NUMBER_BUILDERS.has(builder)) {
+            return `.default(${value})`;
+        }
+
+        const stringMatch = value.match(/^'((?:[^']|'')*)'$/s);
+        if (stringMatch) {
+            const text = stringMatch[1].replace(/''/g, "'");
+            if (STRING_BUILDERS.has(builder) || builder === "enum") {
+                return `.default(${JSON.stringify(text)})`;
+            }
+            if (builder === "json" || builder === "jsonb") {
+                try {
+                    return `.default(${JSON.stringify(JSON.parse(text))})`;
+                } catch {
+                    // Not valid JSON, fall through to raw SQL
+                }
+            }
+        }
+
+        usesSql = true;
+        return `.default(${sqlTemplate(expression)})`;
+    };
+
+    const tableVariables = new Map<TableDefinition, string>(
+        model.tables.map((table) => [
+            table,
+            variableName(table.schema, schema, table.name),
+        ])
+    );
+
+    const columnKey = (name: string) => convertCase(name, convention);
+
+    const columnReference = (
+        table: TableDefinition,
+        column: string,
+        isSelfReference: boolean
+    ) =>
+        table.columns.some((col) => col.name === column)
+            ? `${isSelfReference ? "table" : tableVariables.get(table)}.${columnKey(column)}`
+            : null;
+
+    const indexColumn = (table: TableDefinition, column: string): string => {
+        const match = column.match(/^(\w+)(?:\s+(asc|desc))?$/i);
+        if (match && table.columns.some((col) => col.name === match[1])) {
+            const ref = `table.${columnKey(match[1])}`;
+            return match[2] ? `${ref}.${match[2].toLowerCase()}()` : ref;
+        }
+        usesSql = true;
+        return sqlTemplate(column);
+    };
+
+    const indexExpression = (
+        table: TableDefinition,
+        index: IndexDefinition
+    ): string => {
+        const builder = index.isUnique ? "uniqueIndex" : "index";
+        coreImports.add(builder);
+        const columns = index.columns
+            .map((column) => indexColumn(table, column))
+            .join(", ");
+        let expression = `${builder}(${JSON.stringify(index.name)})${
+            index.method
+                ? `.using(${JSON.stringify(index.method.toLowerCase())}, ${columns})`
+                : `.on(${columns})`
+        }`;
+        if (index.whereClause) {
+            usesSql = true;
+            expression += `.where(${sqlTemplate(
+                index.whereClause.replace(/;$/, "").trim()
+            )})`;
+        }
+        return expression;
+    };
+
+    const tableLines = model.tables.map((table) => {
+        const variable = tableVariables.get(table)!;
+        const columns = table.columns
+            .filter(isUserColumn)
+            .map((col) =>
+                applyDomainConstraints(col, table.schema, model.domains)
+            );
+        const primaryKeys = columns.filter((col) => col.isPrimaryKey);
+        const compositePrimaryKey = primaryKeys.length > 1;
+
+        const references = new Map<string, string>();
+        const extras: string[] = [];
+        if (compositePrimaryKey) {
+            coreImports.add("primaryKey");
+            extras.push(
+                `primaryKey({ columns: [${primaryKeys
+                    .map((col) => `table.${columnKey(col.name)}`)
+                    .join(", ")}] })`
+            );
+        }
+
+        // Single-column keys are attached to the column, the rest become
+        // table-level foreignKey() constraints. Keys to tables outside the
+        // parsed model (such as auth.users) are left out.
+        for (const relationship of table.relationships) {
+            const target = findReferencedTable(
+                model.tables,
+                relationship.referencedRelation,
+                table.schema
+            );
+            const foreignColumns = target
+                ? relationship.referencedColumns.map((column) =>
+                      columnReference(target, column, target === table)
+                  )
+                : [];
+            if (
+                !target ||
+                foreignColumns.length !== relationship.columns.length ||
+                foreignColumns.includes(null)
+            ) {
+                continue;
+            }
+
+            const actions = [
+                ...(relationship.onDelete
+                    ? [`onDelete: ${JSON.stringify(relationship.onDelete)}`]
+                    : []),
+                ...(relationship.onUpdate
+                    ? [`onUpdate: ${JSON.stringify(relationship.onUpdate)}`]
+                    : []),
+            ];
+            if (relationship.columns.length === 1) {
+                // A column referencing its own table needs an explicit
+                // return type to keep the inference from going circular
+                const targetColumn =
+                    target === table
+                        ? `${variable}.${columnKey(relationship.referencedColumns[0])}`
+                        : foreignColumns[0];
+                if (target === table) {
+                    coreImports.add("AnyPgColumn");
+                }
+                references.set(
+                    relationship.columns[0],
+                    `.references(${
+                        target === table ? "(): AnyPgColumn" : "()"
+                    } => ${targetColumn}${
+                        actions.length > 0 ? `, { ${actions.join(", ")} }` : ""
+                    })`
+                );
+            } else {
+                coreImports.add("foreignKey");
+                const fields = [
+                    `name: ${JSON.stringify(relationship.foreignKeyName)}`,
+                    `columns: [${relationship.columns
+                        .map((column) => `table.${columnKey(column)}`)
+                        .join(", ")}]`,
+                    `foreignColumns: [${foreignColumns.join(", ")}]`,
+                ];
+                extras.push(
+                    `foreignKey({\n${fields
+                        .map((field) => `${indent.repeat(3)}${field},`)
+                        .join("\n")}\n${indent.repeat(2)}})${
+                        relationship.onDelete
+                            ? `.onDelete(${JSON.stringify(relationship.onDelete)})`
+                            : ""
+                    }${
+                        relationship.onUpdate
+                            ? `.onUpdate(${JSON.stringify(relationship.onUpdate)})`
+                            : ""
+                    }`
+                );
+            }
+        }
+
+        extras.push(
+            ...table.indexes.map((index) => indexExpression(table, index))
+        );
+
+        // With constraints or indexes the arguments no longer fit one line
+        const depth = extras.length > 0 ? 2 : 1;
+        const columnLines = columns.map((col) => {
+            const [call, builder] = typeBuilder(col, table.schema);
+            let expression = call;
+            if (col.isArray) expression += ".array()";
+            if (col.isPrimaryKey && !compositePrimaryKey) {
+                expression += ".primaryKey()";
+            } else if (!col.nullable) {
+                expression += ".notNull()";
+            }
+            if (col.isUnique) expression += ".unique()";
+            if (col.defaultValue !== null && !builder.endsWith("serial")) {
+                expression += defaultModifier(col, builder);
+            }
+            if (col.identity === "always") {
+                expression += ".generatedAlwaysAsIdentity()";
+            } else if (col.identity === "by_default") {
+                expression += ".generatedByDefaultAsIdentity()";
+            }
+            if (col.generationExpression !== undefined) {
+                usesSql = true;
+                expression += `.generatedAlwaysAs(${sqlTemplate(
+                    col.generationExpression
+                )})`;
+            }
+            expression += references.get(col.name) ?? "";
+
+            const commentLine =
+                includeComments && col.comment
+                    ? `${indent.repeat(depth)}/** ${col.comment} */\n`
+                    : "";
+            return `${commentLine}${indent.repeat(depth)}${propertyKey(
+                columnKey(col.name)
+            )}: ${expression},`;
+        });
+
+        const commentBlock =
+            includeComments && table.comment
+                ? `/**\n * ${table.comment}\n */\n`
+                : "";
+        const builder = declare(table.schema, "table");
+        const name = JSON.stringify(table.name);
+
+        if (extras.length === 0) {
+            return `${commentBlock}export const ${variable} = ${builder}(${name}, {\n${columnLines.join(
+                "\n"
+            )}\n});`;
+        }
+        return `${commentBlock}export const ${variable} = ${builder}(\n${indent}${name},\n${indent}{\n${columnLines.join(
+            "\n"
+        )}\n${indent}},\n${indent}(table) => [\n${extras
+            .map((extra) => `${indent.repeat(2)}${extra},`)
+            .join("\n")}\n${indent}]\n);`;
+    });
+
+    const viewLines = model.views.map((view) => {
+        const variable = variableName(view.schema, schema, view.name);
+        const columnLines = view.columns.filter(isUserColumn).map((col) => {
+            // A view column only reads the value, it has no sequence
+            const [call] = typeBuilder(
+                {
+                    ...col,
+                    type: col.type.replace(
+                        /^(small|big)?serial$/i,
+                        (_, size?: string) =>
+                            size ? `${size.toLowerCase()}int` : "integer"
+                    ),
+                },
+                view.schema
+            );
+            return `${indent}${propertyKey(columnKey(col.name))}: ${call}${
+                col.isArray ? ".array()" : ""
+            }${col.nullable ? "" : ".notNull()"},`;
+        });
+        const commentBlock =
+            includeComments && view.comment
+                ? `/**\n * ${view.comment}\n */\n`
+                : "";
+        const columns =
+            columnLines.length > 0 ? `{\n${columnLines.join("\n")}\n}` : "{}";
+
+        return `${commentBlock}export const ${variable} = ${declare(
+            view.schema,
+            view.isMaterialized ? "materializedView" : "view"
+        )}(${JSON.stringify(view.name)}, ${columns}).existing();`;
+    });
+
+    const sortedImports = Array.from(coreImports)
+        .sort((a, b) => a.localeCompare(b))
+        .map((name) => (name === "AnyPgColumn" ? `type ${name}` : name));
+
+    const sections: Array<[string, string[]]> = [
+        ["Schemas", schemaLines],
+        ["Enums", enumLines],
+        ["Custom Types", customTypeLines],
+        ["Tables", tableLines],
+        ["Views", viewLines],
+    ];
+
+    const body = sections
+        .filter(([, lines]) => lines.length > 0)
+        .map(
+            ([
+                title,
+                lines,
+            ]) => `// ============================================================================
+// ${title}
+// ============================================================================
+
+${lines.join("\n\n")}
+`
+        )
+        .join("\n");
+
+    const imports = [
+        ...(usesSql ? ['import { sql } from "drizzle-orm";'] : []),
+        ...(sortedImports.length > 0
+            ? [
+                  `import {\n${sortedImports
+                      .map((name) => `${indent}${name},`)
+                      .join("\n")}\n} from "drizzle-orm/pg-core";`,
+              ]
+            : []),
+    ];
+
+    return `/**
+ * Auto-generated Drizzle schema for Supabase
+ * Generated: ${new Date().toISOString()}
+ * Schema: ${schema}
+ *
+ * DO NOT EDIT MANUALLY - Run type generation script to regenerate
+ */
+
+${imports.length > 0 ? `${imports.join("\n")}\n\n` : ""}${body}`;
+}
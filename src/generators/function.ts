@@ -2,10 +2,98 @@
  * Function type generation
  */
 
-import type { FunctionDefinition, NamingConvention } from "../types/index.js";
+import type {
+    FunctionDefinition,
+    NamingConvention,
+    DomainDefinition,
+    GeneratorConfig,
+    SchemaModel,
+} from "../types/index.js";
 import { convertCase } from "../utils/naming.js";
 import { mapPostgresTypeToTypeScript } from "../utils/type-mapping.js";
 
+/** Tables, views and composite types whose rows a function can return */
+type RowTypeSources = Pick<SchemaModel, "tables" | "views" | "compositeTypes">;
+
+interface RowType {
+    section: "Tables" | "Views" | "CompositeTypes";
+    schema: string;
+    name: string;
+}
+
+/**
+ * Find the table, view or composite type a type names, either bare (in
+ * `schema`) or schema-qualified
+ */
+function findRowType(
+    type: string,
+    schema: string,
+    sources: RowTypeSources
+): RowType | undefined {
+    const dot = type.indexOf(".");
+    const refSchema = dot === -1 ? schema : type.slice(0, dot);
+    const refName = dot === -1 ? type : type.slice(dot + 1);
+    const matches = (r: { schema: string; name: string }) =>
+        r.schema === refSchema && r.name === refName;
+
+    const sections: Array<
+        [RowType["section"], Array<{ schema: string; name: string }>]
+    > = [
+        ["Tables", sources.tables],
+        ["Views", sources.views],
+        ["CompositeTypes", sources.compositeTypes],
+    ];
+    for (const [section, relations] of sections) {
+        const match = relations.find(matches);
+        if (match) {
+            return { section, schema: match.schema, name: match.name };
+        }
+    }
+    return undefined;
+}
+
+/** Whether a `name` or `schema.name` pattern with `*` wildcards matches */
+function matchesFunction(pattern: string, func: FunctionDefinition): boolean {
+    const regex = new RegExp(
+        `^${pattern
+            .split("*")
+            .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+            .join(".*")}$`
+    );
+    return regex.test(func.name) || regex.test(`${func.schema}.${func.name}`);
+}
+
+/**
+ * Select the functions to generate: trigger functions cannot be called
+ * through PostgREST, and the include and exclude lists pick helpers
+ */
+export function selectFunctions(
+    functions: FunctionDefinition[],
+    options: Pick<
+        GeneratorConfig,
+        "includeTriggerFunctions" | "includeFunctions" | "excludeFunctions"
+    >
+): FunctionDefinition[] {
+    return functions.filter(
+        (func) =>
+            (options.includeTriggerFunctions ||
+                !/^(?:pg_catalog\.)?(?:event_)?trigger$/i.test(func.returns)) &&
+            (options.includeFunctions.length === 0 ||
+                options.includeFunctions.some((pattern) =>
+                    matchesFunction(pattern, func)
+                )) &&
+            !options.excludeFunctions.some((pattern) =>
+                matchesFunction(pattern, func)
+            )
+    );
+}
+
+/**
+ * @param rowTypes - Tables, views and composite types that `SETOF` and
+ * row-typed returns resolve to
+ * @param functionMetadata - Document volatility, security, language and
+ * search_path as JSDoc
+ */
 export function generateFunctionTypes(
     functions: FunctionDefinition[],
     convention: NamingConvention,
@@ -13,7 +101,11 @@ export function generateFunctionTypes(
     availableEnums: Set<string> = new Set(),
     schema: string = "public",
     useGeometricTypes: boolean = false,
-    alphabetical: boolean = false
+    alphabetical: boolean = false,
+    domains: DomainDefinition[] = [],
+    brandDomains: boolean = false,
+    rowTypes: RowTypeSources = { tables: [], views: [], compositeTypes: [] },
+    functionMetadata: boolean = false
 ): string {
     if (functions.length === 0) {
         return "";
@@ -21,9 +113,44 @@ export function generateFunctionTypes(
 
     const indent = " ".repeat(indentSize);
 
-    const funcDefs = functions.map((f) => {
-        const funcName = convertCase(f.name, convention);
+    const mapType = (type: string, isArray: boolean = type.includes("[]")) =>
+        mapPostgresTypeToTypeScript(
+            type,
+            isArray,
+            schema,
+            availableEnums,
+            useGeometricTypes,
+            domains,
+            brandDomains
+        );
+
+    const rowTypeReference = (rowType: RowType) => {
+        const reference = `Database["${rowType.schema}"]["${
+            rowType.section
+        }"]["${convertCase(rowType.name, convention)}"]`;
+        return rowType.section === "CompositeTypes"
+            ? reference
+            : `${reference}["Row"]`;
+    };
+
+    // Arguments and columns may be rows of a table, view or composite type,
+    // and name types of their own schema qualified
+    const argumentType = (type: string) => {
+        const isArray = type.endsWith("[]");
+        const baseType = type.replace(/\[\]$/, "");
+        const rowType = findRowType(baseType, schema, rowTypes);
+        if (!rowType) {
+            const prefix = [`${schema}.`, "pg_catalog."].find((p) =>
+                baseType.startsWith(p)
+            );
+            return mapType(baseType.slice(prefix?.length ?? 0), isArray);
+        }
+        return `${rowTypeReference(rowType)}${isArray ? "[]" : ""}`;
+    };
 
+    // The `{ Args; Returns }` object of one function, laid out at the depth
+    // of a function key
+    const signature = (f: FunctionDefinition) => {
         // Generate Args object
         let argsStr = "";
         if (f.args.length === 0) {
@@ -36,33 +163,69 @@ export function generateFunctionTypes(
 
             const argProps = sortedArgs.map((arg) => {
                 const argName = convertCase(arg.name, convention);
-                const tsType = mapPostgresTypeToTypeScript(
-                    arg.type,
-                    arg.type.includes("[]"),
-                    schema,
-                    availableEnums,
-                    useGeometricTypes
-                );
                 const optional = arg.hasDefault ? "?" : "";
-                return `${indent.repeat(5)}${argName}${optional}: ${tsType}`;
+                return `${indent.repeat(5)}${argName}${optional}: ${argumentType(
+                    arg.type
+                )}`;
             });
             argsStr = `\n${argProps.join("\n")}\n${indent.repeat(4)}`;
         }
 
-        // Map return type
-        const returnsType = mapPostgresTypeToTypeScript(
-            f.returns,
-            f.returns.includes("[]"),
-            schema,
-            availableEnums,
-            useGeometricTypes
-        );
+        // Map return type: the columns of RETURNS TABLE or OUT parameters,
+        // the row of a table, view or composite type, or a plain type
+        const rowType = f.returnColumns
+            ? undefined
+            : findRowType(f.returns, schema, rowTypes);
+        let returnsType: string;
+        if (f.returnColumns) {
+            const columns = f.returnColumns.map(
+                (col) =>
+                    `${indent.repeat(5)}${convertCase(
+                        col.name,
+                        convention
+                    )}: ${argumentType(col.type)}`
+            );
+            returnsType = `{\n${columns.join("\n")}\n${indent.repeat(4)}}`;
+        } else if (rowType) {
+            returnsType = rowTypeReference(rowType);
+        } else if (f.returns.toLowerCase() === "record") {
+            returnsType = "Record<string, unknown>";
+        } else {
+            returnsType = argumentType(f.returns);
+        }
+        if (f.returnsSet) {
+            returnsType =
+                / [|&] /.test(returnsType) && !returnsType.startsWith("{")
+                    ? `(${returnsType})[]`
+                    : `${returnsType}[]`;
+        }
+
+        // Lets supabase-js embed relationships of the returned rows; `from`
+        // is the table of a computed field's row argument
+        let setofOptions = "";
+        if (rowType && rowType.section !== "CompositeTypes") {
+            const fromType =
+                f.args.length === 1
+                    ? findRowType(f.args[0].type, schema, rowTypes)
+                    : undefined;
+            const from =
+                fromType && fromType.section !== "CompositeTypes"
+                    ? convertCase(fromType.name, convention)
+                    : "*";
+            setofOptions = `
+${indent.repeat(4)}SetofOptions: {
+${indent.repeat(5)}from: "${from}"
+${indent.repeat(5)}to: "${convertCase(rowType.name, convention)}"
+${indent.repeat(5)}isOneToOne: ${!f.returnsSet}
+${indent.repeat(5)}isSetofReturn: ${!!f.returnsSet}
+${indent.repeat(4)}}`;
+        }
+
+        const isOneLiner = !returnsType.includes("\n") && !setofOptions;
 
         // Format as one-liner if no arguments or single argument
-        if (argsStr === " never") {
-            return `${indent.repeat(
-                3
-            )}${funcName}: { Args: never; Returns: ${returnsType} }`;
+        if (argsStr === " never" && isOneLiner) {
+            return `{ Args: never; Returns: ${returnsType} }`;
         }
 
         // Check if it's a single argument (no newlines in argsStr)
@@ -70,19 +233,63 @@ export function generateFunctionTypes(
             .trim()
             .split("\n")
             .filter((line) => line.trim());
-        if (argLines.length === 1) {
+        if (argLines.length === 1 && isOneLiner) {
             // Single argument - one liner with proper spacing
-            return `${indent.repeat(
-                3
-            )}${funcName}: { Args: { ${argsStr.trim()} }; Returns: ${returnsType} }`;
+            return `{ Args: { ${argsStr.trim()} }; Returns: ${returnsType} }`;
         }
 
-        // Multiple arguments - multi-line
-        return `${indent.repeat(3)}${funcName}: {
-${indent.repeat(4)}Args: {${argsStr}}
-${indent.repeat(4)}Returns: ${returnsType}
+        // Multiple arguments, row columns or SetofOptions - multi-line
+        const args = argsStr === " never" ? " never" : ` {${argsStr}}`;
+        return `{
+${indent.repeat(4)}Args:${args}
+${indent.repeat(4)}Returns: ${returnsType}${setofOptions}
 ${indent.repeat(3)}}`;
-    });
+    };
+
+    const metadataComment = (f: FunctionDefinition, depth: number) => {
+        const tags = [
+            ...(f.volatility ? [`@volatility ${f.volatility}`] : []),
+            ...(f.securityDefiner ? ["@securityDefiner"] : []),
+            ...(f.language ? [`@language ${f.language}`] : []),
+            ...(f.searchPath !== undefined
+                ? [`@searchPath ${f.searchPath}`]
+                : []),
+        ];
+        if (!functionMetadata || tags.length === 0) {
+            return "";
+        }
+        const pad = indent.repeat(depth);
+        return `${pad}/**\n${tags
+            .map((tag) => `${pad} * ${tag}`)
+            .join("\n")}\n${pad} */\n`;
+    };
+
+    // Overloads share a name, so their signatures become a union
+    const overloadsByName = new Map<string, FunctionDefinition[]>();
+    for (const func of functions) {
+        overloadsByName.set(func.name, [
+            ...(overloadsByName.get(func.name) ?? []),
+            func,
+        ]);
+    }
+
+    const funcDefs = Array.from(overloadsByName.entries()).map(
+        ([name, overloads]) => {
+            const funcName = convertCase(name, convention);
+            if (overloads.length === 1) {
+                return `${metadataComment(overloads[0], 3)}${indent.repeat(
+                    3
+                )}${funcName}: ${signature(overloads[0])}`;
+            }
+            const members = overloads.map(
+                (f) =>
+                    `${metadataComment(f, 4)}${indent.repeat(4)}| ${signature(f)
+                        .split("\n")
+                        .join(`\n${indent}  `)}`
+            );
+            return `${indent.repeat(3)}${funcName}:\n${members.join("\n")}`;
+        }
+    );
 
     return funcDefs.join("\n");
 }
@@ -10,3 +10,10 @@ export * from "./geometric.js";
 export * from "./constants.js";
 export * from "./jsonb.js";
 export * from "./view.js";
+export * from "./zod.js";
+export * from "./valibot.js";
+export * from "./json-schema.js";
+export * from "./kysely.js";
+export * from "./drizzle.js";
+export * from "./diagram.js";
+export * from "./markdown.js";
@@ -0,0 +1,295 @@
+/**
+ * JSON Schema generation
+ */
+
+import type {
+    ColumnDefinition,
+    EnumDefinition,
+    GeneratedFile,
+    NamingConvention,
+    SchemaModel,
+    TableDefinition,
+    TypeDefinition,
+} from "../types/index.js";
+import { convertCase } from "../utils/naming.js";
+import {
+    applyDomainConstraints,
+    checkedColumnValues,
+    domainCheckedValues,
+    insertMode,
+    isGeneratedAlways,
+    mapPostgresTypeToTypeScript,
+    resolveDomainBaseType,
+} from "../utils/type-mapping.js";
+
+type JsonSchema = Record<string, unknown>;
+
+const DRAFT_2020_12 = "https://json-schema.org/draft/2020-12/schema";
+
+const GENERATED_NOTE =
+    "Auto-generated by supabase-typegen - DO NOT EDIT MANUALLY";
+
+const INTEGER_TYPES = new Set([
+    "smallint",
+    "integer",
+    "bigint",
+    "int2",
+    "int4",
+    "int8",
+    "smallserial",
+    "serial",
+    "bigserial",
+]);
+
+const STRING_FORMATS: Record<string, string> = {
+    uuid: "uuid",
+    timestamp: "date-time",
+    "timestamp without time zone": "date-time",
+    "timestamp with time zone": "date-time",
+    timestamptz: "date-time",
+    date: "date",
+};
+
+function isUserColumn(col: ColumnDefinition): boolean {
+    const colNameLower = col.name.toLowerCase();
+    return colNameLower !== "this" && colNameLower !== "constraint";
+}
+
+/**
+ * JSON Schema for a value inferred from a JSONB default
+ */
+function jsonValueSchema(value: unknown): JsonSchema {
+    if (Array.isArray(value)) {
+        return value.length === 0
+            ? { type: "array" }
+            : { type: "array", items: jsonValueSchema(value[0]) };
+    }
+
+    if (value !== null && typeof value === "object") {
+        const entries = Object.entries(value);
+        return {
+            type: "object",
+            properties: Object.fromEntries(
+                entries.map(([key, val]) => [key, jsonValueSchema(val)])
+            ),
+            required: entries.map(([key]) => key),
+        };
+    }
+
+    if (typeof value === "string") return { type: "string" };
+    if (typeof value === "number") return { type: "number" };
+    if (typeof value === "boolean") return { type: "boolean" };
+    return {};
+}
+
+function nullable(schema: JsonSchema): JsonSchema {
+    if (typeof schema.type === "string") {
+        return {
+            ...schema,
+            type: [schema.type, "null"],
+            ...(Array.isArray(schema.enum)
+                ? { enum: [...schema.enum, null] }
+                : {}),
+        };
+    }
+    if (Object.keys(schema).length === 0) {
+        return schema;
+    }
+    return { anyOf: [schema, { type: "null" }] };
+}
+
+/**
+ * Generate a Draft 2020-12 JSON Schema document per table and per
+ * inferred JSONB type (under `jsonb/`)
+ *
+ * A table document describes its `Row`, `Insert` and `Update` shapes in
+ * `$defs` (the document itself validates a `Row`), next to the enums and
+ * JSONB types its columns use, so every document is self-contained.
+ *
+ * @returns Documents with paths relative to the JSON Schema directory
+ */
+export function generateJsonSchemas(
+    model: SchemaModel,
+    jsonbTypes: TypeDefinition[],
+    convention: NamingConvention,
+    indentSize: number = 2,
+    includeComments: boolean = true,
+    schema: string = "public"
+): GeneratedFile[] {
+    const enumsByKey = new Map<string, EnumDefinition>(
+        model.enums.map((e) => [`${e.schema}.${e.name}`, e])
+    );
+    const jsonbByColumn = new Map<string, TypeDefinition>();
+    for (const type of jsonbTypes) {
+        if (type.table && type.example) {
+            jsonbByColumn.set(`${type.table}.${type.column}`, type);
+        }
+    }
+
+    const jsonbDocument = (type: TypeDefinition): JsonSchema => ({
+        ...jsonValueSchema(type.example),
+        ...(includeComments && type.comment
+            ? { description: type.comment }
+            : {}),
+    });
+
+    const fileName = (schemaName: string, name: string) =>
+        `${schemaName === schema ? "" : `${schemaName}.`}${name}.schema.json`;
+
+    const toFile = (path: string, document: JsonSchema): GeneratedFile => ({
+        path,
+        content: `${JSON.stringify(document, null, indentSize)}\n`,
+    });
+
+    const tableDocument = (table: TableDefinition): GeneratedFile => {
+        const defs: Record<string, JsonSchema> = {};
+        const availableEnums = new Set(
+            model.enums
+                .filter((e) => e.schema === table.schema)
+                .map((e) => e.name)
+        );
+
+        const baseSchema = (col: ColumnDefinition): JsonSchema => {
+            const jsonbType =
+                table.schema === schema
+                    ? jsonbByColumn.get(`${table.name}.${col.name}`)
+                    : undefined;
+            if (jsonbType) {
+                defs[jsonbType.name] = jsonbDocument(jsonbType);
+                return { $ref: `#/$defs/${jsonbType.name}` };
+            }
+
+            const enumDef = enumsByKey.get(`${table.schema}.${col.type}`);
+            if (enumDef) {
+                const enumName = convertCase(enumDef.name, convention);
+                defs[enumName] = { type: "string", enum: enumDef.values };
+                return { $ref: `#/$defs/${enumName}` };
+            }
+
+            const baseTypeName = col.type
+                .toLowerCase()
+                .replace(/\([^)]*\)/, "")
+                .trim();
+            const tsType = mapPostgresTypeToTypeScript(
+                col.type,
+                false,
+                table.schema,
+                availableEnums
+            );
+
+            if (tsType === "number") {
+                return {
+                    type: INTEGER_TYPES.has(baseTypeName)
+                        ? "integer"
+                        : "number",
+                };
+            }
+            if (tsType === "boolean") {
+                return { type: "boolean" };
+            }
+            if (tsType === "string") {
+                const maxLength = col.type.match(
+                    /^(?:varchar|character varying)\s*\(\s*(\d+)\s*\)$/i
+                );
+                return {
+                    type: "string",
+                    ...(STRING_FORMATS[baseTypeName]
+                        ? { format: STRING_FORMATS[baseTypeName] }
+                        : {}),
+                    ...(maxLength ? { maxLength: Number(maxLength[1]) } : {}),
+                };
+            }
+            return {};
+        };
+
+        const columns = table.columns
+            .filter(isUserColumn)
+            .map((col) =>
+                applyDomainConstraints(col, table.schema, model.domains)
+            );
+        const checkedValues = checkedColumnValues(table);
+        const properties = Object.fromEntries(
+            columns.map((col) => {
+                // Domains are described as their base type
+                const domainBase = resolveDomainBaseType(
+                    col.type,
+                    table.schema,
+                    model.domains
+                );
+                const base = baseSchema({ ...col, type: domainBase.type });
+                const values =
+                    checkedValues.get(col.name) ??
+                    domainCheckedValues(col.type, table.schema, model.domains);
+                const valueSchema =
+                    col.isArray || domainBase.isArray
+                        ? { type: "array", items: base }
+                        : values
+                          ? { ...base, enum: values }
+                          : base;
+                return [
+                    convertCase(col.name, convention),
+                    {
+                        ...(col.nullable ? nullable(valueSchema) : valueSchema),
+                        ...(includeComments && col.comment
+                            ? { description: col.comment }
+                            : {}),
+                    },
+                ];
+            })
+        );
+
+        const objectSchema = (
+            included: ColumnDefinition[],
+            required: ColumnDefinition[]
+        ): JsonSchema => {
+            const keys = (cols: ColumnDefinition[]) =>
+                cols.map((col) => convertCase(col.name, convention));
+            return {
+                type: "object",
+                properties: Object.fromEntries(
+                    keys(included).map((key) => [key, properties[key]])
+                ),
+                required: keys(required),
+                additionalProperties: false,
+            };
+        };
+        // Leaving out GENERATED ALWAYS columns rejects values for them
+        const writable = columns.filter((col) => !isGeneratedAlways(col));
+
+        const tableName = convertCase(table.name, convention);
+        const path = fileName(table.schema, table.name);
+
+        return toFile(path, {
+            $schema: DRAFT_2020_12,
+            $id: path,
+            $comment: GENERATED_NOTE,
+            title: tableName,
+            ...(includeComments && table.comment
+                ? { description: table.comment }
+                : {}),
+            $ref: "#/$defs/Row",
+            $defs: {
+                Row: objectSchema(columns, columns),
+                Insert: objectSchema(
+                    writable,
+                    writable.filter((col) => insertMode(col) === "required")
+                ),
+                Update: objectSchema(writable, []),
+                ...defs,
+            },
+        });
+    };
+
+    const jsonbFiles = Array.from(jsonbByColumn.values()).map((type) => {
+        const path = `jsonb/${type.name}.schema.json`;
+        return toFile(path, {
+            $schema: DRAFT_2020_12,
+            $id: path,
+            $comment: GENERATED_NOTE,
+            title: type.name,
+            ...jsonbDocument(type),
+        });
+    });
+
+    return [...model.tables.map(tableDocument), ...jsonbFiles];
+}
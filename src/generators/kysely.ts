@@ -0,0 +1,307 @@
+/**
+ * Kysely database interface generation
+ */
+
+import type {
+    ColumnDefinition,
+    Int8Type,
+    NamingConvention,
+    SchemaModel,
+} from "../types/index.js";
+import { convertCase, propertyKey } from "../utils/naming.js";
+import {
+    applyDomainConstraints,
+    checkedColumnValues,
+    domainCheckedValues,
+    isGeneratedAlways,
+    mapPostgresTypeToTypeScript,
+    resolveDomainBaseType,
+} from "../utils/type-mapping.js";
+
+// Schema Kysely resolves unqualified table names in
+const DEFAULT_SCHEMA = "public";
+
+const SERIAL_TYPES = new Set(["smallserial", "serial", "bigserial"]);
+
+const INT8_TYPES = new Set(["bigint", "int8", "bigserial"]);
+
+const TIMESTAMP_TYPES = new Set([
+    "timestamp",
+    "timestamp without time zone",
+    "timestamp with time zone",
+    "timestamptz",
+    "date",
+]);
+
+function isUserColumn(col: ColumnDefinition): boolean {
+    const colNameLower = col.name.toLowerCase();
+    return colNameLower !== "this" && colNameLower !== "constraint";
+}
+
+function baseTypeName(pgType: string): string {
+    return pgType
+        .toLowerCase()
+        .replace(/\([^)]*\)/, "")
+        .trim();
+}
+
+/**
+ * PascalCase type name such as `UserProfiles`, prefixed with the schema
+ * name outside the default schema
+ */
+function typeName(schemaName: string, name: string): string {
+    const words = schemaName === DEFAULT_SCHEMA ? [name] : [schemaName, name];
+    const identifier = convertCase(
+        words.join("_").replace(/\W+/g, "_"),
+        "PascalCase"
+    );
+    return /^\d/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+/**
+ * Generate a module of Kysely table interfaces and the `DB` interface to
+ * pass to `new Kysely<DB>()`
+ *
+ * Columns with a default or a BY DEFAULT identity are wrapped in
+ * `Generated<T>`, GENERATED ALWAYS columns in `GeneratedAlways<T>`, and
+ * timestamps use `ColumnType` so that they select as `Date` but accept
+ * strings. Tables outside the `public` schema are keyed as `schema.table`.
+ *
+ * @param int8Type - TypeScript type of `int8` columns
+ */
+export function generateKyselyTypes(
+    model: SchemaModel,
+    convention: NamingConvention,
+    int8Type: Int8Type = "string",
+    indentSize: number = 2,
+    includeComments: boolean = true,
+    schema: string = "public"
+): string {
+    const indent = " ".repeat(indentSize);
+    const usedAliases = new Set<string>();
+
+    const enumTypes = new Map<string, string>();
+    const enumLines = model.enums.map((enumDef) => {
+        const name = typeName(enumDef.schema, enumDef.name);
+        enumTypes.set(`${enumDef.schema}.${enumDef.name}`, name);
+        const values = enumDef.values.map((value) => JSON.stringify(value));
+        return `export type ${name} = ${
+            values.length > 0 ? values.join(" | ") : "never"
+        };`;
+    });
+
+    const columnType = (
+        col: ColumnDefinition,
+        schemaName: string,
+        allowedValues: Array<string | number> | undefined
+    ): string => {
+        // Columns of a domain type are typed as its base type
+        const resolved = resolveDomainBaseType(
+            col.type,
+            schemaName,
+            model.domains
+        );
+        const isArray = col.isArray || resolved.isArray;
+        const values =
+            (isArray ? undefined : allowedValues) ??
+            domainCheckedValues(col.type, schemaName, model.domains);
+        const baseType = baseTypeName(resolved.type);
+        let tsType: string;
+        if (values) {
+            tsType = values.map((v) => JSON.stringify(v)).join(" | ");
+            if (isArray && values.length > 1) {
+                tsType = `(${tsType})`;
+            }
+        } else if (TIMESTAMP_TYPES.has(baseType)) {
+            tsType = "Timestamp";
+        } else if (INT8_TYPES.has(baseType)) {
+            // node-postgres returns int8 as a string unless a type parser
+            // is installed
+            tsType = int8Type === "string" ? "Int8" : int8Type;
+        } else {
+            tsType =
+                enumTypes.get(`${schemaName}.${resolved.type}`) ??
+                enumTypes.get(resolved.type) ??
+                mapPostgresTypeToTypeScript(resolved.type, false, schemaName);
+        }
+
+        const isColumnType = tsType === "Timestamp" || tsType === "Int8";
+        if (isColumnType) {
+            usedAliases.add(tsType);
+        }
+        if (isArray) {
+            if (isColumnType) {
+                usedAliases.add("ArrayType");
+                tsType = `ArrayType<${tsType}>`;
+            } else {
+                tsType = `${tsType}[]`;
+            }
+        }
+        return col.nullable ? `${tsType} | null` : tsType;
+    };
+
+    const commentBlock = (comment: string | undefined, depth: number) =>
+        includeComments && comment
+            ? `${indent.repeat(depth)}/** ${comment} */\n`
+            : "";
+
+    const interfaceBlock = (
+        name: string,
+        columns: ColumnDefinition[],
+        schemaName: string,
+        comment: string | undefined,
+        hasDefaults: boolean,
+        checkedValues: Map<string, Array<string | number>> = new Map()
+    ): string => {
+        const header =
+            includeComments && comment ? `/**\n * ${comment}\n */\n` : "";
+        if (columns.length === 0) {
+            return `${header}export type ${name} = Record<string, unknown>;`;
+        }
+
+        const lines = columns.map((col) => {
+            let type = columnType(col, schemaName, checkedValues.get(col.name));
+            if (hasDefaults && isGeneratedAlways(col)) {
+                usedAliases.add("GeneratedAlways");
+                type = `GeneratedAlways<${type}>`;
+            } else if (
+                hasDefaults &&
+                (col.defaultValue !== null ||
+                    col.identity ||
+                    SERIAL_TYPES.has(baseTypeName(col.type)))
+            ) {
+                usedAliases.add("Generated");
+                type = `Generated<${type}>`;
+            }
+            return `${commentBlock(col.comment, 1)}${indent}${propertyKey(
+                convertCase(col.name, convention)
+            )}: ${type};`;
+        });
+        return `${header}export interface ${name} {\n${lines.join("\n")}\n}`;
+    };
+
+    const relationKey = (schemaName: string, name: string) =>
+        schemaName === DEFAULT_SCHEMA
+            ? convertCase(name, convention)
+            : `${convertCase(schemaName, convention)}.${convertCase(
+                  name,
+                  convention
+              )}`;
+
+    const dbEntries: string[] = [];
+
+    const tableLines = model.tables.map((table) => {
+        const name = typeName(table.schema, table.name);
+        dbEntries.push(
+            `${indent}${propertyKey(relationKey(table.schema, table.name))}: ${name};`
+        );
+        return interfaceBlock(
+            name,
+            table.columns
+                .filter(isUserColumn)
+                .map((col) =>
+                    applyDomainConstraints(col, table.schema, model.domains)
+                ),
+            table.schema,
+            table.comment,
+            true,
+            checkedColumnValues(table)
+        );
+    });
+
+    const viewLines = model.views.map((view) => {
+        const name = typeName(view.schema, view.name);
+        dbEntries.push(
+            `${indent}${propertyKey(relationKey(view.schema, view.name))}: ${name};`
+        );
+        return interfaceBlock(
+            name,
+            view.columns.filter(isUserColumn),
+            view.schema,
+            view.comment,
+            false
+        );
+    });
+
+    const helperLines: string[] = [
+        "export type Json =\n" +
+            `${indent}| string\n` +
+            `${indent}| number\n` +
+            `${indent}| boolean\n` +
+            `${indent}| null\n` +
+            `${indent}| { [key: string]: Json | undefined }\n` +
+            `${indent}| Json[];`,
+    ];
+    if (usedAliases.has("Timestamp")) {
+        helperLines.push(
+            "export type Timestamp = ColumnType<Date, Date | string, Date | string>;"
+        );
+    }
+    if (usedAliases.has("Int8")) {
+        helperLines.push(
+            "export type Int8 = ColumnType<string, string | number | bigint, string | number | bigint>;"
+        );
+    }
+    // Unlike Kysely's own Generated, keeps the select and update types of
+    // a wrapped ColumnType such as Timestamp
+    if (usedAliases.has("Generated")) {
+        helperLines.push(
+            "export type Generated<T> =\n" +
+                `${indent}T extends ColumnType<infer S, infer I, infer U>\n` +
+                `${indent.repeat(2)}? ColumnType<S, I | undefined, U>\n` +
+                `${indent.repeat(2)}: ColumnType<T, T | undefined, T>;`
+        );
+    }
+    if (usedAliases.has("GeneratedAlways")) {
+        helperLines.push(
+            "export type GeneratedAlways<T> =\n" +
+                `${indent}T extends ColumnType<infer S, any, any>\n` +
+                `${indent.repeat(2)}? ColumnType<S, never, never>\n` +
+                `${indent.repeat(2)}: ColumnType<T, never, never>;`
+        );
+    }
+    if (usedAliases.has("ArrayType")) {
+        helperLines.push(
+            "export type ArrayType<T> =\n" +
+                `${indent}T extends ColumnType<infer S, infer I, infer U>\n` +
+                `${indent.repeat(2)}? ColumnType<S[], I[], U[]>\n` +
+                `${indent.repeat(2)}: T[];`
+        );
+    }
+
+    const sections: Array<[string, string[]]> = [
+        ["Helpers", helperLines],
+        ["Enums", enumLines],
+        ["Tables", tableLines],
+        ["Views", viewLines],
+        ["Database", [`export interface DB {\n${dbEntries.join("\n")}\n}`]],
+    ];
+
+    const body = sections
+        .filter(([, lines]) => lines.length > 0)
+        .map(
+            ([
+                title,
+                lines,
+            ]) => `// ============================================================================
+// ${title}
+// ============================================================================
+
+${lines.join("\n\n")}
+`
+        )
+        .join("\n");
+
+    return `/**
+ * Auto-generated Kysely types for Supabase
+ * Generated: ${new Date().toISOString()}
+ * Schema: ${schema}
+ *
+ * DO NOT EDIT MANUALLY - Run type generation script to regenerate
+ */
+${
+    // Every helper type is built on ColumnType
+    usedAliases.size > 0 ? `\nimport type { ColumnType } from "kysely";\n` : ""
+}
+${body}`;
+}
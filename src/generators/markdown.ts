@@ -0,0 +1,440 @@
+/**
+ * Markdown data dictionary generation
+ */
+
+import type {
+    ColumnDefinition,
+    DomainDefinition,
+    EnumDefinition,
+    GeneratedFile,
+    SchemaModel,
+    TableDefinition,
+    ViewDefinition,
+} from "../types/index.js";
+import {
+    findReferencedTable,
+    findViewSources,
+} from "../utils/relationships.js";
+import { applyDomainConstraints } from "../utils/type-mapping.js";
+
+const GENERATED_NOTE =
+    "<!-- Auto-generated by supabase-typegen - DO NOT EDIT MANUALLY -->";
+
+/** Link to the section of a table, view, enum or domain */
+type LinkTarget = (schema: string, name: string) => string;
+
+interface Incoming {
+    table: TableDefinition;
+    columns: string[];
+    referencedColumns: string[];
+}
+
+function isUserColumn(col: ColumnDefinition): boolean {
+    const colNameLower = col.name.toLowerCase();
+    return colNameLower !== "this" && colNameLower !== "constraint";
+}
+
+function anchor(schema: string, name: string): string {
+    return `${schema}.${name}`;
+}
+
+function code(value: string): string {
+    return value.includes("`") ? `\`\` ${value} \`\`` : `\`${value}\``;
+}
+
+/** Escape a value for a table cell */
+function cell(value: string): string {
+    return value.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+function description(comment: string | undefined): string {
+    return comment ? cell(comment) : "";
+}
+
+function columnList(columns: string[]): string {
+    return columns.map(code).join(", ");
+}
+
+function markdownTable(headers: string[], rows: string[][]): string[] {
+    return [
+        `| ${headers.join(" | ")} |`,
+        `| ${headers.map(() => "---").join(" | ")} |`,
+        ...rows.map((row) => `| ${row.join(" | ")} |`),
+    ];
+}
+
+/**
+ * Shared lookups for every section: enums and domains by name, incoming
+ * foreign keys and the views reading from each table
+ */
+function buildIndex(model: SchemaModel) {
+    const typesByKey = new Map<string, EnumDefinition | DomainDefinition>(
+        [...model.enums, ...model.domains].map((t) => [
+            `${t.schema}.${t.name}`,
+            t,
+        ])
+    );
+
+    const incoming = new Map<TableDefinition, Incoming[]>();
+    for (const table of model.tables) {
+        for (const relationship of table.relationships) {
+            const target = findReferencedTable(
+                model.tables,
+                relationship.referencedRelation,
+                table.schema
+            );
+            if (!target) continue;
+            incoming.set(target, [
+                ...(incoming.get(target) ?? []),
+                {
+                    table,
+                    columns: relationship.columns,
+                    referencedColumns: relationship.referencedColumns,
+                },
+            ]);
+        }
+    }
+
+    const viewsBySource = new Map<string, ViewDefinition[]>();
+    for (const view of model.views) {
+        if (!view.definition) continue;
+        for (const source of findViewSources(view.definition, view.schema)) {
+            viewsBySource.set(source, [
+                ...(viewsBySource.get(source) ?? []),
+                view,
+            ]);
+        }
+    }
+
+    return { typesByKey, incoming, viewsBySource };
+}
+
+type ModelIndex = ReturnType<typeof buildIndex>;
+
+/** The default, identity or generation expression of a column */
+function columnDefault(col: ColumnDefinition): string | null {
+    if (col.identity) {
+        return `generated ${
+            col.identity === "always" ? "always" : "by default"
+        } as identity`;
+    }
+    if (col.generationExpression !== undefined) {
+        return `generated always as (${col.generationExpression})`;
+    }
+    return col.defaultValue;
+}
+
+function columnRows(
+    columns: ColumnDefinition[],
+    schemaName: string,
+    index: ModelIndex,
+    link: LinkTarget,
+    includeComments: boolean,
+    foreignKeyColumns: Set<string> = new Set()
+): string[][] {
+    return columns.filter(isUserColumn).map((col) => {
+        const typeDef = index.typesByKey.get(`${schemaName}.${col.type}`);
+        const type = code(`${col.type}${col.isArray ? "[]" : ""}`);
+        const defaultValue = columnDefault(col);
+        const keys = [
+            ...(col.isPrimaryKey ? ["PK"] : []),
+            ...(foreignKeyColumns.has(col.name) ? ["FK"] : []),
+            ...(col.isUnique ? ["unique"] : []),
+        ];
+        return [
+            code(col.name),
+            typeDef ? `[${type}](${link(typeDef.schema, typeDef.name)})` : type,
+            col.nullable ? "yes" : "no",
+            defaultValue !== null ? cell(code(defaultValue)) : "",
+            keys.join(", "),
+            includeComments ? description(col.comment) : "",
+        ];
+    });
+}
+
+function renderTable(
+    table: TableDefinition,
+    model: SchemaModel,
+    index: ModelIndex,
+    link: LinkTarget,
+    includeComments: boolean
+): string[] {
+    const lines = [
+        `<a id="${anchor(table.schema, table.name)}"></a>`,
+        "",
+        `### ${code(table.name)}`,
+        "",
+    ];
+    if (includeComments && table.comment) {
+        lines.push(table.comment, "");
+    }
+
+    const foreignKeyColumns = new Set(
+        table.relationships.flatMap((relationship) => relationship.columns)
+    );
+    lines.push(
+        ...markdownTable(
+            ["Column", "Type", "Nullable", "Default", "Key", "Description"],
+            columnRows(
+                table.columns.map((col) =>
+                    applyDomainConstraints(col, table.schema, model.domains)
+                ),
+                table.schema,
+                index,
+                link,
+                includeComments,
+                foreignKeyColumns
+            )
+        ),
+        ""
+    );
+
+    const tableLink = (target: TableDefinition) =>
+        `[${code(
+            target.schema === table.schema
+                ? target.name
+                : `${target.schema}.${target.name}`
+        )}](${link(target.schema, target.name)})`;
+
+    const references = table.relationships.map((relationship) => {
+        const target = findReferencedTable(
+            model.tables,
+            relationship.referencedRelation,
+            table.schema
+        );
+        return `- ${columnList(relationship.columns)} → ${
+            target ? tableLink(target) : code(relationship.referencedRelation)
+        } (${columnList(relationship.referencedColumns)})`;
+    });
+    if (references.length > 0) {
+        lines.push("**References**", "", ...references, "");
+    }
+
+    const referencedBy = (index.incoming.get(table) ?? []).map(
+        (entry) =>
+            `- ${tableLink(entry.table)} (${columnList(
+                entry.columns
+            )}) → ${columnList(entry.referencedColumns)}`
+    );
+    if (referencedBy.length > 0) {
+        lines.push("**Referenced by**", "", ...referencedBy, "");
+    }
+
+    if (table.indexes.length > 0) {
+        lines.push(
+            "**Indexes**",
+            "",
+            ...table.indexes.map((idx) => {
+                const details = [
+                    ...(idx.isUnique ? ["unique"] : []),
+                    ...(idx.method ? [idx.method.toLowerCase()] : []),
+                ];
+                return `- ${code(idx.name)}${
+                    details.length > 0 ? ` (${details.join(", ")})` : ""
+                } on ${columnList(idx.columns)}${
+                    idx.whereClause ? ` where ${code(idx.whereClause)}` : ""
+                }`;
+            }),
+            ""
+        );
+    }
+
+    const checks = table.checkConstraints ?? [];
+    if (checks.length > 0) {
+        lines.push(
+            "**Check constraints**",
+            "",
+            ...checks.map(
+                (check) => `- ${code(check.name)}: ${code(check.expression)}`
+            ),
+            ""
+        );
+    }
+
+    const views =
+        index.viewsBySource.get(anchor(table.schema, table.name)) ?? [];
+    if (views.length > 0) {
+        lines.push(
+            "**Used by views**",
+            "",
+            ...views.map(
+                (view) =>
+                    `- [${code(
+                        view.schema === table.schema
+                            ? view.name
+                            : `${view.schema}.${view.name}`
+                    )}](${link(view.schema, view.name)})`
+            ),
+            ""
+        );
+    }
+
+    return lines;
+}
+
+function renderView(
+    view: ViewDefinition,
+    index: ModelIndex,
+    link: LinkTarget,
+    includeComments: boolean
+): string[] {
+    const lines = [
+        `<a id="${anchor(view.schema, view.name)}"></a>`,
+        "",
+        `### ${code(view.name)}${view.isMaterialized ? " (materialized)" : ""}`,
+        "",
+    ];
+    if (includeComments && view.comment) {
+        lines.push(view.comment, "");
+    }
+    lines.push(
+        ...markdownTable(
+            ["Column", "Type", "Nullable", "Description"],
+            columnRows(
+                view.columns,
+                view.schema,
+                index,
+                link,
+                includeComments
+            ).map(([name, type, nullable, , , comment]) => [
+                name,
+                type,
+                nullable,
+                comment,
+            ])
+        ),
+        ""
+    );
+    return lines;
+}
+
+function renderDomain(domain: DomainDefinition): string[] {
+    const details = [
+        `- Type: ${code(`${domain.baseType}${domain.isArray ? "[]" : ""}`)}`,
+        `- Nullable: ${domain.nullable ? "yes" : "no"}`,
+        ...(domain.defaultValue !== null
+            ? [`- Default: ${code(domain.defaultValue)}`]
+            : []),
+        ...(domain.checkConstraints ?? []).map(
+            (check) => `- Check ${code(check.name)}: ${code(check.expression)}`
+        ),
+    ];
+    return [
+        `<a id="${anchor(domain.schema, domain.name)}"></a>`,
+        "",
+        `### ${code(domain.name)} (domain)`,
+        "",
+        ...details,
+        "",
+    ];
+}
+
+/**
+ * Render the tables, views, enums and domains of one schema under an
+ * `## heading`
+ */
+function renderSchema(
+    schemaName: string,
+    model: SchemaModel,
+    index: ModelIndex,
+    link: LinkTarget,
+    includeComments: boolean
+): string[] {
+    const tables = model.tables.filter((t) => t.schema === schemaName);
+    const views = model.views.filter((v) => v.schema === schemaName);
+    const enums = model.enums.filter((e) => e.schema === schemaName);
+    const domains = model.domains.filter((d) => d.schema === schemaName);
+
+    return [
+        `## Schema ${code(schemaName)}`,
+        "",
+        ...tables.flatMap((table) =>
+            renderTable(table, model, index, link, includeComments)
+        ),
+        ...views.flatMap((view) =>
+            renderView(view, index, link, includeComments)
+        ),
+        ...enums.flatMap((enumDef) => [
+            `<a id="${anchor(enumDef.schema, enumDef.name)}"></a>`,
+            "",
+            `### ${code(enumDef.name)} (enum)`,
+            "",
+            ...enumDef.values.map((value) => `- ${code(value)}`),
+            "",
+        ]),
+        ...domains.flatMap(renderDomain),
+    ];
+}
+
+function schemaNames(model: SchemaModel, mainSchema: string): string[] {
+    const names = new Set<string>([
+        ...model.tables.map((t) => t.schema),
+        ...model.views.map((v) => v.schema),
+        ...model.enums.map((e) => e.schema),
+        ...model.domains.map((d) => d.schema),
+    ]);
+    return Array.from(names).sort((a, b) =>
+        a === mainSchema ? -1 : b === mainSchema ? 1 : a.localeCompare(b)
+    );
+}
+
+function document(title: string, sections: string[]): string {
+    return `${GENERATED_NOTE}\n\n# ${title}\n\n${sections
+        .join("\n")
+        .trimEnd()}\n`;
+}
+
+/**
+ * Generate a Markdown data dictionary of every schema in one document
+ *
+ * Each table lists its columns, foreign keys in both directions, indexes
+ * and the views reading from it.
+ */
+export function generateMarkdownDocs(
+    model: SchemaModel,
+    includeComments: boolean = true,
+    schema: string = "public"
+): string {
+    const index = buildIndex(model);
+    const link: LinkTarget = (schemaName, name) =>
+        `#${anchor(schemaName, name)}`;
+    return document(
+        "Database Schema",
+        schemaNames(model, schema).flatMap((schemaName) =>
+            renderSchema(schemaName, model, index, link, includeComments)
+        )
+    );
+}
+
+/**
+ * Generate one Markdown data dictionary per schema, linking across files
+ *
+ * @returns Documents named `<schema>.md`
+ */
+export function generateMarkdownDocsPerSchema(
+    model: SchemaModel,
+    includeComments: boolean = true,
+    schema: string = "public"
+): GeneratedFile[] {
+    const index = buildIndex(model);
+    return schemaNames(model, schema).map((schemaName) => {
+        const link: LinkTarget = (targetSchema, name) =>
+            `${targetSchema === schemaName ? "" : `${targetSchema}.md`}#${anchor(
+                targetSchema,
+                name
+            )}`;
+        return {
+            path: `${schemaName}.md`,
+            content: document(
+                `Schema ${code(schemaName)}`,
+                renderSchema(
+                    schemaName,
+                    model,
+                    index,
+                    link,
+                    includeComments
+                ).slice(2)
+            ),
+        };
+    });
+}
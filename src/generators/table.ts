@@ -4,11 +4,19 @@
 
 import type {
     TableDefinition,
+    ColumnDefinition,
     NamingConvention,
     IndexDefinition,
+    DomainDefinition,
 } from "../types/index.js";
 import { convertCase } from "../utils/naming.js";
-import { mapPostgresTypeToTypeScript } from "../utils/type-mapping.js";
+import {
+    applyDomainConstraints,
+    checkedColumnValues,
+    insertMode,
+    isGeneratedAlways,
+    mapPostgresTypeToTypeScript,
+} from "../utils/type-mapping.js";
 
 function generateIndexMetadata(
     indexes: IndexDefinition[],
@@ -53,26 +61,43 @@ export function generateTableType(
     includeComments: boolean = true,
     availableEnums: Set<string> = new Set(),
     schema: string = "public",
-    useGeometricTypes: boolean = false
+    useGeometricTypes: boolean = false,
+    domains: DomainDefinition[] = [],
+    brandDomains: boolean = false
 ): string {
     const tableName = convertCase(table.name, convention);
     const indent = " ".repeat(indentSize);
 
     // Filter out 'this' and 'constraint' columns
-    const filteredColumns = table.columns.filter((col) => {
-        const colNameLower = col.name.toLowerCase();
-        return colNameLower !== "this" && colNameLower !== "constraint";
-    });
-
-    const rowColumns = filteredColumns.map((col) => {
-        const colName = convertCase(col.name, convention);
-        const tsType = mapPostgresTypeToTypeScript(
+    const filteredColumns = table.columns
+        .filter((col) => {
+            const colNameLower = col.name.toLowerCase();
+            return colNameLower !== "this" && colNameLower !== "constraint";
+        })
+        .map((col) => applyDomainConstraints(col, schema, domains));
+
+    // Columns narrowed by `IN (...)` / `= ANY (ARRAY[...])` CHECK
+    // constraints become literal unions
+    const checkedValues = checkedColumnValues(table);
+    const columnType = (col: ColumnDefinition) =>
+        (!col.isArray &&
+            checkedValues
+                .get(col.name)
+                ?.map((v) => JSON.stringify(v))
+                .join(" | ")) ||
+        mapPostgresTypeToTypeScript(
             col.type,
             col.isArray,
             schema,
             availableEnums,
-            useGeometricTypes
+            useGeometricTypes,
+            domains,
+            brandDomains
         );
+
+    const rowColumns = filteredColumns.map((col) => {
+        const colName = convertCase(col.name, convention);
+        const tsType = columnType(col);
         const nullable = col.nullable ? " | null" : "";
 
         const commentLine =
@@ -85,19 +110,15 @@ export function generateTableType(
         )}${colName}: ${tsType}${nullable}`;
     });
 
+    // Postgres rejects values for GENERATED ALWAYS columns
+    const writeType = (col: ColumnDefinition) =>
+        isGeneratedAlways(col)
+            ? "never"
+            : `${columnType(col)}${col.nullable ? " | null" : ""}`;
+
     const insertColumns = filteredColumns.map((col) => {
         const colName = convertCase(col.name, convention);
-        const tsType = mapPostgresTypeToTypeScript(
-            col.type,
-            col.isArray,
-            schema,
-            availableEnums,
-            useGeometricTypes
-        );
-        const hasDefault = col.defaultValue !== null;
-        const isOptional = hasDefault || col.nullable;
-        const optionalMark = isOptional ? "?" : "";
-        const nullable = col.nullable ? " | null" : "";
+        const optionalMark = insertMode(col) === "required" ? "" : "?";
 
         const commentLine =
             includeComments && col.comment
@@ -106,19 +127,11 @@ export function generateTableType(
 
         return `${commentLine}${indent.repeat(
             5
-        )}${colName}${optionalMark}: ${tsType}${nullable}`;
+        )}${colName}${optionalMark}: ${writeType(col)}`;
     });
 
     const updateColumns = filteredColumns.map((col) => {
         const colName = convertCase(col.name, convention);
-        const tsType = mapPostgresTypeToTypeScript(
-            col.type,
-            col.isArray,
-            schema,
-            availableEnums,
-            useGeometricTypes
-        );
-        const nullable = col.nullable ? " | null" : "";
 
         const commentLine =
             includeComments && col.comment
@@ -127,7 +140,7 @@ export function generateTableType(
 
         return `${commentLine}${indent.repeat(
             5
-        )}${colName}?: ${tsType}${nullable}`;
+        )}${colName}?: ${writeType(col)}`;
     });
 
     // Generate relationships array
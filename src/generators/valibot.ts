@@ -0,0 +1,401 @@
+/**
+ * Valibot schema generation
+ */
+
+import type {
+    ColumnDefinition,
+    FunctionDefinition,
+    NamingConvention,
+    SchemaModel,
+} from "../types/index.js";
+import { convertCase, propertyKey, schemaIdentifier } from "../utils/naming.js";
+import {
+    applyDomainConstraints,
+    checkedColumnValues,
+    domainCheckedValues,
+    detectGeometricTypes,
+    insertMode,
+    isGeneratedAlways,
+    mapPostgresTypeToTypeScript,
+    resolveDomainBaseType,
+} from "../utils/type-mapping.js";
+
+// Mirrors the structured alternatives in generateGeometricTypes
+const GEOMETRIC_SCHEMAS: Array<[string, string, string]> = [
+    ["point", "Point", "v.object({ x: v.number(), y: v.number() })"],
+    [
+        "line",
+        "Line",
+        "v.object({ a: v.number(), b: v.number(), c: v.number() })",
+    ],
+    ["lseg", "LineSegment", "v.object({ p1: pointSchema, p2: pointSchema })"],
+    [
+        "box",
+        "Box",
+        "v.object({ upperRight: pointSchema, lowerLeft: pointSchema })",
+    ],
+    [
+        "path",
+        "Path",
+        "v.object({ points: v.array(pointSchema), open: v.boolean() })",
+    ],
+    ["polygon", "Polygon", "v.object({ points: v.array(pointSchema) })"],
+    [
+        "circle",
+        "Circle",
+        "v.object({ center: pointSchema, radius: v.number() })",
+    ],
+];
+
+const PRIMITIVE_SCHEMAS: Record<string, string> = {
+    string: "v.string()",
+    number: "v.number()",
+    boolean: "v.boolean()",
+    Json: "jsonSchema",
+    void: "v.void()",
+    unknown: "v.unknown()",
+};
+
+function isUserColumn(col: ColumnDefinition): boolean {
+    const colNameLower = col.name.toLowerCase();
+    return colNameLower !== "this" && colNameLower !== "constraint";
+}
+
+/**
+ * Valibot schema for the values a CHECK constraint allows
+ */
+function picklistSchema(values: Array<string | number>): string {
+    return `v.picklist([${values.map((v) => JSON.stringify(v)).join(", ")}])`;
+}
+
+/**
+ * Validation actions for the modifiers of `varchar(n)` and `numeric(p,s)`
+ */
+function typeModifierPipes(pgType: string): string[] {
+    const match = pgType
+        .toLowerCase()
+        .match(
+            /^(varchar|character varying|numeric|decimal)\s*\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)$/
+        );
+    if (!match) {
+        return [];
+    }
+
+    const [, typeName, first, second] = match;
+    if (typeName === "varchar" || typeName === "character varying") {
+        return [`v.maxLength(${first})`];
+    }
+
+    const precision = Number(first);
+    const scale = Number(second ?? 0);
+    const integerDigits = "9".repeat(Math.max(precision - scale, 0));
+    if (scale === 0) {
+        return [
+            "v.integer()",
+            `v.minValue(-${integerDigits})`,
+            `v.maxValue(${integerDigits})`,
+        ];
+    }
+
+    const max = `${integerDigits || "0"}.${"9".repeat(scale)}`;
+    return [
+        `v.minValue(-${max})`,
+        `v.maxValue(${max})`,
+        `v.check((value) => Number(value.toFixed(${scale})) === value, "At most ${scale} decimal places")`,
+    ];
+}
+
+/**
+ * Generate a module of Valibot schemas mirroring the Row/Insert/Update
+ * types, enums, composite types and function arguments
+ *
+ * @param typesModule - Import path of the generated types file
+ */
+export function generateValibotSchemas(
+    model: SchemaModel,
+    typesModule: string,
+    convention: NamingConvention,
+    indentSize: number = 2,
+    includeComments: boolean = true,
+    schema: string = "public"
+): string {
+    const indent = " ".repeat(indentSize);
+    const usedGeometricTypes = detectGeometricTypes(model.tables);
+    const useGeometricTypes = usedGeometricTypes.size > 0;
+
+    const enumSchemas = new Map<string, string>();
+    const enumLines = model.enums.map((enumDef) => {
+        const identifier = schemaIdentifier(
+            enumDef.schema,
+            schema,
+            enumDef.name
+        );
+        enumSchemas.set(`${enumDef.schema}.${enumDef.name}`, identifier);
+        return `export const ${identifier} = v.picklist(Constants[${JSON.stringify(
+            enumDef.schema
+        )}]["Enums"][${JSON.stringify(
+            convertCase(enumDef.name, convention)
+        )}]);`;
+    });
+
+    const geometricTypeNames = new Map<string, string>();
+    const geometricLines: string[] = [];
+    const needsPoint = GEOMETRIC_SCHEMAS.some(
+        ([pgType, , definition]) =>
+            usedGeometricTypes.has(pgType) && definition.includes("pointSchema")
+    );
+    for (const [pgType, typeName, definition] of GEOMETRIC_SCHEMAS) {
+        if (
+            usedGeometricTypes.has(pgType) ||
+            (pgType === "point" && needsPoint)
+        ) {
+            const identifier = `${convertCase(typeName, "camelCase")}Schema`;
+            geometricTypeNames.set(typeName, identifier);
+            geometricLines.push(
+                `export const ${identifier} = v.union([${definition}, v.string()]);`
+            );
+        }
+    }
+
+    const availableEnumsBySchema = (schemaName: string) =>
+        new Set(
+            model.enums
+                .filter((e) => e.schema === schemaName)
+                .map((e) => e.name)
+        );
+
+    const typeSchema = (
+        pgType: string,
+        isArray: boolean,
+        schemaName: string
+    ): string => {
+        const domainBase = resolveDomainBaseType(
+            pgType,
+            schemaName,
+            model.domains
+        );
+        if (domainBase.type !== pgType) {
+            const values = domainCheckedValues(
+                pgType,
+                schemaName,
+                model.domains
+            );
+            if (values) {
+                const base = picklistSchema(values);
+                return isArray || domainBase.isArray
+                    ? `v.array(${base})`
+                    : base;
+            }
+            return typeSchema(
+                domainBase.type,
+                isArray || domainBase.isArray,
+                schemaName
+            );
+        }
+
+        const tsType = mapPostgresTypeToTypeScript(
+            pgType,
+            false,
+            schemaName,
+            availableEnumsBySchema(schemaName),
+            useGeometricTypes
+        );
+        let base =
+            PRIMITIVE_SCHEMAS[tsType] ??
+            geometricTypeNames.get(tsType) ??
+            enumSchemas.get(`${schemaName}.${pgType}`) ??
+            "v.unknown()";
+
+        const pipes = typeModifierPipes(pgType);
+        if (pipes.length > 0) {
+            base = `v.pipe(${[base, ...pipes].join(", ")})`;
+        }
+        return isArray ? `v.array(${base})` : base;
+    };
+
+    const objectExpression = (
+        fields: Array<[name: string, schema: string, comment?: string]>,
+        depth: number = 0
+    ): string => {
+        if (fields.length === 0) {
+            return "v.object({})";
+        }
+        const lines = fields.map(([name, fieldSchema, comment]) => {
+            const commentLine =
+                includeComments && comment
+                    ? `${indent.repeat(depth + 1)}/** ${comment} */\n`
+                    : "";
+            return `${commentLine}${indent.repeat(depth + 1)}${propertyKey(
+                convertCase(name, convention)
+            )}: ${fieldSchema},`;
+        });
+        return `v.object({\n${lines.join("\n")}\n${indent.repeat(depth)}})`;
+    };
+
+    const objectSchema = (
+        identifier: string,
+        fields: Array<[name: string, schema: string, comment?: string]>
+    ): string => `export const ${identifier} = ${objectExpression(fields)};`;
+
+    const compositeLines = model.compositeTypes.map((compType) =>
+        objectSchema(
+            schemaIdentifier(compType.schema, schema, compType.name),
+            compType.attributes.map((attr) => [
+                attr.name,
+                `v.nullable(${typeSchema(
+                    attr.type.replace(/\[\]$/, ""),
+                    attr.type.endsWith("[]"),
+                    compType.schema
+                )})`,
+            ])
+        )
+    );
+
+    const tableLines = model.tables.map((table) => {
+        const columns = table.columns
+            .filter(isUserColumn)
+            .map((col) =>
+                applyDomainConstraints(col, table.schema, model.domains)
+            );
+        const checkedValues = checkedColumnValues(table);
+        const row = (col: ColumnDefinition) => {
+            const values = col.isArray
+                ? undefined
+                : checkedValues.get(col.name);
+            const base = values
+                ? picklistSchema(values)
+                : typeSchema(col.type, col.isArray, table.schema);
+            return col.nullable ? `v.nullable(${base})` : base;
+        };
+        const insert = (col: ColumnDefinition) => {
+            const mode = insertMode(col);
+            return mode === "never"
+                ? "v.optional(v.never())"
+                : mode === "optional"
+                  ? `v.optional(${row(col)})`
+                  : row(col);
+        };
+        const name = (kind: string) =>
+            schemaIdentifier(table.schema, schema, table.name, kind);
+
+        const commentBlock =
+            includeComments && table.comment
+                ? `/**\n * ${table.comment}\n */\n`
+                : "";
+
+        return [
+            commentBlock +
+                objectSchema(
+                    name("row"),
+                    columns.map((col) => [col.name, row(col), col.comment])
+                ),
+            objectSchema(
+                name("insert"),
+                columns.map((col) => [col.name, insert(col), col.comment])
+            ),
+            objectSchema(
+                name("update"),
+                columns.map((col) => [
+                    col.name,
+                    isGeneratedAlways(col)
+                        ? "v.optional(v.never())"
+                        : `v.optional(${row(col)})`,
+                    col.comment,
+                ])
+            ),
+        ].join("\n\n");
+    });
+
+    // Overloads share a name, so their argument schemas become a union
+    const functionsByName = new Map<string, FunctionDefinition[]>();
+    for (const func of model.functions) {
+        const key = `${func.schema}.${func.name}`;
+        functionsByName.set(key, [...(functionsByName.get(key) ?? []), func]);
+    }
+
+    const functionLines = Array.from(functionsByName.values()).map(
+        (overloads) => {
+            const { schema: schemaName, name } = overloads[0];
+            const identifier = schemaIdentifier(
+                schemaName,
+                schema,
+                name,
+                "args"
+            );
+            const argSchemas = overloads.map((func) =>
+                objectExpression(
+                    func.args.map((arg) => {
+                        const argSchema = typeSchema(
+                            arg.type.replace(/\[\]$/, ""),
+                            arg.type.endsWith("[]"),
+                            schemaName
+                        );
+                        return [
+                            arg.name,
+                            arg.hasDefault
+                                ? `v.optional(${argSchema})`
+                                : argSchema,
+                        ];
+                    }),
+                    overloads.length > 1 ? 1 : 0
+                )
+            );
+
+            if (argSchemas.length === 1) {
+                return `export const ${identifier} = ${argSchemas[0]};`;
+            }
+            return `export const ${identifier} = v.union([\n${argSchemas
+                .map((argSchema) => `${indent}${argSchema},`)
+                .join("\n")}\n]);`;
+        }
+    );
+
+    const sections: Array<[string, string[]]> = [
+        ["Enums", enumLines],
+        ["Geometric Types", geometricLines],
+        ["Composite Types", compositeLines],
+        ["Tables", tableLines],
+        ["Function Arguments", functionLines],
+    ];
+
+    const body = sections
+        .filter(([, lines]) => lines.length > 0)
+        .map(
+            ([
+                title,
+                lines,
+            ]) => `// ============================================================================
+// ${title}
+// ============================================================================
+
+${lines.join("\n\n")}
+`
+        )
+        .join("\n");
+
+    return `/**
+ * Auto-generated Valibot schemas for Supabase
+ * Generated: ${new Date().toISOString()}
+ * Schema: ${schema}
+ *
+ * DO NOT EDIT MANUALLY - Run type generation script to regenerate
+ */
+
+import * as v from "valibot";
+import { ${
+        enumLines.length > 0 ? "Constants, " : ""
+    }type Json } from "${typesModule}";
+
+export const jsonSchema: v.GenericSchema<Json> = v.lazy(() =>
+${indent}v.union([
+${indent.repeat(2)}v.string(),
+${indent.repeat(2)}v.number(),
+${indent.repeat(2)}v.boolean(),
+${indent.repeat(2)}v.null(),
+${indent.repeat(2)}v.record(v.string(), v.optional(jsonSchema)),
+${indent.repeat(2)}v.array(jsonSchema),
+${indent}])
+);
+
+${body}`;
+}
@@ -2,7 +2,11 @@
  * View type generation
  */
 
-import type { ViewDefinition, NamingConvention } from "../types/index.js";
+import type {
+    ViewDefinition,
+    NamingConvention,
+    DomainDefinition,
+} from "../types/index.js";
 import { convertCase } from "../utils/naming.js";
 import { mapPostgresTypeToTypeScript } from "../utils/type-mapping.js";
 
@@ -13,7 +17,9 @@ export function generateViewType(
     includeComments: boolean = true,
     availableEnums: Set<string> = new Set(),
     schema: string = "public",
-    useGeometricTypes: boolean = false
+    useGeometricTypes: boolean = false,
+    domains: DomainDefinition[] = [],
+    brandDomains: boolean = false
 ): string {
     const viewName = convertCase(view.name, convention);
     const indent = " ".repeat(indentSize);
@@ -42,7 +48,9 @@ export function generateViewType(
                 col.isArray,
                 schema,
                 availableEnums,
-                useGeometricTypes
+                useGeometricTypes,
+                domains,
+                brandDomains
             );
             const nullable = col.nullable ? " | null" : "";
 
@@ -98,7 +106,9 @@ export function generateViewTypes(
     includeComments: boolean = true,
     availableEnums: Set<string> = new Set(),
     schema: string = "public",
-    useGeometricTypes: boolean = false
+    useGeometricTypes: boolean = false,
+    domains: DomainDefinition[] = [],
+    brandDomains: boolean = false
 ): string {
     if (views.length === 0) {
         return "";
@@ -112,7 +122,9 @@ export function generateViewTypes(
             includeComments,
             availableEnums,
             schema,
-            useGeometricTypes
+            useGeometricTypes,
+            domains,
+            brandDomains
         )
     );
 
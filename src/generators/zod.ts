@@ -0,0 +1,401 @@
+/**
+ * Zod schema generation
+ */
+
+import type {
+    ColumnDefinition,
+    NamingConvention,
+    SchemaModel,
+    TypeDefinition,
+} from "../types/index.js";
+import { convertCase, propertyKey, schemaIdentifier } from "../utils/naming.js";
+import {
+    applyDomainConstraints,
+    checkedColumnValues,
+    domainCheckedValues,
+    detectGeometricTypes,
+    insertMode,
+    isGeneratedAlways,
+    mapPostgresTypeToTypeScript,
+    resolveDomainBaseType,
+} from "../utils/type-mapping.js";
+
+// Mirrors the structured alternatives in generateGeometricTypes
+const GEOMETRIC_SCHEMAS: Array<[string, string, string]> = [
+    ["point", "Point", "z.object({ x: z.number(), y: z.number() })"],
+    [
+        "line",
+        "Line",
+        "z.object({ a: z.number(), b: z.number(), c: z.number() })",
+    ],
+    ["lseg", "LineSegment", "z.object({ p1: pointSchema, p2: pointSchema })"],
+    [
+        "box",
+        "Box",
+        "z.object({ upperRight: pointSchema, lowerLeft: pointSchema })",
+    ],
+    [
+        "path",
+        "Path",
+        "z.object({ points: z.array(pointSchema), open: z.boolean() })",
+    ],
+    ["polygon", "Polygon", "z.object({ points: z.array(pointSchema) })"],
+    [
+        "circle",
+        "Circle",
+        "z.object({ center: pointSchema, radius: z.number() })",
+    ],
+];
+
+const PRIMITIVE_SCHEMAS: Record<string, string> = {
+    string: "z.string()",
+    number: "z.number()",
+    boolean: "z.boolean()",
+    Json: "jsonSchema",
+    void: "z.void()",
+    unknown: "z.unknown()",
+};
+
+function isUserColumn(col: ColumnDefinition): boolean {
+    const colNameLower = col.name.toLowerCase();
+    return colNameLower !== "this" && colNameLower !== "constraint";
+}
+
+/**
+ * Zod schema for the values a CHECK constraint allows
+ */
+function allowedValuesSchema(values: Array<string | number>): string {
+    if (values.every((v) => typeof v === "string")) {
+        return `z.enum([${values.map((v) => JSON.stringify(v)).join(", ")}])`;
+    }
+    const literals = values.map((v) => `z.literal(${JSON.stringify(v)})`);
+    return literals.length === 1
+        ? literals[0]
+        : `z.union([${literals.join(", ")}])`;
+}
+
+/**
+ * Zod schema for a value inferred from a JSONB default
+ */
+function jsonValueSchema(
+    value: unknown,
+    indent: string,
+    depth: number
+): string {
+    if (Array.isArray(value)) {
+        return value.length === 0
+            ? "z.array(jsonSchema)"
+            : `z.array(${jsonValueSchema(value[0], indent, depth)})`;
+    }
+
+    if (value !== null && typeof value === "object") {
+        const entries = Object.entries(value);
+        if (entries.length === 0) {
+            return "z.object({})";
+        }
+        const fields = entries.map(
+            ([key, val]) =>
+                `${indent.repeat(depth + 1)}${propertyKey(
+                    key
+                )}: ${jsonValueSchema(val, indent, depth + 1)},`
+        );
+        return `z.object({\n${fields.join("\n")}\n${indent.repeat(depth)}})`;
+    }
+
+    if (typeof value === "string") return "z.string()";
+    if (typeof value === "number") return "z.number()";
+    if (typeof value === "boolean") return "z.boolean()";
+    return "jsonSchema";
+}
+
+/**
+ * Generate a module of Zod schemas mirroring the Row/Insert/Update types
+ *
+ * Enum schemas are built from the `Constants` values of the types module,
+ * so both files have to be generated together.
+ *
+ * @param typesModule - Import path of the generated types file
+ */
+export function generateZodSchemas(
+    model: SchemaModel,
+    jsonbTypes: TypeDefinition[],
+    typesModule: string,
+    convention: NamingConvention,
+    indentSize: number = 2,
+    includeComments: boolean = true,
+    schema: string = "public"
+): string {
+    const indent = " ".repeat(indentSize);
+    const usedGeometricTypes = detectGeometricTypes(model.tables);
+    const useGeometricTypes = usedGeometricTypes.size > 0;
+
+    const enumSchemas = new Map<string, string>();
+    const enumLines = model.enums.map((enumDef) => {
+        const identifier = schemaIdentifier(
+            enumDef.schema,
+            schema,
+            enumDef.name
+        );
+        enumSchemas.set(`${enumDef.schema}.${enumDef.name}`, identifier);
+        return `export const ${identifier} = z.enum(Constants[${JSON.stringify(
+            enumDef.schema
+        )}]["Enums"][${JSON.stringify(
+            convertCase(enumDef.name, convention)
+        )}]);`;
+    });
+
+    const geometricTypeNames = new Map<string, string>();
+    const geometricLines: string[] = [];
+    const needsPoint = GEOMETRIC_SCHEMAS.some(
+        ([pgType, , definition]) =>
+            usedGeometricTypes.has(pgType) && definition.includes("pointSchema")
+    );
+    for (const [pgType, typeName, definition] of GEOMETRIC_SCHEMAS) {
+        if (
+            usedGeometricTypes.has(pgType) ||
+            (pgType === "point" && needsPoint)
+        ) {
+            const identifier = `${convertCase(typeName, "camelCase")}Schema`;
+            geometricTypeNames.set(typeName, identifier);
+            geometricLines.push(
+                `export const ${identifier} = z.union([${definition}, z.string()]);`
+            );
+        }
+    }
+
+    const availableEnumsBySchema = (schemaName: string) =>
+        new Set(
+            model.enums
+                .filter((e) => e.schema === schemaName)
+                .map((e) => e.name)
+        );
+
+    const typeSchema = (
+        pgType: string,
+        isArray: boolean,
+        schemaName: string
+    ): string => {
+        const domainBase = resolveDomainBaseType(
+            pgType,
+            schemaName,
+            model.domains
+        );
+        if (domainBase.type !== pgType) {
+            const values = domainCheckedValues(
+                pgType,
+                schemaName,
+                model.domains
+            );
+            if (values) {
+                const base = allowedValuesSchema(values);
+                return isArray || domainBase.isArray
+                    ? `z.array(${base})`
+                    : base;
+            }
+            return typeSchema(
+                domainBase.type,
+                isArray || domainBase.isArray,
+                schemaName
+            );
+        }
+
+        const tsType = mapPostgresTypeToTypeScript(
+            pgType,
+            false,
+            schemaName,
+            availableEnumsBySchema(schemaName),
+            useGeometricTypes
+        );
+        const base =
+            PRIMITIVE_SCHEMAS[tsType] ??
+            geometricTypeNames.get(tsType) ??
+            enumSchemas.get(`${schemaName}.${pgType}`) ??
+            "z.unknown()";
+        return isArray ? `z.array(${base})` : base;
+    };
+
+    const compositeLines = model.compositeTypes.map((compType) => {
+        const fields = compType.attributes.map((attr) => {
+            const isArray = attr.type.endsWith("[]");
+            const pgType = attr.type.replace(/\[\]$/, "");
+            return `${indent}${propertyKey(
+                convertCase(attr.name, convention)
+            )}: ${typeSchema(pgType, isArray, compType.schema)}.nullable(),`;
+        });
+        return `export const ${schemaIdentifier(
+            compType.schema,
+            schema,
+            compType.name
+        )} = z.object({\n${fields.join("\n")}\n});`;
+    });
+
+    const jsonbSchemas = new Map<string, string>();
+    const jsonbLines: string[] = [];
+    for (const type of jsonbTypes) {
+        if (!type.table || !type.example) continue;
+        const identifier = schemaIdentifier(
+            schema,
+            schema,
+            type.table,
+            type.column
+        );
+        jsonbSchemas.set(`${type.table}.${type.column}`, identifier);
+
+        const commentLine =
+            includeComments && type.comment ? `/** ${type.comment} */\n` : "";
+        jsonbLines.push(
+            `${commentLine}export const ${identifier} = ${jsonValueSchema(
+                type.example,
+                indent,
+                0
+            )};`
+        );
+    }
+
+    const columnSchema = (
+        col: ColumnDefinition,
+        relation: string,
+        schemaName: string
+    ): string => {
+        const jsonbSchema =
+            schemaName === schema
+                ? jsonbSchemas.get(`${relation}.${col.name}`)
+                : undefined;
+        const base = jsonbSchema
+            ? col.isArray
+                ? `z.array(${jsonbSchema})`
+                : jsonbSchema
+            : typeSchema(col.type, col.isArray, schemaName);
+        return col.nullable ? `${base}.nullable()` : base;
+    };
+
+    const objectSchema = (
+        identifier: string,
+        columns: ColumnDefinition[],
+        field: (col: ColumnDefinition) => string
+    ): string => {
+        const fields = columns.map((col) => {
+            const commentLine =
+                includeComments && col.comment
+                    ? `${indent}/** ${col.comment} */\n`
+                    : "";
+            return `${commentLine}${indent}${propertyKey(
+                convertCase(col.name, convention)
+            )}: ${field(col)},`;
+        });
+        return `export const ${identifier} = z.object({\n${fields.join(
+            "\n"
+        )}\n});`;
+    };
+
+    const tableLines = model.tables.map((table) => {
+        const columns = table.columns
+            .filter(isUserColumn)
+            .map((col) =>
+                applyDomainConstraints(col, table.schema, model.domains)
+            );
+        const checkedValues = checkedColumnValues(table);
+        const row = (col: ColumnDefinition) => {
+            const values = col.isArray
+                ? undefined
+                : checkedValues.get(col.name);
+            if (!values) {
+                return columnSchema(col, table.name, table.schema);
+            }
+            const base = allowedValuesSchema(values);
+            return col.nullable ? `${base}.nullable()` : base;
+        };
+        const name = (kind: string) =>
+            schemaIdentifier(table.schema, schema, table.name, kind);
+
+        const commentBlock =
+            includeComments && table.comment
+                ? `/**\n * ${table.comment}\n */\n`
+                : "";
+
+        return [
+            commentBlock + objectSchema(name("row"), columns, row),
+            objectSchema(name("insert"), columns, (col) => {
+                const mode = insertMode(col);
+                return mode === "never"
+                    ? "z.never().optional()"
+                    : mode === "optional"
+                      ? `${row(col)}.optional()`
+                      : row(col);
+            }),
+            objectSchema(name("update"), columns, (col) =>
+                isGeneratedAlways(col)
+                    ? "z.never().optional()"
+                    : `${row(col)}.optional()`
+            ),
+        ].join("\n\n");
+    });
+
+    const viewLines = model.views.map((view) => {
+        const identifier = schemaIdentifier(
+            view.schema,
+            schema,
+            view.name,
+            "row"
+        );
+        const columns = view.columns.filter(isUserColumn);
+
+        // Views whose columns could not be inferred accept any row
+        if (columns.length === 0) {
+            return `export const ${identifier} = z.record(z.string(), z.unknown());`;
+        }
+        return objectSchema(identifier, columns, (col) =>
+            columnSchema(col, view.name, view.schema)
+        );
+    });
+
+    const sections: Array<[string, string[]]> = [
+        ["Enums", enumLines],
+        ["Geometric Types", geometricLines],
+        ["Composite Types", compositeLines],
+        ["JSONB Columns", jsonbLines],
+        ["Tables", tableLines],
+        ["Views", viewLines],
+    ];
+
+    const body = sections
+        .filter(([, lines]) => lines.length > 0)
+        .map(
+            ([
+                title,
+                lines,
+            ]) => `// ============================================================================
+// ${title}
+// ============================================================================
+
+${lines.join("\n\n")}
+`
+        )
+        .join("\n");
+
+    return `/**
+ * Auto-generated Zod schemas for Supabase
+ * Generated: ${new Date().toISOString()}
+ * Schema: ${schema}
+ *
+ * DO NOT EDIT MANUALLY - Run type generation script to regenerate
+ */
+
+import { z } from "zod";
+import { ${
+        enumLines.length > 0 ? "Constants, " : ""
+    }type Json } from "${typesModule}";
+
+export const jsonSchema: z.ZodType<Json> = z.lazy(() =>
+${indent}z.union([
+${indent.repeat(2)}z.string(),
+${indent.repeat(2)}z.number(),
+${indent.repeat(2)}z.boolean(),
+${indent.repeat(2)}z.null(),
+${indent.repeat(2)}z.record(z.string(), jsonSchema.optional()),
+${indent.repeat(2)}z.array(jsonSchema),
+${indent}])
+);
+
+${body}`;
+}
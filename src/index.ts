@@ -0,0 +1,157 @@
+/**
+ * Programmatic API
+ *
+ * `generate()` runs the same pipeline as the CLI on in-memory SQL (or a live
+ * database) and returns the generated files instead of writing them.
+ */
+
+import type {
+    GenerateOptions,
+    GenerateResult,
+    GeneratorConfig,
+} from "./types/index.js";
+import { GENERATOR_CONFIG } from "./config/constants.js";
+import { renderOutputFiles } from "./generator.js";
+import { parseSqlSources } from "./parsers/sql-file-parser.js";
+import { introspectDatabaseUrl } from "./parsers/db-introspector.js";
+import { scanSqlSources } from "./parsers/jsonb.js";
+import { collectModelDiagnostics } from "./parsers/model-diagnostics.js";
+import { createDiagnosticCollector } from "./utils/diagnostics.js";
+import { isVerboseLogging, setVerboseLogging } from "./utils/logger.js";
+
+export { parseSqlFiles, parseSqlSources } from "./parsers/sql-file-parser.js";
+export { introspectDatabaseUrl } from "./parsers/db-introspector.js";
+export * from "./parsers/sql-parsers.js";
+export type {
+    GenerateOptions,
+    GenerateResult,
+    GeneratedFile,
+    SqlSource,
+    SchemaModel,
+    TableDefinition,
+    ColumnDefinition,
+    IndexDefinition,
+    RelationshipDefinition,
+    ReferentialAction,
+    ViewDefinition,
+    EnumDefinition,
+    FunctionDefinition,
+    CompositeTypeDefinition,
+    DomainDefinition,
+    CheckConstraintDefinition,
+    FunctionArgument,
+    SourceLocation,
+    Diagnostic,
+    DiagnosticSeverity,
+    DiagnosticCode,
+    NamingConvention,
+} from "./types/index.js";
+
+function toGeneratorConfig(options: GenerateOptions): GeneratorConfig {
+    return {
+        supabase: {
+            source: options.connectionString ? "db" : "sql",
+            connectionString: options.connectionString,
+            schema: options.schema ?? GENERATOR_CONFIG.defaultSchema,
+            useWorkdirFlag: false,
+            inputWorkdir: null,
+            configWorkdir: null,
+            configPath: "",
+        },
+        schemaPaths: (options.sources ?? []).map((source) => source.path),
+        output: {
+            dir: "",
+            tempFile: "",
+            finalFile: options.fileName ?? "database.ts",
+            suffix: "",
+        },
+        extractNestedTypes:
+            options.extractNestedTypes ?? GENERATOR_CONFIG.extractNestedTypes,
+        deduplicateTypes:
+            options.deduplicateTypes ?? GENERATOR_CONFIG.deduplicateTypes,
+        verboseLogging: options.verboseLogging ?? false,
+        namingConvention:
+            options.namingConvention ?? GENERATOR_CONFIG.namingConvention,
+        alphabetical: options.alphabetical ?? GENERATOR_CONFIG.alphabetical,
+        indentSize: options.indentSize ?? GENERATOR_CONFIG.indentSize,
+        // Never looked up in a Prettier config, so that nothing is read from disk
+        indentSource: options.indentSize === undefined ? "default" : "option",
+        includeIndexes:
+            options.includeIndexes ?? GENERATOR_CONFIG.includeIndexes,
+        includeComments:
+            options.includeComments ?? GENERATOR_CONFIG.includeComments,
+        diagnosticsFormat: GENERATOR_CONFIG.diagnosticsFormat,
+        timestamp: false,
+        check: false,
+        watch: false,
+        zod: options.zod ?? GENERATOR_CONFIG.zod,
+        valibot: options.valibot ?? GENERATOR_CONFIG.valibot,
+        jsonSchema: options.jsonSchema ?? GENERATOR_CONFIG.jsonSchema,
+        kysely: options.kysely ?? GENERATOR_CONFIG.kysely,
+        drizzle: options.drizzle ?? GENERATOR_CONFIG.drizzle,
+        diagram: options.diagram ?? GENERATOR_CONFIG.diagram,
+        diagramSchema: options.diagramSchema ?? GENERATOR_CONFIG.diagramSchema,
+        diagramTables: options.diagramTables ?? GENERATOR_CONFIG.diagramTables,
+        markdown: options.markdown ?? GENERATOR_CONFIG.markdown,
+        markdownPerSchema:
+            options.markdownPerSchema ?? GENERATOR_CONFIG.markdownPerSchema,
+        brandDomains: options.brandDomains ?? GENERATOR_CONFIG.brandDomains,
+        functionMetadata:
+            options.functionMetadata ?? GENERATOR_CONFIG.functionMetadata,
+        includeTriggerFunctions:
+            options.includeTriggerFunctions ??
+            GENERATOR_CONFIG.includeTriggerFunctions,
+        includeFunctions:
+            options.includeFunctions ?? GENERATOR_CONFIG.includeFunctions,
+        excludeFunctions:
+            options.excludeFunctions ?? GENERATOR_CONFIG.excludeFunctions,
+        int8Type: options.int8Type ?? GENERATOR_CONFIG.int8Type,
+    };
+}
+
+/**
+ * Generate types from in-memory SQL sources, or from a live database when
+ * `connectionString` is set. Nothing is written to disk and logging is off
+ * unless `verboseLogging` is enabled.
+ *
+ * @example
+ * const { files, diagnostics } = await generate({
+ *     sources: [{ path: "001_init.sql", content: "CREATE TABLE ..." }],
+ * });
+ */
+export async function generate(
+    options: GenerateOptions = {}
+): Promise<GenerateResult> {
+    const config = toGeneratorConfig(options);
+    const sources = options.sources ?? [];
+    const verboseLogging = isVerboseLogging();
+    setVerboseLogging(config.verboseLogging);
+
+    try {
+        const diagnostics = createDiagnosticCollector();
+        const model = options.connectionString
+            ? await introspectDatabaseUrl(options.connectionString, [
+                  config.supabase.schema,
+              ])
+            : parseSqlSources(
+                  sources,
+                  config.supabase.schema,
+                  config.includeComments,
+                  diagnostics
+              );
+        collectModelDiagnostics(model, diagnostics);
+
+        const jsonbTypes = scanSqlSources(
+            sources,
+            config.extractNestedTypes,
+            config.namingConvention
+        );
+        return {
+            files: renderOutputFiles(config, model, jsonbTypes),
+            diagnostics: [...diagnostics.diagnostics],
+            model,
+        };
+    } finally {
+        setVerboseLogging(verboseLogging);
+    }
+}
@@ -0,0 +1,165 @@
+/**
+ * Live database introspection orchestrator
+ */
+
+import type {
+    TableDefinition,
+    EnumDefinition,
+    FunctionDefinition,
+    CompositeTypeDefinition,
+    DomainDefinition,
+    ViewDefinition,
+} from "../types/index.js";
+import { log } from "../utils/logger.js";
+import {
+    RELATIONS_QUERY,
+    COLUMNS_QUERY,
+    CONSTRAINTS_QUERY,
+    INDEXES_QUERY,
+    ENUMS_QUERY,
+    FUNCTIONS_QUERY,
+    COMPOSITE_TYPES_QUERY,
+    DOMAINS_QUERY,
+    type CatalogRelationRow,
+    type CatalogColumnRow,
+    type CatalogConstraintRow,
+    type CatalogIndexRow,
+    type CatalogEnumRow,
+    type CatalogFunctionRow,
+    type CatalogCompositeAttributeRow,
+    type CatalogDomainRow,
+} from "./db/queries.js";
+import {
+    buildTables,
+    buildViews,
+    buildEnums,
+    buildFunctions,
+    buildCompositeTypes,
+    buildDomains,
+} from "./db/catalog.js";
+
+/**
+ * Minimal query interface satisfied by `pg.Client`, `pg.Pool` and test doubles
+ */
+export interface CatalogClient {
+    query(text: string, values?: unknown[]): Promise<{ rows: unknown[] }>;
+}
+
+async function queryRows<T>(
+    client: CatalogClient,
+    sql: string,
+    schemas: string[]
+): Promise<T[]> {
+    const result = await client.query(sql, [schemas]);
+    return result.rows as T[];
+}
+
+/**
+ * Read tables, views, enums, functions, composite types and domains for
+ * the given schemas from pg_catalog and return them in the same shape as parseSqlFiles
+ */
+export async function introspectDatabase(
+    client: CatalogClient,
+    schemas: string[]
+): Promise<{
+    tables: TableDefinition[];
+    enums: EnumDefinition[];
+    functions: FunctionDefinition[];
+    compositeTypes: CompositeTypeDefinition[];
+    views: ViewDefinition[];
+    domains: DomainDefinition[];
+}> {
+    log("\n📊 Step 1: Introspecting database schema...", "bright");
+    log(`  Schemas: ${schemas.join(", ")}`, "cyan");
+
+    const relationRows = await queryRows<CatalogRelationRow>(
+        client,
+        RELATIONS_QUERY,
+        schemas
+    );
+    const columnRows = await queryRows<CatalogColumnRow>(
+        client,
+        COLUMNS_QUERY,
+        schemas
+    );
+    const constraintRows = await queryRows<CatalogConstraintRow>(
+        client,
+        CONSTRAINTS_QUERY,
+        schemas
+    );
+    const indexRows = await queryRows<CatalogIndexRow>(
+        client,
+        INDEXES_QUERY,
+        schemas
+    );
+    const enumRows = await queryRows<CatalogEnumRow>(
+        client,
+        ENUMS_QUERY,
+        schemas
+    );
+    const functionRows = await queryRows<CatalogFunctionRow>(
+        client,
+        FUNCTIONS_QUERY,
+        schemas
+    );
+    const compositeRows = await queryRows<CatalogCompositeAttributeRow>(
+        client,
+        COMPOSITE_TYPES_QUERY,
+        schemas
+    );
+
+    const domainRows = await queryRows<CatalogDomainRow>(
+        client,
+        DOMAINS_QUERY,
+        schemas
+    );
+
+    const tables = buildTables(
+        relationRows,
+        columnRows,
+        constraintRows,
+        indexRows
+    );
+    const views = buildViews(relationRows, columnRows);
+    const enums = buildEnums(enumRows);
+    const functions = buildFunctions(functionRows);
+    const compositeTypes = buildCompositeTypes(compositeRows);
+    const domains = buildDomains(domainRows);
+
+    log(`\n  ✓ Introspected ${tables.length} table(s)`, "green");
+    if (enums.length > 0)
+        log(`  ✓ Introspected ${enums.length} enum(s)`, "green");
+    if (functions.length > 0)
+        log(`  ✓ Introspected ${functions.length} function(s)`, "green");
+    if (compositeTypes.length > 0)
+        log(
+            `  ✓ Introspected ${compositeTypes.length} composite type(s)`,
+            "green"
+        );
+    if (views.length > 0)
+        log(`  ✓ Introspected ${views.length} view(s)`, "green");
+    if (domains.length > 0)
+        log(`  ✓ Introspected ${domains.length} domain(s)`, "green");
+
+    return { tables, enums, functions, compositeTypes, views, domains };
+}
+
+/**
+ * Connect with `pg`, introspect the given schemas and disconnect
+ */
+export async function introspectDatabaseUrl(
+    connectionString: string,
+    schemas: string[]
+): ReturnType<typeof introspectDatabase> {
+    const { default: pg } = await import("pg");
+    const client = new pg.Client({ connectionString });
+
+    log(`\n  🔌 Connecting to database...`, "cyan");
+    await client.connect();
+
+    try {
+        return await introspectDatabase(client, schemas);
+    } finally {
+        await client.end();
+    }
+}
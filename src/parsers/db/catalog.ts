@@ -0,0 +1,419 @@
+/**
+ * Conversion of pg_catalog rows into the schema model
+ */
+
+import type {
+    TableDefinition,
+    ColumnDefinition,
+    IndexDefinition,
+    EnumDefinition,
+    FunctionArgument,
+    FunctionDefinition,
+    CompositeTypeDefinition,
+    DomainDefinition,
+    ReferentialAction,
+    ReferentialActions,
+    ViewDefinition,
+} from "../../types/index.js";
+import type {
+    CatalogRelationRow,
+    CatalogColumnRow,
+    CatalogConstraintRow,
+    CatalogIndexRow,
+    CatalogEnumRow,
+    CatalogFunctionRow,
+    CatalogCompositeAttributeRow,
+    CatalogDomainRow,
+} from "./queries.js";
+import { parseCheckConstraint, splitCheckClauses } from "../sql/check.js";
+
+// pg_constraint codes; `a` (NO ACTION) is the default and left out
+const REFERENTIAL_ACTIONS: Record<string, ReferentialAction> = {
+    r: "restrict",
+    c: "cascade",
+    n: "set null",
+    d: "set default",
+};
+
+function referentialActions(row: CatalogConstraintRow): ReferentialActions {
+    const onDelete = REFERENTIAL_ACTIONS[row.on_delete ?? ""];
+    const onUpdate = REFERENTIAL_ACTIONS[row.on_update ?? ""];
+    return {
+        ...(onDelete ? { onDelete } : {}),
+        ...(onUpdate ? { onUpdate } : {}),
+    };
+}
+
+function relationKey(schema: string, name: string): string {
+    return `${schema}.${name}`;
+}
+
+function toColumnDefinition(row: CatalogColumnRow): ColumnDefinition {
+    // pg_attrdef holds the expression of a generated column
+    const isGenerated = row.generated !== "";
+    return {
+        name: row.column_name,
+        type: row.data_type,
+        nullable: !row.not_null,
+        defaultValue: isGenerated ? null : row.default_value,
+        isArray: row.is_array,
+        isPrimaryKey: false,
+        isUnique: false,
+        ...(row.identity === "a" ? { identity: "always" as const } : {}),
+        ...(row.identity === "d" ? { identity: "by_default" as const } : {}),
+        ...(isGenerated && row.default_value !== null
+            ? { generationExpression: row.default_value }
+            : {}),
+        ...(row.comment ? { comment: row.comment } : {}),
+    };
+}
+
+function groupColumns(
+    columnRows: CatalogColumnRow[]
+): Map<string, ColumnDefinition[]> {
+    const columnsByRelation = new Map<string, ColumnDefinition[]>();
+
+    for (const row of columnRows) {
+        const key = relationKey(row.schema_name, row.table_name);
+        if (!columnsByRelation.has(key)) {
+            columnsByRelation.set(key, []);
+        }
+        columnsByRelation.get(key)!.push(toColumnDefinition(row));
+    }
+
+    return columnsByRelation;
+}
+
+/**
+ * Build table definitions, applying primary keys, unique constraints,
+ * foreign keys and indexes to the columns they cover, and collecting
+ * CHECK constraints
+ */
+export function buildTables(
+    relationRows: CatalogRelationRow[],
+    columnRows: CatalogColumnRow[],
+    constraintRows: CatalogConstraintRow[],
+    indexRows: CatalogIndexRow[]
+): TableDefinition[] {
+    const columnsByRelation = groupColumns(columnRows);
+    const tables: TableDefinition[] = [];
+    const tablesByKey = new Map<string, TableDefinition>();
+
+    for (const row of relationRows) {
+        if (row.relkind !== "r" && row.relkind !== "p") {
+            continue;
+        }
+
+        const key = relationKey(row.schema_name, row.name);
+        const table: TableDefinition = {
+            schema: row.schema_name,
+            name: row.name,
+            columns: columnsByRelation.get(key) || [],
+            relationships: [],
+            indexes: [],
+            ...(row.comment ? { comment: row.comment } : {}),
+        };
+
+        tables.push(table);
+        tablesByKey.set(key, table);
+    }
+
+    for (const row of indexRows) {
+        const table = tablesByKey.get(
+            relationKey(row.schema_name, row.table_name)
+        );
+        if (!table) continue;
+
+        const index: IndexDefinition = {
+            name: row.index_name,
+            tableName: row.table_name,
+            columns: row.columns,
+            isUnique: row.is_unique,
+            method: row.method,
+        };
+        if (row.where_clause) {
+            index.whereClause = row.where_clause;
+        }
+        table.indexes.push(index);
+    }
+
+    // Uniqueness has to be known before foreign keys are classified
+    const sortedConstraints = [...constraintRows].sort(
+        (a, b) =>
+            Number(a.constraint_type === "f") -
+            Number(b.constraint_type === "f")
+    );
+
+    for (const row of sortedConstraints) {
+        const table = tablesByKey.get(
+            relationKey(row.schema_name, row.table_name)
+        );
+        if (!table) continue;
+
+        if (row.constraint_type === "p") {
+            for (const column of table.columns) {
+                if (row.columns.includes(column.name)) {
+                    column.isPrimaryKey = true;
+                    column.nullable = false;
+                }
+            }
+            continue;
+        }
+
+        if (row.constraint_type === "c") {
+            const [check] = splitCheckClauses(
+                row.check_definition ?? ""
+            ).checks;
+            if (check) {
+                table.checkConstraints = [
+                    ...(table.checkConstraints ?? []),
+                    parseCheckConstraint(
+                        check.expression,
+                        table.name,
+                        row.constraint_name,
+                        row.columns.length === 1 ? row.columns[0] : undefined
+                    ),
+                ];
+            }
+            continue;
+        }
+
+        if (row.constraint_type === "u") {
+            if (row.columns.length === 1) {
+                const column = table.columns.find(
+                    (c) => c.name === row.columns[0]
+                );
+                if (column && !column.isPrimaryKey) {
+                    column.isUnique = true;
+                }
+            }
+            continue;
+        }
+
+        const referencedColumns = row.referenced_columns || [];
+        const referencedTable = row.referenced_table || "";
+
+        if (row.columns.length === 1) {
+            const column = table.columns.find((c) => c.name === row.columns[0]);
+            if (column) {
+                column.foreignKey = {
+                    table: referencedTable,
+                    column: referencedColumns[0],
+                    ...referentialActions(row),
+                };
+                if (
+                    row.referenced_schema &&
+                    row.referenced_schema !== table.schema
+                ) {
+                    column.foreignKey.schema = row.referenced_schema;
+                }
+            }
+        }
+
+        table.relationships.push({
+            foreignKeyName: row.constraint_name,
+            columns: row.columns,
+            isOneToOne: isUniqueColumnSet(table, row.columns, constraintRows),
+            referencedRelation: referencedTable,
+            referencedColumns,
+            ...referentialActions(row),
+        });
+    }
+
+    return tables;
+}
+
+/**
+ * A foreign key is one-to-one when its columns are exactly covered by a
+ * primary key, unique constraint or unique index of the referencing table
+ */
+function isUniqueColumnSet(
+    table: TableDefinition,
+    columns: string[],
+    constraintRows: CatalogConstraintRow[]
+): boolean {
+    const sameColumns = (other: string[]) =>
+        other.length === columns.length &&
+        other.every((c) => columns.includes(c));
+
+    const hasUniqueConstraint = constraintRows.some(
+        (row) =>
+            row.schema_name === table.schema &&
+            row.table_name === table.name &&
+            (row.constraint_type === "p" || row.constraint_type === "u") &&
+            sameColumns(row.columns)
+    );
+
+    const hasUniqueIndex = table.indexes.some(
+        (idx) => idx.isUnique && !idx.whereClause && sameColumns(idx.columns)
+    );
+
+    return hasUniqueConstraint || hasUniqueIndex;
+}
+
+export function buildViews(
+    relationRows: CatalogRelationRow[],
+    columnRows: CatalogColumnRow[]
+): ViewDefinition[] {
+    const columnsByRelation = groupColumns(columnRows);
+
+    return relationRows
+        .filter((row) => row.relkind === "v" || row.relkind === "m")
+        .map((row) => {
+            const view: ViewDefinition = {
+                schema: row.schema_name,
+                name: row.name,
+                columns:
+                    columnsByRelation.get(
+                        relationKey(row.schema_name, row.name)
+                    ) || [],
+                isMaterialized: row.relkind === "m",
+            };
+            if (row.definition) {
+                view.definition = row.definition.trim();
+            }
+            if (row.comment) {
+                view.comment = row.comment;
+            }
+            return view;
+        });
+}
+
+export function buildEnums(enumRows: CatalogEnumRow[]): EnumDefinition[] {
+    return enumRows.map((row) => ({
+        schema: row.schema_name,
+        name: row.name,
+        values: row.values,
+    }));
+}
+
+export function buildDomains(
+    domainRows: CatalogDomainRow[]
+): DomainDefinition[] {
+    return domainRows.map((row) => {
+        const checkConstraints = row.check_definitions.flatMap(
+            (definition, i) =>
+                splitCheckClauses(definition).checks.map((check) =>
+                    parseCheckConstraint(
+                        check.expression,
+                        row.name,
+                        row.check_names[i]
+                    )
+                )
+        );
+        return {
+            schema: row.schema_name,
+            name: row.name,
+            baseType: row.base_type,
+            isArray: row.is_array,
+            nullable: !row.not_null,
+            defaultValue: row.default_value,
+            ...(checkConstraints.length > 0 ? { checkConstraints } : {}),
+        };
+    });
+}
+
+const VOLATILITY: Record<string, FunctionDefinition["volatility"]> = {
+    i: "immutable",
+    s: "stable",
+    v: "volatile",
+};
+
+/**
+ * Build function definitions from pg_proc rows
+ *
+ * Only IN, INOUT and VARIADIC arguments are callable arguments. Postgres
+ * stores defaults for the trailing `pronargdefaults` input arguments.
+ */
+export function buildFunctions(
+    functionRows: CatalogFunctionRow[]
+): FunctionDefinition[] {
+    return functionRows.map((row) => {
+        const inputArgs: FunctionArgument[] = [];
+        const outputArgs: Array<{ name: string; type: string }> = [];
+        const tableColumns: Array<{ name: string; type: string }> = [];
+
+        row.arg_types.forEach((type, i) => {
+            const mode = row.arg_modes[i] || "i";
+            const arg = { name: row.arg_names[i] || `arg${i + 1}`, type };
+            if (mode === "t") {
+                tableColumns.push(arg);
+                return;
+            }
+            if (mode === "o" || mode === "b") {
+                outputArgs.push(arg);
+            }
+            if (mode !== "o") {
+                inputArgs.push({
+                    ...arg,
+                    mode:
+                        mode === "b"
+                            ? "inout"
+                            : mode === "v"
+                              ? "variadic"
+                              : "in",
+                });
+            }
+        });
+
+        const searchPath = row.config.find((setting) =>
+            setting.startsWith("search_path=")
+        );
+        const firstDefault = inputArgs.length - row.default_count;
+        // RETURNS TABLE always returns rows; a single OUT parameter is
+        // returned as a value
+        const returnColumns =
+            tableColumns.length > 0
+                ? tableColumns
+                : outputArgs.length > 1
+                  ? outputArgs
+                  : [];
+
+        return {
+            schema: row.schema_name,
+            name: row.name,
+            args: inputArgs.map((arg, i) => ({
+                ...arg,
+                hasDefault: i >= firstDefault,
+            })),
+            returns: returnColumns.length > 0 ? "record" : row.returns,
+            ...(row.returns_set ? { returnsSet: true } : {}),
+            ...(returnColumns.length > 0 ? { returnColumns } : {}),
+            volatility: VOLATILITY[row.volatility] ?? "volatile",
+            ...(row.security_definer ? { securityDefiner: true } : {}),
+            language: row.language,
+            ...(searchPath !== undefined
+                ? { searchPath: searchPath.slice("search_path=".length) }
+                : {}),
+        };
+    });
+}
+
+export function buildCompositeTypes(
+    attributeRows: CatalogCompositeAttributeRow[]
+): CompositeTypeDefinition[] {
+    const compositeTypes: CompositeTypeDefinition[] = [];
+    const typesByKey = new Map<string, CompositeTypeDefinition>();
+
+    for (const row of attributeRows) {
+        const key = relationKey(row.schema_name, row.type_name);
+        let compositeType = typesByKey.get(key);
+
+        if (!compositeType) {
+            compositeType = {
+                schema: row.schema_name,
+                name: row.type_name,
+                attributes: [],
+            };
+            typesByKey.set(key, compositeType);
+            compositeTypes.push(compositeType);
+        }
+
+        compositeType.attributes.push({
+            name: row.attribute_name,
+            type: row.data_type,
+        });
+    }
+
+    return compositeTypes;
+}
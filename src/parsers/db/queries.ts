@@ -0,0 +1,299 @@
+/**
+ * pg_catalog queries used by database introspection
+ *
+ * Every query takes the list of schemas to introspect as its only
+ * parameter ($1) and returns rows shaped like the matching interface.
+ */
+
+export interface CatalogRelationRow {
+    schema_name: string;
+    name: string;
+    relkind: "r" | "p" | "v" | "m";
+    comment: string | null;
+    definition: string | null;
+}
+
+export interface CatalogColumnRow {
+    schema_name: string;
+    table_name: string;
+    column_name: string;
+    data_type: string;
+    is_array: boolean;
+    not_null: boolean;
+    default_value: string | null;
+    /** `a` (ALWAYS), `d` (BY DEFAULT) or empty */
+    identity: string;
+    /** `s` (STORED), `v` (VIRTUAL) or empty; the expression is the default */
+    generated: string;
+    comment: string | null;
+}
+
+export interface CatalogConstraintRow {
+    schema_name: string;
+    table_name: string;
+    constraint_name: string;
+    constraint_type: "p" | "u" | "f" | "c";
+    columns: string[];
+    referenced_schema: string | null;
+    referenced_table: string | null;
+    referenced_columns: string[] | null;
+    /** `confdeltype` / `confupdtype` of foreign keys: a, r, c, n or d */
+    on_delete: string | null;
+    on_update: string | null;
+    /** `CHECK (...)` clause of check constraints */
+    check_definition: string | null;
+}
+
+export interface CatalogIndexRow {
+    schema_name: string;
+    table_name: string;
+    index_name: string;
+    is_unique: boolean;
+    method: string;
+    columns: string[];
+    where_clause: string | null;
+}
+
+export interface CatalogEnumRow {
+    schema_name: string;
+    name: string;
+    values: string[];
+}
+
+export interface CatalogFunctionRow {
+    schema_name: string;
+    name: string;
+    arg_names: string[];
+    arg_types: string[];
+    arg_modes: string[];
+    default_count: number;
+    /** Return type, or of each row of a set */
+    returns: string;
+    returns_set: boolean;
+    /** `i`mmutable, `s`table or `v`olatile */
+    volatility: string;
+    security_definer: boolean;
+    language: string;
+    /** `name=value` settings of SET clauses */
+    config: string[];
+}
+
+export interface CatalogDomainRow {
+    schema_name: string;
+    name: string;
+    base_type: string;
+    is_array: boolean;
+    not_null: boolean;
+    default_value: string | null;
+    check_names: string[];
+    /** `CHECK (...)` clauses, in the order of check_names */
+    check_definitions: string[];
+}
+
+export interface CatalogCompositeAttributeRow {
+    schema_name: string;
+    type_name: string;
+    attribute_name: string;
+    data_type: string;
+}
+
+/**
+ * Resolve a pg_type to the name the SQL parsers would produce:
+ * enums, composite types and domains by bare name, everything else
+ * through format_type (which keeps length modifiers).
+ */
+const RESOLVED_TYPE_NAME = `
+    case
+        when et.typtype in ('e', 'c', 'd') then et.typname
+        else format_type(et.oid, a.atttypmod)
+    end`;
+
+export const RELATIONS_QUERY = `
+select
+    n.nspname as schema_name,
+    c.relname as name,
+    c.relkind as relkind,
+    obj_description(c.oid, 'pg_class') as comment,
+    case when c.relkind in ('v', 'm') then pg_get_viewdef(c.oid, true) end as definition
+from pg_class c
+join pg_namespace n on n.oid = c.relnamespace
+where c.relkind in ('r', 'p', 'v', 'm')
+    and not c.relispartition
+    and n.nspname = any($1)
+order by n.nspname, c.relname`;
+
+export const COLUMNS_QUERY = `
+select
+    n.nspname as schema_name,
+    c.relname as table_name,
+    a.attname as column_name,
+    ${RESOLVED_TYPE_NAME.trim()} as data_type,
+    t.typcategory = 'A' and t.typtype <> 'd' as is_array,
+    a.attnotnull as not_null,
+    pg_get_expr(d.adbin, d.adrelid) as default_value,
+    a.attidentity as identity,
+    a.attgenerated as generated,
+    col_description(c.oid, a.attnum) as comment
+from pg_attribute a
+join pg_class c on c.oid = a.attrelid
+join pg_namespace n on n.oid = c.relnamespace
+join pg_type t on t.oid = a.atttypid
+join pg_type et on et.oid = case when t.typcategory = 'A' and t.typtype <> 'd' then t.typelem else t.oid end
+left join pg_attrdef d on d.adrelid = a.attrelid and d.adnum = a.attnum
+where a.attnum > 0
+    and not a.attisdropped
+    and c.relkind in ('r', 'p', 'v', 'm')
+    and not c.relispartition
+    and n.nspname = any($1)
+order by n.nspname, c.relname, a.attnum`;
+
+export const CONSTRAINTS_QUERY = `
+select
+    n.nspname as schema_name,
+    c.relname as table_name,
+    con.conname as constraint_name,
+    con.contype as constraint_type,
+    array(
+        select a.attname
+        from unnest(con.conkey) with ordinality as k(attnum, ord)
+        join pg_attribute a on a.attrelid = con.conrelid and a.attnum = k.attnum
+        order by k.ord
+    )::text[] as columns,
+    rn.nspname as referenced_schema,
+    rc.relname as referenced_table,
+    case when con.contype = 'f' then array(
+        select a.attname
+        from unnest(con.confkey) with ordinality as k(attnum, ord)
+        join pg_attribute a on a.attrelid = con.confrelid and a.attnum = k.attnum
+        order by k.ord
+    )::text[] end as referenced_columns,
+    case when con.contype = 'f' then con.confdeltype::text end as on_delete,
+    case when con.contype = 'f' then con.confupdtype::text end as on_update,
+    case when con.contype = 'c' then pg_get_constraintdef(con.oid) end as check_definition
+from pg_constraint con
+join pg_class c on c.oid = con.conrelid
+join pg_namespace n on n.oid = c.relnamespace
+left join pg_class rc on rc.oid = con.confrelid
+left join pg_namespace rn on rn.oid = rc.relnamespace
+where con.contype in ('p', 'u', 'f', 'c')
+    and n.nspname = any($1)
+order by n.nspname, c.relname, con.conname`;
+
+export const INDEXES_QUERY = `
+select
+    n.nspname as schema_name,
+    c.relname as table_name,
+    i.relname as index_name,
+    ix.indisunique as is_unique,
+    am.amname as method,
+    array(
+        select pg_get_indexdef(ix.indexrelid, k.ord, true)
+        from generate_series(1, ix.indnkeyatts::int) as k(ord)
+        order by k.ord
+    )::text[] as columns,
+    pg_get_expr(ix.indpred, ix.indrelid) as where_clause
+from pg_index ix
+join pg_class i on i.oid = ix.indexrelid
+join pg_class c on c.oid = ix.indrelid
+join pg_namespace n on n.oid = c.relnamespace
+join pg_am am on am.oid = i.relam
+where n.nspname = any($1)
+    and not exists (
+        select 1 from pg_constraint con where con.conindid = ix.indexrelid
+    )
+order by n.nspname, c.relname, i.relname`;
+
+export const ENUMS_QUERY = `
+select
+    n.nspname as schema_name,
+    t.typname as name,
+    array_agg(e.enumlabel order by e.enumsortorder)::text[] as values
+from pg_type t
+join pg_enum e on e.enumtypid = t.oid
+join pg_namespace n on n.oid = t.typnamespace
+where n.nspname = any($1)
+group by n.nspname, t.typname
+order by n.nspname, t.typname`;
+
+export const FUNCTIONS_QUERY = `
+select
+    n.nspname as schema_name,
+    p.proname as name,
+    coalesce(p.proargnames, '{}')::text[] as arg_names,
+    array(
+        select format_type(u.type_oid, null)
+        from unnest(coalesce(p.proallargtypes, p.proargtypes::oid[]))
+            with ordinality as u(type_oid, ord)
+        order by u.ord
+    )::text[] as arg_types,
+    coalesce(p.proargmodes::text[], '{}') as arg_modes,
+    p.pronargdefaults::int as default_count,
+    case
+        when rt.typtype in ('e', 'c', 'd') then rt.typname
+        else format_type(rt.oid, null)
+    end as returns,
+    p.proretset as returns_set,
+    p.provolatile as volatility,
+    p.prosecdef as security_definer,
+    l.lanname as language,
+    coalesce(p.proconfig, '{}') as config
+from pg_proc p
+join pg_namespace n on n.oid = p.pronamespace
+join pg_type rt on rt.oid = p.prorettype
+join pg_language l on l.oid = p.prolang
+where p.prokind = 'f'
+    and n.nspname = any($1)
+    and not exists (
+        select 1 from pg_depend d where d.objid = p.oid and d.deptype = 'e'
+    )
+order by n.nspname, p.proname`;
+
+// Domains share the category of their base type, so a domain over an
+// array is told apart from an array type by its typtype
+export const DOMAINS_QUERY = `
+select
+    n.nspname as schema_name,
+    t.typname as name,
+    case
+        when et.typtype in ('e', 'c', 'd') then et.typname
+        else format_type(et.oid, t.typtypmod)
+    end as base_type,
+    bt.typcategory = 'A' and bt.typtype <> 'd' as is_array,
+    t.typnotnull as not_null,
+    t.typdefault as default_value,
+    array(
+        select con.conname
+        from pg_constraint con
+        where con.contypid = t.oid and con.contype = 'c'
+        order by con.conname
+    )::text[] as check_names,
+    array(
+        select pg_get_constraintdef(con.oid)
+        from pg_constraint con
+        where con.contypid = t.oid and con.contype = 'c'
+        order by con.conname
+    )::text[] as check_definitions
+from pg_type t
+join pg_namespace n on n.oid = t.typnamespace
+join pg_type bt on bt.oid = t.typbasetype
+join pg_type et on et.oid = case when bt.typcategory = 'A' and bt.typtype <> 'd' then bt.typelem else bt.oid end
+where t.typtype = 'd'
+    and n.nspname = any($1)
+order by n.nspname, t.typname`;
+
+export const COMPOSITE_TYPES_QUERY = `
+select
+    n.nspname as schema_name,
+    t.typname as type_name,
+    a.attname as attribute_name,
+    format_type(a.atttypid, a.atttypmod) as data_type
+from pg_type t
+join pg_class c on c.oid = t.typrelid
+join pg_namespace n on n.oid = t.typnamespace
+join pg_attribute a on a.attrelid = c.oid
+where t.typtype = 'c'
+    and c.relkind = 'c'
+    and a.attnum > 0
+    and not a.attisdropped
+    and n.nspname = any($1)
+order by n.nspname, t.typname, a.attnum`;
@@ -7,6 +7,7 @@ import type {
     JsonbColumn,
     TypeDefinition,
     NamingConvention,
+    SqlSource,
 } from "../types/index.js";
 import { convertCase } from "../utils/naming.js";
 
@@ -419,22 +420,41 @@ export function scanSchemas(
     extractNestedTypes: boolean,
     namingConvention: NamingConvention
 ): TypeDefinition[] {
-    const allColumns: JsonbColumn[] = [];
+    const sources: SqlSource[] = [];
 
     for (const schemaPath of schemaPaths) {
         try {
-            const content = readFileSync(schemaPath, "utf8");
-            const fileName = schemaPath.split("/").pop() || schemaPath;
-            const columns = parseJsonbColumns(content, fileName);
-
-            if (columns.length > 0) {
-                allColumns.push(...columns);
-            }
+            sources.push({
+                path: schemaPath,
+                content: readFileSync(schemaPath, "utf8"),
+            });
         } catch {
             // Ignore read errors
         }
     }
 
+    return scanSqlSources(sources, extractNestedTypes, namingConvention);
+}
+
+/**
+ * Infer JSONB column types from the defaults in in-memory SQL
+ */
+export function scanSqlSources(
+    sources: SqlSource[],
+    extractNestedTypes: boolean,
+    namingConvention: NamingConvention
+): TypeDefinition[] {
+    const allColumns: JsonbColumn[] = [];
+
+    for (const source of sources) {
+        const fileName = source.path.split("/").pop() || source.path;
+        const columns = parseJsonbColumns(source.content, fileName);
+
+        if (columns.length > 0) {
+            allColumns.push(...columns);
+        }
+    }
+
     if (allColumns.length === 0) {
         return [];
     }
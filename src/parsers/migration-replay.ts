@@ -0,0 +1,726 @@
+/**
+ * Replays schema-changing migration statements against the parsed model
+ */
+
+import type {
+    ColumnDefinition,
+    TableDefinition,
+    IndexDefinition,
+    ViewDefinition,
+    EnumDefinition,
+    AlterTableColumnChanges,
+    AlterEnumChange,
+    AlterDomainChange,
+    DomainDefinition,
+    DropStatement,
+    FunctionDefinition,
+    RenameStatement,
+    SchemaModel,
+    SchemaObjectReference,
+} from "../types/index.js";
+import { log } from "../utils/logger.js";
+import { referentialActionsOf } from "./sql/constraint.js";
+import { appendCheckConstraint } from "./sql/check.js";
+
+/**
+ * Receives a warning about a statement that could not be applied, such as
+ * dropping an object that was never created
+ */
+export type ReplayWarning = (message: string) => void;
+
+const logWarning: ReplayWarning = (message) => log(`  ⚠ ${message}`, "yellow");
+
+/**
+ * Apply the column-level actions of an ALTER TABLE statement to the table
+ * they target, as Postgres would at that point of the migration history.
+ *
+ * Relationships, CHECK constraints and (not yet attached) indexes follow
+ * renamed columns and are removed together with dropped columns.
+ *
+ * @returns The altered table, or null when the table is unknown
+ */
+export function applyAlterTableColumnChanges(
+    tables: TableDefinition[],
+    changes: AlterTableColumnChanges,
+    indexesByTable: Map<string, IndexDefinition[]>,
+    warn: ReplayWarning = logWarning
+): TableDefinition | null {
+    const table = tables.find(
+        (t) => t.name === changes.tableName && t.schema === changes.schema
+    );
+
+    if (!table) {
+        warn(
+            `ALTER TABLE on unknown table ${changes.schema}.${changes.tableName}, skipped`
+        );
+        return null;
+    }
+
+    for (const action of changes.actions) {
+        if (action.kind === "add_column") {
+            const exists = table.columns.some(
+                (c) => c.name === action.column.name
+            );
+            if (exists) {
+                if (!action.ifNotExists) {
+                    warn(
+                        `Column ${table.name}.${action.column.name} already exists, ADD COLUMN skipped`
+                    );
+                }
+                continue;
+            }
+
+            const column = action.column;
+            table.columns.push(column);
+
+            if (column.foreignKey) {
+                const referencedRelation = column.foreignKey.schema
+                    ? `${column.foreignKey.schema}.${column.foreignKey.table}`
+                    : column.foreignKey.table;
+
+                table.relationships.push({
+                    foreignKeyName: `${table.name}_${column.name}_fkey`,
+                    columns: [column.name],
+                    isOneToOne: column.isUnique,
+                    referencedRelation,
+                    referencedColumns: [column.foreignKey.column],
+                    ...referentialActionsOf(column.foreignKey),
+                });
+            }
+            continue;
+        }
+
+        if (action.kind === "add_check") {
+            table.checkConstraints = appendCheckConstraint(
+                table.checkConstraints,
+                action.constraint
+            );
+            continue;
+        }
+
+        if (action.kind === "drop_constraint") {
+            // Primary key and unique constraints are not tracked by name
+            const isDropped = (name: string) => name === action.constraintName;
+            table.checkConstraints = table.checkConstraints?.filter(
+                (check) => !isDropped(check.name)
+            );
+            table.relationships = table.relationships.filter(
+                (rel) => !isDropped(rel.foreignKeyName)
+            );
+            continue;
+        }
+
+        const column = table.columns.find((c) => c.name === action.columnName);
+        if (!column) {
+            if (action.kind !== "drop_column" || !action.ifExists) {
+                warn(
+                    `Column ${table.name}.${action.columnName} not found, ALTER TABLE action skipped`
+                );
+            }
+            continue;
+        }
+
+        switch (action.kind) {
+            case "drop_column":
+                table.columns = table.columns.filter((c) => c !== column);
+                table.relationships = table.relationships.filter(
+                    (rel) => !rel.columns.includes(column.name)
+                );
+                table.checkConstraints = table.checkConstraints?.filter(
+                    (check) => check.column !== column.name
+                );
+                indexesByTable.set(
+                    table.name,
+                    (indexesByTable.get(table.name) || []).filter(
+                        (idx) => !idx.columns.includes(column.name)
+                    )
+                );
+                break;
+            case "rename_column":
+                renameColumnReferences(
+                    tables,
+                    table,
+                    indexesByTable.get(table.name) || [],
+                    column.name,
+                    action.newName
+                );
+                column.name = action.newName;
+                break;
+            case "alter_column_type":
+                column.type = action.type;
+                column.isArray = action.isArray;
+                break;
+            case "set_not_null":
+                column.nullable = false;
+                break;
+            case "drop_not_null":
+                column.nullable = !column.isPrimaryKey;
+                break;
+            case "set_default":
+                column.defaultValue = action.defaultValue;
+                break;
+            case "drop_default":
+                column.defaultValue = null;
+                break;
+            case "set_identity":
+                column.identity = action.identity;
+                break;
+            case "drop_identity":
+                delete column.identity;
+                break;
+            case "set_expression":
+                column.generationExpression = action.expression;
+                break;
+            case "drop_expression":
+                // The column keeps its values as a regular column
+                delete column.generationExpression;
+                break;
+        }
+    }
+
+    return table;
+}
+
+function renameColumnReferences(
+    tables: TableDefinition[],
+    table: TableDefinition,
+    pendingIndexes: IndexDefinition[],
+    oldName: string,
+    newName: string
+): void {
+    const rename = (columns: string[]) =>
+        columns.map((c) => (c === oldName ? newName : c));
+
+    for (const rel of table.relationships) {
+        rel.columns = rename(rel.columns);
+    }
+
+    for (const idx of pendingIndexes) {
+        idx.columns = rename(idx.columns);
+    }
+
+    for (const check of table.checkConstraints ?? []) {
+        if (check.column === oldName) {
+            check.column = newName;
+        }
+    }
+
+    // Foreign keys of other tables that point at the renamed column
+    for (const other of tables) {
+        for (const rel of other.relationships) {
+            if (referencesTable(rel.referencedRelation, other.schema, table)) {
+                rel.referencedColumns = rename(rel.referencedColumns);
+            }
+        }
+        for (const col of other.columns) {
+            if (
+                foreignKeyReferences(col.foreignKey, other.schema, table) &&
+                col.foreignKey.column === oldName
+            ) {
+                col.foreignKey.column = newName;
+            }
+        }
+    }
+}
+
+/**
+ * Add or rename an enum value, keeping the value order Postgres uses
+ * (and therefore the order of the generated Constants arrays)
+ */
+export function applyAlterEnumChange(
+    enums: EnumDefinition[],
+    change: AlterEnumChange,
+    warn: ReplayWarning = logWarning
+): void {
+    const enumDef = enums.find(
+        (e) => e.name === change.enumName && e.schema === change.schema
+    );
+    const { action } = change;
+
+    if (!enumDef) {
+        warn(
+            `ALTER TYPE on unknown enum ${change.schema}.${change.enumName}, skipped`
+        );
+        return;
+    }
+
+    if (action.kind === "rename_value") {
+        const index = enumDef.values.indexOf(action.value);
+        if (index === -1) {
+            warn(
+                `Enum value '${action.value}' not found in ${enumDef.name}, RENAME VALUE skipped`
+            );
+            return;
+        }
+        enumDef.values[index] = action.newValue;
+        return;
+    }
+
+    if (enumDef.values.includes(action.value)) {
+        if (!action.ifNotExists) {
+            warn(
+                `Enum value '${action.value}' already exists in ${enumDef.name}, ADD VALUE skipped`
+            );
+        }
+        return;
+    }
+
+    const neighbour = action.before ?? action.after;
+    if (neighbour === undefined) {
+        enumDef.values.push(action.value);
+        return;
+    }
+
+    const index = enumDef.values.indexOf(neighbour);
+    if (index === -1) {
+        warn(
+            `Enum value '${neighbour}' not found in ${enumDef.name}, ADD VALUE skipped`
+        );
+        return;
+    }
+
+    const insertAt = action.before !== undefined ? index : index + 1;
+    enumDef.values.splice(insertAt, 0, action.value);
+}
+
+/**
+ * Apply an ALTER DOMAIN constraint or default change to the domain it
+ * targets
+ */
+export function applyAlterDomainChange(
+    domains: DomainDefinition[],
+    change: AlterDomainChange,
+    warn: ReplayWarning = logWarning
+): void {
+    const domain = domains.find(
+        (d) => d.name === change.domainName && d.schema === change.schema
+    );
+    const { action } = change;
+
+    if (!domain) {
+        warn(
+            `ALTER DOMAIN on unknown domain ${change.schema}.${change.domainName}, skipped`
+        );
+        return;
+    }
+
+    if (action.kind === "set_not_null") {
+        domain.nullable = false;
+    } else if (action.kind === "drop_not_null") {
+        domain.nullable = true;
+    } else if (action.kind === "set_default") {
+        domain.defaultValue = action.defaultValue;
+    } else if (action.kind === "drop_default") {
+        domain.defaultValue = null;
+    } else if (action.kind === "add_check") {
+        domain.checkConstraints = appendCheckConstraint(
+            domain.checkConstraints,
+            action.constraint
+        );
+    } else {
+        // NOT NULL constraints are not tracked by name
+        domain.checkConstraints = domain.checkConstraints?.filter(
+            (check) => check.name !== action.constraintName
+        );
+    }
+}
+
+function sameObject(
+    object: { schema: string; name: string },
+    reference: SchemaObjectReference
+): boolean {
+    return object.schema === reference.schema && object.name === reference.name;
+}
+
+/** Spellings of the same type in a function signature */
+const SIGNATURE_TYPE_ALIASES: Record<string, string> = {
+    int: "integer",
+    int4: "integer",
+    int2: "smallint",
+    int8: "bigint",
+    bool: "boolean",
+    float4: "real",
+    float8: "double precision",
+    decimal: "numeric",
+    varchar: "character varying",
+    char: "character",
+    bpchar: "character",
+    timestamptz: "timestamp with time zone",
+    "timestamp without time zone": "timestamp",
+    timetz: "time with time zone",
+    "time without time zone": "time",
+};
+
+/**
+ * Reduce a signature type to how Postgres compares it: without type
+ * modifiers, quotes or the function's own schema
+ */
+function signatureType(type: string, schema: string): string {
+    const normalized = type
+        .toLowerCase()
+        .replace(/"/g, "")
+        .replace(/\s*\([^)]*\)/g, "")
+        .replace(/\s+/g, " ")
+        .trim();
+    const arrays = normalized.match(/(?:\s*\[\d*\])*$/)![0];
+    const base = normalized
+        .slice(0, normalized.length - arrays.length)
+        .replace(new RegExp(`^(?:pg_catalog|${schema.toLowerCase()})\\.`), "");
+    return `${SIGNATURE_TYPE_ALIASES[base] ?? base}${"[]".repeat(
+        arrays.split("[").length - 1
+    )}`;
+}
+
+/**
+ * Whether a function has the argument types of a signature; a reference
+ * without one (`DROP FUNCTION name`) matches every overload
+ */
+function matchesSignature(
+    func: FunctionDefinition,
+    argTypes: string[] | undefined
+): boolean {
+    return (
+        argTypes === undefined ||
+        (func.args.length === argTypes.length &&
+            func.args.every(
+                (arg, i) =>
+                    signatureType(arg.type, func.schema) ===
+                    signatureType(argTypes[i], func.schema)
+            ))
+    );
+}
+
+/**
+ * Add a function to the model, replacing the one with the same name and
+ * argument types (CREATE OR REPLACE) and keeping other overloads
+ */
+export function applyCreateFunction(
+    functions: FunctionDefinition[],
+    funcDef: FunctionDefinition
+): void {
+    const existing = functions.findIndex(
+        (f) =>
+            sameObject(f, funcDef) &&
+            matchesSignature(
+                f,
+                funcDef.args.map((arg) => arg.type)
+            )
+    );
+    if (existing === -1) {
+        functions.push(funcDef);
+    } else {
+        functions[existing] = funcDef;
+    }
+}
+
+function removeWhere<T>(items: T[], predicate: (item: T) => boolean): number {
+    let removed = 0;
+    for (let i = items.length - 1; i >= 0; i--) {
+        if (predicate(items[i])) {
+            items.splice(i, 1);
+            removed++;
+        }
+    }
+    return removed;
+}
+
+function describeStatement(
+    verb: string,
+    kind: string,
+    reference: SchemaObjectReference
+): string {
+    return `${verb} ${kind.toUpperCase()} ${reference.schema}.${
+        reference.name
+    }`;
+}
+
+/**
+ * Remove the objects named by a DROP statement from the model
+ *
+ * Foreign keys pointing at a dropped table are removed as well, which is
+ * what DROP TABLE ... CASCADE does (and the only way the drop succeeds).
+ */
+export function applyDropStatement(
+    model: SchemaModel,
+    drop: DropStatement,
+    indexesByTable: Map<string, IndexDefinition[]>,
+    warn: ReplayWarning = logWarning
+): void {
+    for (const target of drop.targets) {
+        let removed = 0;
+
+        if (drop.kind === "table") {
+            removed = removeWhere(model.tables, (t) => sameObject(t, target));
+            if (removed > 0) {
+                indexesByTable.delete(target.name);
+                removeReferencesTo(model.tables, target);
+            }
+        } else if (drop.kind === "view") {
+            removed = removeWhere(model.views, (v) => sameObject(v, target));
+        } else if (drop.kind === "domain") {
+            removed = removeWhere(model.domains, (d) => sameObject(d, target));
+        } else if (drop.kind === "type") {
+            removed =
+                removeWhere(model.enums, (e) => sameObject(e, target)) +
+                removeWhere(model.compositeTypes, (c) => sameObject(c, target));
+        } else {
+            removed = removeWhere(
+                model.functions,
+                (f) =>
+                    sameObject(f, target) &&
+                    matchesSignature(f, target.argTypes)
+            );
+        }
+
+        if (removed === 0 && !drop.ifExists) {
+            warn(
+                `${describeStatement(
+                    "DROP",
+                    drop.kind,
+                    target
+                )}: ${drop.kind} was never created`
+            );
+        }
+    }
+}
+
+/**
+ * Whether a reference from a table in `fromSchema` names `table`; an
+ * unqualified name resolves in the referencing table's own schema
+ */
+function referencesTable(
+    referencedRelation: string,
+    fromSchema: string,
+    table: SchemaObjectReference
+): boolean {
+    return referencedRelation.includes(".")
+        ? referencedRelation === `${table.schema}.${table.name}`
+        : fromSchema === table.schema && referencedRelation === table.name;
+}
+
+function foreignKeyReferences(
+    foreignKey: ColumnDefinition["foreignKey"],
+    fromSchema: string,
+    table: SchemaObjectReference
+): foreignKey is NonNullable<ColumnDefinition["foreignKey"]> {
+    return (
+        !!foreignKey &&
+        (foreignKey.schema ?? fromSchema) === table.schema &&
+        foreignKey.table === table.name
+    );
+}
+
+function removeReferencesTo(
+    tables: TableDefinition[],
+    dropped: SchemaObjectReference
+): void {
+    for (const table of tables) {
+        table.relationships = table.relationships.filter(
+            (rel) =>
+                !referencesTable(rel.referencedRelation, table.schema, dropped)
+        );
+        for (const column of table.columns) {
+            if (
+                foreignKeyReferences(column.foreignKey, table.schema, dropped)
+            ) {
+                delete column.foreignKey;
+            }
+        }
+    }
+}
+
+/**
+ * Apply ALTER ... RENAME TO / SET SCHEMA to the model
+ *
+ * Foreign keys follow renamed tables, and columns, attributes, domains and
+ * function signatures follow renamed types and domains.
+ */
+export function applyRenameStatement(
+    model: SchemaModel,
+    rename: RenameStatement,
+    indexesByTable: Map<string, IndexDefinition[]>,
+    warn: ReplayWarning = logWarning
+): void {
+    const { target, newSchema, newName } = rename;
+    let renamed = false;
+
+    if (rename.kind === "table") {
+        const table = model.tables.find((t) => sameObject(t, target));
+        if (table) {
+            renameTableReferences(model.tables, target, newSchema, newName);
+            if (newSchema !== target.schema) {
+                qualifyReferences(table, target.schema);
+            }
+            moveIndexes(indexesByTable, target.name, newName);
+            table.schema = newSchema;
+            table.name = newName;
+            renamed = true;
+        }
+    }
+
+    if (rename.kind === "view" || (rename.kind === "table" && !renamed)) {
+        // ALTER TABLE also accepts views
+        const view = model.views.find((v) => sameObject(v, target));
+        if (view) {
+            view.schema = newSchema;
+            view.name = newName;
+            renamed = true;
+        }
+    }
+
+    if (rename.kind === "type") {
+        const typeDef =
+            model.enums.find((e) => sameObject(e, target)) ||
+            model.compositeTypes.find((c) => sameObject(c, target));
+        if (typeDef) {
+            renameTypeReferences(model, target, newName);
+            typeDef.schema = newSchema;
+            typeDef.name = newName;
+            renamed = true;
+        }
+    }
+
+    if (rename.kind === "domain") {
+        const domain = model.domains.find((d) => sameObject(d, target));
+        if (domain) {
+            renameTypeReferences(model, target, newName);
+            domain.schema = newSchema;
+            domain.name = newName;
+            renamed = true;
+        }
+    }
+
+    if (rename.kind === "function") {
+        for (const func of model.functions) {
+            if (
+                sameObject(func, target) &&
+                matchesSignature(func, target.argTypes)
+            ) {
+                func.schema = newSchema;
+                func.name = newName;
+                renamed = true;
+            }
+        }
+    }
+
+    if (!renamed && !rename.ifExists) {
+        warn(
+            `${describeStatement("ALTER", rename.kind, target)}: ${
+                rename.kind
+            } was never created`
+        );
+    }
+}
+
+function moveIndexes(
+    indexesByTable: Map<string, IndexDefinition[]>,
+    oldName: string,
+    newName: string
+): void {
+    const indexes = indexesByTable.get(oldName);
+    if (!indexes || oldName === newName) {
+        return;
+    }
+
+    for (const idx of indexes) {
+        idx.tableName = newName;
+    }
+    indexesByTable.delete(oldName);
+    indexesByTable.set(newName, [
+        ...(indexesByTable.get(newName) || []),
+        ...indexes,
+    ]);
+}
+
+/**
+ * Keep the unqualified foreign keys of a table that moves to another
+ * schema pointing into its old schema
+ */
+function qualifyReferences(table: TableDefinition, oldSchema: string): void {
+    for (const rel of table.relationships) {
+        if (!rel.referencedRelation.includes(".")) {
+            rel.referencedRelation = `${oldSchema}.${rel.referencedRelation}`;
+        }
+    }
+    for (const column of table.columns) {
+        if (column.foreignKey && !column.foreignKey.schema) {
+            column.foreignKey.schema = oldSchema;
+        }
+    }
+}
+
+function renameTableReferences(
+    tables: TableDefinition[],
+    target: SchemaObjectReference,
+    newSchema: string,
+    newName: string
+): void {
+    for (const table of tables) {
+        for (const rel of table.relationships) {
+            if (
+                !referencesTable(rel.referencedRelation, table.schema, target)
+            ) {
+                continue;
+            }
+
+            const qualify =
+                rel.referencedRelation.includes(".") ||
+                newSchema !== table.schema;
+            rel.referencedRelation = qualify
+                ? `${newSchema}.${newName}`
+                : newName;
+        }
+        for (const column of table.columns) {
+            if (
+                !foreignKeyReferences(column.foreignKey, table.schema, target)
+            ) {
+                continue;
+            }
+
+            column.foreignKey.table = newName;
+            if (column.foreignKey.schema || newSchema !== table.schema) {
+                column.foreignKey.schema = newSchema;
+            }
+        }
+    }
+}
+
+function renameTypeReferences(
+    model: SchemaModel,
+    target: SchemaObjectReference,
+    newName: string
+): void {
+    const qualifiedName = `${target.schema}.${target.name}`;
+    const renameType = (type: string) =>
+        type === target.name || type === qualifiedName ? newName : type;
+
+    const columnOwners: Array<TableDefinition | ViewDefinition> = [
+        ...model.tables,
+        ...model.views,
+    ];
+    for (const owner of columnOwners) {
+        for (const column of owner.columns) {
+            column.type = renameType(column.type);
+        }
+    }
+
+    for (const compositeType of model.compositeTypes) {
+        for (const attribute of compositeType.attributes) {
+            attribute.type = renameType(attribute.type);
+        }
+    }
+
+    for (const domain of model.domains) {
+        domain.baseType = renameType(domain.baseType);
+    }
+
+    for (const func of model.functions) {
+        for (const arg of func.args) {
+            arg.type = renameType(arg.type);
+        }
+        func.returns = renameType(func.returns);
+        for (const column of func.returnColumns ?? []) {
+            column.type = renameType(column.type);
+        }
+    }
+}
@@ -0,0 +1,90 @@
+/**
+ * Consistency checks on a parsed schema model
+ */
+
+import type { SchemaModel } from "../types/index.js";
+import type { DiagnosticCollector } from "../utils/diagnostics.js";
+import { findReferencedTable } from "../utils/relationships.js";
+import { mapPostgresTypeToTypeScript } from "../utils/type-mapping.js";
+
+/**
+ * Report columns whose type maps to `unknown` and foreign keys whose target
+ * table or columns do not exist
+ */
+export function collectModelDiagnostics(
+    model: SchemaModel,
+    diagnostics: DiagnosticCollector
+): void {
+    const enumsBySchema = new Map<string, Set<string>>();
+    for (const enumDef of model.enums) {
+        if (!enumsBySchema.has(enumDef.schema)) {
+            enumsBySchema.set(enumDef.schema, new Set());
+        }
+        enumsBySchema.get(enumDef.schema)!.add(enumDef.name);
+    }
+
+    for (const relation of [...model.tables, ...model.views]) {
+        const enums = enumsBySchema.get(relation.schema) || new Set<string>();
+
+        for (const column of relation.columns) {
+            const tsType = mapPostgresTypeToTypeScript(
+                column.type,
+                false,
+                relation.schema,
+                enums,
+                false,
+                model.domains
+            );
+            if (tsType === "unknown") {
+                const name = `${relation.schema}.${relation.name}.${column.name}`;
+                diagnostics.report(
+                    "warning",
+                    "unknown-type",
+                    column.type === "unknown"
+                        ? `Could not infer the type of view column ${name} from its definition`
+                        : `Column ${name} has type "${column.type}", generated as unknown`,
+                    column.location ?? relation.location
+                );
+            }
+        }
+    }
+
+    for (const table of model.tables) {
+        for (const rel of table.relationships) {
+            const target = findReferencedTable(
+                model.tables,
+                rel.referencedRelation,
+                table.schema
+            );
+            const location =
+                table.columns.find((c) => c.name === rel.columns[0])
+                    ?.location ?? table.location;
+
+            if (!target) {
+                diagnostics.report(
+                    "warning",
+                    "unresolved-foreign-key",
+                    `Foreign key ${rel.foreignKeyName} on ${table.schema}.${table.name} references unknown table ${rel.referencedRelation}`,
+                    location
+                );
+                continue;
+            }
+
+            const missing = rel.referencedColumns.filter(
+                (name) => !target.columns.some((c) => c.name === name)
+            );
+            if (missing.length > 0) {
+                diagnostics.report(
+                    "warning",
+                    "unresolved-foreign-key",
+                    `Foreign key ${rel.foreignKeyName} on ${table.schema}.${
+                        table.name
+                    } references unknown column(s) ${missing.join(", ")} of ${
+                        target.schema
+                    }.${target.name}`,
+                    location
+                );
+            }
+        }
+    }
+}
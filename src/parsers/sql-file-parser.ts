@@ -8,35 +8,98 @@ import type {
     EnumDefinition,
     FunctionDefinition,
     CompositeTypeDefinition,
+    DomainDefinition,
     IndexDefinition,
     ViewDefinition,
+    RelationshipDefinition,
+    SchemaModel,
+    SourceLocation,
+    SqlSource,
 } from "../types/index.js";
 import { log } from "../utils/logger.js";
+import {
+    createDiagnosticCollector,
+    type DiagnosticCollector,
+} from "../utils/diagnostics.js";
 import {
     parseTableDefinition,
     parseEnumDefinition,
     parseFunctionDefinition,
     parseCompositeType,
+    parseDomainDefinition,
+    parseAlterDomainChange,
     parseIndexDefinition,
     parseTableComment,
     parseColumnComment,
     parseAlterTableForeignKey,
     parseAlterTableUnique,
+    parseAlterTableColumnChanges,
     parseViewDefinition,
     parseViewComment,
+    parseDropStatement,
+    parseRenameStatement,
+    parseAlterEnumChange,
+    splitStatements,
+    tokenize,
+    type SqlStatement,
 } from "./sql-parsers.js";
+import {
+    applyAlterTableColumnChanges,
+    applyAlterEnumChange,
+    applyAlterDomainChange,
+    applyDropStatement,
+    applyRenameStatement,
+    applyCreateFunction,
+    type ReplayWarning,
+} from "./migration-replay.js";
+
+// A source whose content is only read inside the per-file error handling
+interface PendingSource {
+    path: string;
+    read: () => string;
+}
 
 export function parseSqlFiles(
     filePaths: string[],
     schema: string,
-    includeComments: boolean = true
-): {
-    tables: TableDefinition[];
-    enums: EnumDefinition[];
-    functions: FunctionDefinition[];
-    compositeTypes: CompositeTypeDefinition[];
-    views: ViewDefinition[];
-} {
+    includeComments: boolean = true,
+    diagnostics: DiagnosticCollector = createDiagnosticCollector()
+): SchemaModel {
+    return parseSources(
+        filePaths.map((path) => ({
+            path,
+            read: () => readFileSync(path, "utf8"),
+        })),
+        schema,
+        includeComments,
+        diagnostics
+    );
+}
+
+/**
+ * Parse in-memory SQL, replaying the sources in array order as if they were
+ * migration files
+ */
+export function parseSqlSources(
+    sources: SqlSource[],
+    schema: string,
+    includeComments: boolean = true,
+    diagnostics: DiagnosticCollector = createDiagnosticCollector()
+): SchemaModel {
+    return parseSources(
+        sources.map(({ path, content }) => ({ path, read: () => content })),
+        schema,
+        includeComments,
+        diagnostics
+    );
+}
+
+function parseSources(
+    sources: PendingSource[],
+    schema: string,
+    includeComments: boolean,
+    diagnostics: DiagnosticCollector
+): SchemaModel {
     log("\n📊 Step 1: Parsing SQL schema files...", "bright");
 
     const tables: TableDefinition[] = [];
@@ -44,22 +107,41 @@ export function parseSqlFiles(
     const functions: FunctionDefinition[] = [];
     const compositeTypes: CompositeTypeDefinition[] = [];
     const views: ViewDefinition[] = [];
+    const domains: DomainDefinition[] = [];
+    const model: SchemaModel = {
+        tables,
+        enums,
+        functions,
+        compositeTypes,
+        views,
+        domains,
+    };
     const indexesByTable: Map<string, IndexDefinition[]> = new Map();
     const alterTableForeignKeys: Array<{
         tableName: string;
-        relationship: any;
+        relationship: RelationshipDefinition;
+        attached: boolean;
     }> = [];
     const alterTableUniques: Array<{ tableName: string; columns: string[] }> =
         [];
 
-    for (const filePath of filePaths) {
+    for (const { path: filePath, read } of sources) {
+        let location: SourceLocation | undefined;
+        const warnUnapplied: ReplayWarning = (message) =>
+            diagnostics.report(
+                "warning",
+                "unapplied-statement",
+                message,
+                location
+            );
+
         try {
-            const content = readFileSync(filePath, "utf8");
+            const content = read();
             const fileName = filePath.split(/[/\\]/).pop() || filePath;
 
             log(`\n  Processing: ${fileName}`, "cyan");
 
-            const statements = content.split(/;(?:\s*\n|$)/);
+            const statements = splitStatements(content);
 
             const tableComments = includeComments
                 ? new Map<string, string>()
@@ -71,51 +153,82 @@ export function parseSqlFiles(
                 ? new Map<string, string>()
                 : null;
 
-            // Track tables added in this file for comment attachment
-            const tablesAddedInThisFile: TableDefinition[] = [];
+            // Track tables created or altered in this file for comment attachment
+            const tablesChangedInThisFile: TableDefinition[] = [];
             const viewsAddedInThisFile: ViewDefinition[] = [];
-            const viewStatements: string[] = [];
+            // CREATE VIEW statements and the drops/renames that target
+            // views, in statement order
+            const viewStatements: SqlStatement[] = [];
 
             for (const statement of statements) {
-                const trimmed = statement.trim();
-                if (!trimmed) continue;
+                const trimmed = statement.text;
+                location = locateStatement(filePath, statement);
 
                 const table = parseTableDefinition(trimmed, schema);
                 if (table) {
+                    table.location = location;
+                    locateColumns(table, statement, filePath);
                     tables.push(table);
-                    tablesAddedInThisFile.push(table);
+                    tablesChangedInThisFile.push(table);
                     continue;
                 }
 
                 const enumDef = parseEnumDefinition(trimmed, schema);
                 if (enumDef) {
+                    enumDef.location = location;
                     enums.push(enumDef);
                     continue;
                 }
 
+                const enumChange = parseAlterEnumChange(trimmed, schema);
+                if (enumChange) {
+                    applyAlterEnumChange(enums, enumChange, warnUnapplied);
+                    continue;
+                }
+
                 const funcDef = parseFunctionDefinition(trimmed, schema);
                 if (funcDef) {
-                    functions.push(funcDef);
+                    funcDef.location = location;
+                    applyCreateFunction(functions, funcDef);
                     continue;
                 }
 
                 const compositeDef = parseCompositeType(trimmed, schema);
                 if (compositeDef) {
+                    compositeDef.location = location;
                     compositeTypes.push(compositeDef);
                     continue;
                 }
 
+                const domainDef = parseDomainDefinition(trimmed, schema);
+                if (domainDef) {
+                    domainDef.location = location;
+                    domains.push(domainDef);
+                    continue;
+                }
+
+                const domainChange = parseAlterDomainChange(trimmed, schema);
+                if (domainChange) {
+                    applyAlterDomainChange(
+                        domains,
+                        domainChange,
+                        warnUnapplied
+                    );
+                    continue;
+                }
+
                 if (
                     trimmed
                         .toLowerCase()
                         .match(/^create\s+(materialized\s+)?view/)
                 ) {
-                    viewStatements.push(trimmed);
+                    viewStatements.push(statement);
                     continue;
                 }
 
                 const indexDef = parseIndexDefinition(trimmed, schema);
                 if (indexDef) {
+                    indexDef.location = location;
                     if (!indexesByTable.has(indexDef.tableName)) {
                         indexesByTable.set(indexDef.tableName, []);
                     }
@@ -123,15 +236,99 @@ export function parseSqlFiles(
                     continue;
                 }
 
+                const drop = parseDropStatement(trimmed, schema);
+                if (drop) {
+                    if (drop.kind === "view") {
+                        viewStatements.push(statement);
+                    } else {
+                        applyDropStatement(
+                            model,
+                            drop,
+                            indexesByTable,
+                            warnUnapplied
+                        );
+                    }
+                    continue;
+                }
+
+                const rename = parseRenameStatement(trimmed, schema);
+                if (rename) {
+                    // ALTER TABLE ... RENAME may also target a view created
+                    // earlier in this file, which is only parsed below
+                    const targetsView =
+                        rename.kind === "view" ||
+                        (rename.kind === "table" &&
+                            !tables.some(
+                                (t) =>
+                                    t.schema === rename.target.schema &&
+                                    t.name === rename.target.name
+                            ));
+                    if (targetsView) {
+                        viewStatements.push(statement);
+                    } else {
+                        applyRenameStatement(
+                            model,
+                            rename,
+                            indexesByTable,
+                            warnUnapplied
+                        );
+                    }
+                    continue;
+                }
+
+                // Column changes are replayed in statement order so later
+                // migrations see the schema as it was at that point
+                const alterColumns = parseAlterTableColumnChanges(
+                    trimmed,
+                    schema
+                );
+                if (alterColumns) {
+                    for (const action of alterColumns.actions) {
+                        if (action.kind === "add_column") {
+                            action.column.location = location;
+                        }
+                    }
+                    const alteredTable = applyAlterTableColumnChanges(
+                        tables,
+                        alterColumns,
+                        indexesByTable,
+                        warnUnapplied
+                    );
+                    if (
+                        alteredTable &&
+                        !tablesChangedInThisFile.includes(alteredTable)
+                    ) {
+                        tablesChangedInThisFile.push(alteredTable);
+                    }
+                }
+
                 const alterFK = parseAlterTableForeignKey(trimmed, schema);
                 if (alterFK) {
-                    alterTableForeignKeys.push(alterFK);
+                    // Attach immediately so later column renames and drops
+                    // apply to it; one-to-one detection waits for indexes
+                    const table = tables.find(
+                        (t) => t.name === alterFK.tableName
+                    );
+                    if (table) {
+                        table.relationships.push(alterFK.relationship);
+                    }
+                    alterTableForeignKeys.push({
+                        ...alterFK,
+                        attached: !!table,
+                    });
                     continue;
                 }
 
                 const alterUnique = parseAlterTableUnique(trimmed, schema);
                 if (alterUnique) {
-                    alterTableUniques.push(alterUnique);
+                    const table = tables.find(
+                        (t) => t.name === alterUnique.tableName
+                    );
+                    if (table) {
+                        markColumnsUnique(table, alterUnique.columns);
+                    } else {
+                        alterTableUniques.push(alterUnique);
+                    }
                     continue;
                 }
 
@@ -171,23 +368,61 @@ export function parseSqlFiles(
                         continue;
                     }
                 }
+
+                if (!alterColumns) {
+                    reportUnhandledStatement(diagnostics, trimmed, location);
+                }
             }
 
             // Attach comments to tables added in THIS file only
             for (const viewStatement of viewStatements) {
+                location = locateStatement(filePath, viewStatement);
+
+                const viewDrop = parseDropStatement(viewStatement.text, schema);
+                if (viewDrop) {
+                    applyDropStatement(
+                        model,
+                        viewDrop,
+                        indexesByTable,
+                        warnUnapplied
+                    );
+                    continue;
+                }
+
+                const viewRename = parseRenameStatement(
+                    viewStatement.text,
+                    schema
+                );
+                if (viewRename) {
+                    applyRenameStatement(
+                        model,
+                        viewRename,
+                        indexesByTable,
+                        warnUnapplied
+                    );
+                    continue;
+                }
+
                 const viewDef = parseViewDefinition(
-                    viewStatement,
+                    viewStatement.text,
                     schema,
-                    tables
+                    [...tables, ...views]
                 );
                 if (viewDef) {
+                    viewDef.location = location;
                     views.push(viewDef);
                     viewsAddedInThisFile.push(viewDef);
+                } else {
+                    reportUnhandledStatement(
+                        diagnostics,
+                        viewStatement.text,
+                        location
+                    );
                 }
             }
 
             if (includeComments && tableComments && columnComments) {
-                for (const table of tablesAddedInThisFile) {
+                for (const table of tablesChangedInThisFile) {
                     const tableComment = tableComments.get(table.name);
                     if (tableComment) {
                         table.comment = tableComment;
@@ -217,6 +452,12 @@ export function parseSqlFiles(
             const errorMsg =
                 error instanceof Error ? error.message : String(error);
             log(`  ✗ Error parsing ${filePath}: ${errorMsg}`, "red");
+            diagnostics.report(
+                "error",
+                "parse-error",
+                `Error parsing ${filePath}: ${errorMsg}`,
+                location
+            );
         }
     }
 
@@ -226,22 +467,21 @@ export function parseSqlFiles(
         table.indexes = tableIndexes;
     }
 
-    // Apply ALTER TABLE UNIQUE constraints
+    // Apply ALTER TABLE UNIQUE constraints whose table was not known yet
     for (const alterUnique of alterTableUniques) {
         const table = tables.find((t) => t.name === alterUnique.tableName);
         if (table) {
-            for (const colName of alterUnique.columns) {
-                const column = table.columns.find((c) => c.name === colName);
-                if (column) {
-                    column.isUnique = true;
-                }
-            }
+            markColumnsUnique(table, alterUnique.columns);
         }
     }
 
     // Attach ALTER TABLE foreign keys
     for (const alterFK of alterTableForeignKeys) {
-        const table = tables.find((t) => t.name === alterFK.tableName);
+        // Attached foreign keys missing from every table were dropped
+        // together with their columns
+        const table = alterFK.attached
+            ? tables.find((t) => t.relationships.includes(alterFK.relationship))
+            : tables.find((t) => t.name === alterFK.tableName);
         if (table) {
             const fkColumns = alterFK.relationship.columns;
             let isOneToOne = false;
@@ -264,7 +504,9 @@ export function parseSqlFiles(
                 alterFK.relationship.isOneToOne = true;
             }
 
-            table.relationships.push(alterFK.relationship);
+            if (!table.relationships.includes(alterFK.relationship)) {
+                table.relationships.push(alterFK.relationship);
+            }
         }
     }
 
@@ -275,6 +517,106 @@ export function parseSqlFiles(
     if (compositeTypes.length > 0)
         log(`  ✓ Parsed ${compositeTypes.length} composite type(s)`, "green");
     if (views.length > 0) log(`  ✓ Parsed ${views.length} view(s)`, "green");
+    if (domains.length > 0)
+        log(`  ✓ Parsed ${domains.length} domain(s)`, "green");
+
+    return model;
+}
+
+function markColumnsUnique(table: TableDefinition, columns: string[]): void {
+    for (const colName of columns) {
+        const column = table.columns.find((c) => c.name === colName);
+        if (column) {
+            column.isUnique = true;
+        }
+    }
+}
+
+const SUPPORTED_DEFINITION =
+    /^create\s+(?:or\s+replace\s+)?(?:unique\s+)?(?:table|type|domain|function|(?:materialized\s+)?view|index)\b/i;
+
+/**
+ * Report a statement no parser handled: a warning for definitions we are
+ * expected to understand, info for everything else (GRANT, policies, ...)
+ */
+function reportUnhandledStatement(
+    diagnostics: DiagnosticCollector,
+    sql: string,
+    location: SourceLocation | undefined
+): void {
+    const firstLine = sql.split("\n")[0].trim();
+    const summary =
+        firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine;
+
+    if (SUPPORTED_DEFINITION.test(sql)) {
+        diagnostics.report(
+            "warning",
+            "unparsed-statement",
+            `Could not parse statement: ${summary}`,
+            location
+        );
+    } else {
+        diagnostics.report(
+            "info",
+            "skipped-statement",
+            `Statement skipped: ${summary}`,
+            location
+        );
+    }
+}
 
-    return { tables, enums, functions, compositeTypes, views };
+function locateStatement(
+    file: string,
+    statement: SqlStatement
+): SourceLocation {
+    return { file, line: statement.line, column: statement.column };
+}
+
+/**
+ * Give each column the location of its name inside CREATE TABLE (...)
+ */
+function locateColumns(
+    table: TableDefinition,
+    statement: SqlStatement,
+    file: string
+): void {
+    let depth = 0;
+    let expectItem = false;
+
+    for (const token of tokenize(statement.text)) {
+        if (token.kind === "whitespace" || token.kind === "comment") continue;
+
+        if (token.kind === "symbol" && token.text === "(") {
+            depth++;
+            expectItem = depth === 1;
+            continue;
+        }
+        if (token.kind === "symbol" && token.text === ")") {
+            depth--;
+            if (depth === 0) return;
+            continue;
+        }
+        if (depth === 1 && token.kind === "symbol" && token.text === ",") {
+            expectItem = true;
+            continue;
+        }
+        if (!expectItem) continue;
+
+        expectItem = false;
+        const name =
+            token.kind === "quoted_identifier"
+                ? token.text.slice(1, -1).replace(/""/g, '"')
+                : token.text;
+        const column = table.columns.find((c) => c.name === name);
+        if (column && !column.location) {
+            column.location = {
+                file,
+                line: statement.line + token.line - 1,
+                column:
+                    token.line === 1
+                        ? statement.column + token.column - 1
+                        : token.column,
+            };
+        }
+    }
 }
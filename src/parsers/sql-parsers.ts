@@ -2,11 +2,16 @@
  * SQL parser exports
  */
 
+export * from "./sql/tokenizer.js";
 export * from "./sql/table.js";
 export * from "./sql/enum.js";
 export * from "./sql/function.js";
 export * from "./sql/composite.js";
+export * from "./sql/domain.js";
 export * from "./sql/index.js";
 export * from "./sql/comment.js";
 export * from "./sql/constraint.js";
+export * from "./sql/alter-table.js";
+export * from "./sql/drop.js";
+export * from "./sql/rename.js";
 export * from "./sql/view.js";
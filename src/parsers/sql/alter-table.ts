@@ -0,0 +1,224 @@
+/**
+ * ALTER TABLE column change parsing from SQL
+ */
+
+import type {
+    AlterTableColumnAction,
+    AlterTableColumnChanges,
+} from "../../types/index.js";
+import { parseColumnDefinition } from "./table.js";
+import { splitByComma } from "./tokenizer.js";
+import { parseCheckConstraint, splitCheckClauses } from "./check.js";
+
+const IDENTIFIER = `(?:"([^"]+)"|(\\w+))`;
+
+function parseColumnAction(
+    action: string,
+    tableName: string
+): AlterTableColumnAction | null {
+    if (/^add\s+(?:constraint\s+(?:"[^"]+"|\S+)\s+)?check\s*\(/i.test(action)) {
+        const [check] = splitCheckClauses(action.slice(3)).checks;
+        return check
+            ? {
+                  kind: "add_check",
+                  constraint: parseCheckConstraint(
+                      check.expression,
+                      tableName,
+                      check.name
+                  ),
+              }
+            : null;
+    }
+
+    const dropConstraintMatch = action.match(
+        new RegExp(
+            `^drop\\s+constraint\\s+(if\\s+exists\\s+)?${IDENTIFIER}(?:\\s+(?:cascade|restrict))?$`,
+            "i"
+        )
+    );
+    if (dropConstraintMatch) {
+        return {
+            kind: "drop_constraint",
+            constraintName: dropConstraintMatch[2] || dropConstraintMatch[3],
+            ifExists: !!dropConstraintMatch[1],
+        };
+    }
+
+    const addMatch = action.match(
+        /^add\s+(?!constraint\b|primary\s+key\b|unique\b|foreign\s+key\b|check\b|exclude\b)(?:column\s+)?(if\s+not\s+exists\s+)?(.+)$/i
+    );
+    if (addMatch) {
+        const column = parseColumnDefinition(addMatch[2]);
+        return column
+            ? { kind: "add_column", column, ifNotExists: !!addMatch[1] }
+            : null;
+    }
+
+    const dropMatch = action.match(
+        new RegExp(
+            `^drop\\s+(?!constraint\\b)(?:column\\s+)?(if\\s+exists\\s+)?${IDENTIFIER}(?:\\s+(?:cascade|restrict))?$`,
+            "i"
+        )
+    );
+    if (dropMatch) {
+        return {
+            kind: "drop_column",
+            columnName: dropMatch[2] || dropMatch[3],
+            ifExists: !!dropMatch[1],
+        };
+    }
+
+    const renameMatch = action.match(
+        new RegExp(
+            `^rename\\s+(?!to\\b|constraint\\b)(?:column\\s+)?${IDENTIFIER}\\s+to\\s+${IDENTIFIER}$`,
+            "i"
+        )
+    );
+    if (renameMatch) {
+        return {
+            kind: "rename_column",
+            columnName: renameMatch[1] || renameMatch[2],
+            newName: renameMatch[3] || renameMatch[4],
+        };
+    }
+
+    const alterMatch = action.match(
+        new RegExp(`^alter\\s+(?:column\\s+)?${IDENTIFIER}\\s+(.+)$`, "i")
+    );
+    if (!alterMatch) {
+        return null;
+    }
+
+    const columnName = alterMatch[1] || alterMatch[2];
+    const change = alterMatch[3];
+
+    const typeMatch = change.match(
+        /^(?:set\s+data\s+)?type\s+(.+?)(?:\s+collate\s+\S+)?(?:\s+using\s+.+)?$/i
+    );
+    if (typeMatch) {
+        const parsed = parseColumnDefinition(`"${columnName}" ${typeMatch[1]}`);
+        return parsed
+            ? {
+                  kind: "alter_column_type",
+                  columnName,
+                  type: parsed.type,
+                  isArray: parsed.isArray,
+              }
+            : null;
+    }
+
+    if (/^set\s+not\s+null$/i.test(change)) {
+        return { kind: "set_not_null", columnName };
+    }
+
+    if (/^drop\s+not\s+null$/i.test(change)) {
+        return { kind: "drop_not_null", columnName };
+    }
+
+    const defaultMatch = change.match(/^set\s+default\s+(.+)$/i);
+    if (defaultMatch) {
+        return {
+            kind: "set_default",
+            columnName,
+            defaultValue: defaultMatch[1].trim(),
+        };
+    }
+
+    if (/^drop\s+default$/i.test(change)) {
+        return { kind: "drop_default", columnName };
+    }
+
+    // SET GENERATED may be followed by sequence options
+    const identityMatch = change.match(
+        /^(?:add\s+generated\s+(always|by\s+default)\s+as\s+identity\b|set\s+generated\s+(always|by\s+default)\b)/i
+    );
+    if (identityMatch) {
+        return {
+            kind: "set_identity",
+            columnName,
+            identity: /^always$/i.test(identityMatch[1] || identityMatch[2])
+                ? "always"
+                : "by_default",
+        };
+    }
+
+    if (/^drop\s+identity(?:\s+if\s+exists)?$/i.test(change)) {
+        return { kind: "drop_identity", columnName };
+    }
+
+    const expressionMatch = change.match(/^set\s+expression\s+as\s*\((.+)\)$/i);
+    if (expressionMatch) {
+        return {
+            kind: "set_expression",
+            columnName,
+            expression: expressionMatch[1].trim(),
+        };
+    }
+
+    if (/^drop\s+expression(?:\s+if\s+exists)?$/i.test(change)) {
+        return { kind: "drop_expression", columnName };
+    }
+
+    return null;
+}
+
+/**
+ * Parse the column-level actions of an ALTER TABLE statement
+ *
+ * Handles ADD/DROP/RENAME COLUMN, ALTER COLUMN ... TYPE, SET/DROP NOT NULL,
+ * SET/DROP DEFAULT, identity and generation expression changes,
+ * ADD ... CHECK and DROP CONSTRAINT. Other actions
+ * (ownership, RLS, ...) are ignored; returns null when the statement has
+ * no column-level action.
+ */
+export function parseAlterTableColumnChanges(
+    sqlContent: string,
+    schema: string = "public"
+): AlterTableColumnChanges | null {
+    const normalized = sqlContent.trim().replace(/\s+/g, " ");
+
+    const alterMatch = normalized.match(
+        new RegExp(
+            `^alter\\s+table\\s+(?:if\\s+exists\\s+)?(?:only\\s+)?(?:${IDENTIFIER}\\.)?${IDENTIFIER}\\s+(.+)$`,
+            "i"
+        )
+    );
+
+    if (!alterMatch) {
+        return null;
+    }
+
+    const tableSchema = alterMatch[1] || alterMatch[2] || schema;
+    const tableName = alterMatch[3] || alterMatch[4];
+
+    const actions: AlterTableColumnAction[] = [];
+    for (const part of splitByComma(alterMatch[5])) {
+        const action = parseColumnAction(part.trim(), tableName);
+        if (!action) continue;
+
+        actions.push(action);
+        if (action.kind === "add_column") {
+            for (const check of splitCheckClauses(part).checks) {
+                actions.push({
+                    kind: "add_check",
+                    constraint: parseCheckConstraint(
+                        check.expression,
+                        tableName,
+                        check.name,
+                        action.column.name
+                    ),
+                });
+            }
+        }
+    }
+
+    if (actions.length === 0) {
+        return null;
+    }
+
+    return {
+        schema: tableSchema,
+        tableName,
+        actions,
+    };
+}
@@ -0,0 +1,244 @@
+/**
+ * CHECK constraint parsing from SQL
+ */
+
+import type { CheckConstraintDefinition } from "../../types/index.js";
+import type { SqlToken } from "./tokenizer.js";
+import { findClosingParen, tokenize } from "./tokenizer.js";
+
+interface CheckClause {
+    /** Name given with CONSTRAINT, or null for Postgres to choose one */
+    name: string | null;
+    expression: string;
+}
+
+function unquoteIdentifier(token: SqlToken): string {
+    return token.kind === "quoted_identifier"
+        ? token.text.slice(1, -1).replace(/""/g, '"')
+        : token.text;
+}
+
+function unquoteString(text: string): string {
+    return text.replace(/^[Ee]/, "").slice(1, -1).replace(/''/g, "'");
+}
+
+/**
+ * Split the `[CONSTRAINT name] CHECK (...)` clauses out of a column or
+ * table constraint definition
+ *
+ * @returns The CHECK clauses, and the definition without them
+ */
+export function splitCheckClauses(definition: string): {
+    checks: CheckClause[];
+    rest: string;
+} {
+    const tokens = tokenize(definition).filter(
+        (t) => t.kind !== "whitespace" && t.kind !== "comment"
+    );
+    const checks: CheckClause[] = [];
+    let rest = "";
+    let restStart = 0;
+    let depth = 0;
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.kind === "symbol" && token.text === "(") depth++;
+        if (token.kind === "symbol" && token.text === ")") depth--;
+        if (
+            depth !== 0 ||
+            token.kind !== "word" ||
+            token.text.toLowerCase() !== "check" ||
+            tokens[i + 1]?.text !== "("
+        ) {
+            continue;
+        }
+
+        const closeIndex = findClosingParen(definition, tokens[i + 1].start);
+        if (closeIndex === -1) break;
+
+        const named =
+            i >= 2 && tokens[i - 2].text.toLowerCase() === "constraint";
+        const start = named ? tokens[i - 2].start : token.start;
+        checks.push({
+            name: named ? unquoteIdentifier(tokens[i - 1]) : null,
+            expression: definition.slice(tokens[i + 1].end, closeIndex).trim(),
+        });
+        rest += definition.slice(restStart, start);
+        restStart = closeIndex + 1;
+
+        while (tokens[i + 1] && tokens[i + 1].start <= closeIndex) i++;
+    }
+
+    rest += definition.slice(restStart);
+    return { checks, rest: rest.trim() };
+}
+
+/**
+ * The column and literal values of a `col IN (...)` or
+ * `col = ANY (ARRAY[...])` check, as written in migrations or returned by
+ * pg_get_constraintdef; null for any other expression
+ */
+function parseAllowedValues(
+    expression: string
+): { column: string; allowedValues: string[] | number[] } | null {
+    const tokens = tokenize(expression).filter(
+        (t) => t.kind !== "whitespace" && t.kind !== "comment"
+    );
+    let pos = 0;
+
+    const isSymbol = (text: string) =>
+        tokens[pos]?.kind === "symbol" && tokens[pos].text === text;
+    const isWord = (word: string) =>
+        tokens[pos]?.kind === "word" && tokens[pos].text.toLowerCase() === word;
+    const accept = (matches: boolean) => {
+        if (matches) pos++;
+        return matches;
+    };
+
+    // `::type`, `::character varying(20)`, `::text[]`
+    const skipCasts = () => {
+        while (isSymbol(":") && tokens[pos + 1]?.text === ":") {
+            pos += 2;
+            while (tokens[pos]?.kind === "word" && !isWord("in")) pos++;
+            if (accept(isSymbol("("))) {
+                while (tokens[pos] && !isSymbol(")")) pos++;
+                pos++;
+            }
+            if (isSymbol("[") && tokens[pos + 1]?.text === "]") pos += 2;
+        }
+    };
+
+    // An operand in redundant parentheses, each level with its own casts
+    const parenthesized = <T>(parse: () => T | null): T | null => {
+        if (!accept(isSymbol("("))) return parse();
+        const inner = parenthesized(parse);
+        if (inner === null || !accept(isSymbol(")"))) return null;
+        skipCasts();
+        return inner;
+    };
+
+    const parseColumn = (): string | null => {
+        const token = tokens[pos];
+        if (token?.kind !== "word" && token?.kind !== "quoted_identifier") {
+            return null;
+        }
+        pos++;
+        skipCasts();
+        return unquoteIdentifier(token);
+    };
+
+    const parseValue = (): string | number | null => {
+        const sign = isSymbol("-") || isSymbol("+") ? tokens[pos++].text : "";
+        const token = tokens[pos];
+        let value: string | number;
+        if (token?.kind === "number") {
+            value = Number(`${sign}${token.text}`);
+        } else if (
+            token?.kind === "string" &&
+            !sign &&
+            /^[Ee]?'/.test(token.text)
+        ) {
+            value = unquoteString(token.text);
+        } else {
+            return null;
+        }
+        pos++;
+        skipCasts();
+        return value;
+    };
+
+    const parseValues = (close: string): Array<string | number> | null => {
+        const values: Array<string | number> = [];
+        do {
+            const value = parenthesized(parseValue);
+            if (value === null) return null;
+            values.push(value);
+        } while (accept(isSymbol(",")));
+        return accept(isSymbol(close)) ? values : null;
+    };
+
+    // ARRAY[...], (ARRAY[...])::text[]
+    const parseArray = (): Array<string | number> | null => {
+        if (!accept(isWord("array")) || !accept(isSymbol("["))) return null;
+        const values = parseValues("]");
+        skipCasts();
+        return values;
+    };
+
+    // Redundant parentheses around the whole expression
+    let end = tokens.length;
+    while (
+        end > pos &&
+        tokens[pos].text === "(" &&
+        findClosingParen(expression, tokens[pos].start) ===
+            tokens[end - 1].start
+    ) {
+        pos++;
+        end--;
+    }
+    tokens.length = end;
+
+    const column = parenthesized(parseColumn);
+    if (column === null) return null;
+
+    let values: Array<string | number> | null = null;
+    if (accept(isWord("in")) && accept(isSymbol("("))) {
+        values = parseValues(")");
+    } else if (
+        accept(isSymbol("=")) &&
+        accept(isWord("any")) &&
+        accept(isSymbol("("))
+    ) {
+        values = parenthesized(parseArray);
+        if (!accept(isSymbol(")"))) values = null;
+    }
+
+    if (values === null || pos !== tokens.length) return null;
+
+    const unique = Array.from(new Set(values));
+    if (unique.every((v) => typeof v === "string")) {
+        return { column, allowedValues: unique as string[] };
+    }
+    if (unique.every((v) => typeof v === "number")) {
+        return { column, allowedValues: unique as number[] };
+    }
+    return null;
+}
+
+/**
+ * Build a CHECK constraint. Unnamed constraints get the name Postgres
+ * would choose, so that a later DROP CONSTRAINT finds them.
+ *
+ * @param columnName - Column of an inline (column-level) constraint
+ */
+export function parseCheckConstraint(
+    expression: string,
+    tableName: string,
+    name: string | null = null,
+    columnName?: string
+): CheckConstraintDefinition {
+    const narrowed = parseAllowedValues(expression);
+    const column = narrowed?.column ?? columnName;
+    return {
+        name: name ?? `${tableName}_${column ? `${column}_` : ""}check`,
+        expression,
+        ...(column ? { column } : {}),
+        ...(narrowed ? { allowedValues: narrowed.allowedValues } : {}),
+    };
+}
+
+/**
+ * Add a CHECK constraint to a table's or domain's list. When its name is
+ * taken, Postgres numbers the new one instead: t_a_check1, t_a_check2, ...
+ */
+export function appendCheckConstraint(
+    checks: CheckConstraintDefinition[] | undefined,
+    constraint: CheckConstraintDefinition
+): CheckConstraintDefinition[] {
+    const taken = new Set((checks ?? []).map((check) => check.name));
+    let name = constraint.name;
+    for (let n = 1; taken.has(name); n++) {
+        name = `${constraint.name}${n}`;
+    }
+    return [...(checks ?? []), { ...constraint, name }];
+}
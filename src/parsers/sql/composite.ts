@@ -3,6 +3,7 @@
  */
 
 import type { CompositeTypeDefinition } from "../../types/index.js";
+import { splitByComma, findClosingParen } from "./tokenizer.js";
 
 export function parseCompositeType(
     sqlContent: string,
@@ -26,22 +27,9 @@ export function parseCompositeType(
 
     // Find the balanced closing parenthesis
     const startPos = typeStartMatch.index! + typeStartMatch[0].length;
-    let depth = 1;
-    let endPos = startPos;
+    const endPos = findClosingParen(sqlContent, startPos - 1);
 
-    for (let i = startPos; i < sqlContent.length; i++) {
-        if (sqlContent[i] === "(") {
-            depth++;
-        } else if (sqlContent[i] === ")") {
-            depth--;
-            if (depth === 0) {
-                endPos = i;
-                break;
-            }
-        }
-    }
-
-    if (depth !== 0) {
+    if (endPos === -1) {
         return null; // Unbalanced parentheses
     }
 
@@ -49,28 +37,7 @@ export function parseCompositeType(
     const attributes: Array<{ name: string; type: string }> = [];
 
     // Split by commas that are not inside parentheses
-    const lines: string[] = [];
-    let current = "";
-    depth = 0;
-
-    for (let i = 0; i < attrsStr.length; i++) {
-        const char = attrsStr[i];
-        if (char === "(") {
-            depth++;
-            current += char;
-        } else if (char === ")") {
-            depth--;
-            current += char;
-        } else if (char === "," && depth === 0) {
-            lines.push(current);
-            current = "";
-        } else {
-            current += char;
-        }
-    }
-    if (current.trim()) {
-        lines.push(current);
-    }
+    const lines = splitByComma(attrsStr);
 
     for (const line of lines) {
         const trimmed = line.trim();
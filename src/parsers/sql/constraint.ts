@@ -2,7 +2,41 @@
  * ALTER TABLE constraint parsing from SQL
  */
 
-import type { RelationshipDefinition } from "../../types/index.js";
+import type {
+    ReferentialAction,
+    ReferentialActions,
+    RelationshipDefinition,
+} from "../../types/index.js";
+
+/**
+ * Read the `ON DELETE` / `ON UPDATE` clauses following a `REFERENCES`;
+ * NO ACTION is the default and left out
+ */
+export function parseReferentialActions(clause: string): ReferentialActions {
+    const actions: ReferentialActions = {};
+    for (const match of clause.matchAll(
+        /\bon\s+(delete|update)\s+(cascade|restrict|no\s+action|set\s+null|set\s+default)\b/gi
+    )) {
+        const action = match[2].toLowerCase().replace(/\s+/g, " ");
+        if (action === "no action") continue;
+        actions[match[1].toLowerCase() === "delete" ? "onDelete" : "onUpdate"] =
+            action as ReferentialAction;
+    }
+    return actions;
+}
+
+/**
+ * The actions of a column-level `REFERENCES`, for the relationship it
+ * creates
+ */
+export function referentialActionsOf(
+    foreignKey: ReferentialActions
+): ReferentialActions {
+    return {
+        ...(foreignKey.onDelete ? { onDelete: foreignKey.onDelete } : {}),
+        ...(foreignKey.onUpdate ? { onUpdate: foreignKey.onUpdate } : {}),
+    };
+}
 
 export function parseAlterTableForeignKey(
     sqlContent: string,
@@ -46,6 +80,9 @@ export function parseAlterTableForeignKey(
             isOneToOne,
             referencedRelation,
             referencedColumns: refColumns,
+            ...parseReferentialActions(
+                sqlContent.slice(alterMatch.index! + alterMatch[0].length)
+            ),
         },
     };
 }
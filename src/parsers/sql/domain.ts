@@ -0,0 +1,174 @@
+/**
+ * CREATE DOMAIN / ALTER DOMAIN parsing from SQL
+ */
+
+import type {
+    AlterDomainAction,
+    AlterDomainChange,
+    CheckConstraintDefinition,
+    DomainDefinition,
+} from "../../types/index.js";
+import { parseColumnDefinition } from "./table.js";
+import {
+    appendCheckConstraint,
+    parseCheckConstraint,
+    splitCheckClauses,
+} from "./check.js";
+
+const IDENTIFIER = `(?:"([^"]+)"|(\\w+))`;
+
+const QUALIFIED_NAME = `(?:${IDENTIFIER}\\.)?${IDENTIFIER}`;
+
+/**
+ * Build a domain CHECK constraint, named like Postgres names unnamed ones
+ */
+function domainCheck(
+    expression: string,
+    domainName: string,
+    name: string | null
+): CheckConstraintDefinition {
+    return parseCheckConstraint(
+        expression,
+        domainName,
+        name ?? `${domainName}_check`
+    );
+}
+
+/**
+ * Parse CREATE DOMAIN [schema.]name [AS] type [COLLATE ...] [DEFAULT ...]
+ * [[CONSTRAINT name] NOT NULL | NULL | CHECK (...)]
+ */
+export function parseDomainDefinition(
+    sqlContent: string,
+    schema: string = "public"
+): DomainDefinition | null {
+    const domainMatch = sqlContent
+        .trim()
+        .match(
+            new RegExp(
+                `^create\\s+domain\\s+${QUALIFIED_NAME}\\s+(?:as\\s+)?([\\s\\S]+)$`,
+                "i"
+            )
+        );
+
+    if (!domainMatch) {
+        return null;
+    }
+
+    const domainSchema = domainMatch[1] || domainMatch[2] || schema;
+    const domainName = domainMatch[3] || domainMatch[4];
+    const { checks, rest } = splitCheckClauses(domainMatch[5]);
+
+    // The base type, NOT NULL and DEFAULT read like a column definition;
+    // a schema-qualified base type is looked up by its bare name
+    const column = parseColumnDefinition(
+        `"value" ${rest.replace(/^(?:"[^"]+"|\w+)\.(?=["\w])/, "")}`
+    );
+    if (!column) {
+        return null;
+    }
+
+    const checkConstraints = checks.reduce<CheckConstraintDefinition[]>(
+        (named, check) =>
+            appendCheckConstraint(
+                named,
+                domainCheck(check.expression, domainName, check.name)
+            ),
+        []
+    );
+
+    return {
+        schema: domainSchema,
+        name: domainName,
+        baseType: column.type,
+        isArray: column.isArray,
+        nullable: column.nullable,
+        defaultValue: column.defaultValue,
+        ...(checkConstraints.length > 0 ? { checkConstraints } : {}),
+    };
+}
+
+function parseDomainAction(
+    action: string,
+    domainName: string
+): AlterDomainAction | null {
+    if (/^set\s+not\s+null$/i.test(action)) {
+        return { kind: "set_not_null" };
+    }
+    if (/^drop\s+not\s+null$/i.test(action)) {
+        return { kind: "drop_not_null" };
+    }
+    if (/^drop\s+default$/i.test(action)) {
+        return { kind: "drop_default" };
+    }
+
+    const defaultMatch = action.match(/^set\s+default\s+(.+)$/i);
+    if (defaultMatch) {
+        return { kind: "set_default", defaultValue: defaultMatch[1].trim() };
+    }
+
+    if (/^add\s+(?:constraint\s+(?:"[^"]+"|\S+)\s+)?check\s*\(/i.test(action)) {
+        // NOT VALID only skips checking existing rows
+        const [check] = splitCheckClauses(
+            action.slice(3).replace(/\s+not\s+valid$/i, "")
+        ).checks;
+        return check
+            ? {
+                  kind: "add_check",
+                  constraint: domainCheck(
+                      check.expression,
+                      domainName,
+                      check.name
+                  ),
+              }
+            : null;
+    }
+
+    const dropConstraintMatch = action.match(
+        new RegExp(
+            `^drop\\s+constraint\\s+(if\\s+exists\\s+)?${IDENTIFIER}(?:\\s+(?:cascade|restrict))?$`,
+            "i"
+        )
+    );
+    if (dropConstraintMatch) {
+        return {
+            kind: "drop_constraint",
+            constraintName: dropConstraintMatch[2] || dropConstraintMatch[3],
+            ifExists: !!dropConstraintMatch[1],
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Parse ALTER DOMAIN ... SET / DROP NOT NULL, SET / DROP DEFAULT,
+ * ADD [CONSTRAINT name] CHECK (...) and DROP CONSTRAINT
+ *
+ * Renames and schema moves are handled by parseRenameStatement.
+ */
+export function parseAlterDomainChange(
+    sqlContent: string,
+    schema: string = "public"
+): AlterDomainChange | null {
+    const normalized = sqlContent.trim().replace(/\s+/g, " ");
+
+    const domainMatch = normalized.match(
+        new RegExp(`^alter\\s+domain\\s+${QUALIFIED_NAME}\\s+([\\s\\S]+)$`, "i")
+    );
+    if (!domainMatch) {
+        return null;
+    }
+
+    const domainName = domainMatch[3] || domainMatch[4];
+    const action = parseDomainAction(domainMatch[5], domainName);
+    if (!action) {
+        return null;
+    }
+
+    return {
+        schema: domainMatch[1] || domainMatch[2] || schema,
+        domainName,
+        action,
+    };
+}
@@ -0,0 +1,90 @@
+/**
+ * DROP statement parsing from SQL
+ */
+
+import type {
+    DropStatement,
+    SchemaObjectKind,
+    SchemaObjectReference,
+} from "../../types/index.js";
+import { splitByComma } from "./tokenizer.js";
+import { parseFunctionArgument } from "./function.js";
+
+/**
+ * Parse `[schema.]name[(argtypes)]` into a schema object reference
+ */
+export function parseObjectReference(
+    text: string,
+    schema: string = "public"
+): SchemaObjectReference | null {
+    const match = text
+        .trim()
+        .match(
+            /^(?:(?:"([^"]+)"|(\w+))\.)?(?:"([^"]+)"|(\w+))\s*(?:\(([\s\S]*)\))?$/
+        );
+
+    if (!match) {
+        return null;
+    }
+
+    const reference: SchemaObjectReference = {
+        schema: match[1] || match[2] || schema,
+        name: match[3] || match[4],
+    };
+
+    if (match[5] !== undefined) {
+        // OUT arguments are not part of the signature
+        reference.argTypes = splitByComma(match[5]).flatMap((arg) => {
+            const parsed = parseFunctionArgument(arg);
+            return parsed && parsed.mode !== "out" ? [parsed.type] : [];
+        });
+    }
+
+    return reference;
+}
+
+/**
+ * Map a statement keyword (`TABLE`, `MATERIALIZED VIEW`, ...) to its object kind
+ */
+export function toObjectKind(keyword: string): SchemaObjectKind {
+    const lower = keyword.toLowerCase();
+    if (lower.endsWith("view")) return "view";
+    return lower as SchemaObjectKind;
+}
+
+/**
+ * Parse DROP TABLE / VIEW / MATERIALIZED VIEW / TYPE / DOMAIN / FUNCTION
+ * statements
+ */
+export function parseDropStatement(
+    sqlContent: string,
+    schema: string = "public"
+): DropStatement | null {
+    const normalized = sqlContent.trim().replace(/\s+/g, " ");
+
+    const dropMatch = normalized.match(
+        /^drop\s+(table|view|materialized\s+view|type|domain|function)\s+(if\s+exists\s+)?([\s\S]+?)(?:\s+(?:cascade|restrict))?$/i
+    );
+
+    if (!dropMatch) {
+        return null;
+    }
+
+    const targets: SchemaObjectReference[] = [];
+    for (const part of splitByComma(dropMatch[3])) {
+        const reference = parseObjectReference(part, schema);
+        if (reference) {
+            targets.push(reference);
+        }
+    }
+
+    if (targets.length === 0) {
+        return null;
+    }
+
+    return {
+        kind: toObjectKind(dropMatch[1]),
+        ifExists: !!dropMatch[2],
+        targets,
+    };
+}
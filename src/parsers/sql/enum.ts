@@ -2,7 +2,13 @@
  * Enum definition parsing from SQL
  */
 
-import type { EnumDefinition } from "../../types/index.js";
+import type {
+    EnumDefinition,
+    AlterEnumAction,
+    AlterEnumChange,
+} from "../../types/index.js";
+
+const ENUM_LITERAL = "'((?:[^']|'')*)'";
 
 export function parseEnumDefinition(
     sqlContent: string,
@@ -36,3 +42,68 @@ export function parseEnumDefinition(
         values,
     };
 }
+
+function unquoteLiteral(literal: string): string {
+    return literal.replace(/''/g, "'");
+}
+
+/**
+ * Parse ALTER TYPE ... ADD VALUE [IF NOT EXISTS] 'x' [BEFORE | AFTER 'y']
+ * and ALTER TYPE ... RENAME VALUE 'x' TO 'y'
+ */
+export function parseAlterEnumChange(
+    sqlContent: string,
+    schema: string = "public"
+): AlterEnumChange | null {
+    const normalized = sqlContent.trim().replace(/\s+/g, " ");
+
+    const typeMatch = normalized.match(
+        /^alter\s+type\s+(?:"?(\w+)"?\.)?"?(\w+)"?\s+([\s\S]+)$/i
+    );
+    if (!typeMatch) {
+        return null;
+    }
+
+    const enumSchema = typeMatch[1] || schema;
+    const enumName = typeMatch[2];
+    const rest = typeMatch[3];
+
+    const addMatch = rest.match(
+        new RegExp(
+            `^add\\s+value\\s+(if\\s+not\\s+exists\\s+)?${ENUM_LITERAL}(?:\\s+(before|after)\\s+${ENUM_LITERAL})?$`,
+            "i"
+        )
+    );
+    if (addMatch) {
+        const action: Extract<AlterEnumAction, { kind: "add_value" }> = {
+            kind: "add_value",
+            value: unquoteLiteral(addMatch[2]),
+            ifNotExists: !!addMatch[1],
+        };
+        if (addMatch[3]) {
+            const position = addMatch[3].toLowerCase() as "before" | "after";
+            action[position] = unquoteLiteral(addMatch[4]);
+        }
+        return { schema: enumSchema, enumName, action };
+    }
+
+    const renameMatch = rest.match(
+        new RegExp(
+            `^rename\\s+value\\s+${ENUM_LITERAL}\\s+to\\s+${ENUM_LITERAL}$`,
+            "i"
+        )
+    );
+    if (renameMatch) {
+        return {
+            schema: enumSchema,
+            enumName,
+            action: {
+                kind: "rename_value",
+                value: unquoteLiteral(renameMatch[1]),
+                newValue: unquoteLiteral(renameMatch[2]),
+            },
+        };
+    }
+
+    return null;
+}
@@ -2,14 +2,206 @@
  * Function definition parsing from SQL
  */
 
-import type { FunctionDefinition } from "../../types/index.js";
+import type {
+    FunctionArgument,
+    FunctionArgumentMode,
+    FunctionDefinition,
+} from "../../types/index.js";
+import { findClosingParen, splitByComma, tokenize } from "./tokenizer.js";
+
+/** Types whose name has several words, so no argument name precedes them */
+const MULTI_WORD_TYPE =
+    /^(?:double\s+precision|(?:character|char|bit)\s+varying|(?:timestamp|time)(?:\s*\(\s*\d+\s*\))?\s+with(?:out)?\s+time\s+zone|interval\s+(?:year|month|day|hour|minute|second)\b)/i;
+
+/** One entry of a function's argument list */
+interface ParsedArgument {
+    mode: FunctionArgumentMode | "out";
+    name: string | null;
+    type: string;
+    defaultValue: string | null;
+}
+
+/**
+ * Parse `[mode] [name] type [DEFAULT | = expression]`
+ *
+ * VARIADIC arguments always get an array type.
+ */
+export function parseFunctionArgument(argument: string): ParsedArgument | null {
+    // The default starts at the first top-level DEFAULT or `=`
+    let depth = 0;
+    let defaultStart = -1;
+    let expressionStart = -1;
+    for (const token of tokenize(argument)) {
+        if (token.text === "(" || token.text === "[") depth++;
+        if (token.text === ")" || token.text === "]") depth--;
+        if (
+            depth === 0 &&
+            ((token.kind === "word" && /^default$/i.test(token.text)) ||
+                (token.kind === "symbol" && token.text === "="))
+        ) {
+            defaultStart = token.start;
+            expressionStart = token.end;
+            break;
+        }
+    }
+    const declaration = (
+        defaultStart === -1 ? argument : argument.slice(0, defaultStart)
+    ).trim();
+    const defaultValue =
+        defaultStart === -1 ? null : argument.slice(expressionStart).trim();
+
+    const modeMatch = declaration.match(/^(inout|in|out|variadic)\s+/i);
+    const mode = (modeMatch?.[1].toLowerCase() ??
+        "in") as ParsedArgument["mode"];
+    const rest = declaration.slice(modeMatch?.[0].length ?? 0).trim();
+    if (!rest) {
+        return null;
+    }
+
+    const nameMatch = MULTI_WORD_TYPE.test(rest)
+        ? null
+        : rest.match(/^(?:"([^"]+)"|(\w+))\s+([^\s(][\s\S]*)$/);
+    let type = unquote(nameMatch ? nameMatch[3] : rest);
+    if (
+        mode === "variadic" &&
+        !/\[\]$/.test(type) &&
+        !/^anyarray$/i.test(type)
+    ) {
+        type = `${type}[]`;
+    }
+
+    return {
+        mode,
+        name: nameMatch ? nameMatch[1] || nameMatch[2] : null,
+        type,
+        defaultValue: defaultValue || null,
+    };
+}
+
+/** Clauses that may follow the return type */
+const RETURNS_END =
+    /\s+(?:language|as|security|stable|immutable|volatile|strict|leakproof|called|parallel|cost|rows|support|window|set|transform|return|begin)\b/i;
+
+type ReturnShape = Pick<
+    FunctionDefinition,
+    "returns" | "returnsSet" | "returnColumns"
+>;
+
+/**
+ * Parse what follows RETURNS: `TABLE (name type, ...)`, `SETOF type` or
+ * a type
+ */
+function parseReturns(clause: string): ReturnShape | null {
+    const tableMatch = clause.match(/^table\s*\(/i);
+    if (tableMatch) {
+        const closeIndex = findClosingParen(clause, tableMatch[0].length - 1);
+        if (closeIndex === -1) {
+            return null;
+        }
+        const returnColumns = splitByComma(
+            clause.slice(tableMatch[0].length, closeIndex)
+        ).flatMap((column) => {
+            const columnMatch = column.match(/^"?(\w+)"?\s+(.+)$/s);
+            return columnMatch
+                ? [{ name: columnMatch[1], type: unquote(columnMatch[2]) }]
+                : [];
+        });
+        return { returns: "record", returnsSet: true, returnColumns };
+    }
+
+    const end = clause.search(RETURNS_END);
+    const type = (end === -1 ? clause : clause.slice(0, end)).trim();
+    const setofMatch = type.match(/^setof\s+(.+)$/is);
+    return setofMatch
+        ? { returns: unquote(setofMatch[1]), returnsSet: true }
+        : { returns: unquote(type) };
+}
+
+type FunctionAttributes = Pick<
+    FunctionDefinition,
+    "volatility" | "securityDefiner" | "language" | "searchPath"
+>;
+
+/**
+ * The clauses following the argument list, without parenthesized lists
+ * and function bodies whose words could be taken for clauses
+ */
+function clauseText(tail: string): string {
+    let text = "";
+    let depth = 0;
+    let previousWord = "";
+    for (const token of tokenize(tail)) {
+        if (token.text === "(") depth++;
+        if (token.text === ")") depth--;
+        // BEGIN ATOMIC ... END and RETURN expression are bodies as well
+        if (depth === 0 && /^(?:begin|return)$/i.test(token.text)) {
+            break;
+        }
+        const isBody =
+            token.kind === "string" &&
+            (token.text.startsWith("$") || previousWord === "as");
+        text += depth > 0 || isBody || token.text === ")" ? " " : token.text;
+        if (token.kind !== "whitespace" && token.kind !== "comment") {
+            previousWord =
+                token.kind === "word" ? token.text.toLowerCase() : "";
+        }
+    }
+    return text;
+}
+
+/**
+ * Parse volatility, SECURITY DEFINER, LANGUAGE and SET search_path; only
+ * what is written is recorded
+ */
+function parseAttributes(tail: string): FunctionAttributes {
+    const clauses = clauseText(tail);
+    const attributes: FunctionAttributes = {};
+
+    const volatility = clauses.match(/\b(immutable|stable|volatile)\b/i);
+    if (volatility) {
+        attributes.volatility = volatility[1].toLowerCase() as NonNullable<
+            FunctionAttributes["volatility"]
+        >;
+    }
+    if (/\bsecurity\s+definer\b/i.test(clauses)) {
+        attributes.securityDefiner = true;
+    }
+    const language = clauses.match(
+        /\blanguage\s+(?:'([^']+)'|"([^"]+)"|(\w+))/i
+    );
+    if (language) {
+        attributes.language = (
+            language[1] ||
+            language[2] ||
+            language[3]
+        ).toLowerCase();
+    }
+    const searchPath = clauses.match(
+        /\bset\s+search_path\s*(?:=|\s+to\s+)([\s\S]*)$/i
+    );
+    if (searchPath) {
+        const end = searchPath[1].search(RETURNS_END);
+        attributes.searchPath = (
+            end === -1 ? searchPath[1] : searchPath[1].slice(0, end)
+        )
+            .replace(/;\s*$/, "")
+            .trim();
+    }
+
+    return attributes;
+}
+
+/** Strip identifier quotes: `"public"."users"` becomes `public.users` */
+function unquote(type: string): string {
+    return type.trim().replace(/"/g, "");
+}
 
 export function parseFunctionDefinition(
     sqlContent: string,
     schema: string = "public"
 ): FunctionDefinition | null {
     const functionMatch = sqlContent.match(
-        /create\s+(?:or\s+replace\s+)?function\s+(?:["']?(\w+)["']?\.)?["']?(\w+)["']?\s*\(([^)]*)\)\s+returns\s+(.*?)(?=\s+(?:language|as|security|stable|immutable|volatile|strict|leakproof|called|parallel|cost|rows|support|window|set|begin))/is
+        /create\s+(?:or\s+replace\s+)?function\s+(?:["']?(\w+)["']?\.)?["']?(\w+)["']?\s*\(/i
     );
 
     if (!functionMatch) {
@@ -18,58 +210,62 @@ export function parseFunctionDefinition(
 
     const funcSchema = functionMatch[1] || schema;
     const funcName = functionMatch[2];
-    const argsStr = functionMatch[3];
-    const returnsType = functionMatch[4].trim().replace(/^["']|["']$/g, "");
-
-    const args: Array<{ name: string; type: string; hasDefault?: boolean }> =
-        [];
-
-    if (argsStr && argsStr.trim().length > 0) {
-        const argParts = argsStr.split(",");
-
-        for (const argPart of argParts) {
-            const trimmed = argPart.trim();
-            if (!trimmed) {
-                continue;
-            }
-
-            let argMatch = trimmed.match(
-                /^"(\w+)"\s+"([\w\s[\]().,]+)"(?:\s+default\s+.+)?$/i
-            );
-
-            if (!argMatch) {
-                argMatch = trimmed.match(
-                    /^"(\w+)"\s+([\w\s[\]().,]+?)(?:\s+default\s+.+)?$/i
-                );
-            }
-
-            if (!argMatch) {
-                argMatch = trimmed.match(
-                    /^(\w+)\s+"([\w\s[\]().,]+)"(?:\s+default\s+.+)?$/i
-                );
-            }
-
-            if (!argMatch) {
-                argMatch = trimmed.match(
-                    /^(\w+)\s+([\w\s[\]().,]+?)(?:\s+default\s+.+)?$/i
-                );
-            }
-
-            if (argMatch) {
-                const hasDefault = /\bdefault\b/i.test(trimmed);
-                args.push({
-                    name: argMatch[1],
-                    type: argMatch[2].trim(),
-                    hasDefault,
-                });
-            }
+    const argsStart = functionMatch.index! + functionMatch[0].length;
+    const argsEnd = findClosingParen(sqlContent, argsStart - 1);
+    if (argsEnd === -1) {
+        return null;
+    }
+    const returnsMatch = sqlContent
+        .slice(argsEnd + 1)
+        .match(/^\s+returns\s+([\s\S]+)$/i);
+
+    const args: FunctionArgument[] = [];
+    const outputArgs: Array<{ name: string; type: string }> = [];
+
+    splitByComma(sqlContent.slice(argsStart, argsEnd)).forEach((part, i) => {
+        const parsed = parseFunctionArgument(part);
+        if (!parsed) {
+            return;
+        }
+        // OUT parameters are returned, INOUT ones passed and returned
+        const name = parsed.name ?? `arg${i + 1}`;
+        if (parsed.mode === "out" || parsed.mode === "inout") {
+            outputArgs.push({ name, type: parsed.type });
+        }
+        if (parsed.mode !== "out") {
+            args.push({
+                name,
+                type: parsed.type,
+                hasDefault: parsed.defaultValue !== null,
+                mode: parsed.mode,
+                ...(parsed.defaultValue !== null
+                    ? { defaultValue: parsed.defaultValue }
+                    : {}),
+            });
         }
+    });
+
+    // RETURNS may be left out when there are OUT parameters; one OUT
+    // parameter is returned as a value, several as a record
+    const shape: ReturnShape | null = returnsMatch
+        ? parseReturns(returnsMatch[1])
+        : outputArgs.length > 0
+          ? { returns: "record" }
+          : null;
+    if (!shape) {
+        return null;
+    }
+    if (outputArgs.length === 1 && !shape.returnColumns) {
+        shape.returns = outputArgs[0].type;
+    } else if (outputArgs.length > 1 && !shape.returnColumns) {
+        shape.returnColumns = outputArgs;
     }
 
     return {
         schema: funcSchema,
         name: funcName,
         args,
-        returns: returnsType,
+        ...shape,
+        ...parseAttributes(sqlContent.slice(argsEnd + 1)),
     };
 }
@@ -3,6 +3,7 @@
  */
 
 import type { IndexDefinition } from "../../types/index.js";
+import { splitByComma, findClosingParen } from "./tokenizer.js";
 
 export function parseIndexDefinition(
     sqlContent: string,
@@ -28,16 +29,13 @@ export function parseIndexDefinition(
     const columnStartIndex = prefixMatch[0].length - 1; // -1 to include the opening parenthesis
 
     // Find the matching closing parenthesis
-    const { endIndex, content } = findMatchingParenthesis(
-        normalized,
-        columnStartIndex
-    );
+    const endIndex = findClosingParen(normalized, columnStartIndex);
 
     if (endIndex === -1) {
         return null;
     }
 
-    const columnsStr = content;
+    const columnsStr = normalized.substring(columnStartIndex + 1, endIndex);
 
     // Extract WHERE clause if present
     const remainingStr = normalized.substring(endIndex + 1).trim();
@@ -60,72 +58,11 @@ export function parseIndexDefinition(
     };
 }
 
-/**
- * Find the matching closing parenthesis and extract content
- */
-function findMatchingParenthesis(
-    str: string,
-    startIndex: number
-): { endIndex: number; content: string } {
-    let depth = 0;
-    let content = "";
-
-    for (let i = startIndex; i < str.length; i++) {
-        const char = str[i];
-
-        if (char === "(") {
-            depth++;
-            if (depth > 1) {
-                content += char;
-            }
-        } else if (char === ")") {
-            depth--;
-            if (depth === 0) {
-                return { endIndex: i, content };
-            }
-            content += char;
-        } else if (depth > 0) {
-            content += char;
-        }
-    }
-
-    return { endIndex: -1, content: "" };
-}
-
 /**
  * Parse column list, handling expressions with parentheses
  */
 function parseColumns(columnsStr: string): string[] {
-    const columns: string[] = [];
-    let current = "";
-    let depth = 0;
-
-    for (let i = 0; i < columnsStr.length; i++) {
-        const char = columnsStr[i];
-
-        if (char === "(") {
-            depth++;
-            current += char;
-        } else if (char === ")") {
-            depth--;
-            current += char;
-        } else if (char === "," && depth === 0) {
-            // Only split on commas outside of parentheses
-            const trimmed = current.trim().replace(/^["']|["']$/g, "");
-            if (trimmed) {
-                columns.push(trimmed);
-            }
-            current = "";
-        } else {
-            current += char;
-        }
-    }
-
-    // Add the last column
-    const trimmed = current.trim().replace(/^["']|["']$/g, "");
-    if (trimmed) {
-        columns.push(trimmed);
-    }
-
-    return columns;
+    return splitByComma(columnsStr)
+        .map((column) => column.replace(/^["']|["']$/g, ""))
+        .filter((column) => column.length > 0);
 }
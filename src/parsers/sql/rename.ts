@@ -0,0 +1,43 @@
+/**
+ * ALTER ... RENAME TO / SET SCHEMA parsing from SQL
+ */
+
+import type { RenameStatement } from "../../types/index.js";
+import { parseObjectReference, toObjectKind } from "./drop.js";
+
+/**
+ * Parse renames and schema moves of tables, views, types, domains and
+ * functions
+ *
+ * Column renames are handled by parseAlterTableColumnChanges.
+ */
+export function parseRenameStatement(
+    sqlContent: string,
+    schema: string = "public"
+): RenameStatement | null {
+    const normalized = sqlContent.trim().replace(/\s+/g, " ");
+
+    const renameMatch = normalized.match(
+        /^alter\s+(table|view|materialized\s+view|type|domain|function)\s+(if\s+exists\s+)?(?:only\s+)?([\s\S]+?)\s+(rename\s+to|set\s+schema)\s+(?:"([^"]+)"|(\w+))$/i
+    );
+
+    if (!renameMatch) {
+        return null;
+    }
+
+    const target = parseObjectReference(renameMatch[3], schema);
+    if (!target) {
+        return null;
+    }
+
+    const isSchemaMove = /^set/i.test(renameMatch[4]);
+    const newIdentifier = renameMatch[5] || renameMatch[6];
+
+    return {
+        kind: toObjectKind(renameMatch[1]),
+        ifExists: !!renameMatch[2],
+        target,
+        newSchema: isSchemaMove ? newIdentifier : target.schema,
+        newName: isSchemaMove ? target.name : newIdentifier,
+    };
+}
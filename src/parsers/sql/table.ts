@@ -6,72 +6,78 @@ import type {
     TableDefinition,
     ColumnDefinition,
     RelationshipDefinition,
+    CheckConstraintDefinition,
 } from "../../types/index.js";
+import { splitByComma, findClosingParen, stripComments } from "./tokenizer.js";
+import {
+    appendCheckConstraint,
+    parseCheckConstraint,
+    splitCheckClauses,
+} from "./check.js";
+import {
+    parseReferentialActions,
+    referentialActionsOf,
+} from "./constraint.js";
 
 /**
- * Helper function to extract identifier value from regex match groups
- * Handles quoted and unquoted identifiers
+ * Split a `GENERATED { ALWAYS | BY DEFAULT } AS IDENTITY [(...)]` or
+ * `GENERATED ALWAYS AS (expr) [STORED | VIRTUAL]` clause out of the
+ * constraints of a column definition
  */
-function extractIdentifier(...groups: (string | undefined)[]): string {
-    return groups.find((g) => g !== undefined) || "";
-}
-
-function splitByComma(str: string): string[] {
-    const parts: string[] = [];
-    let current = "";
-    let parenDepth = 0;
-    let inString = false;
-    let stringChar: string | null = null;
-
-    for (let i = 0; i < str.length; i++) {
-        const char = str[i];
-
-        if (char === '"' || char === "'") {
-            // Count consecutive backslashes before this quote
-            let backslashCount = 0;
-            let checkIndex = i - 1;
-            while (checkIndex >= 0 && str[checkIndex] === "\\") {
-                backslashCount++;
-                checkIndex--;
-            }
-
-            // Quote is escaped only if there's an odd number of backslashes
-            const isEscaped = backslashCount % 2 === 1;
-
-            if (!isEscaped) {
-                if (!inString) {
-                    inString = true;
-                    stringChar = char;
-                } else if (char === stringChar) {
-                    inString = false;
-                    stringChar = null;
-                }
-            }
-        }
+function splitGeneratedClause(constraints: string): {
+    identity?: "always" | "by_default";
+    generationExpression?: string;
+    rest: string;
+} {
+    const match = constraints.match(
+        /\bgenerated\s+(always|by\s+default)\s+as\s+(identity\b|\()/i
+    );
+    if (!match) {
+        return { rest: constraints };
+    }
 
-        if (!inString) {
-            if (char === "(") {
-                parenDepth++;
-            }
-            if (char === ")") {
-                parenDepth--;
-            }
+    const start = match.index!;
+    let end = start + match[0].length;
+    const rest = () =>
+        `${constraints.slice(0, start)} ${constraints.slice(end)}`
+            .replace(/\s+/g, " ")
+            .trim();
 
-            if (char === "," && parenDepth === 0) {
-                parts.push(current.trim());
-                current = "";
-                continue;
-            }
+    if (match[2] === "(") {
+        const closeIndex = findClosingParen(constraints, end - 1);
+        if (closeIndex === -1) {
+            return { rest: constraints };
         }
-
-        current += char;
+        const generationExpression = constraints.slice(end, closeIndex).trim();
+        end = closeIndex + 1;
+        const storage = constraints
+            .slice(end)
+            .match(/^\s*(?:stored|virtual)\b/i);
+        end += storage ? storage[0].length : 0;
+        return { generationExpression, rest: rest() };
     }
 
-    if (current.trim()) {
-        parts.push(current.trim());
+    // Sequence options
+    const optionsMatch = constraints.slice(end).match(/^\s*\(/);
+    if (optionsMatch) {
+        const closeIndex = findClosingParen(
+            constraints,
+            end + optionsMatch[0].length - 1
+        );
+        if (closeIndex !== -1) end = closeIndex + 1;
     }
+    return {
+        identity: /^always$/i.test(match[1]) ? "always" : "by_default",
+        rest: rest(),
+    };
+}
 
-    return parts;
+/**
+ * Helper function to extract identifier value from regex match groups
+ * Handles quoted and unquoted identifiers
+ */
+function extractIdentifier(...groups: (string | undefined)[]): string {
+    return groups.find((g) => g !== undefined) || "";
 }
 
 export function parseColumnDefinition(
@@ -141,6 +147,12 @@ export function parseColumnDefinition(
         }
     }
 
+    // CHECK and generation expressions may contain ARRAY, NOT NULL, ...
+    // of their own
+    remainingConstraints = splitCheckClauses(remainingConstraints).rest;
+    const generated = splitGeneratedClause(remainingConstraints);
+    remainingConstraints = generated.rest;
+
     const isArray =
         colType.includes("[]") ||
         remainingConstraints.toLowerCase().startsWith("[]") ||
@@ -166,9 +178,7 @@ export function parseColumnDefinition(
         defaultValue = defaultMatch[1].trim();
     }
 
-    let foreignKey:
-        | { table: string; column: string; schema?: string }
-        | undefined;
+    let foreignKey: ColumnDefinition["foreignKey"];
     const referencesMatch = remainingConstraints.match(
         /\breferences\s+(?:(?:"([^"]+)"|'([^']+)'|(\w+))\.)?(?:"([^"]+)"|'([^']+)'|(\w+))\s*\((?:"([^"]+)"|'([^']+)'|(\w+))\)/i
     );
@@ -189,6 +199,11 @@ export function parseColumnDefinition(
                 referencesMatch[8],
                 referencesMatch[9]
             ),
+            ...parseReferentialActions(
+                remainingConstraints.slice(
+                    referencesMatch.index! + referencesMatch[0].length
+                )
+            ),
         };
         // Don't set schema if it's empty
         if (!foreignKey.schema) {
@@ -199,11 +214,16 @@ export function parseColumnDefinition(
     return {
         name: colName,
         type: colType,
-        nullable: !notNull && !isPrimaryKey,
+        // Identity columns are implicitly NOT NULL
+        nullable: !notNull && !isPrimaryKey && !generated.identity,
         defaultValue,
         isArray,
         isPrimaryKey,
         isUnique,
+        ...(generated.identity ? { identity: generated.identity } : {}),
+        ...(generated.generationExpression !== undefined
+            ? { generationExpression: generated.generationExpression }
+            : {}),
         foreignKey,
     };
 }
@@ -233,64 +253,24 @@ export function parseTableDefinition(
     );
     const startIndex = tableStartMatch.index! + tableStartMatch[0].length;
 
-    let parenDepth = 1;
-    let endIndex = startIndex;
-    let inString = false;
-    let stringChar: string | null = null;
-
-    while (endIndex < sqlContent.length && parenDepth > 0) {
-        const char = sqlContent[endIndex];
-
-        if (char === '"' || char === "'") {
-            // Count consecutive backslashes before this quote
-            let backslashCount = 0;
-            let checkIndex = endIndex - 1;
-            while (checkIndex >= 0 && sqlContent[checkIndex] === "\\") {
-                backslashCount++;
-                checkIndex--;
-            }
-
-            // Quote is escaped only if there's an odd number of backslashes
-            const isEscaped = backslashCount % 2 === 1;
+    const endIndex = findClosingParen(sqlContent, startIndex - 1);
 
-            if (!isEscaped) {
-                if (!inString) {
-                    inString = true;
-                    stringChar = char;
-                } else if (char === stringChar) {
-                    inString = false;
-                    stringChar = null;
-                }
-            }
-        }
-
-        if (!inString) {
-            if (char === "(") {
-                parenDepth++;
-            }
-            if (char === ")") {
-                parenDepth--;
-            }
-        }
-
-        endIndex++;
-    }
-
-    if (parenDepth !== 0) {
+    if (endIndex === -1) {
         return null;
     }
 
-    let tableBody = sqlContent.substring(startIndex, endIndex - 1);
+    let tableBody = sqlContent.substring(startIndex, endIndex);
 
     if (!tableBody || tableBody.trim().length === 0) {
         return null;
     }
 
-    tableBody = tableBody.replace(/--[^\n]*/g, "");
+    tableBody = stripComments(tableBody);
     tableBody = tableBody.replace(/\s+/g, " ").trim();
 
     const columns: ColumnDefinition[] = [];
     const relationships: RelationshipDefinition[] = [];
+    let checkConstraints: CheckConstraintDefinition[] = [];
 
     const columnDefs = splitByComma(tableBody);
 
@@ -338,12 +318,31 @@ export function parseTableDefinition(
                 isOneToOne: false,
                 referencedRelation: referencedRelation,
                 referencedColumns: refColumns,
+                ...parseReferentialActions(
+                    trimmed.slice(constraintMatch[0].length)
+                ),
             });
             continue;
         }
 
         if (
-            /^(primary\s+key|foreign\s+key|unique\s*\(|check\s*\(|case\s+when|when\s+|then\s+|else\s+|end\s*$|otherwise)/i.test(
+            /^(?:constraint\s+(?:"[^"]+"|\S+)\s+)?check\s*\(/i.test(trimmed)
+        ) {
+            for (const check of splitCheckClauses(trimmed).checks) {
+                checkConstraints = appendCheckConstraint(
+                    checkConstraints,
+                    parseCheckConstraint(
+                        check.expression,
+                        tableName,
+                        check.name
+                    )
+                );
+            }
+            continue;
+        }
+
+        if (
+            /^(primary\s+key|foreign\s+key|unique\s*\(|case\s+when|when\s+|then\s+|else\s+|end\s*$|otherwise)/i.test(
                 trimmed
             )
         ) {
@@ -354,6 +353,18 @@ export function parseTableDefinition(
         if (col) {
             columns.push(col);
 
+            for (const check of splitCheckClauses(trimmed).checks) {
+                checkConstraints = appendCheckConstraint(
+                    checkConstraints,
+                    parseCheckConstraint(
+                        check.expression,
+                        tableName,
+                        check.name,
+                        col.name
+                    )
+                );
+            }
+
             if (col.foreignKey) {
                 const fkeyName = `${tableName}_${col.name}_fkey`;
 
@@ -367,6 +378,7 @@ export function parseTableDefinition(
                     isOneToOne: col.isUnique,
                     referencedRelation: referencedRelation,
                     referencedColumns: [col.foreignKey.column],
+                    ...referentialActionsOf(col.foreignKey),
                 });
             }
         }
@@ -382,5 +394,6 @@ export function parseTableDefinition(
         columns,
         relationships,
         indexes: [],
+        ...(checkConstraints.length > 0 ? { checkConstraints } : {}),
     };
 }
@@ -0,0 +1,318 @@
+/**
+ * Postgres-aware SQL tokenizer and statement splitter
+ *
+ * Every parser in parsers/sql works on top of these helpers, so quoting
+ * rules live in one place: '' and E'' strings, "quoted" identifiers,
+ * $tag$ dollar quotes, -- line comments and nested block comments.
+ */
+
+export type SqlTokenKind =
+    | "whitespace"
+    | "comment"
+    | "string"
+    | "quoted_identifier"
+    | "word"
+    | "number"
+    | "parameter"
+    | "symbol";
+
+export interface SqlToken {
+    kind: SqlTokenKind;
+    text: string;
+    /** Offset of the first character */
+    start: number;
+    /** Offset just past the last character */
+    end: number;
+    /** 1-based line of the first character */
+    line: number;
+    /** 1-based column of the first character */
+    column: number;
+}
+
+export interface SqlStatement {
+    /** Statement text without the terminating `;` and leading comments */
+    text: string;
+    start: number;
+    end: number;
+    line: number;
+    column: number;
+}
+
+const WORD_START = /[A-Za-z_\u0080-\uffff]/;
+const WORD_CHAR = /[\w$\u0080-\uffff]/;
+const DOLLAR_TAG = /^\$(?:[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)?\$/;
+const NUMBER = /^(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/i;
+
+/**
+ * Find where a quoted section opened at `pos` ends. The quote character is
+ * escaped by doubling it, and additionally by a backslash in E'' strings.
+ */
+function scanQuoted(
+    sql: string,
+    pos: number,
+    quote: string,
+    backslashEscapes: boolean
+): number {
+    let i = pos + 1;
+    while (i < sql.length) {
+        const char = sql[i];
+        if (backslashEscapes && char === "\\") {
+            i += 2;
+            continue;
+        }
+        if (char === quote) {
+            if (sql[i + 1] === quote) {
+                i += 2;
+                continue;
+            }
+            return i + 1;
+        }
+        i++;
+    }
+    return sql.length;
+}
+
+function scanBlockComment(sql: string, pos: number): number {
+    let depth = 0;
+    let i = pos;
+    while (i < sql.length) {
+        if (sql.startsWith("/*", i)) {
+            depth++;
+            i += 2;
+        } else if (sql.startsWith("*/", i)) {
+            depth--;
+            i += 2;
+            if (depth === 0) return i;
+        } else {
+            i++;
+        }
+    }
+    return sql.length;
+}
+
+function scanToken(
+    sql: string,
+    pos: number
+): { kind: SqlTokenKind; end: number } {
+    const char = sql[pos];
+    const next = sql[pos + 1];
+
+    if (/\s/.test(char)) {
+        let end = pos + 1;
+        while (end < sql.length && /\s/.test(sql[end])) end++;
+        return { kind: "whitespace", end };
+    }
+
+    if (char === "-" && next === "-") {
+        const newline = sql.indexOf("\n", pos);
+        return { kind: "comment", end: newline === -1 ? sql.length : newline };
+    }
+
+    if (char === "/" && next === "*") {
+        return { kind: "comment", end: scanBlockComment(sql, pos) };
+    }
+
+    if ((char === "E" || char === "e") && next === "'") {
+        return { kind: "string", end: scanQuoted(sql, pos + 1, "'", true) };
+    }
+
+    if (char === "'") {
+        return { kind: "string", end: scanQuoted(sql, pos, "'", false) };
+    }
+
+    if (char === '"') {
+        return {
+            kind: "quoted_identifier",
+            end: scanQuoted(sql, pos, '"', false),
+        };
+    }
+
+    if (char === "$") {
+        const param = sql.slice(pos).match(/^\$\d+/);
+        if (param) {
+            return { kind: "parameter", end: pos + param[0].length };
+        }
+
+        const tag = sql.slice(pos).match(DOLLAR_TAG);
+        if (tag) {
+            const close = sql.indexOf(tag[0], pos + tag[0].length);
+            return {
+                kind: "string",
+                end: close === -1 ? sql.length : close + tag[0].length,
+            };
+        }
+    }
+
+    if (/\d/.test(char) || (char === "." && /\d/.test(next ?? ""))) {
+        const number = sql.slice(pos).match(NUMBER)!;
+        return { kind: "number", end: pos + number[0].length };
+    }
+
+    if (WORD_START.test(char)) {
+        let end = pos + 1;
+        while (end < sql.length && WORD_CHAR.test(sql[end])) end++;
+        return { kind: "word", end };
+    }
+
+    return { kind: "symbol", end: pos + 1 };
+}
+
+/**
+ * Split SQL into tokens, tracking offsets and line/column positions.
+ * Unterminated strings and comments run to the end of the input.
+ */
+export function tokenize(sql: string): SqlToken[] {
+    const tokens: SqlToken[] = [];
+    let pos = 0;
+    let line = 1;
+    let column = 1;
+
+    while (pos < sql.length) {
+        const { kind, end } = scanToken(sql, pos);
+        const text = sql.slice(pos, end);
+        tokens.push({ kind, text, start: pos, end, line, column });
+
+        const lastNewline = text.lastIndexOf("\n");
+        if (lastNewline === -1) {
+            column += text.length;
+        } else {
+            line += text.split("\n").length - 1;
+            column = text.length - lastNewline;
+        }
+        pos = end;
+    }
+
+    return tokens;
+}
+
+function isTrivia(token: SqlToken): boolean {
+    return token.kind === "whitespace" || token.kind === "comment";
+}
+
+/**
+ * Split a script into statements on top-level semicolons
+ *
+ * Semicolons inside strings, dollar quotes, comments and
+ * `BEGIN ATOMIC ... END` function bodies do not end a statement.
+ */
+export function splitStatements(sql: string): SqlStatement[] {
+    const statements: SqlStatement[] = [];
+    let first: SqlToken | null = null;
+    let last: SqlToken | null = null;
+    let previousWord = "";
+    let atomicDepth = 0;
+    let caseDepth = 0;
+
+    const flush = () => {
+        if (first && last) {
+            statements.push({
+                text: sql.slice(first.start, last.end),
+                start: first.start,
+                end: last.end,
+                line: first.line,
+                column: first.column,
+            });
+        }
+        first = null;
+        last = null;
+    };
+
+    for (const token of tokenize(sql)) {
+        if (isTrivia(token)) continue;
+
+        if (
+            token.kind === "symbol" &&
+            token.text === ";" &&
+            atomicDepth === 0
+        ) {
+            flush();
+            previousWord = "";
+            continue;
+        }
+
+        if (token.kind === "word") {
+            const word = token.text.toLowerCase();
+            if (word === "atomic" && previousWord === "begin") {
+                atomicDepth++;
+            } else if (atomicDepth > 0 && word === "case") {
+                caseDepth++;
+            } else if (atomicDepth > 0 && word === "end") {
+                if (caseDepth > 0) {
+                    caseDepth--;
+                } else {
+                    atomicDepth--;
+                }
+            }
+            previousWord = word;
+        }
+
+        first ??= token;
+        last = token;
+    }
+
+    flush();
+    return statements;
+}
+
+/**
+ * Split on commas outside parentheses, brackets, strings and comments.
+ * Parts are trimmed; a trailing empty part is dropped.
+ */
+export function splitByComma(sql: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let partStart = 0;
+
+    for (const token of tokenize(sql)) {
+        if (token.kind !== "symbol") continue;
+
+        if (token.text === "(" || token.text === "[") {
+            depth++;
+        } else if (token.text === ")" || token.text === "]") {
+            depth--;
+        } else if (token.text === "," && depth === 0) {
+            parts.push(sql.slice(partStart, token.start).trim());
+            partStart = token.end;
+        }
+    }
+
+    const rest = sql.slice(partStart).trim();
+    if (rest) {
+        parts.push(rest);
+    }
+
+    return parts;
+}
+
+/**
+ * Find the `)` matching the `(` at `openIndex`
+ *
+ * @returns The offset of the closing parenthesis, or -1 when unbalanced
+ */
+export function findClosingParen(sql: string, openIndex: number): number {
+    let depth = 0;
+
+    for (const token of tokenize(sql.slice(openIndex))) {
+        if (token.kind !== "symbol") continue;
+
+        if (token.text === "(") {
+            depth++;
+        } else if (token.text === ")") {
+            depth--;
+            if (depth === 0) {
+                return openIndex + token.start;
+            }
+        }
+    }
+
+    return -1;
+}
+
+/**
+ * Replace comments with a single space, leaving strings untouched
+ */
+export function stripComments(sql: string): string {
+    return tokenize(sql)
+        .map((token) => (token.kind === "comment" ? " " : token.text))
+        .join("");
+}
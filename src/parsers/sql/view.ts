@@ -7,6 +7,8 @@ import type {
     ColumnDefinition,
     TableDefinition,
 } from "../../types/index.js";
+import type { SqlToken } from "./tokenizer.js";
+import { findClosingParen, splitByComma, tokenize } from "./tokenizer.js";
 
 /**
  * Infer PostgreSQL type from SQL expression
@@ -104,12 +106,111 @@ function inferTypeFromExpression(expr: string): {
     return { type: "unknown", isArray: false };
 }
 
+/** The columns of a table, view, CTE or subquery a query reads from */
+type Relation = Pick<TableDefinition, "columns">;
+
+/** A table or view a view definition can select from */
+type SourceRelation = Pick<TableDefinition, "schema" | "name" | "columns">;
+
+interface QueryScope {
+    sources: SourceRelation[];
+    schema: string;
+    /** Columns of the CTEs visible to the query, by name */
+    ctes: Map<string, ColumnDefinition[]>;
+}
+
+function viewColumn(
+    name: string,
+    type: string = "unknown",
+    isArray: boolean = false,
+    nullable: boolean = true
+): ColumnDefinition {
+    return {
+        name,
+        type,
+        nullable,
+        defaultValue: null,
+        isArray,
+        isPrimaryKey: false,
+        isUnique: false,
+    };
+}
+
+/**
+ * Find the column a `column` or `alias.column` expression ends with
+ */
+function lookupColumn(
+    expr: string,
+    tables: Map<string, Relation>
+): ColumnDefinition | undefined {
+    const qualifiedMatch = expr.match(/(?:(\w+)\.)?(\w+)$/);
+    if (!qualifiedMatch) {
+        return undefined;
+    }
+
+    const [, tableAlias, colName] = qualifiedMatch;
+    if (tableAlias) {
+        return tables.get(tableAlias)?.columns.find((c) => c.name === colName);
+    }
+    for (const table of tables.values()) {
+        const col = table.columns.find((c) => c.name === colName);
+        if (col) {
+            return col;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Infer the type and nullability of an expression: column references keep
+ * theirs, literals and COUNT() are never null, and COALESCE() takes its
+ * first typed argument and is non-null when any argument is
+ */
+function inferExpression(
+    expr: string,
+    tables: Map<string, Relation>
+): { type: string; isArray: boolean; nullable: boolean } {
+    const trimmed = expr.trim();
+
+    const col = /^(?:\w+\.)?\w+$/.test(trimmed)
+        ? lookupColumn(trimmed, tables)
+        : undefined;
+    if (col) {
+        return { type: col.type, isArray: col.isArray, nullable: col.nullable };
+    }
+
+    const coalesceMatch = trimmed.match(/^coalesce\s*\(/i);
+    if (
+        coalesceMatch &&
+        findClosingParen(trimmed, coalesceMatch[0].length - 1) ===
+            trimmed.length - 1
+    ) {
+        const args = splitByComma(
+            trimmed.slice(coalesceMatch[0].length, -1)
+        ).map((arg) => inferExpression(arg, tables));
+        const typed = args.find((arg) => arg.type !== "unknown");
+        return {
+            type: typed?.type ?? "unknown",
+            isArray: typed?.isArray ?? false,
+            nullable: args.every((arg) => arg.nullable),
+        };
+    }
+
+    return {
+        ...inferTypeFromExpression(trimmed),
+        nullable:
+            !/^(?:\d+(?:\.\d+)?|'(?:[^']|'')*'|true|false|count\s*\(.*\))$/is.test(
+                trimmed
+            ),
+    };
+}
+
 /**
  * Parse a single column expression from SELECT clause
  */
 function parseColumnExpression(
     expr: string,
-    tables: Map<string, TableDefinition>
+    tables: Map<string, Relation>
 ): ColumnDefinition | null {
     expr = expr.trim();
 
@@ -197,48 +298,24 @@ function parseColumnExpression(
             };
         }
 
-        const qualifiedMatch = sourceExpr.match(/(?:(\w+)\.)?(\w+)$/);
-        if (qualifiedMatch) {
-            const tableAlias = qualifiedMatch[1];
-            const colName = qualifiedMatch[2];
-
-            if (tableAlias && tables.has(tableAlias)) {
-                const table = tables.get(tableAlias)!;
-                const col = table.columns.find((c) => c.name === colName);
-                if (col) {
-                    return {
-                        name: columnName,
-                        type: col.type,
-                        nullable: col.nullable,
-                        defaultValue: null,
-                        isArray: col.isArray,
-                        isPrimaryKey: false,
-                        isUnique: false,
-                    };
-                }
-            } else if (!tableAlias) {
-                for (const table of tables.values()) {
-                    const col = table.columns.find((c) => c.name === colName);
-                    if (col) {
-                        return {
-                            name: columnName,
-                            type: col.type,
-                            nullable: col.nullable,
-                            defaultValue: null,
-                            isArray: col.isArray,
-                            isPrimaryKey: false,
-                            isUnique: false,
-                        };
-                    }
-                }
-            }
+        const col = lookupColumn(sourceExpr, tables);
+        if (col) {
+            return {
+                name: columnName,
+                type: col.type,
+                nullable: col.nullable,
+                defaultValue: null,
+                isArray: col.isArray,
+                isPrimaryKey: false,
+                isUnique: false,
+            };
         }
 
-        const inferred = inferTypeFromExpression(sourceExpr);
+        const inferred = inferExpression(sourceExpr, tables);
         return {
             name: columnName,
             type: inferred.type,
-            nullable,
+            nullable: inferred.nullable,
             defaultValue: null,
             isArray: inferred.isArray,
             isPrimaryKey: false,
@@ -246,45 +323,20 @@ function parseColumnExpression(
         };
     }
 
-    const qualifiedMatch = expr.match(/(?:(\w+)\.)?(\w+)$/);
-    if (qualifiedMatch) {
-        const tableAlias = qualifiedMatch[1];
-        const colName = qualifiedMatch[2];
-        columnName = colName;
-
-        if (tableAlias && tables.has(tableAlias)) {
-            const table = tables.get(tableAlias)!;
-            const col = table.columns.find((c) => c.name === colName);
-            if (col) {
-                return {
-                    name: columnName,
-                    type: col.type,
-                    nullable: col.nullable,
-                    defaultValue: null,
-                    isArray: col.isArray,
-                    isPrimaryKey: false,
-                    isUnique: false,
-                };
-            }
-        } else if (!tableAlias) {
-            for (const table of tables.values()) {
-                const col = table.columns.find((c) => c.name === colName);
-                if (col) {
-                    return {
-                        name: columnName,
-                        type: col.type,
-                        nullable: col.nullable,
-                        defaultValue: null,
-                        isArray: col.isArray,
-                        isPrimaryKey: false,
-                        isUnique: false,
-                    };
-                }
-            }
-        }
+    const col = lookupColumn(expr, tables);
+    if (col) {
+        return {
+            name: col.name,
+            type: col.type,
+            nullable: col.nullable,
+            defaultValue: null,
+            isArray: col.isArray,
+            isPrimaryKey: false,
+            isUnique: false,
+        };
     }
 
-    const inferred = inferTypeFromExpression(expr);
+    const inferred = inferExpression(expr, tables);
     const baseName = expr
         .replace(/^.*\./, "")
         .replace(/\(.*\)/, "")
@@ -294,7 +346,7 @@ function parseColumnExpression(
     return {
         name: columnName,
         type: inferred.type,
-        nullable,
+        nullable: inferred.nullable,
         defaultValue: null,
         isArray: inferred.isArray,
         isPrimaryKey: false,
@@ -308,6 +360,9 @@ const SQL_KEYWORDS = new Set([
     "group",
     "order",
     "limit",
+    "offset",
+    "fetch",
+    "window",
     "having",
     "union",
     "intersect",
@@ -315,193 +370,326 @@ const SQL_KEYWORDS = new Set([
     "inner",
     "left",
     "right",
+    "full",
     "outer",
     "cross",
     "natural",
     "on",
+    "using",
     "as",
+    "with",
+]);
+
+/** Keywords that end the select list or the FROM clause */
+const CLAUSE_KEYWORDS = new Set([
+    "from",
+    "where",
+    "group",
+    "having",
+    "window",
+    "order",
+    "limit",
+    "offset",
+    "fetch",
+    "for",
+]);
+
+const JOIN_TYPES = new Set([
+    "natural",
+    "inner",
+    "left",
+    "right",
+    "full",
+    "outer",
+    "cross",
 ]);
 
-const JOIN_PATTERN = /join\s+(\w+)(?:\s+as\s+(\w+)|\s+(?!on\b)(\w+))?/gi;
+const SET_OPERATORS = new Set(["union", "intersect", "except"]);
+
+/** `[AS] alias [(column, ...)]` after a FROM item */
+const ALIAS = /^\s*(?:as\s+)?(?:"([^"]+)"|(\w+))(?:\s*\(([^)]*)\))?/i;
 
 /**
- * Extract table and alias from a FROM/JOIN clause
+ * Tokens outside parentheses, without whitespace and comments
  */
-function extractTableAndAlias(
-    clause: string
-): { tableName: string; alias: string } | null {
-    const tokens = clause.trim().split(/\s+/);
-    if (tokens.length === 0) return null;
-
-    const tableName = tokens[0];
-    let alias = tableName;
-
-    if (tokens.length >= 3 && tokens[1].toLowerCase() === "as") {
-        if (tokens[2] && !SQL_KEYWORDS.has(tokens[2].toLowerCase())) {
-            alias = tokens[2];
+function topLevelTokens(sql: string): SqlToken[] {
+    const tokens: SqlToken[] = [];
+    let depth = 0;
+
+    for (const token of tokenize(sql)) {
+        if (token.kind === "whitespace" || token.kind === "comment") continue;
+
+        if (token.kind === "symbol" && token.text === "(") {
+            depth++;
+        } else if (token.kind === "symbol" && token.text === ")") {
+            depth--;
+        } else if (depth === 0) {
+            tokens.push(token);
         }
-    } else if (
-        tokens.length >= 2 &&
-        !SQL_KEYWORDS.has(tokens[1].toLowerCase())
-    ) {
-        alias = tokens[1];
     }
 
-    return { tableName, alias };
+    return tokens;
 }
 
 /**
- * Extract table references from FROM and JOIN clauses
+ * Strip parentheses around a whole query
  */
-function extractTableReferences(
-    selectStatement: string,
-    allTables: TableDefinition[],
-    defaultSchema: string
-): Map<string, TableDefinition> {
-    const tables = new Map<string, TableDefinition>();
-
-    const fromMatch = selectStatement.match(/from\s+([^\s;]+)/i);
-    if (fromMatch) {
-        const fromClause = selectStatement
-            .slice(fromMatch.index! + 4)
-            .match(/^\s+([^\s;]+(\s+as\s+\w+|\s+\w+)?)/i);
-
-        if (fromClause) {
-            const tableAlias = extractTableAndAlias(fromClause[0]);
-            if (tableAlias) {
-                const { tableName, alias } = tableAlias;
-                const table = allTables.find(
-                    (t) => t.name === tableName && t.schema === defaultSchema
-                );
-                if (table) {
-                    tables.set(alias, table);
-                    if (alias !== tableName) {
-                        tables.set(tableName, table);
-                    }
-                }
-            }
-        }
+function unwrapParens(query: string): string {
+    let sql = query.trim();
+    while (sql.startsWith("(") && findClosingParen(sql, 0) === sql.length - 1) {
+        sql = sql.slice(1, -1).trim();
     }
+    return sql;
+}
 
-    const joinPattern = /join\s+(\w+)(?:\s+as\s+(\w+)|\s+(?!on\b)(\w+))?/gi;
-    let joinMatch;
-    while ((joinMatch = joinPattern.exec(selectStatement)) !== null) {
-        const afterJoin = selectStatement
-            .slice(joinMatch.index + 4)
-            .match(/^\s+([^\s;]+(\s+as\s+\w+|\s+\w+)?)/i);
-
-        if (afterJoin) {
-            const tableAlias = extractTableAndAlias(afterJoin[0]);
-            if (tableAlias) {
-                const { tableName, alias } = tableAlias;
-                const table = allTables.find(
-                    (t) => t.name === tableName && t.schema === defaultSchema
-                );
-                if (table) {
-                    tables.set(alias, table);
-                    if (alias !== tableName) {
-                        tables.set(tableName, table);
-                    }
-                }
-            }
-        }
+/**
+ * Apply the column names of `alias (a, b, ...)`; columns past the list
+ * keep their own names
+ */
+function renameColumns(
+    columns: ColumnDefinition[],
+    names: string | undefined
+): ColumnDefinition[] {
+    if (!names) {
+        return columns;
     }
 
-    return tables;
+    const renamed = splitByComma(names).map((entry, i) => {
+        const name = entry.split(/\s+/)[0].replace(/^"|"$/g, "");
+        return { ...(columns[i] ?? viewColumn(name)), name };
+    });
+    return [...renamed, ...columns.slice(renamed.length)];
+}
+
+function nullableRelation(relation: Relation): Relation {
+    return {
+        columns: relation.columns.map((col) => ({ ...col, nullable: true })),
+    };
 }
 
 /**
- * Parse SELECT column list
+ * Resolve one FROM item under its alias: a table, view or CTE, a
+ * subquery, a function call or a parenthesized join
  */
-function parseSelectColumns(
-    selectStatement: string,
-    tables: Map<string, TableDefinition>,
-    defaultSchema: string
-): ColumnDefinition[] {
-    let selectMatch = selectStatement.match(/select\s+([\s\S]+?)\s+from/i);
-    let columnList: string;
+function resolveFromItem(
+    item: string,
+    scope: QueryScope
+): Map<string, Relation> {
+    const condition = topLevelTokens(item).find(
+        (token) => token.kind === "word" && /^(?:on|using)$/i.test(token.text)
+    );
+    const source = item
+        .slice(0, condition?.start ?? item.length)
+        .trim()
+        .replace(/^(?:lateral|only)\s+/i, "");
+
+    if (source.startsWith("(")) {
+        const close = findClosingParen(source, 0);
+        if (close === -1) {
+            return new Map();
+        }
+        const inner = source.slice(1, close);
+        if (!/^\s*(?:\(|select\b|with\b|values\b)/i.test(inner)) {
+            return resolveFrom(inner, scope);
+        }
 
-    if (selectMatch) {
-        columnList = selectMatch[1].trim();
-    } else {
-        selectMatch = selectStatement.match(
-            /select\s+([\s\S]+?)(?:\s+where|\s+group\s+by|\s+order\s+by|;|$)/i
-        );
-        if (!selectMatch) {
-            return [];
+        const aliasMatch = source.slice(close + 1).match(ALIAS);
+        if (!aliasMatch) {
+            return new Map();
         }
-        columnList = selectMatch[1].trim();
+        const columns = resolveQuery(inner, scope);
+        return new Map([
+            [
+                aliasMatch[1] || aliasMatch[2],
+                { columns: renameColumns(columns, aliasMatch[3]) },
+            ],
+        ]);
     }
 
-    if (columnList === "*") {
-        const allColumns: ColumnDefinition[] = [];
-        const seen = new Set<string>();
+    const sourceMatch = source.match(
+        /^(?:(?:"([^"]+)"|(\w+))\.)?(?:"([^"]+)"|(\w+))\s*(\()?/
+    );
+    if (!sourceMatch) {
+        return new Map();
+    }
 
-        for (const table of tables.values()) {
-            for (const col of table.columns) {
-                if (!seen.has(col.name)) {
-                    seen.add(col.name);
-                    allColumns.push({
-                        name: col.name,
-                        type: col.type,
-                        nullable: col.nullable,
-                        defaultValue: null,
-                        isArray: col.isArray,
-                        isPrimaryKey: false,
-                        isUnique: false,
-                    });
-                }
-            }
+    const sourceSchema = sourceMatch[1] || sourceMatch[2];
+    const name = sourceMatch[3] || sourceMatch[4];
+    let rest = source.slice(sourceMatch[0].length);
+    let columns: ColumnDefinition[] = [];
+
+    if (sourceMatch[5]) {
+        // Set-returning functions only have the columns their alias lists
+        const close = findClosingParen(source, sourceMatch[0].length - 1);
+        rest = close === -1 ? "" : source.slice(close + 1);
+    } else if (!sourceSchema && scope.ctes.has(name)) {
+        columns = scope.ctes.get(name)!;
+    } else {
+        columns =
+            scope.sources.find(
+                (s) =>
+                    s.name === name &&
+                    s.schema === (sourceSchema ?? scope.schema)
+            )?.columns ?? [];
+    }
+
+    const aliasMatch = rest.match(ALIAS);
+    const alias =
+        aliasMatch && !SQL_KEYWORDS.has((aliasMatch[2] ?? "").toLowerCase())
+            ? aliasMatch[1] || aliasMatch[2]
+            : undefined;
+    const relation = {
+        columns: renameColumns(columns, alias ? aliasMatch![3] : undefined),
+    };
+
+    // The original name stays usable next to the alias
+    const relations = new Map([[name, relation]]);
+    if (alias) {
+        relations.set(alias, relation);
+    }
+    return relations;
+}
+
+/**
+ * Split a FROM item into its joined items, each with the join type
+ * keywords before it
+ */
+function splitJoins(item: string): Array<{ joinType: string; text: string }> {
+    const segments: Array<{ joinType: string; text: string }> = [];
+    let joinType = "";
+    let segmentStart = 0;
+    let typeStart = -1;
+    let typeWords: string[] = [];
+
+    for (const token of topLevelTokens(item)) {
+        const word = token.kind === "word" ? token.text.toLowerCase() : "";
+        if (JOIN_TYPES.has(word)) {
+            typeStart = typeStart === -1 ? token.start : typeStart;
+            typeWords.push(word);
+            continue;
+        }
+        if (word === "join") {
+            segments.push({
+                joinType,
+                text: item.slice(
+                    segmentStart,
+                    typeStart === -1 ? token.start : typeStart
+                ),
+            });
+            joinType = typeWords.join(" ");
+            segmentStart = token.end;
         }
-        return allColumns;
+        typeStart = -1;
+        typeWords = [];
     }
 
-    const columnExpressions: string[] = [];
-    let depth = 0;
-    let inString = false;
-    let stringChar = "";
-    let currentExpr = "";
-
-    for (let i = 0; i < columnList.length; i++) {
-        const char = columnList[i];
-
-        if (char === "'" || char === '"') {
-            if (!inString) {
-                inString = true;
-                stringChar = char;
-                currentExpr += char;
-            } else if (char === stringChar) {
-                if (columnList[i + 1] === char) {
-                    currentExpr += char + char;
-                    i++;
-                } else {
-                    inString = false;
-                    stringChar = "";
-                    currentExpr += char;
+    segments.push({ joinType, text: item.slice(segmentStart) });
+    return segments;
+}
+
+/**
+ * Collect the relations of a FROM clause by alias and name. Every column
+ * of the optional side of an outer join is nullable.
+ */
+function resolveFrom(
+    fromClause: string,
+    scope: QueryScope
+): Map<string, Relation> {
+    const relations = new Map<string, Relation>();
+
+    for (const item of splitByComma(fromClause)) {
+        const itemRelations = new Map<string, Relation>();
+
+        for (const { joinType, text } of splitJoins(item)) {
+            if (/\b(?:right|full)\b/.test(joinType)) {
+                for (const [name, relation] of itemRelations) {
+                    itemRelations.set(name, nullableRelation(relation));
                 }
-            } else {
-                currentExpr += char;
             }
-        } else if (char === "(" && !inString) {
-            depth++;
-            currentExpr += char;
-        } else if (char === ")" && !inString) {
-            depth--;
-            currentExpr += char;
-        } else if (char === "," && depth === 0 && !inString) {
-            columnExpressions.push(currentExpr.trim());
-            currentExpr = "";
-        } else {
-            currentExpr += char;
+            const optional = /\b(?:left|full)\b/.test(joinType);
+            for (const [name, relation] of resolveFromItem(text, scope)) {
+                itemRelations.set(
+                    name,
+                    optional ? nullableRelation(relation) : relation
+                );
+            }
+        }
+
+        for (const [name, relation] of itemRelations) {
+            relations.set(name, relation);
         }
     }
 
-    if (currentExpr.trim()) {
-        columnExpressions.push(currentExpr.trim());
+    return relations;
+}
+
+/**
+ * Resolve the columns of one SELECT from its select list and FROM clause
+ */
+function resolveSelect(select: string, scope: QueryScope): ColumnDefinition[] {
+    const tokens = topLevelTokens(select);
+    const isWord = (token: SqlToken, words: Set<string>) =>
+        token.kind === "word" && words.has(token.text.toLowerCase());
+
+    const selectIndex = tokens.findIndex((token) =>
+        isWord(token, new Set(["select"]))
+    );
+    if (selectIndex === -1) {
+        return [];
     }
+    const clauseEnd = (from: number) => {
+        const index = tokens.findIndex(
+            (token, i) => i > from && isWord(token, CLAUSE_KEYWORDS)
+        );
+        return index === -1 ? select.length : tokens[index].start;
+    };
+
+    let columnList = select
+        .slice(tokens[selectIndex].end, clauseEnd(selectIndex))
+        .trim();
+    const distinctOn = columnList.match(/^distinct\s+on\s*\(/i);
+    columnList = distinctOn
+        ? columnList
+              .slice(findClosingParen(columnList, distinctOn[0].length - 1) + 1)
+              .trim()
+        : columnList.replace(/^(?:all|distinct)\s+/i, "");
+
+    const fromIndex = tokens.findIndex(
+        (token, i) => i > selectIndex && isWord(token, CLAUSE_KEYWORDS)
+    );
+    const tables =
+        fromIndex !== -1 && tokens[fromIndex].text.toLowerCase() === "from"
+            ? resolveFrom(
+                  select.slice(tokens[fromIndex].end, clauseEnd(fromIndex)),
+                  scope
+              )
+            : new Map<string, Relation>();
 
     const columns: ColumnDefinition[] = [];
-    for (const expr of columnExpressions) {
+    for (const expr of splitByComma(columnList)) {
+        const starMatch = expr.match(/^(?:(\w+)\.)?\*$/);
+        if (starMatch) {
+            const relations = starMatch[1]
+                ? [tables.get(starMatch[1])]
+                : Array.from(tables.values());
+            const seen = new Set(columns.map((col) => col.name));
+
+            for (const col of relations.flatMap((r) => r?.columns ?? [])) {
+                if (!seen.has(col.name)) {
+                    seen.add(col.name);
+                    columns.push(
+                        viewColumn(
+                            col.name,
+                            col.type,
+                            col.isArray,
+                            col.nullable
+                        )
+                    );
+                }
+            }
+            continue;
+        }
+
         const col = parseColumnExpression(expr, tables);
         if (col) {
             columns.push(col);
@@ -511,13 +699,118 @@ function parseSelectColumns(
     return columns;
 }
 
+/**
+ * Resolve the output columns of a query. CTEs are resolved before the
+ * query using them, and the branches of UNION, INTERSECT and EXCEPT take
+ * the names of the first branch and the first type any branch gives.
+ */
+function resolveQuery(query: string, scope: QueryScope): ColumnDefinition[] {
+    const sql = unwrapParens(query);
+
+    const withMatch = sql.match(/^with\s+(?:recursive\s+)?/i);
+    if (withMatch) {
+        const { ctes, body } = resolveCtes(
+            sql.slice(withMatch[0].length),
+            scope
+        );
+        return resolveQuery(body, { ...scope, ctes });
+    }
+
+    const branches: string[] = [];
+    const operators: string[] = [];
+    let branchStart = 0;
+    for (const token of topLevelTokens(sql)) {
+        const word = token.kind === "word" ? token.text.toLowerCase() : "";
+        if (SET_OPERATORS.has(word)) {
+            branches.push(sql.slice(branchStart, token.start));
+            operators.push(word);
+            branchStart = token.end;
+        }
+    }
+    if (branches.length === 0) {
+        return resolveSelect(sql, scope);
+    }
+    branches.push(sql.slice(branchStart));
+
+    const [first, ...rest] = branches.map((branch) =>
+        resolveQuery(branch.replace(/^\s*(?:all|distinct)\b/i, ""), scope)
+    );
+    return first.map((column, index) =>
+        rest.reduce((merged, columns, i) => {
+            const other = columns[index];
+            if (!other) {
+                return merged;
+            }
+            // EXCEPT only returns rows of the first branch, INTERSECT
+            // rows of both
+            const nullable =
+                operators[i] === "union"
+                    ? merged.nullable || other.nullable
+                    : operators[i] === "intersect"
+                      ? merged.nullable && other.nullable
+                      : merged.nullable;
+            const typed = merged.type === "unknown" ? other : merged;
+            return {
+                ...merged,
+                type: typed.type,
+                isArray: typed.isArray,
+                nullable,
+            };
+        }, column)
+    );
+}
+
+/**
+ * Resolve the CTEs of a WITH clause in order, each seeing those before it
+ *
+ * @returns The CTEs in scope and the query after the WITH clause
+ */
+function resolveCtes(
+    sql: string,
+    scope: QueryScope
+): { ctes: Map<string, ColumnDefinition[]>; body: string } {
+    const ctes = new Map(scope.ctes);
+    let rest = sql;
+
+    for (;;) {
+        const cteMatch = rest.match(
+            /^\s*(?:"([^"]+)"|(\w+))\s*(?:\(([^)]*)\)\s*)?as\s+(?:(?:not\s+)?materialized\s+)?\(/i
+        );
+        if (!cteMatch) break;
+
+        const open = cteMatch[0].length - 1;
+        const close = findClosingParen(rest, open);
+        if (close === -1) break;
+
+        const columns = resolveQuery(rest.slice(open + 1, close), {
+            ...scope,
+            ctes,
+        });
+        ctes.set(
+            cteMatch[1] || cteMatch[2],
+            renameColumns(columns, cteMatch[3])
+        );
+
+        rest = rest.slice(close + 1);
+        const comma = rest.match(/^\s*,/);
+        if (!comma) break;
+        rest = rest.slice(comma[0].length);
+    }
+
+    return { ctes, body: rest };
+}
+
 /**
  * Parse CREATE VIEW or CREATE MATERIALIZED VIEW statements
+ *
+ * Columns are resolved through CTEs, set operations, subqueries in FROM
+ * and outer joins against `allTables`, which may include views; columns
+ * that cannot be typed are `unknown`.
  */
 export function parseViewDefinition(
     sqlContent: string,
     schema: string = "public",
-    allTables: TableDefinition[] = []
+    allTables: SourceRelation[] = []
 ): ViewDefinition | null {
     const viewMatch = sqlContent.match(
         /create\s+(materialized\s+)?view\s+(?:if\s+not\s+exists\s+)?(?:(?:"([^"]+)"|'([^']+)'|(\w+))\.)?(?:"([^"]+)"|'([^']+)'|(\w+))\s+as\s+([\s\S]+?)(?=\s+with\s+(?:no\s+)?data|;|$)/i
@@ -532,8 +825,11 @@ export function parseViewDefinition(
     const viewName = viewMatch[5] || viewMatch[6] || viewMatch[7];
     const definition = viewMatch[8].trim();
 
-    const tables = extractTableReferences(definition, allTables, viewSchema);
-    const columns = parseSelectColumns(definition, tables, viewSchema);
+    const columns = resolveQuery(definition, {
+        sources: allTables,
+        schema: viewSchema,
+        ctes: new Map(),
+    });
 
     return {
         schema: viewSchema,
@@ -2,12 +2,16 @@
  * Type definitions for Supabase Type Generator
  */
 
+export type TomlValue = string | number | boolean | string[];
+
 export interface SupabaseConfig {
     db?: {
         migrations?: {
             schema_paths?: string[];
         };
     };
+    /** Raw `key = value` pairs of the [typegen] section */
+    typegen?: Record<string, TomlValue>;
 }
 
 export interface PrettierConfig {
@@ -19,6 +23,15 @@ export interface PrettierConfig {
     printWidth?: number;
 }
 
+/**
+ * Where an object was defined, with 1-based line and column
+ */
+export interface SourceLocation {
+    file: string;
+    line: number;
+    column: number;
+}
+
 export interface ColumnDefinition {
     name: string;
     type: string;
@@ -27,12 +40,17 @@ export interface ColumnDefinition {
     isArray: boolean;
     isPrimaryKey: boolean;
     isUnique: boolean;
+    /** GENERATED { ALWAYS | BY DEFAULT } AS IDENTITY */
+    identity?: "always" | "by_default";
+    /** Expression of a GENERATED ALWAYS AS (...) column */
+    generationExpression?: string;
     comment?: string;
     foreignKey?: {
         table: string;
         column: string;
         schema?: string;
-    };
+    } & ReferentialActions;
+    location?: SourceLocation;
 }
 
 export interface IndexDefinition {
@@ -42,6 +60,20 @@ export interface IndexDefinition {
     isUnique: boolean;
     method?: string;
     whereClause?: string;
+    location?: SourceLocation;
+}
+
+/**
+ * A CHECK constraint. `col IN (...)` and `col = ANY (ARRAY[...])` checks
+ * over literals also record the column and the values it is narrowed to.
+ */
+export interface CheckConstraintDefinition {
+    name: string;
+    /** Expression inside CHECK ( ... ) */
+    expression: string;
+    /** Column the check is declared on or narrows */
+    column?: string;
+    allowedValues?: string[] | number[];
 }
 
 export interface TableDefinition {
@@ -51,9 +83,26 @@ export interface TableDefinition {
     comment?: string;
     relationships: RelationshipDefinition[];
     indexes: IndexDefinition[];
+    checkConstraints?: CheckConstraintDefinition[];
+    location?: SourceLocation;
+}
+
+/** ON DELETE / ON UPDATE action of a foreign key */
+export type ReferentialAction =
+    | "cascade"
+    | "restrict"
+    | "set null"
+    | "set default";
+
+/**
+ * Actions of a foreign key; NO ACTION, the Postgres default, is left out
+ */
+export interface ReferentialActions {
+    onDelete?: ReferentialAction;
+    onUpdate?: ReferentialAction;
 }
 
-export interface RelationshipDefinition {
+export interface RelationshipDefinition extends ReferentialActions {
     foreignKeyName: string;
     columns: string[];
     isOneToOne: boolean;
@@ -61,6 +110,73 @@ export interface RelationshipDefinition {
     referencedColumns: string[];
 }
 
+/**
+ * A single column-level or CHECK constraint action of an ALTER TABLE
+ * statement
+ */
+export type AlterTableColumnAction =
+    | { kind: "add_column"; column: ColumnDefinition; ifNotExists: boolean }
+    | { kind: "add_check"; constraint: CheckConstraintDefinition }
+    | { kind: "drop_constraint"; constraintName: string; ifExists: boolean }
+    | { kind: "drop_column"; columnName: string; ifExists: boolean }
+    | { kind: "rename_column"; columnName: string; newName: string }
+    | {
+          kind: "alter_column_type";
+          columnName: string;
+          type: string;
+          isArray: boolean;
+      }
+    | { kind: "set_not_null"; columnName: string }
+    | { kind: "drop_not_null"; columnName: string }
+    | { kind: "set_default"; columnName: string; defaultValue: string }
+    | { kind: "drop_default"; columnName: string }
+    | {
+          kind: "set_identity";
+          columnName: string;
+          identity: "always" | "by_default";
+      }
+    | { kind: "drop_identity"; columnName: string }
+    | { kind: "set_expression"; columnName: string; expression: string }
+    | { kind: "drop_expression"; columnName: string };
+
+export interface AlterTableColumnChanges {
+    schema: string;
+    tableName: string;
+    actions: AlterTableColumnAction[];
+}
+
+export type SchemaObjectKind =
+    | "table"
+    | "view"
+    | "type"
+    | "domain"
+    | "function";
+
+export interface SchemaObjectReference {
+    schema: string;
+    name: string;
+    /** Argument types of a function signature, when one was given */
+    argTypes?: string[];
+}
+
+export interface DropStatement {
+    kind: SchemaObjectKind;
+    ifExists: boolean;
+    targets: SchemaObjectReference[];
+}
+
+/**
+ * ALTER ... RENAME TO / SET SCHEMA of a table, view, type, domain or
+ * function
+ */
+export interface RenameStatement {
+    kind: SchemaObjectKind;
+    ifExists: boolean;
+    target: SchemaObjectReference;
+    newSchema: string;
+    newName: string;
+}
+
 export interface ViewDefinition {
     schema: string;
     name: string;
@@ -68,25 +184,128 @@ export interface ViewDefinition {
     isMaterialized: boolean;
     definition?: string;
     comment?: string;
+    location?: SourceLocation;
 }
 
 export interface EnumDefinition {
     schema: string;
     name: string;
     values: string[];
+    location?: SourceLocation;
+}
+
+/**
+ * A value change of an ALTER TYPE statement on an enum
+ */
+export type AlterEnumAction =
+    | {
+          kind: "add_value";
+          value: string;
+          ifNotExists: boolean;
+          before?: string;
+          after?: string;
+      }
+    | { kind: "rename_value"; value: string; newValue: string };
+
+export interface AlterEnumChange {
+    schema: string;
+    enumName: string;
+    action: AlterEnumAction;
+}
+
+/**
+ * A CREATE DOMAIN type: a base type with optional NOT NULL, DEFAULT and
+ * CHECK constraints
+ */
+export interface DomainDefinition {
+    schema: string;
+    name: string;
+    /** Base type without the array brackets, e.g. `citext` */
+    baseType: string;
+    isArray: boolean;
+    nullable: boolean;
+    defaultValue: string | null;
+    /** CHECK constraints on `VALUE` */
+    checkConstraints?: CheckConstraintDefinition[];
+    location?: SourceLocation;
+}
+
+/**
+ * A constraint or default change of an ALTER DOMAIN statement
+ */
+export type AlterDomainAction =
+    | { kind: "set_not_null" }
+    | { kind: "drop_not_null" }
+    | { kind: "set_default"; defaultValue: string }
+    | { kind: "drop_default" }
+    | { kind: "add_check"; constraint: CheckConstraintDefinition }
+    | { kind: "drop_constraint"; constraintName: string; ifExists: boolean };
+
+export interface AlterDomainChange {
+    schema: string;
+    domainName: string;
+    action: AlterDomainAction;
+}
+
+/** IN (the default), INOUT or VARIADIC; OUT parameters are returned */
+export type FunctionArgumentMode = "in" | "inout" | "variadic";
+
+export interface FunctionArgument {
+    /** `arg<position>` for unnamed arguments */
+    name: string;
+    /** An array type for VARIADIC arguments */
+    type: string;
+    hasDefault?: boolean;
+    mode?: FunctionArgumentMode;
+    /** The DEFAULT expression, when read from SQL */
+    defaultValue?: string;
 }
 
 export interface FunctionDefinition {
     schema: string;
     name: string;
-    args: Array<{ name: string; type: string; hasDefault?: boolean }>;
+    args: FunctionArgument[];
+    /**
+     * Return type, or of each row of a set; `record` for RETURNS TABLE and
+     * several OUT parameters
+     */
     returns: string;
+    /** RETURNS SETOF ... or RETURNS TABLE (...) */
+    returnsSet?: boolean;
+    /** Columns of RETURNS TABLE (...), or the OUT and INOUT parameters */
+    returnColumns?: Array<{ name: string; type: string }>;
+    volatility?: "immutable" | "stable" | "volatile";
+    securityDefiner?: boolean;
+    /** Lowercased, e.g. `sql` or `plpgsql` */
+    language?: string;
+    /** The value of `SET search_path`, as written */
+    searchPath?: string;
+    location?: SourceLocation;
 }
 
 export interface CompositeTypeDefinition {
     schema: string;
     name: string;
     attributes: Array<{ name: string; type: string }>;
+    location?: SourceLocation;
+}
+
+/** SQL held in memory, identified by a path used in locations */
+export interface SqlSource {
+    path: string;
+    content: string;
+}
+
+/**
+ * Every object the parsers extract from a schema, grouped by kind
+ */
+export interface SchemaModel {
+    tables: TableDefinition[];
+    enums: EnumDefinition[];
+    functions: FunctionDefinition[];
+    compositeTypes: CompositeTypeDefinition[];
+    views: ViewDefinition[];
+    domains: DomainDefinition[];
 }
 
 export type NamingConvention =
@@ -98,6 +317,48 @@ export type NamingConvention =
 
 export type SourceType = "sql" | "db";
 
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+export type DiagnosticFormat = "text" | "json";
+
+export type Int8Type = "string" | "number" | "bigint";
+
+/** Where the indentation size came from, noted in the types file header */
+export type IndentSource =
+    | "default"
+    | "Prettier config"
+    | "CLI flag"
+    | "option";
+
+export type DiagramFormat = "mermaid" | "dbml";
+
+/**
+ * Tables to draw in a diagram; unset fields include everything
+ */
+export interface DiagramFilter {
+    schema?: string | null;
+    /** `table` or `schema.table` names */
+    tables?: string[];
+}
+
+export type DiagnosticCode =
+    | "parse-error"
+    | "unparsed-statement"
+    | "skipped-statement"
+    | "unapplied-statement"
+    | "unknown-type"
+    | "unresolved-foreign-key";
+
+/**
+ * A problem found while reading the schema
+ */
+export interface Diagnostic {
+    severity: DiagnosticSeverity;
+    code: DiagnosticCode;
+    message: string;
+    location?: SourceLocation;
+}
+
 export interface GeneratorConfig {
     supabase: {
         source: SourceType;
@@ -113,6 +374,8 @@ export interface GeneratorConfig {
         dir: string;
         tempFile: string;
         finalFile: string;
+        /** Added to output file names, from the --workdir directory name */
+        suffix: string;
     };
     extractNestedTypes: boolean;
     deduplicateTypes: boolean;
@@ -120,8 +383,152 @@ export interface GeneratorConfig {
     namingConvention: NamingConvention;
     alphabetical: boolean;
     indentSize: number;
+    indentSource: IndentSource;
     includeIndexes: boolean;
     includeComments: boolean;
+    diagnosticsFormat: DiagnosticFormat;
+    /** Write the generation time into the file headers */
+    timestamp: boolean;
+    /** Compare with the existing output file instead of writing it */
+    check: boolean;
+    /** Keep running and regenerate when schema files change */
+    watch: boolean;
+    /** Also write Zod schemas next to the types file */
+    zod: boolean;
+    /** Also write Valibot schemas next to the types file */
+    valibot: boolean;
+    /** Also write JSON Schema documents for every table */
+    jsonSchema: boolean;
+    /** Also write a Kysely `DB` interface next to the types file */
+    kysely: boolean;
+    /** Also write a Drizzle ORM schema to drizzle/schema.ts */
+    drizzle: boolean;
+    /** TypeScript type of int8 columns in the Kysely and Drizzle output */
+    int8Type: Int8Type;
+    /** Also write an entity-relationship diagram in this format */
+    diagram: DiagramFormat | null;
+    /** Only draw the tables of this schema */
+    diagramSchema: string | null;
+    /** Only draw these tables (`table` or `schema.table`) */
+    diagramTables: string[];
+    /** Also write a Markdown data dictionary of the schema */
+    markdown: boolean;
+    /** Write the Markdown data dictionary as one file per schema in docs/ */
+    markdownPerSchema: boolean;
+    /** Brand domain types, e.g. `string & { __domain: "email" }` */
+    brandDomains: boolean;
+    /** Document function volatility, security, language and search_path */
+    functionMetadata: boolean;
+    /** Keep functions returning trigger or event_trigger */
+    includeTriggerFunctions: boolean;
+    /** Only keep these functions (`name` or `schema.name`, `*` wildcards) */
+    includeFunctions: string[];
+    /** Leave out these functions (`name` or `schema.name`, `*` wildcards) */
+    excludeFunctions: string[];
+}
+
+/**
+ * Options that can be set in typegen.config.json, the [typegen] section of
+ * config.toml, TYPEGEN_* environment variables and CLI flags
+ */
+export interface TypegenOptions {
+    workdir?: string;
+    source?: SourceType;
+    connectionString?: string;
+    schema?: string;
+    outputDir?: string;
+    extractNestedTypes?: boolean;
+    deduplicateTypes?: boolean;
+    verboseLogging?: boolean;
+    namingConvention?: NamingConvention;
+    alphabetical?: boolean;
+    indentSize?: number;
+    usePrettier?: boolean;
+    includeIndexes?: boolean;
+    includeComments?: boolean;
+    diagnosticsFormat?: DiagnosticFormat;
+    check?: boolean;
+    watch?: boolean;
+    zod?: boolean;
+    valibot?: boolean;
+    jsonSchema?: boolean;
+    kysely?: boolean;
+    drizzle?: boolean;
+    int8Type?: Int8Type;
+    diagram?: DiagramFormat;
+    diagramSchema?: string;
+    diagramTables?: string[];
+    markdown?: boolean;
+    markdownPerSchema?: boolean;
+    brandDomains?: boolean;
+    functionMetadata?: boolean;
+    includeTriggerFunctions?: boolean;
+    includeFunctions?: string[];
+    excludeFunctions?: string[];
+}
+
+/**
+ * Options of the programmatic `generate()` API. Unset options use the same
+ * defaults as the CLI.
+ */
+export interface GenerateOptions
+    extends Partial<
+        Pick<
+            GeneratorConfig,
+            | "extractNestedTypes"
+            | "deduplicateTypes"
+            | "verboseLogging"
+            | "namingConvention"
+            | "alphabetical"
+            | "indentSize"
+            | "includeIndexes"
+            | "includeComments"
+            | "zod"
+            | "valibot"
+            | "jsonSchema"
+            | "kysely"
+            | "drizzle"
+            | "diagram"
+            | "diagramSchema"
+            | "diagramTables"
+            | "markdown"
+            | "markdownPerSchema"
+            | "brandDomains"
+            | "functionMetadata"
+            | "includeTriggerFunctions"
+            | "includeFunctions"
+            | "excludeFunctions"
+            | "int8Type"
+        >
+    > {
+    /** SQL to parse, replayed in array order like migration files */
+    sources?: SqlSource[];
+    /** Introspect this database instead of parsing `sources` */
+    connectionString?: string;
+    /** Schema to generate types for (default: public) */
+    schema?: string;
+    /** Name of the generated types file (default: database.ts) */
+    fileName?: string;
+}
+
+export interface GeneratedFile {
+    path: string;
+    content: string;
+}
+
+export interface GenerateResult {
+    files: GeneratedFile[];
+    diagnostics: Diagnostic[];
+    model: SchemaModel;
+}
+
+/**
+ * What --watch mode watches: directories with their subdirectories, and
+ * single files
+ */
+export interface WatchRoots {
+    directories: string[];
+    files: string[];
 }
 
 export interface JsonbColumn {
@@ -0,0 +1,97 @@
+/**
+ * Diagnostics collected while parsing and checking the schema
+ */
+
+import type {
+    Diagnostic,
+    DiagnosticCode,
+    DiagnosticFormat,
+    DiagnosticSeverity,
+    SourceLocation,
+} from "../types/index.js";
+import { log } from "./logger.js";
+
+export interface DiagnosticCollector {
+    readonly diagnostics: Diagnostic[];
+    report(
+        severity: DiagnosticSeverity,
+        code: DiagnosticCode,
+        message: string,
+        location?: SourceLocation
+    ): void;
+}
+
+export function createDiagnosticCollector(): DiagnosticCollector {
+    const diagnostics: Diagnostic[] = [];
+
+    return {
+        diagnostics,
+        report(severity, code, message, location) {
+            diagnostics.push(
+                location
+                    ? { severity, code, message, location }
+                    : { severity, code, message }
+            );
+        },
+    };
+}
+
+function formatLocation(location: SourceLocation): string {
+    return `${location.file}:${location.line}:${location.column}`;
+}
+
+/**
+ * Render diagnostics as `file:line:column - severity code: message` lines
+ * or as a JSON array
+ */
+export function formatDiagnostics(
+    diagnostics: Diagnostic[],
+    format: DiagnosticFormat
+): string {
+    if (format === "json") {
+        return JSON.stringify(diagnostics, null, 2);
+    }
+
+    return diagnostics
+        .map((d) => {
+            const prefix = d.location ? `${formatLocation(d.location)} - ` : "";
+            return `${prefix}${d.severity} ${d.code}: ${d.message}`;
+        })
+        .join("\n");
+}
+
+const SEVERITY_COLORS = {
+    error: "red",
+    warning: "yellow",
+    info: "cyan",
+} as const;
+
+/**
+ * Print diagnostics in the requested format
+ *
+ * Text output lists errors and warnings; JSON output contains every
+ * diagnostic, including skipped statements.
+ */
+export function printDiagnostics(
+    diagnostics: Diagnostic[],
+    format: DiagnosticFormat
+): void {
+    if (format === "json") {
+        console.log(formatDiagnostics(diagnostics, "json"));
+        return;
+    }
+
+    const problems = diagnostics.filter((d) => d.severity !== "info");
+    if (problems.length === 0) {
+        return;
+    }
+
+    log(`\n⚠ ${problems.length} diagnostic(s):`, "yellow", true);
+    for (const diagnostic of problems) {
+        log(
+            `  ${formatDiagnostics([diagnostic], "text")}`,
+            SEVERITY_COLORS[diagnostic.severity],
+            true
+        );
+    }
+}
@@ -0,0 +1,150 @@
+/**
+ * Line-based unified diff
+ */
+
+type DiffOp = { kind: " " | "-" | "+"; line: string };
+
+// Above this many (old x new) changed lines, skip the LCS table and report
+// the changed region as one replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+    let prefix = 0;
+    while (
+        prefix < oldLines.length &&
+        prefix < newLines.length &&
+        oldLines[prefix] === newLines[prefix]
+    ) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    while (
+        suffix < oldLines.length - prefix &&
+        suffix < newLines.length - prefix &&
+        oldLines[oldLines.length - 1 - suffix] ===
+            newLines[newLines.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const a = oldLines.slice(prefix, oldLines.length - suffix);
+    const b = newLines.slice(prefix, newLines.length - suffix);
+    const ops: DiffOp[] = oldLines
+        .slice(0, prefix)
+        .map((line) => ({ kind: " ", line }));
+
+    if (a.length * b.length > MAX_LCS_CELLS) {
+        ops.push(...a.map((line) => ({ kind: "-" as const, line })));
+        ops.push(...b.map((line) => ({ kind: "+" as const, line })));
+    } else {
+        // lcs[i * width + j] = LCS length of a[i..] and b[j..]
+        const width = b.length + 1;
+        const lcs = new Int32Array((a.length + 1) * width);
+        for (let i = a.length - 1; i >= 0; i--) {
+            for (let j = b.length - 1; j >= 0; j--) {
+                lcs[i * width + j] =
+                    a[i] === b[j]
+                        ? lcs[(i + 1) * width + j + 1] + 1
+                        : Math.max(
+                              lcs[(i + 1) * width + j],
+                              lcs[i * width + j + 1]
+                          );
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < a.length || j < b.length) {
+            if (i < a.length && j < b.length && a[i] === b[j]) {
+                ops.push({ kind: " ", line: a[i] });
+                i++;
+                j++;
+            } else if (
+                j >= b.length ||
+                (i < a.length &&
+                    lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])
+            ) {
+                ops.push({ kind: "-", line: a[i] });
+                i++;
+            } else {
+                ops.push({ kind: "+", line: b[j] });
+                j++;
+            }
+        }
+    }
+
+    for (const line of oldLines.slice(oldLines.length - suffix)) {
+        ops.push({ kind: " ", line });
+    }
+
+    return ops;
+}
+
+function hunkRange(start: number, count: number): string {
+    // An empty range points at the line before it, as in GNU diff
+    const first = count === 0 ? start : start + 1;
+    return count === 1 ? `${first}` : `${first},${count}`;
+}
+
+/**
+ * Create a unified diff between two texts
+ *
+ * @returns The diff, or an empty string when the texts are equal
+ */
+export function createUnifiedDiff(
+    oldText: string,
+    newText: string,
+    oldLabel: string,
+    newLabel: string,
+    context: number = 3
+): string {
+    if (oldText === newText) {
+        return "";
+    }
+
+    const ops = diffLines(oldText.split("\n"), newText.split("\n"));
+    const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+    let index = 0;
+    while (index < ops.length) {
+        // Find the next change and the run of changes close enough to share
+        // a hunk with it
+        while (index < ops.length && ops[index].kind === " ") index++;
+        if (index >= ops.length) break;
+
+        const start = Math.max(0, index - context);
+        let end = index;
+        let lastChange = index;
+        while (end < ops.length && end - lastChange <= context * 2) {
+            if (ops[end].kind !== " ") lastChange = end;
+            end++;
+        }
+        end = Math.min(ops.length, lastChange + context + 1);
+
+        let oldStart = 0;
+        let newStart = 0;
+        for (const op of ops.slice(0, start)) {
+            if (op.kind !== "+") oldStart++;
+            if (op.kind !== "-") newStart++;
+        }
+
+        const hunk = ops.slice(start, end);
+        const oldCount = hunk.filter((op) => op.kind !== "+").length;
+        const newCount = hunk.filter((op) => op.kind !== "-").length;
+
+        output.push(
+            `@@ -${hunkRange(oldStart, oldCount)} +${hunkRange(
+                newStart,
+                newCount
+            )} @@`
+        );
+        for (const op of hunk) {
+            output.push(`${op.kind}${op.line}`);
+        }
+
+        index = end;
+    }
+
+    return output.join("\n");
+}
@@ -20,6 +20,10 @@ export function setVerboseLogging(verbose: boolean): void {
     VERBOSE_LOGGING = verbose;
 }
 
+export function isVerboseLogging(): boolean {
+    return VERBOSE_LOGGING;
+}
+
 export function log(
     message: string,
     color: ColorName = "reset",
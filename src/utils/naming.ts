@@ -38,3 +38,28 @@ export function convertCase(str: string, convention: NamingConvention): string {
             return str;
     }
 }
+
+/**
+ * Build a camelCase identifier such as `usersRowSchema`. Objects outside
+ * the main schema are prefixed with their schema name.
+ */
+export function schemaIdentifier(
+    schemaName: string,
+    mainSchema: string,
+    ...parts: string[]
+): string {
+    const words = schemaName === mainSchema ? parts : [schemaName, ...parts];
+    const name = convertCase(
+        [...words, "schema"].join("_").replace(/\W+/g, "_"),
+        "camelCase"
+    );
+    return /^\d/.test(name) ? `_${name}` : name;
+}
+
+/**
+ * Object key as written in generated code, quoted when it is not a valid
+ * identifier
+ */
+export function propertyKey(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
@@ -0,0 +1,52 @@
+/**
+ * Relationship resolution helpers
+ */
+
+import type { TableDefinition } from "../types/index.js";
+
+/**
+ * Find the table a foreign key points to. `relation` is either
+ * `schema.table` or a bare name in the schema of the referencing table.
+ */
+export function findReferencedTable(
+    tables: TableDefinition[],
+    relation: string,
+    fromSchema: string
+): TableDefinition | undefined {
+    const dot = relation.indexOf(".");
+    const refSchema = dot === -1 ? fromSchema : relation.slice(0, dot);
+    const refName = dot === -1 ? relation : relation.slice(dot + 1);
+    return tables.find((t) => t.schema === refSchema && t.name === refName);
+}
+
+const RELATION_NAME = String.raw`(?:"(?:[^"]|"")+"|[A-Za-z_][\w$]*)`;
+const FROM_OR_JOIN = new RegExp(
+    String.raw`\b(?:from|join)\s+(${RELATION_NAME}(?:\s*\.\s*${RELATION_NAME})?)`,
+    "gi"
+);
+
+function unquoteName(name: string): string {
+    return name.startsWith('"')
+        ? name.slice(1, -1).replace(/""/g, '"')
+        : name.toLowerCase();
+}
+
+/**
+ * Relations a view reads from, as `schema.name` keys, taken from the
+ * FROM and JOIN clauses of its definition
+ */
+export function findViewSources(
+    definition: string,
+    viewSchema: string
+): Set<string> {
+    const sources = new Set<string>();
+    for (const match of definition.matchAll(FROM_OR_JOIN)) {
+        const parts =
+            match[1].match(new RegExp(RELATION_NAME, "g"))?.map(unquoteName) ??
+            [];
+        const [schema, name] =
+            parts.length === 2 ? parts : [viewSchema, parts[0]];
+        sources.add(`${schema}.${name}`);
+    }
+    return sources;
+}
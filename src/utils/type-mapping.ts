@@ -2,13 +2,211 @@
  * PostgreSQL to TypeScript type mapping
  */
 
+import type {
+    CheckConstraintDefinition,
+    ColumnDefinition,
+    DomainDefinition,
+    TableDefinition,
+} from "../types/index.js";
+
+/**
+ * Find the domain a type names, either bare (in `schema`) or
+ * schema-qualified
+ */
+export function findDomain(
+    pgType: string,
+    schema: string,
+    domains: DomainDefinition[]
+): DomainDefinition | undefined {
+    return domains.find(
+        (d) =>
+            (d.schema === schema && d.name === pgType) ||
+            `${d.schema}.${d.name}` === pgType
+    );
+}
+
+/**
+ * Follow a domain, and domains over domains, down to its base type
+ */
+export function resolveDomainBaseType(
+    pgType: string,
+    schema: string,
+    domains: DomainDefinition[]
+): { type: string; isArray: boolean } {
+    let type = pgType;
+    let isArray = false;
+    const seen = new Set<DomainDefinition>();
+    let domain = findDomain(type, schema, domains);
+    while (domain && !seen.has(domain)) {
+        seen.add(domain);
+        type = domain.baseType;
+        isArray = isArray || domain.isArray;
+        domain = findDomain(type, schema, domains);
+    }
+    return { type, isArray };
+}
+
+/**
+ * Give a table column of a domain type the NOT NULL and DEFAULT of the
+ * domain
+ */
+export function applyDomainConstraints(
+    col: ColumnDefinition,
+    schema: string,
+    domains: DomainDefinition[]
+): ColumnDefinition {
+    const domain = col.isArray
+        ? undefined
+        : findDomain(col.type, schema, domains);
+    if (!domain) {
+        return col;
+    }
+    return {
+        ...col,
+        nullable: col.nullable && domain.nullable,
+        defaultValue: col.defaultValue ?? domain.defaultValue,
+    };
+}
+
+/**
+ * Identity columns GENERATED ALWAYS and generated columns, which Postgres
+ * rejects written values for
+ */
+export function isGeneratedAlways(col: ColumnDefinition): boolean {
+    return col.identity === "always" || col.generationExpression !== undefined;
+}
+
+/**
+ * Whether an INSERT must, may or must not give a value for a table column
+ */
+export function insertMode(
+    col: ColumnDefinition
+): "required" | "optional" | "never" {
+    if (isGeneratedAlways(col)) {
+        return "never";
+    }
+    return col.identity || col.defaultValue !== null || col.nullable
+        ? "optional"
+        : "required";
+}
+
+/**
+ * Values allowed by `IN (...)` / `= ANY (ARRAY[...])` checks; several
+ * checks allow only the values they have in common
+ */
+function allowedValues(
+    checks: CheckConstraintDefinition[]
+): Array<string | number> | null {
+    let allowed: Array<string | number> | null = null;
+    for (const check of checks) {
+        if (!check.allowedValues) continue;
+        const values: Array<string | number> = check.allowedValues;
+        allowed = allowed ? allowed.filter((v) => values.includes(v)) : values;
+    }
+    return allowed && allowed.length > 0 ? allowed : null;
+}
+
+function domainAllowedValues(
+    domain: DomainDefinition
+): Array<string | number> | null {
+    return allowedValues(
+        (domain.checkConstraints ?? []).filter(
+            (check) => check.column?.toLowerCase() === "value"
+        )
+    );
+}
+
+/**
+ * Values the CHECK constraints of a table allow for each column they
+ * narrow to a list
+ */
+export function checkedColumnValues(
+    table: TableDefinition
+): Map<string, Array<string | number>> {
+    const checksByColumn = new Map<string, CheckConstraintDefinition[]>();
+    for (const check of table.checkConstraints ?? []) {
+        if (!check.column) continue;
+        checksByColumn.set(check.column, [
+            ...(checksByColumn.get(check.column) ?? []),
+            check,
+        ]);
+    }
+
+    const values = new Map<string, Array<string | number>>();
+    for (const [column, checks] of checksByColumn) {
+        const allowed = allowedValues(checks);
+        if (allowed) {
+            values.set(column, allowed);
+        }
+    }
+    return values;
+}
+
+/**
+ * Values a column of a domain type is narrowed to by the `VALUE IN (...)`
+ * checks of the domain, or of the domain it is based on
+ */
+export function domainCheckedValues(
+    pgType: string,
+    schema: string,
+    domains: DomainDefinition[]
+): Array<string | number> | null {
+    const seen = new Set<DomainDefinition>();
+    let domain = findDomain(pgType, schema, domains);
+    while (domain && !seen.has(domain)) {
+        seen.add(domain);
+        const allowed = domain.isArray ? null : domainAllowedValues(domain);
+        if (allowed) {
+            return allowed;
+        }
+        domain = findDomain(domain.baseType, schema, domains);
+    }
+    return null;
+}
+
+function isCompound(tsType: string): boolean {
+    return / [|&] /.test(tsType);
+}
+
+/**
+ * @param domains - Domains to resolve to their base type
+ * @param brandDomains - Brand domain types, e.g. `string & { __domain: "email" }`
+ */
 export function mapPostgresTypeToTypeScript(
     pgType: string,
     isArray: boolean,
     schema: string = "public",
     availableEnums: Set<string> = new Set(),
-    useGeometricTypes: boolean = false
+    useGeometricTypes: boolean = false,
+    domains: DomainDefinition[] = [],
+    brandDomains: boolean = false
 ): string {
+    const domain = findDomain(pgType, schema, domains);
+    if (domain) {
+        const allowedValues = domain.isArray
+            ? null
+            : domainAllowedValues(domain);
+        // Only the outermost of nested domains is branded, as two brands
+        // would never intersect
+        const baseType = allowedValues
+            ? allowedValues.map((v) => JSON.stringify(v)).join(" | ")
+            : mapPostgresTypeToTypeScript(
+                  domain.baseType,
+                  domain.isArray,
+                  schema,
+                  availableEnums,
+                  useGeometricTypes,
+                  domains.filter((d) => d !== domain)
+              );
+        const domainType = brandDomains
+            ? `${
+                  isCompound(baseType) ? `(${baseType})` : baseType
+              } & { __domain: ${JSON.stringify(domain.name)} }`
+            : baseType;
+        if (!isArray) return domainType;
+        return isCompound(domainType) ? `(${domainType})[]` : `${domainType}[]`;
+    }
+
     const baseTypeName = pgType
         .toLowerCase()
         .replace(/\([^)]*\)/, "")
@@ -0,0 +1,121 @@
+/**
+ * Debounced file system watching
+ */
+
+import { readdirSync, statSync, watch, type FSWatcher } from "fs";
+import { basename, dirname, join } from "path";
+import type { WatchRoots } from "../types/index.js";
+
+function isDirectory(path: string): boolean {
+    return statSync(path, { throwIfNoEntry: false })?.isDirectory() ?? false;
+}
+
+// Installed packages and tool state (.git, .temp, .branches) never hold
+// schema files and can be huge
+function isSkippedDirectory(name: string): boolean {
+    return name === "node_modules" || name.startsWith(".");
+}
+
+/**
+ * Watch directories with their subdirectories, and single files, and
+ * report changed files in batches
+ *
+ * A batch is delivered once no further matching change has arrived for
+ * `debounceMs`, so saving several migrations at once triggers one callback.
+ * Each directory gets its own watcher, since `recursive` is unavailable on
+ * Linux before Node 20, and directories created later are watched as they
+ * appear. Single files are watched through their parent directory, which
+ * keeps working when an editor replaces the file on save.
+ *
+ * @returns A function that stops watching
+ */
+export function watchDirectories(
+    roots: WatchRoots,
+    filter: (path: string) => boolean,
+    onChange: (changedPaths: string[]) => void,
+    debounceMs: number
+): () => void {
+    const pending = new Set<string>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+        timer = null;
+        const changedPaths = Array.from(pending);
+        pending.clear();
+        onChange(changedPaths);
+    };
+
+    const record = (path: string) => {
+        if (!filter(path)) return;
+
+        pending.add(path);
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(flush, debounceMs);
+    };
+
+    const watchers = new Map<string, FSWatcher>();
+    // Directories watched for some of their files only, by file name
+    const watchedFiles = new Map<string, Set<string>>();
+    const fileWatchers: FSWatcher[] = [];
+
+    const watchTree = (directory: string) => {
+        if (watchers.has(directory)) return;
+
+        watchers.set(
+            directory,
+            watch(directory, (_event, fileName) => {
+                if (!fileName) return;
+
+                const path = join(directory, fileName.toString());
+                if (isDirectory(path)) {
+                    if (!isSkippedDirectory(fileName.toString())) {
+                        watchTree(path);
+                    }
+                    return;
+                }
+                record(path);
+            })
+        );
+
+        for (const entry of readdirSync(directory, { withFileTypes: true })) {
+            if (entry.isDirectory() && !isSkippedDirectory(entry.name)) {
+                watchTree(join(directory, entry.name));
+            }
+        }
+    };
+
+    const watchFile = (file: string) => {
+        const directory = dirname(file);
+        if (watchers.has(directory) || !isDirectory(directory)) return;
+
+        const fileNames = watchedFiles.get(directory);
+        if (fileNames) {
+            fileNames.add(basename(file));
+            return;
+        }
+
+        const names = new Set([basename(file)]);
+        watchedFiles.set(directory, names);
+        fileWatchers.push(
+            watch(directory, (_event, fileName) => {
+                if (fileName && names.has(fileName.toString())) {
+                    record(join(directory, fileName.toString()));
+                }
+            })
+        );
+    };
+
+    for (const directory of roots.directories) {
+        watchTree(directory);
+    }
+    for (const file of roots.files) {
+        watchFile(file);
+    }
+
+    return () => {
+        if (timer) clearTimeout(timer);
+        for (const watcher of [...watchers.values(), ...fileWatchers]) {
+            watcher.close();
+        }
+    };
+}
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { parseCommandLineArgs } from "../../src/config/cli.js";
+import { parseCommandLineArgs, parseCliFlags } from "../../src/config/cli.js";
 import * as logger from "../../src/utils/logger.js";
 
 describe("parseCommandLineArgs", () => {
@@ -104,6 +104,190 @@ describe("parseCommandLineArgs", () => {
         expect(result.alphabetical).toBe(true);
     });
 
+    it("should parse --diagnostics flag", () => {
+        process.argv = ["node", "script.js", "--diagnostics", "json"];
+        const result = parseCommandLineArgs();
+
+        expect(result.diagnosticsFormat).toBe("json");
+    });
+
+    it("should default to text diagnostics for an invalid format", () => {
+        process.argv = ["node", "script.js", "--diagnostics", "xml"];
+        const result = parseCommandLineArgs();
+
+        expect(result.diagnosticsFormat).toBe("text");
+    });
+
+    it("should parse --check flag", () => {
+        process.argv = ["node", "script.js", "--check"];
+        const result = parseCommandLineArgs();
+
+        expect(result.check).toBe(true);
+    });
+
+    it("should parse --watch flag", () => {
+        process.argv = ["node", "script.js", "--watch"];
+        const result = parseCommandLineArgs();
+
+        expect(result.watch).toBe(true);
+    });
+
+    it("should parse --zod flag", () => {
+        process.argv = ["node", "script.js", "--zod"];
+        const result = parseCommandLineArgs();
+
+        expect(result.zod).toBe(true);
+    });
+
+    it("should parse --valibot flag", () => {
+        process.argv = ["node", "script.js", "--valibot"];
+        const result = parseCommandLineArgs();
+
+        expect(result.valibot).toBe(true);
+    });
+
+    it("should parse --format flags", () => {
+        process.argv = [
+            "node",
+            "script.js",
+            "--format",
+            "json-schema",
+            "--format",
+            "zod",
+        ];
+        const result = parseCommandLineArgs();
+
+        expect(result.jsonSchema).toBe(true);
+        expect(result.zod).toBe(true);
+        expect(result.valibot).toBe(false);
+    });
+
+    it("should parse --format kysely with --int8-type", () => {
+        process.argv = [
+            "node",
+            "script.js",
+            "--format",
+            "kysely",
+            "--int8-type",
+            "bigint",
+        ];
+        const result = parseCommandLineArgs();
+
+        expect(result.kysely).toBe(true);
+        expect(result.int8Type).toBe("bigint");
+    });
+
+    it("should parse --format drizzle", () => {
+        process.argv = ["node", "script.js", "--format", "drizzle"];
+        const result = parseCommandLineArgs();
+
+        expect(result.drizzle).toBe(true);
+        expect(result.kysely).toBe(false);
+    });
+
+    it("should warn about an invalid --int8-type", () => {
+        process.argv = ["node", "script.js", "--int8-type", "float"];
+        const result = parseCommandLineArgs();
+
+        expect(result.int8Type).toBe("string");
+        expect(logger.log).toHaveBeenCalledWith(
+            expect.stringContaining("Invalid int8 type: float"),
+            "yellow",
+            true
+        );
+    });
+
+    it("should parse --diagram with a schema and table filter", () => {
+        process.argv = [
+            "node",
+            "script.js",
+            "--diagram",
+            "mermaid",
+            "--diagram-schema",
+            "public",
+            "--diagram-tables",
+            "users,posts",
+        ];
+        const result = parseCommandLineArgs();
+
+        expect(result.diagram).toBe("mermaid");
+        expect(result.diagramSchema).toBe("public");
+        expect(result.diagramTables).toEqual(["users", "posts"]);
+    });
+
+    it("should parse --format markdown and --markdown-per-schema", () => {
+        process.argv = ["node", "script.js", "--format", "markdown"];
+        expect(parseCommandLineArgs()).toMatchObject({
+            markdown: true,
+            markdownPerSchema: false,
+        });
+
+        process.argv = ["node", "script.js", "--markdown-per-schema"];
+        expect(parseCommandLineArgs()).toMatchObject({
+            markdown: true,
+            markdownPerSchema: true,
+        });
+    });
+
+    it("should parse --brand-domains", () => {
+        process.argv = ["node", "script.js"];
+        expect(parseCommandLineArgs().brandDomains).toBe(false);
+
+        process.argv = ["node", "script.js", "--brand-domains"];
+        expect(parseCommandLineArgs().brandDomains).toBe(true);
+    });
+
+    it("should parse the function selection flags", () => {
+        process.argv = ["node", "script.js"];
+        expect(parseCommandLineArgs()).toMatchObject({
+            functionMetadata: false,
+            includeTriggerFunctions: false,
+            includeFunctions: [],
+            excludeFunctions: [],
+        });
+
+        process.argv = [
+            "node",
+            "script.js",
+            "--function-metadata",
+            "--include-trigger-functions",
+            "--include-functions",
+            "api.*",
+            "--exclude-functions",
+            "_*, api.debug",
+        ];
+        expect(parseCommandLineArgs()).toMatchObject({
+            functionMetadata: true,
+            includeTriggerFunctions: true,
+            includeFunctions: ["api.*"],
+            excludeFunctions: ["_*", "api.debug"],
+        });
+    });
+
+    it("should warn about an unknown --diagram format", () => {
+        process.argv = ["node", "script.js", "--diagram", "plantuml"];
+        const result = parseCommandLineArgs();
+
+        expect(result.diagram).toBeNull();
+        expect(logger.log).toHaveBeenCalledWith(
+            expect.stringContaining("Invalid diagram format: plantuml"),
+            "yellow",
+            true
+        );
+    });
+
+    it("should warn about an unknown --format", () => {
+        process.argv = ["node", "script.js", "--format", "yaml"];
+        const result = parseCommandLineArgs();
+
+        expect(result.jsonSchema).toBe(false);
+        expect(logger.log).toHaveBeenCalledWith(
+            expect.stringContaining("Invalid format: yaml"),
+            "yellow",
+            true
+        );
+    });
+
     it("should parse --indent flag", () => {
         process.argv = ["node", "script.js", "--indent", "4"];
         const result = parseCommandLineArgs();
@@ -146,6 +330,32 @@ describe("parseCommandLineArgs", () => {
         expect(result.usePrettier).toBe(false);
     });
 
+    it("should switch boolean options off with --no-<flag>", () => {
+        const result = parseCommandLineArgs(
+            {
+                zod: true,
+                watch: true,
+                alphabetical: true,
+                includeIndexes: true,
+            },
+            parseCliFlags([
+                "--no-zod",
+                "--no-watch",
+                "--no-sort",
+                "--no-include-indexes",
+            ])
+        );
+
+        expect(result.zod).toBe(false);
+        expect(result.watch).toBe(false);
+        expect(result.alphabetical).toBe(false);
+        expect(result.includeIndexes).toBe(false);
+    });
+
+    it("should ignore --no- in front of options that are not booleans", () => {
+        expect(parseCliFlags(["--no-schema"])).toEqual({});
+    });
+
     it("should parse --extract-nested flag", () => {
         process.argv = ["node", "script.js", "--extract-nested"];
         const result = parseCommandLineArgs();
@@ -429,3 +639,58 @@ describe("parseCommandLineArgs", () => {
         expect(result.alphabetical).toBe(true);
     });
 });
+
+describe("parseCliFlags", () => {
+    beforeEach(() => {
+        vi.spyOn(logger, "log").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should only contain the flags that were passed", () => {
+        expect(
+            parseCliFlags(["--schema", "api", "--silent", "--config", "t.json"])
+        ).toEqual({
+            schema: "api",
+            verboseLogging: false,
+            configPath: "t.json",
+        });
+    });
+
+    it("should leave invalid values unset", () => {
+        expect(parseCliFlags(["--naming", "kebab", "--indent", "12"])).toEqual(
+            {}
+        );
+    });
+});
+
+describe("parseCommandLineArgs with configured options", () => {
+    it("should prefer flags over configured options over defaults", () => {
+        const result = parseCommandLineArgs(
+            {
+                schema: "configured",
+                namingConvention: "camelCase",
+                outputDir: "./configured",
+                source: "db",
+            },
+            { schema: "flag" }
+        );
+
+        expect(result.schema).toBe("flag");
+        expect(result.namingConvention).toBe("camelCase");
+        expect(result.outputDir).toBe("./configured");
+        expect(result.source).toBe("db");
+        expect(result.alphabetical).toBe(false);
+    });
+
+    it("should let a flag turn off a configured boolean", () => {
+        const result = parseCommandLineArgs(
+            { deduplicateTypes: true },
+            { deduplicateTypes: false }
+        );
+
+        expect(result.deduplicateTypes).toBe(false);
+    });
+});
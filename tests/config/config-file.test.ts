@@ -0,0 +1,388 @@
+/**
+ * Tests for project configuration loading
+ *
+ * Coverage targets:
+ * - readConfigFile: typegen.config.json lookup, validation and errors
+ * - readTomlOptions: the [typegen] section of config.toml
+ * - readEnvOptions: TYPEGEN_* variables and DATABASE_URL
+ * - loadTypegenOptions: precedence between the sources
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+    readConfigFile,
+    readTomlOptions,
+    readEnvOptions,
+    loadTypegenOptions,
+    TYPEGEN_CONFIG_SCHEMA,
+} from "../../src/config/config-file.js";
+import { parseCliFlags, parseCommandLineArgs } from "../../src/config/cli.js";
+import * as fs from "fs";
+import * as logger from "../../src/utils/logger.js";
+
+vi.mock("fs");
+
+function mockFiles(files: Record<string, string>): void {
+    vi.mocked(fs.existsSync).mockImplementation((p) =>
+        Object.hasOwn(files, String(p))
+    );
+    vi.mocked(fs.readFileSync).mockImplementation(
+        ((p: string) => files[p]) as typeof fs.readFileSync
+    );
+}
+
+describe("Project configuration", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.spyOn(logger, "log").mockImplementation(() => {});
+        vi.spyOn(process, "cwd").mockReturnValue("/project");
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    describe("readConfigFile", () => {
+        it("should return no options when typegen.config.json is absent", () => {
+            mockFiles({});
+
+            expect(readConfigFile()).toEqual({});
+        });
+
+        it("should fail when an explicit config file is missing", () => {
+            mockFiles({});
+
+            expect(() => readConfigFile("custom.json")).toThrow(
+                "Config file not found: /project/custom.json"
+            );
+        });
+
+        it("should read and validate options", () => {
+            mockFiles({
+                "/project/typegen.config.json": JSON.stringify({
+                    $schema:
+                        "./node_modules/supabase-typegen/typegen.config.schema.json",
+                    outputDir: "./src/types",
+                    namingConvention: "camelCase",
+                    indentSize: 4,
+                    includeIndexes: true,
+                }),
+            });
+
+            expect(readConfigFile()).toEqual({
+                outputDir: "./src/types",
+                namingConvention: "camelCase",
+                indentSize: 4,
+                includeIndexes: true,
+            });
+        });
+
+        it("should select the database source for a connection string", () => {
+            mockFiles({
+                "/project/typegen.config.json": JSON.stringify({
+                    connectionString: "postgresql://localhost",
+                }),
+            });
+
+            expect(readConfigFile()).toEqual({
+                connectionString: "postgresql://localhost",
+                source: "db",
+            });
+        });
+
+        it("should keep an explicit source next to a connection string", () => {
+            mockFiles({
+                "/project/typegen.config.json": JSON.stringify({
+                    connectionString: "postgresql://localhost",
+                    source: "sql",
+                }),
+            });
+
+            expect(readConfigFile().source).toBe("sql");
+        });
+
+        it("should report unknown keys with a suggestion", () => {
+            mockFiles({
+                "/project/typegen.config.json": JSON.stringify({
+                    namingConvension: "camelCase",
+                    colour: true,
+                }),
+            });
+
+            expect(() => readConfigFile()).toThrow(
+                [
+                    "Invalid configuration in /project/typegen.config.json:",
+                    '  - unknown key "namingConvension" (did you mean "namingConvention"?)',
+                    '  - unknown key "colour"',
+                ].join("\n")
+            );
+        });
+
+        it("should report every invalid value", () => {
+            mockFiles({
+                "/project/typegen.config.json": JSON.stringify({
+                    indentSize: 12,
+                    alphabetical: "yes",
+                    source: "api",
+                }),
+            });
+
+            expect(() => readConfigFile()).toThrow(
+                [
+                    "Invalid configuration in /project/typegen.config.json:",
+                    '  - "indentSize" must be between 1 and 8, got 12',
+                    '  - "alphabetical" must be a boolean, got "yes"',
+                    '  - "source" must be one of "sql", "db", got "api"',
+                ].join("\n")
+            );
+        });
+
+        it("should validate lists of table names", () => {
+            mockFiles({
+                "/project/typegen.config.json": JSON.stringify({
+                    diagram: "dbml",
+                    diagramTables: ["users", 42],
+                }),
+            });
+
+            expect(() => readConfigFile()).toThrow(
+                '"diagramTables" must be a list of strings, got ["users",42]'
+            );
+        });
+
+        it("should report malformed JSON", () => {
+            mockFiles({ "/project/typegen.config.json": "{ schema: " });
+
+            expect(() => readConfigFile()).toThrow(
+                "Invalid JSON in /project/typegen.config.json"
+            );
+        });
+
+        it("should reject a top-level value that is not an object", () => {
+            mockFiles({ "/project/typegen.config.json": "[]" });
+
+            expect(() => readConfigFile()).toThrow("expected an object");
+        });
+    });
+
+    describe("readTomlOptions", () => {
+        it("should map snake_case keys to options", () => {
+            mockFiles({
+                "supabase/config.toml": [
+                    "[typegen]",
+                    'output_dir = "./src/types"',
+                    'naming_convention = "PascalCase"',
+                    "include_indexes = true",
+                    "indent_size = 4",
+                ].join("\n"),
+            });
+
+            expect(readTomlOptions("supabase")).toEqual({
+                outputDir: "./src/types",
+                namingConvention: "PascalCase",
+                includeIndexes: true,
+                indentSize: 4,
+            });
+        });
+
+        it("should select the database source for a connection string", () => {
+            mockFiles({
+                "supabase/config.toml":
+                    '[typegen]\nconnection_string = "postgresql://localhost"\n',
+            });
+
+            expect(readTomlOptions("supabase").source).toBe("db");
+        });
+
+        it("should suggest snake_case names for unknown keys", () => {
+            mockFiles({
+                "supabase/config.toml": '[typegen]\nnaming = "camelCase"\n',
+            });
+
+            expect(() => readTomlOptions("supabase")).toThrow(
+                'unknown key "naming"'
+            );
+            mockFiles({
+                "supabase/config.toml":
+                    '[typegen]\nnaming_conventon = "camelCase"\n',
+            });
+            expect(() => readTomlOptions("supabase")).toThrow(
+                '(did you mean "naming_convention"?)'
+            );
+        });
+
+        it("should read int8_type and suggest it for typos", () => {
+            mockFiles({
+                "supabase/config.toml": '[typegen]\nint8_type = "bigint"\n',
+            });
+            expect(readTomlOptions("supabase")).toEqual({ int8Type: "bigint" });
+
+            mockFiles({
+                "supabase/config.toml": '[typegen]\nint8_typ = "bigint"\n',
+            });
+            expect(() => readTomlOptions("supabase")).toThrow(
+                '(did you mean "int8_type"?)'
+            );
+        });
+
+        it("should reject workdir inside config.toml", () => {
+            mockFiles({
+                "supabase/config.toml": '[typegen]\nworkdir = "./other"\n',
+            });
+
+            expect(() => readTomlOptions("supabase")).toThrow(
+                '"workdir" cannot be set in [typegen]'
+            );
+        });
+
+        it("should return no options without a [typegen] section", () => {
+            mockFiles({
+                "supabase/config.toml":
+                    '[db.migrations]\nschema_paths = ["migrations/*.sql"]\n',
+            });
+
+            expect(readTomlOptions("supabase")).toEqual({});
+        });
+    });
+
+    describe("readEnvOptions", () => {
+        it("should read TYPEGEN_INT8_TYPE", () => {
+            expect(readEnvOptions({ TYPEGEN_INT8_TYPE: "number" })).toEqual({
+                int8Type: "number",
+            });
+        });
+
+        it("should read TYPEGEN_* variables", () => {
+            expect(
+                readEnvOptions({
+                    TYPEGEN_SCHEMA: "api",
+                    TYPEGEN_NAMING_CONVENTION: "snake_case",
+                    TYPEGEN_ALPHABETICAL: "true",
+                    TYPEGEN_INCLUDE_COMMENTS: "0",
+                    TYPEGEN_INDENT_SIZE: "4",
+                })
+            ).toEqual({
+                schema: "api",
+                namingConvention: "snake_case",
+                alphabetical: true,
+                includeComments: false,
+                indentSize: 4,
+            });
+        });
+
+        it("should split comma-separated lists", () => {
+            expect(
+                readEnvOptions({ TYPEGEN_DIAGRAM_TABLES: "users, auth.users," })
+            ).toEqual({ diagramTables: ["users", "auth.users"] });
+        });
+
+        it("should use DATABASE_URL unless TYPEGEN_CONNECTION_STRING is set", () => {
+            expect(readEnvOptions({ DATABASE_URL: "postgresql://a" })).toEqual({
+                connectionString: "postgresql://a",
+            });
+            expect(
+                readEnvOptions({
+                    DATABASE_URL: "postgresql://a",
+                    TYPEGEN_CONNECTION_STRING: "postgresql://b",
+                })
+            ).toEqual({ connectionString: "postgresql://b" });
+        });
+
+        it("should name the variable in validation errors", () => {
+            expect(() =>
+                readEnvOptions({ TYPEGEN_WATCH: "sometimes" })
+            ).toThrow('"TYPEGEN_WATCH" must be a boolean, got "sometimes"');
+        });
+    });
+
+    describe("loadTypegenOptions", () => {
+        it("should prefer environment over config file over config.toml", () => {
+            mockFiles({
+                "/project/typegen.config.json": JSON.stringify({
+                    schema: "file",
+                    outputDir: "./file-types",
+                }),
+                "supabase/config.toml": [
+                    "[typegen]",
+                    'schema = "toml"',
+                    'output_dir = "./toml-types"',
+                    "alphabetical = true",
+                ].join("\n"),
+            });
+
+            expect(loadTypegenOptions({}, { TYPEGEN_SCHEMA: "env" })).toEqual({
+                schema: "env",
+                outputDir: "./file-types",
+                alphabetical: true,
+            });
+        });
+
+        it("should let command line flags override every other source", () => {
+            mockFiles({
+                "/project/typegen.config.json": JSON.stringify({
+                    watch: false,
+                    zod: false,
+                    valibot: false,
+                }),
+                "supabase/config.toml": [
+                    "[typegen]",
+                    "check = true",
+                    "watch = true",
+                    "zod = true",
+                    "valibot = true",
+                ].join("\n"),
+            });
+            const flags = parseCliFlags(["--no-valibot"]);
+
+            const result = parseCommandLineArgs(
+                loadTypegenOptions(flags, {
+                    TYPEGEN_ZOD: "true",
+                    TYPEGEN_VALIBOT: "true",
+                }),
+                flags
+            );
+
+            expect(result.check).toBe(true);
+            expect(result.watch).toBe(false);
+            expect(result.zod).toBe(true);
+            expect(result.valibot).toBe(false);
+        });
+
+        it("should look for config.toml in the configured workdir", () => {
+            mockFiles({
+                "/project/typegen.config.json": JSON.stringify({
+                    workdir: "./db",
+                }),
+                "db/config.toml": '[typegen]\nschema = "from_db_dir"\n',
+            });
+
+            expect(loadTypegenOptions({}, {})).toEqual({
+                workdir: "./db",
+                schema: "from_db_dir",
+            });
+        });
+
+        it("should read the file passed with --config", () => {
+            mockFiles({
+                "/project/config/typegen.json": JSON.stringify({
+                    check: true,
+                }),
+            });
+
+            expect(
+                loadTypegenOptions({ configPath: "config/typegen.json" }, {})
+            ).toEqual({ check: true });
+        });
+    });
+
+    describe("TYPEGEN_CONFIG_SCHEMA", () => {
+        it("should match the published JSON schema", async () => {
+            const actualFs = await vi.importActual<typeof fs>("fs");
+            const published = JSON.parse(
+                actualFs.readFileSync("typegen.config.schema.json", "utf8")
+            );
+
+            expect(published).toEqual(TYPEGEN_CONFIG_SCHEMA);
+        });
+    });
+});
@@ -5,6 +5,7 @@
  * - parseToml: all TOML formats and edge cases
  * - readSupabaseConfig: config file resolution and fallbacks
  * - resolveSchemaFiles: glob pattern expansion and file resolution
+ * - resolveSchemaWatchRoots: directories watched in --watch mode
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
@@ -12,6 +13,7 @@ import {
     parseToml,
     readSupabaseConfig,
     resolveSchemaFiles,
+    resolveSchemaWatchRoots,
 } from "../../src/config/toml.js";
 import * as fs from "fs";
 import * as path from "path";
@@ -271,6 +273,42 @@ schema_paths = ["migrations\\*.sql", "supabase\\migrations\\*.sql"]
         });
     });
 
+    describe("parseToml [typegen]", () => {
+        it("should parse scalar and array values", () => {
+            const config = parseToml(`
+[typegen]
+output_dir = "./src/types"   # trailing comment
+naming_convention = 'camelCase'
+alphabetical = true
+indent_size = 4
+exclude = ["private_*", "tmp"]
+
+[db.migrations]
+schema_paths = ["migrations/*.sql"]
+`);
+
+            expect(config.typegen).toEqual({
+                output_dir: "./src/types",
+                naming_convention: "camelCase",
+                alphabetical: true,
+                indent_size: 4,
+                exclude: ["private_*", "tmp"],
+            });
+            expect(config.db?.migrations?.schema_paths).toEqual([
+                "migrations/*.sql",
+            ]);
+        });
+
+        it("should ignore keys of other sections", () => {
+            const config = parseToml(`
+[api]
+port = 54321
+`);
+
+            expect(config.typegen).toBeUndefined();
+        });
+    });
+
     describe("readSupabaseConfig", () => {
         it("should read config from workdir", () => {
             const configContent = `
@@ -448,6 +486,22 @@ schema_paths = [
             expect(files[1]).toContain("002_users.sql");
         });
 
+        it("should return glob matches in filename order", () => {
+            vi.mocked(globSync).mockReturnValue([
+                "/home/project/supabase/migrations/20240301_add_posts.sql",
+                "/home/project/supabase/migrations/20240101_init.sql",
+                "/home/project/supabase/migrations/20240201_add_users.sql",
+            ]);
+
+            const files = resolveSchemaFiles(["migrations/*.sql"], null);
+
+            expect(files.map((f) => f.split("/").pop())).toEqual([
+                "20240101_init.sql",
+                "20240201_add_users.sql",
+                "20240301_add_posts.sql",
+            ]);
+        });
+
         it("should resolve specific files", () => {
             vi.mocked(fs.existsSync).mockReturnValue(true);
             vi.mocked(fs.statSync).mockReturnValue({
@@ -734,4 +788,63 @@ schema_paths = [
             expect(hasAddedLog).toBe(false);
         });
     });
+
+    describe("resolveSchemaWatchRoots", () => {
+        beforeEach(() => {
+            vi.spyOn(process, "cwd").mockReturnValue("/home/project");
+            vi.mocked(fs.existsSync).mockReturnValue(true);
+        });
+
+        it("should watch glob roots and config.toml instead of the workdir", () => {
+            const roots = resolveSchemaWatchRoots(
+                ["migrations/*.sql", "schemas/**/*.sql", "seed.sql"],
+                null
+            );
+
+            expect(roots).toEqual({
+                directories: [
+                    "/home/project/supabase/migrations",
+                    "/home/project/supabase/schemas",
+                ],
+                files: [
+                    "/home/project/supabase/config.toml",
+                    "/home/project/supabase/seed.sql",
+                ],
+            });
+        });
+
+        it("should watch each directory once", () => {
+            const roots = resolveSchemaWatchRoots(
+                [
+                    "migrations/*.sql",
+                    "migrations/**/*.sql",
+                    "migrations/extra/*.sql",
+                    "migrations/001_init.sql",
+                    "../shared/sql/**/*.sql",
+                ],
+                "./db"
+            );
+
+            expect(roots).toEqual({
+                directories: [
+                    "/home/project/db/migrations",
+                    "/home/project/shared/sql",
+                ],
+                files: ["/home/project/db/config.toml"],
+            });
+        });
+
+        it("should skip directories that do not exist", () => {
+            vi.mocked(fs.existsSync).mockImplementation(
+                (p) => p === "/home/project/supabase"
+            );
+
+            const roots = resolveSchemaWatchRoots(["../missing/*.sql"], null);
+
+            expect(roots).toEqual({
+                directories: [],
+                files: ["/home/project/supabase/config.toml"],
+            });
+        });
+    });
 });
@@ -17,7 +17,9 @@ import * as path from "path";
 import * as logger from "../src/utils/logger.js";
 import * as cli from "../src/config/cli.js";
 import * as toml from "../src/config/toml.js";
+import * as configFile from "../src/config/config-file.js";
 import * as sqlFileParser from "../src/parsers/sql-file-parser.js";
+import * as dbIntrospector from "../src/parsers/db-introspector.js";
 import * as jsonbParser from "../src/parsers/jsonb.js";
 import * as tableGenerator from "../src/generators/table.js";
 import * as enumGenerator from "../src/generators/enum.js";
@@ -27,6 +29,7 @@ import * as geometricGenerator from "../src/generators/geometric.js";
 import * as constantsGenerator from "../src/generators/constants.js";
 import * as jsonbGenerator from "../src/generators/jsonb.js";
 import * as prettierUtils from "../src/utils/prettier.js";
+import * as watchUtils from "../src/utils/watch.js";
 import * as typeMapping from "../src/utils/type-mapping.js";
 import type {
     TableDefinition,
@@ -62,6 +65,9 @@ describe("Integration: Generator", () => {
         vi.spyOn(logger, "log").mockImplementation(() => {});
         vi.spyOn(logger, "setVerboseLogging").mockImplementation(() => {});
 
+        // No typegen.config.json, [typegen] section or TYPEGEN_* variables
+        vi.spyOn(configFile, "loadTypegenOptions").mockReturnValue({});
+
         // Mock process.exit
         process.exit = vi.fn() as any;
 
@@ -529,6 +535,7 @@ describe("Integration: Generator", () => {
                 functions: mockFunctions,
                 compositeTypes: mockCompositeTypes,
                 views: mockViewsTypes,
+                domains: [],
             });
 
             // Mock JSONB scanning
@@ -597,6 +604,7 @@ describe("Integration: Generator", () => {
                 functions: [],
                 compositeTypes: [],
                 views: [],
+                domains: [],
             });
 
             generateTypes();
@@ -609,6 +617,61 @@ describe("Integration: Generator", () => {
             );
         });
 
+        it("should introspect the database when --db is passed", async () => {
+            process.argv = [
+                "node",
+                "script.js",
+                "--connection-string",
+                "postgresql://localhost/test",
+            ];
+            const introspectSpy = vi
+                .spyOn(dbIntrospector, "introspectDatabaseUrl")
+                .mockResolvedValue({
+                    tables: mockTables,
+                    enums: mockEnums,
+                    functions: mockFunctions,
+                    compositeTypes: mockCompositeTypes,
+                    views: mockViewsTypes,
+                    domains: [],
+                });
+
+            await generateTypes();
+
+            expect(introspectSpy).toHaveBeenCalledWith(
+                "postgresql://localhost/test",
+                ["public"]
+            );
+            expect(sqlFileParser.parseSqlFiles).not.toHaveBeenCalled();
+            expect(fs.writeFileSync).toHaveBeenCalled();
+
+            const writeCall = vi.mocked(fs.writeFileSync).mock.calls[0];
+            expect(writeCall[1]).toContain("Source: database");
+        });
+
+        it("should exit when --db is passed without a connection string", async () => {
+            process.argv = ["node", "script.js", "--db"];
+            const originalUrl = process.env.DATABASE_URL;
+            delete process.env.DATABASE_URL;
+            const introspectSpy = vi.spyOn(
+                dbIntrospector,
+                "introspectDatabaseUrl"
+            );
+
+            await generateTypes();
+
+            expect(process.exit).toHaveBeenCalledWith(1);
+            expect(introspectSpy).not.toHaveBeenCalled();
+            expect(logger.log).toHaveBeenCalledWith(
+                expect.stringContaining("No database connection string"),
+                "red",
+                true
+            );
+
+            if (originalUrl !== undefined) {
+                process.env.DATABASE_URL = originalUrl;
+            }
+        });
+
         it("should create output directory if it doesn't exist", () => {
             vi.mocked(fs.existsSync).mockReturnValue(false);
 
@@ -632,6 +695,8 @@ describe("Integration: Generator", () => {
                 expect.any(Boolean),
                 expect.any(Set),
                 expect.any(String),
+                expect.any(Boolean),
+                expect.any(Array),
                 expect.any(Boolean)
             );
         });
@@ -649,10 +714,339 @@ describe("Integration: Generator", () => {
                 expect.any(Boolean),
                 expect.any(Set),
                 expect.any(String),
+                expect.any(Boolean),
+                expect.any(Array),
                 expect.any(Boolean)
             );
         });
 
+        it("should print diagnostics as JSON with --diagnostics json", () => {
+            process.argv = ["node", "script.js", "--diagnostics", "json"];
+            const consoleSpy = vi
+                .spyOn(console, "log")
+                .mockImplementation(() => {});
+
+            generateTypes();
+
+            expect(consoleSpy).toHaveBeenCalledTimes(1);
+            expect(JSON.parse(consoleSpy.mock.calls[0][0])).toEqual(
+                expect.any(Array)
+            );
+            consoleSpy.mockRestore();
+        });
+
+        it("should write Zod schemas next to the types with --zod", () => {
+            process.argv = ["node", "script.js", "--zod"];
+
+            generateTypes();
+
+            const writes = vi.mocked(fs.writeFileSync).mock.calls;
+            expect(writes.map(([file]) => path.basename(String(file)))).toEqual(
+                ["database.ts", "database.zod.ts"]
+            );
+            expect(writes[1][1]).toContain('import { z } from "zod";');
+            expect(writes[1][1]).toContain('from "./database";');
+        });
+
+        it("should write Valibot schemas next to the types with --valibot", () => {
+            process.argv = ["node", "script.js", "--valibot"];
+
+            generateTypes();
+
+            const writes = vi.mocked(fs.writeFileSync).mock.calls;
+            expect(writes.map(([file]) => path.basename(String(file)))).toEqual(
+                ["database.ts", "database.valibot.ts"]
+            );
+            expect(writes[1][1]).toContain('import * as v from "valibot";');
+        });
+
+        it("should write JSON Schema documents with --format json-schema", () => {
+            vi.mocked(fs.existsSync).mockImplementation(
+                (file) => !String(file).endsWith("json-schema")
+            );
+            process.argv = ["node", "script.js", "--format", "json-schema"];
+
+            generateTypes();
+
+            const jsonSchemaDir = path.join(
+                "./src/lib/types/generated",
+                "json-schema"
+            );
+            expect(fs.mkdirSync).toHaveBeenCalledWith(jsonSchemaDir, {
+                recursive: true,
+            });
+            const written = vi
+                .mocked(fs.writeFileSync)
+                .mock.calls.map(([file]) => String(file));
+            expect(written[0]).toMatch(/database\.ts$/);
+            expect(written.slice(1)).not.toHaveLength(0);
+            for (const file of written.slice(1)) {
+                expect(file.startsWith(jsonSchemaDir)).toBe(true);
+                expect(file).toMatch(/\.schema\.json$/);
+            }
+        });
+
+        it("should write Kysely types with --format kysely", () => {
+            process.argv = ["node", "script.js", "--format", "kysely"];
+
+            generateTypes();
+
+            const writes = vi.mocked(fs.writeFileSync).mock.calls;
+            expect(writes.map(([file]) => path.basename(String(file)))).toEqual(
+                ["database.ts", "database.kysely.ts"]
+            );
+            expect(writes[1][1]).toContain("export interface DB {");
+        });
+
+        it("should write a Drizzle schema with --format drizzle", () => {
+            process.argv = ["node", "script.js", "--format", "drizzle"];
+
+            generateTypes();
+
+            const writes = vi.mocked(fs.writeFileSync).mock.calls;
+            expect(String(writes[1][0])).toBe(
+                path.join("./src/lib/types/generated", "drizzle", "schema.ts")
+            );
+            expect(writes[1][1]).toContain('from "drizzle-orm/pg-core";');
+        });
+
+        it("should add the workdir suffix to the Drizzle schema file", () => {
+            process.argv = [
+                "node",
+                "script.js",
+                "--format",
+                "drizzle",
+                "--workdir",
+                "./my-project",
+            ];
+
+            generateTypes();
+
+            const writes = vi.mocked(fs.writeFileSync).mock.calls;
+            expect(writes.map(([file]) => String(file))).toEqual([
+                path.join("./src/lib/types/generated", "databaseMy-project.ts"),
+                path.join(
+                    "./src/lib/types/generated",
+                    "drizzle",
+                    "schemaMy-project.ts"
+                ),
+            ]);
+        });
+
+        it("should write a Mermaid diagram with --diagram mermaid", () => {
+            process.argv = ["node", "script.js", "--diagram", "mermaid"];
+
+            generateTypes();
+
+            const writes = vi.mocked(fs.writeFileSync).mock.calls;
+            expect(writes.map(([file]) => path.basename(String(file)))).toEqual(
+                ["database.ts", "database.erd.md"]
+            );
+            expect(writes[1][1]).toContain("```mermaid\nerDiagram\n");
+        });
+
+        it("should write Markdown docs per schema with --markdown-per-schema", () => {
+            process.argv = ["node", "script.js", "--markdown-per-schema"];
+
+            generateTypes();
+
+            const writes = vi.mocked(fs.writeFileSync).mock.calls;
+            expect(writes.map(([file]) => String(file))).toContainEqual(
+                expect.stringMatching(/docs[\\/]public\.md$/)
+            );
+        });
+
+        describe("--check", () => {
+            const generateContent = (): string => {
+                process.argv = ["node", "script.js"];
+                generateTypes();
+                return vi.mocked(fs.writeFileSync).mock.calls[0][1] as string;
+            };
+
+            it("should pass when only the timestamp differs", () => {
+                const content = generateContent().replace(
+                    /Generated: .*/,
+                    "Generated: 2000-01-01T00:00:00.000Z"
+                );
+                vi.clearAllMocks();
+                vi.mocked(fs.existsSync).mockReturnValue(true);
+                vi.mocked(fs.readFileSync).mockReturnValue(content);
+                process.argv = ["node", "script.js", "--check"];
+
+                generateTypes();
+
+                expect(fs.writeFileSync).not.toHaveBeenCalled();
+                expect(process.exit).not.toHaveBeenCalled();
+                expect(logger.log).toHaveBeenCalledWith(
+                    expect.stringContaining("Types are up to date"),
+                    "green",
+                    true
+                );
+            });
+
+            it("should print a diff and exit with 1 when types are stale", () => {
+                const content = generateContent().replace(
+                    "users: { Row: {} }",
+                    "accounts: { Row: {} }"
+                );
+                vi.clearAllMocks();
+                vi.mocked(fs.existsSync).mockReturnValue(true);
+                vi.mocked(fs.readFileSync).mockReturnValue(content);
+                process.argv = ["node", "script.js", "--check"];
+
+                generateTypes();
+
+                expect(fs.writeFileSync).not.toHaveBeenCalled();
+                expect(process.exit).toHaveBeenCalledWith(1);
+                expect(logger.log).toHaveBeenCalledWith(
+                    "-    accounts: { Row: {} }",
+                    "red",
+                    true
+                );
+                expect(logger.log).toHaveBeenCalledWith(
+                    "+    users: { Row: {} }",
+                    "green",
+                    true
+                );
+            });
+
+            it("should exit with 1 when the output file does not exist", () => {
+                vi.mocked(fs.existsSync).mockReturnValue(false);
+                process.argv = ["node", "script.js", "--check"];
+
+                generateTypes();
+
+                expect(fs.mkdirSync).not.toHaveBeenCalled();
+                expect(fs.writeFileSync).not.toHaveBeenCalled();
+                expect(process.exit).toHaveBeenCalledWith(1);
+                expect(logger.log).toHaveBeenCalledWith(
+                    expect.stringContaining("does not exist"),
+                    "red",
+                    true
+                );
+            });
+        });
+
+        describe("--watch", () => {
+            let migration: string;
+            let onChange: (changedPaths: string[]) => void;
+
+            const written = () => vi.mocked(fs.writeFileSync).mock.calls;
+            const triggerChange = () =>
+                onChange(["/path/to/migrations/001_initial.sql"]);
+
+            beforeEach(() => {
+                migration = "create table users (id uuid primary key);";
+                vi.mocked(fs.readFileSync).mockImplementation(((
+                    file: string
+                ) =>
+                    file.endsWith(".sql")
+                        ? migration
+                        : written()[written().length - 1][1]) as any);
+                vi.spyOn(toml, "resolveSchemaWatchRoots").mockReturnValue({
+                    directories: ["/path/to/migrations"],
+                    files: ["/path/to/config.toml"],
+                });
+                vi.spyOn(watchUtils, "watchDirectories").mockImplementation(
+                    (_roots, _filter, callback) => {
+                        onChange = callback;
+                        return () => {};
+                    }
+                );
+                process.argv = ["node", "script.js", "--watch"];
+            });
+
+            afterEach(() => {
+                vi.mocked(fs.readFileSync).mockReset();
+            });
+
+            it("should start watching after the initial generation", async () => {
+                await generateTypes();
+
+                expect(written()).toHaveLength(1);
+                expect(watchUtils.watchDirectories).toHaveBeenCalledWith(
+                    {
+                        directories: ["/path/to/migrations"],
+                        files: ["/path/to/config.toml"],
+                    },
+                    expect.any(Function),
+                    expect.any(Function),
+                    250
+                );
+            });
+
+            it("should skip regeneration when schema files are unchanged", async () => {
+                await generateTypes();
+                triggerChange();
+
+                expect(written()).toHaveLength(1);
+                expect(logger.log).toHaveBeenCalledWith(
+                    expect.stringContaining("Schema files unchanged"),
+                    "cyan",
+                    true
+                );
+            });
+
+            it("should not rewrite the output when it would not change", async () => {
+                await generateTypes();
+                migration += "\n-- a comment";
+                triggerChange();
+
+                expect(written()).toHaveLength(1);
+                expect(logger.log).toHaveBeenCalledWith(
+                    expect.stringContaining("Types unchanged"),
+                    "green",
+                    true
+                );
+            });
+
+            it("should rewrite the output when it changes", async () => {
+                await generateTypes();
+                migration += "\nalter table users add column name text;";
+                vi.spyOn(tableGenerator, "generateTableType").mockReturnValue(
+                    "    users: { Row: { name: string } }"
+                );
+                triggerChange();
+
+                expect(written()).toHaveLength(2);
+                expect(written()[1][1]).toContain("name: string");
+            });
+
+            it("should pick up newly resolved schema files", async () => {
+                await generateTypes();
+                vi.spyOn(toml, "resolveSchemaFiles").mockReturnValue([
+                    "/path/to/migrations/001_initial.sql",
+                    "/path/to/migrations/002_new.sql",
+                ]);
+                triggerChange();
+
+                expect(sqlFileParser.parseSqlFiles).toHaveBeenLastCalledWith(
+                    [
+                        "/path/to/migrations/001_initial.sql",
+                        "/path/to/migrations/002_new.sql",
+                    ],
+                    expect.any(String),
+                    expect.any(Boolean),
+                    expect.any(Object)
+                );
+            });
+
+            it("should refuse to watch a database source", async () => {
+                process.argv = [
+                    "node",
+                    "script.js",
+                    "--watch",
+                    "--connection-string",
+                    "postgresql://localhost/test",
+                ];
+
+                await generateTypes();
+
+                expect(process.exit).toHaveBeenCalledWith(1);
+                expect(watchUtils.watchDirectories).not.toHaveBeenCalled();
+            });
+        });
+
         it("should exclude comments when flag is set", () => {
             process.argv = ["node", "script.js", "--no-comments"];
 
@@ -661,7 +1055,8 @@ describe("Integration: Generator", () => {
             expect(sqlFileParser.parseSqlFiles).toHaveBeenCalledWith(
                 expect.any(Array),
                 expect.any(String),
-                false // includeComments
+                false, // includeComments
+                expect.objectContaining({ diagnostics: expect.any(Array) })
             );
         });
 
@@ -968,6 +1363,7 @@ describe("Integration: Generator", () => {
                 functions: [],
                 compositeTypes: [],
                 views: [],
+                domains: [],
             });
 
             generateTypes();
@@ -1050,6 +1446,7 @@ describe("Integration: Generator", () => {
                 functions: [],
                 compositeTypes: [],
                 views: [],
+                domains: [],
             });
 
             generateTypes();
@@ -1132,6 +1529,7 @@ describe("Integration: Generator", () => {
                 functions: [],
                 compositeTypes: [],
                 views: [],
+                domains: [],
             });
 
             generateTypes();
@@ -1150,7 +1548,7 @@ describe("Integration: Generator", () => {
             expect(content).toContain("Indentation: 4 spaces (custom)");
         });
 
-        it("should generate file header with database source when using connection string", () => {
+        it("should generate file header with database source when using connection string", async () => {
             process.argv = [
                 "node",
                 "script.js",
@@ -1201,23 +1599,26 @@ describe("Integration: Generator", () => {
                 "generateMergeDeepStructure"
             ).mockReturnValue("");
 
-            vi.spyOn(sqlFileParser, "parseSqlFiles").mockReturnValue({
-                tables: [
-                    {
-                        schema: "public",
-                        name: "test",
-                        columns: [],
-                        relationships: [],
-                        indexes: [],
-                    },
-                ],
-                enums: [],
-                functions: [],
-                compositeTypes: [],
-                views: [],
-            });
+            vi.spyOn(dbIntrospector, "introspectDatabaseUrl").mockResolvedValue(
+                {
+                    tables: [
+                        {
+                            schema: "public",
+                            name: "test",
+                            columns: [],
+                            relationships: [],
+                            indexes: [],
+                        },
+                    ],
+                    enums: [],
+                    functions: [],
+                    compositeTypes: [],
+                    views: [],
+                    domains: [],
+                }
+            );
 
-            generateTypes();
+            await generateTypes();
 
             // Verify the file header contains "Source: database"
             // This covers: const sourceNote = config.supabase.source === "sql" ? "SQL files" : "database";
@@ -1269,6 +1670,7 @@ describe("Integration: Generator", () => {
                 functions: [],
                 compositeTypes: [],
                 views: [],
+                domains: [],
             });
 
             generateTypes();
@@ -1563,6 +1965,7 @@ describe("Integration: Generator", () => {
                 functions: [],
                 compositeTypes: [],
                 views: [],
+                domains: [],
             });
 
             generateTypes();
@@ -1593,6 +1996,7 @@ describe("Integration: Generator", () => {
                 functions: [],
                 compositeTypes: [],
                 views: [],
+                domains: [],
             });
 
             generateTypes();
@@ -1625,6 +2029,7 @@ describe("Integration: Generator", () => {
                 functions: [],
                 compositeTypes: [],
                 views: [],
+                domains: [],
             });
 
             generateTypes();
@@ -1659,6 +2064,7 @@ describe("Integration: Generator", () => {
                 functions: [],
                 compositeTypes: [],
                 views: [],
+                domains: [],
             });
 
             generateTypes();
@@ -1702,6 +2108,7 @@ describe("Integration: Generator", () => {
                 functions: [],
                 compositeTypes: [],
                 views: [],
+                domains: [],
             });
 
             generateTypes();
@@ -1740,6 +2147,7 @@ describe("Integration: Generator", () => {
                 functions: [],
                 compositeTypes: [],
                 views: [],
+                domains: [],
             });
 
             generateTypes();
@@ -1777,6 +2185,7 @@ describe("Integration: Generator", () => {
                 functions,
                 compositeTypes: [],
                 views: [],
+                domains: [],
             });
 
             generateTypes();
@@ -1850,6 +2259,7 @@ describe("Integration: Generator", () => {
                 functions: [],
                 compositeTypes: [],
                 views: [],
+                domains: [],
             });
 
             generateTypes();
@@ -1877,6 +2287,7 @@ describe("Integration: Generator", () => {
                 functions: [],
                 compositeTypes: [],
                 views: [],
+                domains: [],
             });
 
             generateTypes();
@@ -1949,6 +2360,7 @@ describe("Integration: Generator", () => {
                 functions: [],
                 compositeTypes: [],
                 views: [],
+                domains: [],
             });
         });
 
@@ -0,0 +1,177 @@
+/**
+ * Tests for Mermaid and DBML diagram generation
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+    generateDbmlDiagram,
+    generateMermaidDiagram,
+} from "../../src/generators/diagram.js";
+import type {
+    RelationshipDefinition,
+    SchemaModel,
+} from "../../src/types/index.js";
+import { column, table } from "../helpers/schema-model.js";
+
+function foreignKey(
+    columns: string[],
+    referencedRelation: string,
+    isOneToOne: boolean = false
+): RelationshipDefinition {
+    return {
+        foreignKeyName: `${columns.join("_")}_fkey`,
+        columns,
+        isOneToOne,
+        referencedRelation,
+        referencedColumns: ["id"],
+    };
+}
+
+const model: SchemaModel = {
+    tables: [
+        table(
+            "users",
+            [
+                column("id", "uuid", {
+                    isPrimaryKey: true,
+                    defaultValue: "gen_random_uuid()",
+                }),
+                column("email", "varchar(255)", {
+                    isUnique: true,
+                    comment: "Login email",
+                }),
+                column("role", "user_role", {
+                    defaultValue: "'member'::user_role",
+                }),
+                column("manager_id", "uuid", { nullable: true }),
+            ],
+            {
+                comment: "App users",
+                relationships: [foreignKey(["manager_id"], "users")],
+            }
+        ),
+        table(
+            "profiles",
+            [
+                column("id", "uuid", { isPrimaryKey: true }),
+                column("nickname", "text", { nullable: true }),
+            ],
+            { relationships: [foreignKey(["id"], "users", true)] }
+        ),
+        table(
+            "posts",
+            [
+                column("id", "bigint", { isPrimaryKey: true }),
+                column("author_id", "uuid"),
+                column("tags", "text", { isArray: true }),
+                column("published_at", "timestamp with time zone", {
+                    nullable: true,
+                }),
+            ],
+            { relationships: [foreignKey(["author_id"], "users")] }
+        ),
+        table(
+            "sessions",
+            [
+                column("id", "uuid", { isPrimaryKey: true }),
+                column("user_id", "uuid"),
+            ],
+            {
+                schema: "auth",
+                relationships: [foreignKey(["user_id"], "public.users")],
+            }
+        ),
+    ],
+    enums: [
+        { schema: "public", name: "user_role", values: ["admin", "member"] },
+    ],
+    functions: [],
+    compositeTypes: [],
+    views: [],
+    domains: [],
+};
+
+describe("generateMermaidDiagram", () => {
+    it("should draw entities with their keys and comments", () => {
+        const result = generateMermaidDiagram(model);
+
+        expect(result).toContain("```mermaid\nerDiagram\n");
+        expect(result).toContain(`  users {
+    uuid id PK
+    varchar email UK "Login email"
+    user_role role
+    uuid manager_id FK
+  }`);
+        expect(result).toContain(`  posts {
+    bigint id PK
+    uuid author_id FK
+    text[] tags
+    timestamp_with_time_zone published_at
+  }`);
+        expect(result).toContain('  "auth.sessions" {');
+    });
+
+    it("should use the cardinality of each foreign key", () => {
+        const result = generateMermaidDiagram(model);
+
+        expect(result).toContain('  users |o..o{ users : "manager_id"');
+        expect(result).toContain('  users ||--o| profiles : "id"');
+        expect(result).toContain('  users ||..o{ posts : "author_id"');
+        expect(result).toContain('  users ||..o{ "auth.sessions" : "user_id"');
+    });
+
+    it("should only draw the selected schema or tables", () => {
+        const publicOnly = generateMermaidDiagram(model, { schema: "public" });
+        expect(publicOnly).not.toContain("auth.sessions");
+
+        const subset = generateMermaidDiagram(model, {
+            tables: ["posts", "auth.sessions"],
+        });
+        expect(subset).toContain("  posts {");
+        expect(subset).toContain('  "auth.sessions" {');
+        expect(subset).not.toContain("  users {");
+        expect(subset).not.toContain("author_id FK");
+        expect(subset).not.toContain(" : ");
+    });
+});
+
+describe("generateDbmlDiagram", () => {
+    it("should describe tables, enums and settings", () => {
+        const result = generateDbmlDiagram(model);
+
+        expect(result).toContain(`Enum user_role {
+  admin
+  member
+}`);
+        expect(result).toContain(`Table users [note: 'App users'] {
+  id uuid [pk, default: \`gen_random_uuid()\`]
+  email varchar(255) [not null, unique, note: 'Login email']
+  role user_role [not null, default: 'member']
+  manager_id uuid
+}`);
+        expect(result).toContain('  tags "text[]" [not null]');
+        expect(result).toContain('  published_at "timestamp with time zone"');
+        expect(result).toContain("Table auth.sessions {");
+    });
+
+    it("should write references with their cardinality", () => {
+        const result = generateDbmlDiagram(model);
+
+        expect(result).toContain(
+            "Ref manager_id_fkey: users.manager_id > users.id\nRef id_fkey: profiles.id - users.id\n"
+        );
+        expect(result).toContain(
+            "Ref user_id_fkey: auth.sessions.user_id > users.id"
+        );
+    });
+
+    it("should leave out enums and references of filtered tables", () => {
+        const result = generateDbmlDiagram(model, {
+            tables: ["posts", "profiles"],
+        });
+
+        expect(result).not.toContain("Enum");
+        expect(result).not.toContain("Ref");
+        expect(result).toContain("Table posts {");
+    });
+});
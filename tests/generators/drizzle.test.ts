@@ -0,0 +1,375 @@
+/**
+ * Tests for Drizzle schema generation
+ */
+
+import { describe, it, expect } from "vitest";
+import { generateDrizzleSchema } from "../../src/generators/drizzle.js";
+import type { Int8Type } from "../../src/types/index.js";
+import { column, table, model } from "../helpers/schema-model.js";
+
+describe("generateDrizzleSchema", () => {
+    it("should declare tables with keys, constraints and defaults", () => {
+        const result = generateDrizzleSchema(
+            model({
+                tables: [
+                    table(
+                        "users",
+                        [
+                            column("id", "uuid", {
+                                isPrimaryKey: true,
+                                defaultValue: "gen_random_uuid()",
+                            }),
+                            column("email", "varchar(255)", {
+                                isUnique: true,
+                                comment: "Login email",
+                            }),
+                            column("score", "integer", {
+                                nullable: true,
+                                defaultValue: "0",
+                            }),
+                            column("tags", "text", {
+                                nullable: true,
+                                isArray: true,
+                            }),
+                            column("created_at", "timestamptz", {
+                                defaultValue: "now()",
+                            }),
+                            column("expires_at", "timestamp", {
+                                nullable: true,
+                                defaultValue: "now() + interval '1 day'",
+                            }),
+                            column("constraint", "text"),
+                        ],
+                        { comment: "App users" }
+                    ),
+                ],
+            }),
+            "camelCase"
+        );
+
+        expect(result).toContain(`/**
+ * App users
+ */
+export const users = pgTable("users", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  /** Login email */
+  email: varchar("email", { length: 255 }).notNull().unique(),
+  score: integer("score").default(0),
+  tags: text("tags").array(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").default(sql\`now() + interval '1 day'\`),
+});`);
+        expect(result).toContain('import { sql } from "drizzle-orm";');
+        expect(result).toContain(`import {
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+  varchar,
+} from "drizzle-orm/pg-core";`);
+        expect(result).not.toContain("constraint");
+    });
+
+    it("should declare identity and generated columns", () => {
+        const result = generateDrizzleSchema(
+            model({
+                tables: [
+                    table("orders", [
+                        column("id", "integer", {
+                            isPrimaryKey: true,
+                            identity: "always",
+                        }),
+                        column("seq", "integer", {
+                            identity: "by_default",
+                        }),
+                        column("total", "numeric", {
+                            nullable: true,
+                            generationExpression: "price * quantity",
+                        }),
+                    ]),
+                ],
+            }),
+            "preserve"
+        );
+
+        expect(result).toContain(
+            'id: integer("id").primaryKey().generatedAlwaysAsIdentity(),'
+        );
+        expect(result).toContain(
+            'seq: integer("seq").notNull().generatedByDefaultAsIdentity(),'
+        );
+        expect(result).toContain(
+            'total: numeric("total").generatedAlwaysAs(sql`price * quantity`),'
+        );
+        expect(result).toContain('import { sql } from "drizzle-orm";');
+    });
+
+    it("should declare enums and use them for columns", () => {
+        const result = generateDrizzleSchema(
+            model({
+                tables: [
+                    table("users", [
+                        column("role", "user_role", {
+                            defaultValue: "'member'::user_role",
+                        }),
+                    ]),
+                ],
+                enums: [
+                    {
+                        schema: "public",
+                        name: "user_role",
+                        values: ["admin", "member"],
+                    },
+                ],
+            }),
+            "preserve"
+        );
+
+        expect(result).toContain(
+            'export const userRole = pgEnum("user_role", ["admin", "member"]);'
+        );
+        expect(result).toContain(
+            'role: userRole("role").notNull().default("member"),'
+        );
+    });
+
+    it("should add references from relationships", () => {
+        const result = generateDrizzleSchema(
+            model({
+                tables: [
+                    table("orgs", [
+                        column("id", "uuid", { isPrimaryKey: true }),
+                        column("region", "text"),
+                    ]),
+                    table(
+                        "users",
+                        [
+                            column("id", "bigint", { isPrimaryKey: true }),
+                            column("org_id", "uuid", { nullable: true }),
+                            column("org_region", "text", { nullable: true }),
+                            column("manager_id", "bigint", { nullable: true }),
+                            column("account_id", "uuid", { nullable: true }),
+                        ],
+                        {
+                            relationships: [
+                                {
+                                    foreignKeyName: "users_org_id_fkey",
+                                    columns: ["org_id"],
+                                    isOneToOne: false,
+                                    referencedRelation: "orgs",
+                                    referencedColumns: ["id"],
+                                    onDelete: "cascade",
+                                },
+                                {
+                                    foreignKeyName: "users_manager_id_fkey",
+                                    columns: ["manager_id"],
+                                    isOneToOne: false,
+                                    referencedRelation: "users",
+                                    referencedColumns: ["id"],
+                                },
+                                {
+                                    foreignKeyName: "users_org_fkey",
+                                    columns: ["org_id", "org_region"],
+                                    isOneToOne: false,
+                                    referencedRelation: "public.orgs",
+                                    referencedColumns: ["id", "region"],
+                                    onDelete: "set null",
+                                    onUpdate: "cascade",
+                                },
+                                {
+                                    foreignKeyName: "users_account_id_fkey",
+                                    columns: ["account_id"],
+                                    isOneToOne: false,
+                                    referencedRelation: "auth.users",
+                                    referencedColumns: ["id"],
+                                },
+                            ],
+                        }
+                    ),
+                ],
+            }),
+            "preserve"
+        );
+
+        expect(result).toContain(
+            'org_id: uuid("org_id").references(() => orgs.id, { onDelete: "cascade" }),'
+        );
+        expect(result).toContain(
+            'manager_id: bigint("manager_id", { mode: "string" }).references((): AnyPgColumn => users.id),'
+        );
+        expect(result).toContain('account_id: uuid("account_id"),');
+        expect(result).toContain(`  (table) => [
+    foreignKey({
+      name: "users_org_fkey",
+      columns: [table.org_id, table.org_region],
+      foreignColumns: [orgs.id, orgs.region],
+    }).onDelete("set null").onUpdate("cascade"),
+  ]
+);`);
+        expect(result).toContain("  type AnyPgColumn,");
+    });
+
+    it("should pick the bigint mode from the int8 type", () => {
+        const users = model({
+            tables: [
+                table("events", [
+                    column("id", "bigserial"),
+                    column("total", "int8"),
+                ]),
+            ],
+        });
+        const columns = (int8Type: Int8Type) =>
+            generateDrizzleSchema(users, "preserve", int8Type)
+                .split("\n")
+                .filter((line) => line.includes("mode:"));
+
+        expect(columns("string")).toEqual([
+            '  id: bigserial("id", { mode: "bigint" }).notNull(),',
+            '  total: bigint("total", { mode: "string" }).notNull(),',
+        ]);
+        expect(columns("number")).toEqual([
+            '  id: bigserial("id", { mode: "number" }).notNull(),',
+            '  total: bigint("total", { mode: "number" }).notNull(),',
+        ]);
+        expect(columns("bigint")).toEqual([
+            '  id: bigserial("id", { mode: "bigint" }).notNull(),',
+            '  total: bigint("total", { mode: "bigint" }).notNull(),',
+        ]);
+    });
+
+    it("should declare indexes with their method and WHERE clause", () => {
+        const result = generateDrizzleSchema(
+            model({
+                tables: [
+                    table(
+                        "posts",
+                        [
+                            column("title", "text"),
+                            column("published_at", "timestamptz"),
+                        ],
+                        {
+                            indexes: [
+                                {
+                                    name: "posts_title_idx",
+                                    tableName: "posts",
+                                    columns: ["title"],
+                                    isUnique: false,
+                                    method: "GIN",
+                                    whereClause: "published_at IS NOT NULL",
+                                },
+                                {
+                                    name: "posts_title_lower_key",
+                                    tableName: "posts",
+                                    columns: ["lower(title)"],
+                                    isUnique: true,
+                                },
+                                {
+                                    name: "posts_published_idx",
+                                    tableName: "posts",
+                                    columns: ["published_at DESC"],
+                                    isUnique: false,
+                                },
+                            ],
+                        }
+                    ),
+                ],
+            }),
+            "preserve"
+        );
+
+        expect(result).toContain(
+            'index("posts_title_idx").using("gin", table.title).where(sql`published_at IS NOT NULL`),'
+        );
+        expect(result).toContain(
+            'uniqueIndex("posts_title_lower_key").on(sql`lower(title)`),'
+        );
+        expect(result).toContain(
+            'index("posts_published_idx").on(table.published_at.desc()),'
+        );
+    });
+
+    it("should use pgSchema outside public and views with .existing()", () => {
+        const result = generateDrizzleSchema(
+            model({
+                tables: [
+                    table(
+                        "sessions",
+                        [column("id", "bigserial", { nullable: true })],
+                        {
+                            schema: "auth",
+                        }
+                    ),
+                ],
+                enums: [{ schema: "auth", name: "aal", values: ["aal1"] }],
+                views: [
+                    {
+                        schema: "public",
+                        name: "recent_sessions",
+                        columns: [column("id", "bigserial")],
+                        isMaterialized: true,
+                    },
+                ],
+            }),
+            "preserve",
+            "bigint"
+        );
+
+        expect(result).toContain('export const authSchema = pgSchema("auth");');
+        expect(result).toContain(
+            'export const authAal = authSchema.enum("aal", ["aal1"]);'
+        );
+        expect(result).toContain(
+            'export const authSessions = authSchema.table("sessions", {\n  id: bigserial("id", { mode: "bigint" }),'
+        );
+        expect(result).toContain(
+            'export const recentSessions = pgMaterializedView("recent_sessions", {\n  id: bigint("id", { mode: "bigint" }).notNull(),\n}).existing();'
+        );
+    });
+
+    it("should fall back to custom types for unsupported column types", () => {
+        const result = generateDrizzleSchema(
+            model({
+                tables: [
+                    table("users", [
+                        column("handle", "citext", { nullable: true }),
+                    ]),
+                ],
+            }),
+            "preserve"
+        );
+
+        expect(result)
+            .toContain(`export const citextType = customType<{ data: string }>({
+  dataType: () => "citext",
+});`);
+        expect(result).toContain('handle: citextType("handle"),');
+    });
+
+    it("should apply the NOT NULL and DEFAULT of a domain to its columns", () => {
+        const result = generateDrizzleSchema(
+            model({
+                tables: [
+                    table("users", [
+                        column("contact", "email", { nullable: true }),
+                    ]),
+                ],
+                domains: [
+                    {
+                        schema: "public",
+                        name: "email",
+                        baseType: "text",
+                        isArray: false,
+                        nullable: false,
+                        defaultValue: "'unknown@example.com'",
+                    },
+                ],
+            }),
+            "preserve"
+        );
+
+        expect(result).toContain(
+            "contact: emailType(\"contact\").notNull().default(sql`'unknown@example.com'`),"
+        );
+    });
+});
@@ -117,8 +117,37 @@ describe("generateFunctionTypes", () => {
 
         const result = generateFunctionTypes(functions, "preserve", 2);
 
-        // The generator maps text[] to unknown[] in returns
-        expect(result).toContain("Returns: unknown[]");
+        expect(result).toContain("Returns: string[]");
+    });
+
+    it("should map array returns of enums and sets of arrays", () => {
+        const functions: FunctionDefinition[] = [
+            {
+                schema: "public",
+                name: "order_statuses",
+                args: [],
+                returns: "public.order_status[]",
+            },
+            {
+                schema: "public",
+                name: "tag_sets",
+                args: [],
+                returns: "text[]",
+                returnsSet: true,
+            },
+        ];
+
+        const result = generateFunctionTypes(
+            functions,
+            "preserve",
+            2,
+            new Set(["order_status"])
+        );
+
+        expect(result).toContain(
+            'Returns: Database["public"]["Enums"]["order_status"][]'
+        );
+        expect(result).toContain("Returns: string[][]");
     });
 
     it("should handle enum args", () => {
@@ -244,4 +273,212 @@ describe("generateFunctionTypes", () => {
         expect(result).toContain("name?: string");
         expect(result).toContain("age?: number");
     });
+
+    it("should return RETURNS TABLE columns and OUT parameters as objects", () => {
+        const functions: FunctionDefinition[] = [
+            {
+                schema: "public",
+                name: "get_user_posts",
+                args: [{ name: "user_id", type: "uuid" }],
+                returns: "record",
+                returnsSet: true,
+                returnColumns: [
+                    { name: "id", type: "uuid" },
+                    { name: "title", type: "text" },
+                ],
+            },
+            {
+                schema: "public",
+                name: "split_name",
+                args: [{ name: "full_name", type: "text" }],
+                returns: "record",
+                returnColumns: [
+                    { name: "first", type: "text" },
+                    { name: "last", type: "text" },
+                ],
+            },
+            {
+                schema: "public",
+                name: "anything",
+                args: [],
+                returns: "record",
+                returnsSet: true,
+            },
+        ];
+
+        const result = generateFunctionTypes(functions, "preserve", 2);
+
+        expect(result).toContain(`      get_user_posts: {
+        Args: {
+          user_id: string
+        }
+        Returns: {
+          id: string
+          title: string
+        }[]
+      }`);
+        expect(result).toContain(`        Returns: {
+          first: string
+          last: string
+        }
+      }`);
+        expect(result).toContain(
+            "anything: { Args: never; Returns: Record<string, unknown>[] }"
+        );
+    });
+
+    it("should return rows of tables with SetofOptions", () => {
+        const column = {
+            name: "id",
+            type: "uuid",
+            nullable: false,
+            defaultValue: null,
+            isArray: false,
+            isPrimaryKey: true,
+            isUnique: false,
+        };
+        const rowTypes = {
+            tables: ["users", "posts"].map((name) => ({
+                schema: "public",
+                name,
+                columns: [column],
+                relationships: [],
+                indexes: [],
+            })),
+            views: [],
+            compositeTypes: [
+                {
+                    schema: "public",
+                    name: "pair",
+                    attributes: [{ name: "a", type: "text" }],
+                },
+            ],
+        };
+        const functions: FunctionDefinition[] = [
+            {
+                schema: "public",
+                name: "user_posts",
+                args: [{ name: "u", type: "users" }],
+                returns: "posts",
+                returnsSet: true,
+            },
+            {
+                schema: "public",
+                name: "first_user",
+                args: [],
+                returns: "public.users",
+            },
+            {
+                schema: "public",
+                name: "pairs",
+                args: [],
+                returns: "pair",
+                returnsSet: true,
+            },
+        ];
+
+        const result = generateFunctionTypes(
+            functions,
+            "preserve",
+            2,
+            new Set(),
+            "public",
+            false,
+            false,
+            [],
+            false,
+            rowTypes
+        );
+
+        expect(result).toContain(`      user_posts: {
+        Args: {
+          u: Database["public"]["Tables"]["users"]["Row"]
+        }
+        Returns: Database["public"]["Tables"]["posts"]["Row"][]
+        SetofOptions: {
+          from: "users"
+          to: "posts"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }`);
+        expect(result).toContain(`      first_user: {
+        Args: never
+        Returns: Database["public"]["Tables"]["users"]["Row"]
+        SetofOptions: {
+          from: "*"
+          to: "users"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }`);
+        expect(result).toContain(
+            'pairs: { Args: never; Returns: Database["public"]["CompositeTypes"]["pair"][] }'
+        );
+    });
+
+    it("should emit overloads as a union of signatures", () => {
+        const functions: FunctionDefinition[] = [
+            {
+                schema: "public",
+                name: "get_status",
+                args: [{ name: "name_param", type: "text" }],
+                returns: "text",
+            },
+            {
+                schema: "public",
+                name: "ping",
+                args: [],
+                returns: "text",
+            },
+            {
+                schema: "public",
+                name: "get_status",
+                args: [
+                    { name: "id_param", type: "bigint" },
+                    { name: "verbose", type: "boolean", hasDefault: true },
+                ],
+                returns: "text",
+            },
+        ];
+
+        const result = generateFunctionTypes(functions, "preserve", 2);
+
+        expect(result).toBe(`      get_status:
+        | { Args: { name_param: string }; Returns: string }
+        | {
+            Args: {
+              id_param: number
+              verbose?: boolean
+            }
+            Returns: string
+          }
+      ping: { Args: never; Returns: string }`);
+    });
+
+    it("should map array and schema-qualified enum arguments", () => {
+        const functions: FunctionDefinition[] = [
+            {
+                schema: "public",
+                name: "tag_orders",
+                args: [
+                    { name: "status", type: "public.order_status" },
+                    { name: "tags", type: "text[]", mode: "variadic" },
+                ],
+                returns: "void",
+            },
+        ];
+
+        const result = generateFunctionTypes(
+            functions,
+            "preserve",
+            2,
+            new Set(["order_status"])
+        );
+
+        expect(result).toContain(
+            'status: Database["public"]["Enums"]["order_status"]'
+        );
+        expect(result).toContain("tags: string[]");
+    });
 });
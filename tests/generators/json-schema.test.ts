@@ -0,0 +1,302 @@
+/**
+ * Tests for JSON Schema generation
+ */
+
+import { describe, it, expect } from "vitest";
+import { generateJsonSchemas } from "../../src/generators/json-schema.js";
+import type { TypeDefinition } from "../../src/types/index.js";
+import { column, table, model } from "../helpers/schema-model.js";
+
+const settings: TypeDefinition = {
+    table: "users",
+    column: "settings",
+    name: "users_settings",
+    typeDefinition: "{ theme: string }",
+    comment: "User preferences",
+    example: { theme: "dark", tags: ["a"] },
+};
+
+describe("generateJsonSchemas", () => {
+    it("should write one Draft 2020-12 document per table", () => {
+        const [file] = generateJsonSchemas(
+            model({
+                tables: [
+                    table("users", [column("id", "uuid")], {
+                        comment: "App users",
+                    }),
+                ],
+            }),
+            [],
+            "preserve"
+        );
+        const document = JSON.parse(file.content);
+
+        expect(file.path).toBe("users.schema.json");
+        expect(document).toMatchObject({
+            $schema: "https://json-schema.org/draft/2020-12/schema",
+            $id: "users.schema.json",
+            title: "users",
+            description: "App users",
+            $ref: "#/$defs/Row",
+        });
+        expect(Object.keys(document.$defs)).toEqual([
+            "Row",
+            "Insert",
+            "Update",
+        ]);
+    });
+
+    it("should derive required columns for Row, Insert and Update", () => {
+        const [file] = generateJsonSchemas(
+            model({
+                tables: [
+                    table("users", [
+                        column("id", "uuid", { defaultValue: "uuid()" }),
+                        column("email", "text"),
+                        column("bio", "text", { nullable: true }),
+                        column("constraint", "text"),
+                    ]),
+                ],
+            }),
+            [],
+            "camelCase"
+        );
+        const { $defs } = JSON.parse(file.content);
+
+        expect($defs.Row.required).toEqual(["id", "email", "bio"]);
+        expect($defs.Insert.required).toEqual(["email"]);
+        expect($defs.Update.required).toEqual([]);
+        expect($defs.Row.additionalProperties).toBe(false);
+    });
+
+    it("should leave GENERATED ALWAYS columns out of Insert and Update", () => {
+        const [file] = generateJsonSchemas(
+            model({
+                tables: [
+                    table("users", [
+                        column("id", "bigint", { identity: "always" }),
+                        column("seq", "bigint", { identity: "by_default" }),
+                        column("total", "numeric", {
+                            generationExpression: "price * quantity",
+                        }),
+                    ]),
+                ],
+            }),
+            [],
+            "preserve"
+        );
+        const { $defs } = JSON.parse(file.content);
+
+        expect(Object.keys($defs.Row.properties)).toEqual([
+            "id",
+            "seq",
+            "total",
+        ]);
+        expect(Object.keys($defs.Insert.properties)).toEqual(["seq"]);
+        expect($defs.Insert.required).toEqual([]);
+        expect(Object.keys($defs.Update.properties)).toEqual(["seq"]);
+    });
+
+    it("should map Postgres types to types, formats and lengths", () => {
+        const [file] = generateJsonSchemas(
+            model({
+                tables: [
+                    table("users", [
+                        column("id", "uuid"),
+                        column("created_at", "timestamp with time zone"),
+                        column("birthday", "date"),
+                        column("handle", "varchar(30)"),
+                        column("age", "integer"),
+                        column("score", "numeric(5,2)"),
+                        column("active", "boolean"),
+                        column("tags", "text", { isArray: true }),
+                        column("payload", "jsonb"),
+                        column("nickname", "text", { nullable: true }),
+                    ]),
+                ],
+            }),
+            [],
+            "preserve"
+        );
+        const { properties } = JSON.parse(file.content).$defs.Row;
+
+        expect(properties).toEqual({
+            id: { type: "string", format: "uuid" },
+            created_at: { type: "string", format: "date-time" },
+            birthday: { type: "string", format: "date" },
+            handle: { type: "string", maxLength: 30 },
+            age: { type: "integer" },
+            score: { type: "number" },
+            active: { type: "boolean" },
+            tags: { type: "array", items: { type: "string" } },
+            payload: {},
+            nickname: { type: ["string", "null"] },
+        });
+    });
+
+    it("should narrow columns to the values of IN (...) checks", () => {
+        const [file] = generateJsonSchemas(
+            model({
+                tables: [
+                    table(
+                        "posts",
+                        [
+                            column("status", "text", { nullable: true }),
+                            column("priority", "integer"),
+                        ],
+                        {
+                            checkConstraints: [
+                                {
+                                    name: "posts_status_check",
+                                    expression:
+                                        "status IN ('draft', 'published')",
+                                    column: "status",
+                                    allowedValues: ["draft", "published"],
+                                },
+                                {
+                                    name: "posts_priority_check",
+                                    expression: "priority IN (1, 2, 3)",
+                                    column: "priority",
+                                    allowedValues: [1, 2, 3],
+                                },
+                            ],
+                        }
+                    ),
+                ],
+            }),
+            [],
+            "preserve"
+        );
+        const { properties } = JSON.parse(file.content).$defs.Row;
+
+        expect(properties).toEqual({
+            status: {
+                type: ["string", "null"],
+                enum: ["draft", "published", null],
+            },
+            priority: { type: "integer", enum: [1, 2, 3] },
+        });
+    });
+
+    it("should narrow domain columns to the values of VALUE IN (...) checks", () => {
+        const [file] = generateJsonSchemas(
+            model({
+                tables: [table("shirts", [column("size", "size")])],
+                domains: [
+                    {
+                        schema: "public",
+                        name: "size",
+                        baseType: "text",
+                        isArray: false,
+                        nullable: true,
+                        defaultValue: null,
+                        checkConstraints: [
+                            {
+                                name: "size_check",
+                                expression: "VALUE IN ('s', 'm')",
+                                column: "VALUE",
+                                allowedValues: ["s", "m"],
+                            },
+                        ],
+                    },
+                ],
+            }),
+            [],
+            "preserve"
+        );
+        const { properties } = JSON.parse(file.content).$defs.Row;
+
+        expect(properties.size).toEqual({ type: "string", enum: ["s", "m"] });
+    });
+
+    it("should reference enum $defs built from the enum values", () => {
+        const [file] = generateJsonSchemas(
+            model({
+                tables: [
+                    table("users", [
+                        column("role", "user_role"),
+                        column("backup_role", "user_role", {
+                            nullable: true,
+                        }),
+                    ]),
+                ],
+                enums: [
+                    {
+                        schema: "public",
+                        name: "user_role",
+                        values: ["admin", "member"],
+                    },
+                ],
+            }),
+            [],
+            "PascalCase"
+        );
+        const { $defs } = JSON.parse(file.content);
+
+        expect($defs.UserRole).toEqual({
+            type: "string",
+            enum: ["admin", "member"],
+        });
+        expect($defs.Row.properties.Role).toEqual({
+            $ref: "#/$defs/UserRole",
+        });
+        expect($defs.Row.properties.BackupRole).toEqual({
+            anyOf: [{ $ref: "#/$defs/UserRole" }, { type: "null" }],
+        });
+    });
+
+    it("should describe inferred JSONB types in the table and on their own", () => {
+        const files = generateJsonSchemas(
+            model({
+                tables: [
+                    table("users", [
+                        column("settings", "jsonb", { nullable: true }),
+                    ]),
+                ],
+            }),
+            [settings],
+            "preserve"
+        );
+
+        expect(files.map((file) => file.path)).toEqual([
+            "users.schema.json",
+            "jsonb/users_settings.schema.json",
+        ]);
+
+        const expected = {
+            type: "object",
+            properties: {
+                theme: { type: "string" },
+                tags: { type: "array", items: { type: "string" } },
+            },
+            required: ["theme", "tags"],
+            description: "User preferences",
+        };
+        const { $defs } = JSON.parse(files[0].content);
+        expect($defs.users_settings).toEqual(expected);
+        expect($defs.Row.properties.settings).toEqual({
+            anyOf: [{ $ref: "#/$defs/users_settings" }, { type: "null" }],
+        });
+        expect(JSON.parse(files[1].content)).toMatchObject({
+            $id: "jsonb/users_settings.schema.json",
+            title: "users_settings",
+            ...expected,
+        });
+    });
+
+    it("should prefix documents of tables outside the main schema", () => {
+        const [file] = generateJsonSchemas(
+            model({
+                tables: [
+                    table("users", [column("id", "uuid")], { schema: "auth" }),
+                ],
+            }),
+            [],
+            "preserve",
+            4
+        );
+
+        expect(file.path).toBe("auth.users.schema.json");
+        expect(file.content).toContain('\n    "$id": "auth.users.schema.json"');
+    });
+});
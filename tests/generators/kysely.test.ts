@@ -0,0 +1,306 @@
+/**
+ * Tests for Kysely type generation
+ */
+
+import { describe, it, expect } from "vitest";
+import { generateKyselyTypes } from "../../src/generators/kysely.js";
+import { column, table, model } from "../helpers/schema-model.js";
+
+describe("generateKyselyTypes", () => {
+    it("should wrap columns with defaults in Generated", () => {
+        const result = generateKyselyTypes(
+            model({
+                tables: [
+                    table("users", [
+                        column("id", "serial", { isPrimaryKey: true }),
+                        column("email", "text", { comment: "Login email" }),
+                        column("nickname", "text", {
+                            nullable: true,
+                            defaultValue: "'anon'",
+                        }),
+                        column("tags", "text", { isArray: true }),
+                        column("constraint", "text"),
+                    ]),
+                ],
+            }),
+            "preserve"
+        );
+
+        expect(result).toContain('import type { ColumnType } from "kysely";');
+        expect(result).toContain("export type Generated<T> =");
+        expect(result).toContain(`export interface Users {
+  id: Generated<number>;
+  /** Login email */
+  email: string;
+  nickname: Generated<string | null>;
+  tags: string[];
+}`);
+        expect(result).not.toContain("constraint");
+    });
+
+    it("should wrap identity and generated columns", () => {
+        const result = generateKyselyTypes(
+            model({
+                tables: [
+                    table("users", [
+                        column("id", "integer", { identity: "always" }),
+                        column("seq", "integer", { identity: "by_default" }),
+                        column("total", "numeric", {
+                            generationExpression: "price * quantity",
+                        }),
+                    ]),
+                ],
+            }),
+            "preserve"
+        );
+
+        expect(result).toContain("export type GeneratedAlways<T> =");
+        expect(result).toContain(`export interface Users {
+  id: GeneratedAlways<number>;
+  seq: Generated<number>;
+  total: GeneratedAlways<number>;
+}`);
+    });
+
+    it("should use ColumnType for timestamps and int8", () => {
+        const result = generateKyselyTypes(
+            model({
+                tables: [
+                    table("users", [
+                        column("id", "bigint"),
+                        column("created_at", "timestamp with time zone", {
+                            defaultValue: "now()",
+                        }),
+                        column("seen_at", "timestamptz", {
+                            isArray: true,
+                            nullable: true,
+                        }),
+                    ]),
+                ],
+            }),
+            "preserve"
+        );
+
+        expect(result).toContain(
+            "export type Timestamp = ColumnType<Date, Date | string, Date | string>;"
+        );
+        expect(result).toContain(
+            "export type Int8 = ColumnType<string, string | number | bigint, string | number | bigint>;"
+        );
+        expect(result).toContain("export type ArrayType<T> =");
+        expect(result).toContain("  id: Int8;");
+        expect(result).toContain("  created_at: Generated<Timestamp>;");
+        expect(result).toContain("  seen_at: ArrayType<Timestamp> | null;");
+    });
+
+    it("should follow the configured int8 mapping", () => {
+        const users = model({
+            tables: [table("users", [column("id", "int8")])],
+        });
+
+        const asBigint = generateKyselyTypes(users, "preserve", "bigint");
+        expect(asBigint).toContain("  id: bigint;");
+        expect(asBigint).not.toContain("export type Int8");
+        expect(asBigint).not.toContain('from "kysely"');
+
+        expect(generateKyselyTypes(users, "preserve", "number")).toContain(
+            "  id: number;"
+        );
+    });
+
+    it("should generate enums as string literal unions", () => {
+        const result = generateKyselyTypes(
+            model({
+                tables: [table("users", [column("role", "user_role")])],
+                enums: [
+                    {
+                        schema: "public",
+                        name: "user_role",
+                        values: ["admin", "member"],
+                    },
+                ],
+            }),
+            "camelCase"
+        );
+
+        expect(result).toContain('export type UserRole = "admin" | "member";');
+        expect(result).toContain("  role: UserRole;");
+    });
+
+    it("should narrow columns to the values of IN (...) checks", () => {
+        const result = generateKyselyTypes(
+            model({
+                tables: [
+                    table(
+                        "posts",
+                        [
+                            column("status", "text", { nullable: true }),
+                            column("priority", "integer"),
+                        ],
+                        {
+                            checkConstraints: [
+                                {
+                                    name: "posts_status_check",
+                                    expression:
+                                        "status IN ('draft', 'published')",
+                                    column: "status",
+                                    allowedValues: ["draft", "published"],
+                                },
+                                {
+                                    name: "posts_priority_check",
+                                    expression: "priority IN (1, 2, 3)",
+                                    column: "priority",
+                                    allowedValues: [1, 2, 3],
+                                },
+                            ],
+                        }
+                    ),
+                ],
+            }),
+            "preserve"
+        );
+
+        expect(result).toContain(`export interface Posts {
+  status: "draft" | "published" | null;
+  priority: 1 | 2 | 3;
+}`);
+    });
+
+    it("should key the DB interface by schema.table outside public", () => {
+        const result = generateKyselyTypes(
+            model({
+                tables: [
+                    table("users", [column("id", "uuid")]),
+                    table("users", [column("id", "uuid")], { schema: "auth" }),
+                ],
+                views: [
+                    {
+                        schema: "public",
+                        name: "active_users",
+                        columns: [column("id", "uuid", { defaultValue: "x" })],
+                        isMaterialized: false,
+                    },
+                ],
+            }),
+            "preserve"
+        );
+
+        expect(result).toContain("export interface AuthUsers {");
+        expect(result).toContain(`export interface ActiveUsers {
+  id: string;
+}`);
+        expect(result).toContain(`export interface DB {
+  users: Users;
+  "auth.users": AuthUsers;
+  active_users: ActiveUsers;
+}`);
+    });
+
+    it("should apply the NOT NULL and DEFAULT of a domain to its columns", () => {
+        const result = generateKyselyTypes(
+            model({
+                tables: [
+                    table("users", [
+                        column("contact", "email", { nullable: true }),
+                    ]),
+                ],
+                domains: [
+                    {
+                        schema: "public",
+                        name: "email",
+                        baseType: "text",
+                        isArray: false,
+                        nullable: false,
+                        defaultValue: "'unknown@example.com'",
+                    },
+                ],
+            }),
+            "preserve"
+        );
+
+        expect(result).toContain("  contact: Generated<string>;");
+    });
+
+    it("should type domain columns as their base type", () => {
+        const result = generateKyselyTypes(
+            model({
+                tables: [
+                    table("events", [
+                        column("role", "role_domain"),
+                        column("roles", "role_list"),
+                        column("happened_at", "moment"),
+                        column("total", "counter"),
+                        column("size", "size"),
+                    ]),
+                ],
+                enums: [
+                    {
+                        schema: "public",
+                        name: "user_role",
+                        values: ["admin", "member"],
+                    },
+                ],
+                domains: [
+                    {
+                        schema: "public",
+                        name: "role_domain",
+                        baseType: "user_role",
+                        isArray: false,
+                        nullable: true,
+                        defaultValue: null,
+                    },
+                    {
+                        schema: "public",
+                        name: "role_list",
+                        baseType: "user_role",
+                        isArray: true,
+                        nullable: true,
+                        defaultValue: null,
+                    },
+                    {
+                        schema: "public",
+                        name: "moment",
+                        baseType: "timestamptz",
+                        isArray: false,
+                        nullable: true,
+                        defaultValue: null,
+                    },
+                    {
+                        schema: "public",
+                        name: "counter",
+                        baseType: "int8",
+                        isArray: false,
+                        nullable: true,
+                        defaultValue: null,
+                    },
+                    {
+                        schema: "public",
+                        name: "size",
+                        baseType: "text",
+                        isArray: false,
+                        nullable: true,
+                        defaultValue: null,
+                        checkConstraints: [
+                            {
+                                name: "size_check",
+                                expression: "VALUE IN ('s', 'm')",
+                                column: "VALUE",
+                                allowedValues: ["s", "m"],
+                            },
+                        ],
+                    },
+                ],
+            }),
+            "preserve",
+            "bigint"
+        );
+
+        expect(result).toContain(`export interface Events {
+  role: UserRole;
+  roles: UserRole[];
+  happened_at: Timestamp;
+  total: bigint;
+  size: "s" | "m";
+}`);
+    });
+});
@@ -0,0 +1,219 @@
+/**
+ * Tests for Markdown data dictionary generation
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+    generateMarkdownDocs,
+    generateMarkdownDocsPerSchema,
+} from "../../src/generators/markdown.js";
+import type { SchemaModel } from "../../src/types/index.js";
+import { column, table } from "../helpers/schema-model.js";
+
+const model: SchemaModel = {
+    tables: [
+        table(
+            "users",
+            [
+                column("id", "uuid", {
+                    isPrimaryKey: true,
+                    defaultValue: "gen_random_uuid()",
+                }),
+                column("email", "varchar(255)", {
+                    isUnique: true,
+                    comment: "Login | email",
+                }),
+                column("role", "user_role", { nullable: true }),
+            ],
+            { comment: "App users" }
+        ),
+        table(
+            "posts",
+            [
+                column("id", "bigint", { isPrimaryKey: true }),
+                column("author_id", "uuid"),
+                column("title", "text", { nullable: true }),
+            ],
+            {
+                relationships: [
+                    {
+                        foreignKeyName: "posts_author_id_fkey",
+                        columns: ["author_id"],
+                        isOneToOne: false,
+                        referencedRelation: "users",
+                        referencedColumns: ["id"],
+                    },
+                ],
+                checkConstraints: [
+                    {
+                        name: "posts_title_check",
+                        expression: "char_length(title) > 3",
+                        column: "title",
+                    },
+                ],
+                indexes: [
+                    {
+                        name: "posts_title_idx",
+                        tableName: "posts",
+                        columns: ["title"],
+                        isUnique: false,
+                        method: "GIN",
+                        whereClause: "title IS NOT NULL",
+                    },
+                ],
+            }
+        ),
+        table("sessions", [column("id", "uuid"), column("user_id", "uuid")], {
+            schema: "auth",
+            relationships: [
+                {
+                    foreignKeyName: "sessions_user_id_fkey",
+                    columns: ["user_id"],
+                    isOneToOne: false,
+                    referencedRelation: "public.users",
+                    referencedColumns: ["id"],
+                },
+            ],
+        }),
+    ],
+    enums: [
+        { schema: "public", name: "user_role", values: ["admin", "member"] },
+    ],
+    functions: [],
+    compositeTypes: [],
+    views: [
+        {
+            schema: "public",
+            name: "recent_posts",
+            columns: [column("title", "text", { nullable: true })],
+            isMaterialized: true,
+            definition:
+                'SELECT p.title FROM public.posts p JOIN "users" u ON u.id = p.author_id',
+            comment: "Posts of the last week",
+        },
+    ],
+    domains: [
+        {
+            schema: "public",
+            name: "slug",
+            baseType: "text",
+            isArray: false,
+            nullable: false,
+            defaultValue: null,
+            checkConstraints: [
+                { name: "slug_check", expression: "VALUE ~ '^[a-z-]+$'" },
+            ],
+        },
+    ],
+};
+
+describe("generateMarkdownDocs", () => {
+    it("should list the columns of every table", () => {
+        const result = generateMarkdownDocs(model);
+
+        expect(result).toContain(`<a id="public.users"></a>
+
+### \`users\`
+
+App users
+
+| Column | Type | Nullable | Default | Key | Description |
+| --- | --- | --- | --- | --- | --- |
+| \`id\` | \`uuid\` | no | \`gen_random_uuid()\` | PK |  |
+| \`email\` | \`varchar(255)\` | no |  | unique | Login \\| email |
+| \`role\` | [\`user_role\`](#public.user_role) | yes |  |  |  |`);
+        expect(result).toContain("| `author_id` | `uuid` | no |  | FK |  |");
+        expect(result.indexOf("## Schema `public`")).toBeLessThan(
+            result.indexOf("## Schema `auth`")
+        );
+    });
+
+    it("should list foreign keys in both directions", () => {
+        const result = generateMarkdownDocs(model);
+
+        expect(result).toContain(
+            "**References**\n\n- `author_id` → [`users`](#public.users) (`id`)"
+        );
+        expect(result).toContain(
+            "- `user_id` → [`public.users`](#public.users) (`id`)"
+        );
+        expect(result).toContain(`**Referenced by**
+
+- [\`posts\`](#public.posts) (\`author_id\`) → \`id\`
+- [\`auth.sessions\`](#auth.sessions) (\`user_id\`) → \`id\``);
+    });
+
+    it("should list indexes and the views reading from a table", () => {
+        const result = generateMarkdownDocs(model);
+
+        expect(result).toContain(
+            "- `posts_title_idx` (gin) on `title` where `title IS NOT NULL`"
+        );
+        expect(result).toContain(
+            "**Check constraints**\n\n- `posts_title_check`: `char_length(title) > 3`"
+        );
+        expect(
+            result.match(
+                /\*\*Used by views\*\*\n\n- \[`recent_posts`\]\(#public\.recent_posts\)/g
+            )
+        ).toHaveLength(2);
+        expect(result).toContain(`### \`recent_posts\` (materialized)
+
+Posts of the last week
+
+| Column | Type | Nullable | Description |`);
+        expect(result).toContain(
+            "### `user_role` (enum)\n\n- `admin`\n- `member`"
+        );
+    });
+
+    it("should describe domains", () => {
+        const result = generateMarkdownDocs(model);
+
+        expect(result).toContain(`### \`slug\` (domain)
+
+- Type: \`text\`
+- Nullable: no
+- Check \`slug_check\`: \`VALUE ~ '^[a-z-]+$'\``);
+    });
+
+    it("should apply the NOT NULL and DEFAULT of a domain to its columns", () => {
+        const result = generateMarkdownDocs({
+            ...model,
+            tables: [
+                table("tags", [column("slug", "slug", { nullable: true })]),
+            ],
+            domains: [{ ...model.domains[0], defaultValue: "'draft'" }],
+        });
+
+        expect(result).toContain(
+            "| `slug` | [`slug`](#public.slug) | no | `'draft'` |  |  |"
+        );
+    });
+
+    it("should leave out comments when disabled", () => {
+        const result = generateMarkdownDocs(model, false);
+
+        expect(result).not.toContain("App users");
+        expect(result).not.toContain("Login");
+    });
+});
+
+describe("generateMarkdownDocsPerSchema", () => {
+    it("should write a document per schema linking across files", () => {
+        const documents = generateMarkdownDocsPerSchema(model);
+
+        expect(documents.map((document) => document.path)).toEqual([
+            "public.md",
+            "auth.md",
+        ]);
+        expect(documents[1].content).toContain("# Schema `auth`\n");
+        expect(documents[1].content).toContain(
+            "[`public.users`](public.md#public.users)"
+        );
+        expect(documents[0].content).toContain(
+            "[`auth.sessions`](auth.md#auth.sessions)"
+        );
+        expect(documents[0].content).not.toContain("## Schema");
+    });
+});
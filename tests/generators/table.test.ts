@@ -101,6 +101,60 @@ describe("generateTableType", () => {
         expect(result).toContain("created_at?: string | null");
     });
 
+    it("should forbid writing GENERATED ALWAYS columns in Insert and Update", () => {
+        const column = {
+            nullable: false,
+            defaultValue: null,
+            isArray: false,
+            isPrimaryKey: false,
+            isUnique: false,
+        };
+        const result = generateTableType(
+            {
+                ...basicTable,
+                columns: [
+                    {
+                        ...column,
+                        name: "id",
+                        type: "bigint",
+                        identity: "always",
+                    },
+                    {
+                        ...column,
+                        name: "legacy_id",
+                        type: "bigint",
+                        identity: "by_default",
+                    },
+                    {
+                        ...column,
+                        name: "total",
+                        type: "numeric",
+                        nullable: true,
+                        generationExpression: "price * quantity",
+                    },
+                ],
+            },
+            "preserve",
+            2,
+            false,
+            false
+        );
+        const section = (name: string) =>
+            result.slice(
+                result.indexOf(`${name}: {`),
+                result.indexOf("}", result.indexOf(`${name}: {`))
+            );
+
+        expect(section("Row")).toContain("id: number\n");
+        expect(section("Row")).toContain("total: number | null");
+        expect(section("Insert")).toContain("id?: never");
+        expect(section("Insert")).toContain("legacy_id?: number");
+        expect(section("Insert")).toContain("total?: never");
+        expect(section("Update")).toContain("id?: never");
+        expect(section("Update")).toContain("legacy_id?: number");
+        expect(section("Update")).toContain("total?: never");
+    });
+
     it("should apply naming convention", () => {
         const result = generateTableType(
             basicTable,
@@ -324,6 +378,108 @@ describe("generateTableType", () => {
         expect(result).toContain("tags: string[] | null");
     });
 
+    it("should narrow columns with IN / ANY CHECK constraints to literal unions", () => {
+        const result = generateTableType(
+            {
+                ...basicTable,
+                columns: [
+                    {
+                        name: "status",
+                        type: "text",
+                        nullable: false,
+                        defaultValue: "'draft'",
+                        isArray: false,
+                        isPrimaryKey: false,
+                        isUnique: false,
+                    },
+                    {
+                        name: "priority",
+                        type: "integer",
+                        nullable: true,
+                        defaultValue: null,
+                        isArray: false,
+                        isPrimaryKey: false,
+                        isUnique: false,
+                    },
+                ],
+                checkConstraints: [
+                    {
+                        name: "posts_status_check",
+                        expression: "status in ('draft', 'published', 'x')",
+                        column: "status",
+                        allowedValues: ["draft", "published", "x"],
+                    },
+                    {
+                        name: "posts_status_not_x",
+                        expression: "status in ('draft', 'published')",
+                        column: "status",
+                        allowedValues: ["draft", "published"],
+                    },
+                    {
+                        name: "posts_priority_check",
+                        expression: "priority in (1, 2)",
+                        column: "priority",
+                        allowedValues: [1, 2],
+                    },
+                    {
+                        name: "posts_priority_positive",
+                        expression: "priority > 0",
+                        column: "priority",
+                    },
+                ],
+            },
+            "preserve",
+            2,
+            false,
+            false
+        );
+
+        expect(result).toContain('status: "draft" | "published"\n');
+        expect(result).toContain('status?: "draft" | "published"\n');
+        expect(result).toContain("priority: 1 | 2 | null\n");
+        expect(result).toContain("priority?: 1 | 2 | null\n");
+    });
+
+    it("should resolve domain columns with the domain's NOT NULL and DEFAULT", () => {
+        const result = generateTableType(
+            {
+                ...basicTable,
+                columns: [
+                    {
+                        name: "email",
+                        type: "email",
+                        nullable: true,
+                        defaultValue: null,
+                        isArray: false,
+                        isPrimaryKey: false,
+                        isUnique: false,
+                    },
+                ],
+            },
+            "preserve",
+            2,
+            false,
+            false,
+            new Set(),
+            "public",
+            false,
+            [
+                {
+                    schema: "public",
+                    name: "email",
+                    baseType: "citext",
+                    isArray: false,
+                    nullable: false,
+                    defaultValue: "''",
+                },
+            ],
+            true
+        );
+
+        expect(result).toContain('email: string & { __domain: "email" }\n');
+        expect(result).toContain('email?: string & { __domain: "email" }\n');
+    });
+
     it("should handle enum columns", () => {
         const enums = new Set(["user_role"]);
         const tableWithEnum: TableDefinition = {
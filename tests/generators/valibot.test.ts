@@ -0,0 +1,316 @@
+/**
+ * Tests for Valibot schema generation
+ */
+
+import { describe, it, expect } from "vitest";
+import { generateValibotSchemas } from "../../src/generators/valibot.js";
+import { column, table, model } from "../helpers/schema-model.js";
+
+describe("generateValibotSchemas", () => {
+    it("should generate Row, Insert and Update schemas", () => {
+        const result = generateValibotSchemas(
+            model({
+                tables: [
+                    table("users", [
+                        column("id", "uuid", { defaultValue: "uuid()" }),
+                        column("email", "text", { comment: "Login email" }),
+                        column("nickname", "text", { nullable: true }),
+                        column("tags", "text", { isArray: true }),
+                        column("this", "text"),
+                    ]),
+                ],
+            }),
+            "./database",
+            "preserve"
+        );
+
+        expect(result).toContain('import * as v from "valibot";');
+        expect(result).toContain(`export const usersRowSchema = v.object({
+  id: v.string(),
+  /** Login email */
+  email: v.string(),
+  nickname: v.nullable(v.string()),
+  tags: v.array(v.string()),
+});`);
+        expect(result).toContain(`export const usersInsertSchema = v.object({
+  id: v.optional(v.string()),
+  /** Login email */
+  email: v.string(),
+  nickname: v.optional(v.nullable(v.string())),
+  tags: v.array(v.string()),
+});`);
+        expect(result).toContain(`export const usersUpdateSchema = v.object({
+  id: v.optional(v.string()),
+  /** Login email */
+  email: v.optional(v.string()),
+  nickname: v.optional(v.nullable(v.string())),
+  tags: v.optional(v.array(v.string())),
+});`);
+        expect(result).not.toContain("this:");
+    });
+
+    it("should reject values for GENERATED ALWAYS columns", () => {
+        const result = generateValibotSchemas(
+            model({
+                tables: [
+                    table("users", [
+                        column("id", "bigint", { identity: "always" }),
+                        column("seq", "bigint", { identity: "by_default" }),
+                        column("total", "numeric", {
+                            generationExpression: "price * quantity",
+                        }),
+                    ]),
+                ],
+            }),
+            "./database",
+            "preserve"
+        );
+
+        expect(result).toContain(`export const usersInsertSchema = v.object({
+  id: v.optional(v.never()),
+  seq: v.optional(v.number()),
+  total: v.optional(v.never()),
+});`);
+        expect(result).toContain(`export const usersUpdateSchema = v.object({
+  id: v.optional(v.never()),
+  seq: v.optional(v.number()),
+  total: v.optional(v.never()),
+});`);
+    });
+
+    it("should add length and precision pipes", () => {
+        const result = generateValibotSchemas(
+            model({
+                tables: [
+                    table("users", [
+                        column("code", "varchar(8)"),
+                        column("name", "character varying(100)"),
+                        column("price", "numeric(10,2)"),
+                        column("quantity", "numeric(4)"),
+                        column("ratio", "numeric"),
+                    ]),
+                ],
+            }),
+            "./database",
+            "preserve"
+        );
+
+        expect(result).toContain("code: v.pipe(v.string(), v.maxLength(8)),");
+        expect(result).toContain("name: v.pipe(v.string(), v.maxLength(100)),");
+        expect(result).toContain(
+            'price: v.pipe(v.number(), v.minValue(-99999999.99), v.maxValue(99999999.99), v.check((value) => Number(value.toFixed(2)) === value, "At most 2 decimal places")),'
+        );
+        expect(result).toContain(
+            "quantity: v.pipe(v.number(), v.integer(), v.minValue(-9999), v.maxValue(9999)),"
+        );
+        expect(result).toContain("ratio: v.number(),");
+    });
+
+    it("should build enums from the Constants values", () => {
+        const result = generateValibotSchemas(
+            model({
+                tables: [table("users", [column("role", "user_role")])],
+                enums: [
+                    {
+                        schema: "public",
+                        name: "user_role",
+                        values: ["admin", "member"],
+                    },
+                ],
+            }),
+            "./database",
+            "preserve"
+        );
+
+        expect(result).toContain(
+            'export const userRoleSchema = v.picklist(Constants["public"]["Enums"]["user_role"]);'
+        );
+        expect(result).toContain("role: userRoleSchema,");
+    });
+
+    it("should narrow columns to the values of IN (...) checks", () => {
+        const result = generateValibotSchemas(
+            model({
+                tables: [
+                    table(
+                        "posts",
+                        [
+                            column("status", "text", { nullable: true }),
+                            column("priority", "integer"),
+                        ],
+                        {
+                            checkConstraints: [
+                                {
+                                    name: "posts_status_check",
+                                    expression:
+                                        "status IN ('draft', 'published')",
+                                    column: "status",
+                                    allowedValues: ["draft", "published"],
+                                },
+                                {
+                                    name: "posts_priority_check",
+                                    expression: "priority IN (1, 2, 3)",
+                                    column: "priority",
+                                    allowedValues: [1, 2, 3],
+                                },
+                            ],
+                        }
+                    ),
+                ],
+            }),
+            "./database",
+            "preserve"
+        );
+
+        expect(result).toContain(
+            'status: v.nullable(v.picklist(["draft", "published"])),'
+        );
+        expect(result).toContain("priority: v.picklist([1, 2, 3]),");
+    });
+
+    it("should narrow domain columns to the values of VALUE IN (...) checks", () => {
+        const result = generateValibotSchemas(
+            model({
+                tables: [
+                    table("shirts", [
+                        column("size", "size"),
+                        column("sizes", "size", { isArray: true }),
+                    ]),
+                ],
+                domains: [
+                    {
+                        schema: "public",
+                        name: "size",
+                        baseType: "text",
+                        isArray: false,
+                        nullable: true,
+                        defaultValue: null,
+                        checkConstraints: [
+                            {
+                                name: "size_check",
+                                expression: "VALUE IN ('s', 'm')",
+                                column: "VALUE",
+                                allowedValues: ["s", "m"],
+                            },
+                        ],
+                    },
+                ],
+            }),
+            "./database",
+            "preserve"
+        );
+
+        expect(result).toContain('size: v.picklist(["s", "m"]),');
+        expect(result).toContain('sizes: v.array(v.picklist(["s", "m"])),');
+    });
+
+    it("should use the geometric schemas when geometric types are used", () => {
+        const result = generateValibotSchemas(
+            model({ tables: [table("users", [column("center", "point")])] }),
+            "./database",
+            "preserve"
+        );
+
+        expect(result).toContain(
+            "export const pointSchema = v.union([v.object({ x: v.number(), y: v.number() }), v.string()]);"
+        );
+        expect(result).toContain("center: pointSchema,");
+    });
+
+    it("should generate composite type schemas", () => {
+        const result = generateValibotSchemas(
+            model({
+                compositeTypes: [
+                    {
+                        schema: "public",
+                        name: "address",
+                        attributes: [
+                            { name: "street", type: "varchar(80)" },
+                            { name: "lines", type: "text[]" },
+                        ],
+                    },
+                ],
+            }),
+            "./database",
+            "preserve"
+        );
+
+        expect(result).toContain(`export const addressSchema = v.object({
+  street: v.nullable(v.pipe(v.string(), v.maxLength(80))),
+  lines: v.nullable(v.array(v.string())),
+});`);
+    });
+
+    it("should generate function argument schemas", () => {
+        const result = generateValibotSchemas(
+            model({
+                functions: [
+                    {
+                        schema: "public",
+                        name: "get_user",
+                        args: [
+                            { name: "user_id", type: "uuid" },
+                            {
+                                name: "include_deleted",
+                                type: "boolean",
+                                hasDefault: true,
+                            },
+                        ],
+                        returns: "users",
+                    },
+                    {
+                        schema: "public",
+                        name: "now_utc",
+                        args: [],
+                        returns: "timestamptz",
+                    },
+                ],
+            }),
+            "./database",
+            "preserve"
+        );
+
+        expect(result).toContain(`export const getUserArgsSchema = v.object({
+  user_id: v.string(),
+  include_deleted: v.optional(v.boolean()),
+});`);
+        expect(result).toContain(
+            "export const nowUtcArgsSchema = v.object({});"
+        );
+    });
+
+    it("should combine overloaded functions into a union", () => {
+        const search = {
+            schema: "public",
+            name: "search",
+            returns: "users",
+        };
+
+        const result = generateValibotSchemas(
+            model({
+                functions: [
+                    { ...search, args: [{ name: "q", type: "text" }] },
+                    {
+                        ...search,
+                        args: [
+                            { name: "q", type: "text" },
+                            { name: "lim", type: "integer" },
+                        ],
+                    },
+                ],
+            }),
+            "./database",
+            "preserve"
+        );
+
+        expect(result).toContain(`export const searchArgsSchema = v.union([
+  v.object({
+    q: v.string(),
+  }),
+  v.object({
+    q: v.string(),
+    lim: v.number(),
+  }),
+]);`);
+    });
+});
@@ -0,0 +1,348 @@
+/**
+ * Tests for Zod schema generation
+ */
+
+import { describe, it, expect } from "vitest";
+import { generateZodSchemas } from "../../src/generators/zod.js";
+import type { TypeDefinition } from "../../src/types/index.js";
+import { column, model, table } from "../helpers/schema-model.js";
+
+const users = table("users", [
+    column("id", "uuid", { isPrimaryKey: true, defaultValue: "uuid()" }),
+    column("email", "text", { comment: "Login email" }),
+    column("nickname", "varchar(50)", { nullable: true }),
+    column("scores", "integer", { isArray: true }),
+    column("constraint", "text"),
+]);
+
+describe("generateZodSchemas", () => {
+    it("should generate Row, Insert and Update schemas", () => {
+        const result = generateZodSchemas(
+            model({ tables: [users] }),
+            [],
+            "./database",
+            "preserve"
+        );
+
+        expect(result).toContain(`export const usersRowSchema = z.object({
+  id: z.string(),
+  /** Login email */
+  email: z.string(),
+  nickname: z.string().nullable(),
+  scores: z.array(z.number()),
+});`);
+        expect(result).toContain(`export const usersInsertSchema = z.object({
+  id: z.string().optional(),
+  /** Login email */
+  email: z.string(),
+  nickname: z.string().nullable().optional(),
+  scores: z.array(z.number()),
+});`);
+        expect(result).toContain(`export const usersUpdateSchema = z.object({
+  id: z.string().optional(),
+  /** Login email */
+  email: z.string().optional(),
+  nickname: z.string().nullable().optional(),
+  scores: z.array(z.number()).optional(),
+});`);
+        expect(result).not.toContain("constraint");
+    });
+
+    it("should reject values for GENERATED ALWAYS columns", () => {
+        const result = generateZodSchemas(
+            model({
+                tables: [
+                    {
+                        ...users,
+                        columns: [
+                            column("id", "bigint", { identity: "always" }),
+                            column("seq", "bigint", { identity: "by_default" }),
+                            column("total", "numeric", {
+                                generationExpression: "price * quantity",
+                            }),
+                        ],
+                    },
+                ],
+            }),
+            [],
+            "./database",
+            "preserve"
+        );
+
+        expect(result).toContain(`export const usersInsertSchema = z.object({
+  id: z.never().optional(),
+  seq: z.number().optional(),
+  total: z.never().optional(),
+});`);
+        expect(result).toContain(`export const usersUpdateSchema = z.object({
+  id: z.never().optional(),
+  seq: z.number().optional(),
+  total: z.never().optional(),
+});`);
+    });
+
+    it("should build enums from the Constants values", () => {
+        const result = generateZodSchemas(
+            model({
+                tables: [
+                    {
+                        ...users,
+                        columns: [
+                            column("role", "user_role"),
+                            column("roles", "user_role", { isArray: true }),
+                        ],
+                    },
+                ],
+                enums: [
+                    {
+                        schema: "public",
+                        name: "user_role",
+                        values: ["admin", "member"],
+                    },
+                ],
+            }),
+            [],
+            "./database",
+            "PascalCase"
+        );
+
+        expect(result).toContain(
+            'import { Constants, type Json } from "./database";'
+        );
+        expect(result).toContain(
+            'export const userRoleSchema = z.enum(Constants["public"]["Enums"]["UserRole"]);'
+        );
+        expect(result).toContain("Role: userRoleSchema,");
+        expect(result).toContain("Roles: z.array(userRoleSchema),");
+    });
+
+    it("should narrow columns to the values of IN (...) checks", () => {
+        const result = generateZodSchemas(
+            model({
+                tables: [
+                    table(
+                        "posts",
+                        [
+                            column("status", "text", { nullable: true }),
+                            column("priority", "integer"),
+                        ],
+                        {
+                            checkConstraints: [
+                                {
+                                    name: "posts_status_check",
+                                    expression:
+                                        "status IN ('draft', 'published')",
+                                    column: "status",
+                                    allowedValues: ["draft", "published"],
+                                },
+                                {
+                                    name: "posts_priority_check",
+                                    expression: "priority IN (1, 2, 3)",
+                                    column: "priority",
+                                    allowedValues: [1, 2, 3],
+                                },
+                            ],
+                        }
+                    ),
+                ],
+            }),
+            [],
+            "./database",
+            "preserve"
+        );
+
+        expect(result).toContain(
+            'status: z.enum(["draft", "published"]).nullable(),'
+        );
+        expect(result).toContain(
+            "priority: z.union([z.literal(1), z.literal(2), z.literal(3)]),"
+        );
+    });
+
+    it("should narrow domain columns to the values of VALUE IN (...) checks", () => {
+        const result = generateZodSchemas(
+            model({
+                tables: [
+                    table("shirts", [
+                        column("size", "size"),
+                        column("sizes", "size", { isArray: true }),
+                    ]),
+                ],
+                domains: [
+                    {
+                        schema: "public",
+                        name: "size",
+                        baseType: "text",
+                        isArray: false,
+                        nullable: true,
+                        defaultValue: null,
+                        checkConstraints: [
+                            {
+                                name: "size_check",
+                                expression: "VALUE IN ('s', 'm')",
+                                column: "VALUE",
+                                allowedValues: ["s", "m"],
+                            },
+                        ],
+                    },
+                ],
+            }),
+            [],
+            "./database",
+            "preserve"
+        );
+
+        expect(result).toContain('size: z.enum(["s", "m"]),');
+        expect(result).toContain('sizes: z.array(z.enum(["s", "m"])),');
+    });
+
+    it("should only import Json when there are no enums", () => {
+        const result = generateZodSchemas(
+            model({ tables: [users] }),
+            [],
+            "./database",
+            "preserve"
+        );
+
+        expect(result).toContain('import { type Json } from "./database";');
+    });
+
+    it("should use structured schemas for JSONB columns with inferred types", () => {
+        const settings: TypeDefinition = {
+            table: "users",
+            column: "settings",
+            name: "users_settings",
+            typeDefinition: "{ theme: string }",
+            comment: "User preferences",
+            example: { theme: "dark", notify: { email: true }, tags: [] },
+        };
+
+        const result = generateZodSchemas(
+            model({
+                tables: [
+                    {
+                        ...users,
+                        columns: [
+                            column("settings", "jsonb", { nullable: true }),
+                            column("meta", "jsonb"),
+                        ],
+                    },
+                ],
+            }),
+            [settings],
+            "./database",
+            "preserve"
+        );
+
+        expect(result).toContain(`/** User preferences */
+export const usersSettingsSchema = z.object({
+  theme: z.string(),
+  notify: z.object({
+    email: z.boolean(),
+  }),
+  tags: z.array(jsonSchema),
+});`);
+        expect(result).toContain("settings: usersSettingsSchema.nullable(),");
+        expect(result).toContain("meta: jsonSchema,");
+    });
+
+    it("should fall back to the Json schema for JSONB without a default", () => {
+        const result = generateZodSchemas(
+            model({
+                tables: [{ ...users, columns: [column("data", "jsonb")] }],
+            }),
+            [
+                {
+                    table: "users",
+                    column: "data",
+                    name: "users_data",
+                    typeDefinition: "Record<string, unknown>",
+                },
+            ],
+            "./database",
+            "preserve"
+        );
+
+        expect(result).not.toContain("usersDataSchema");
+        expect(result).toContain("data: jsonSchema,");
+    });
+
+    it("should generate view and composite type schemas", () => {
+        const result = generateZodSchemas(
+            model({
+                views: [
+                    {
+                        schema: "public",
+                        name: "active_users",
+                        columns: [column("email", "text")],
+                        isMaterialized: false,
+                    },
+                    {
+                        schema: "public",
+                        name: "opaque",
+                        columns: [],
+                        isMaterialized: false,
+                    },
+                ],
+                compositeTypes: [
+                    {
+                        schema: "public",
+                        name: "address",
+                        attributes: [
+                            { name: "street", type: "text" },
+                            { name: "lines", type: "text[]" },
+                        ],
+                    },
+                ],
+            }),
+            [],
+            "./database",
+            "preserve"
+        );
+
+        expect(result).toContain(`export const activeUsersRowSchema = z.object({
+  email: z.string(),
+});`);
+        expect(result).toContain(
+            "export const opaqueRowSchema = z.record(z.string(), z.unknown());"
+        );
+        expect(result).toContain(`export const addressSchema = z.object({
+  street: z.string().nullable(),
+  lines: z.array(z.string()).nullable(),
+});`);
+    });
+
+    it("should define the geometric schemas a table uses", () => {
+        const result = generateZodSchemas(
+            model({
+                tables: [{ ...users, columns: [column("area", "box")] }],
+            }),
+            [],
+            "./database",
+            "preserve"
+        );
+
+        expect(result).toContain(
+            "export const pointSchema = z.union([z.object({ x: z.number(), y: z.number() }), z.string()]);"
+        );
+        expect(result).toContain("export const boxSchema = z.union([");
+        expect(result).toContain("area: boxSchema,");
+    });
+
+    it("should prefix objects outside the main schema", () => {
+        const result = generateZodSchemas(
+            model({ tables: [{ ...users, schema: "auth" }] }),
+            [],
+            "./database",
+            "preserve",
+            4,
+            false,
+            "public"
+        );
+
+        expect(result).toContain(
+            "export const authUsersRowSchema = z.object({\n    id: z.string(),"
+        );
+        expect(result).not.toContain("Login email");
+    });
+});
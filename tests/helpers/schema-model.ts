@@ -0,0 +1,62 @@
+/**
+ * Schema model fixtures shared by the generator and model tests
+ */
+
+import type {
+    ColumnDefinition,
+    SchemaModel,
+    TableDefinition,
+} from "../../src/types/index.js";
+
+/**
+ * A NOT NULL column without default, key or constraints
+ */
+export function column(
+    name: string,
+    type: string,
+    overrides: Partial<ColumnDefinition> = {}
+): ColumnDefinition {
+    return {
+        name,
+        type,
+        nullable: false,
+        defaultValue: null,
+        isArray: false,
+        isPrimaryKey: false,
+        isUnique: false,
+        ...overrides,
+    };
+}
+
+/**
+ * A table in the public schema without relationships or indexes
+ */
+export function table(
+    name: string,
+    columns: ColumnDefinition[],
+    overrides: Partial<TableDefinition> = {}
+): TableDefinition {
+    return {
+        schema: "public",
+        name,
+        columns,
+        relationships: [],
+        indexes: [],
+        ...overrides,
+    };
+}
+
+/**
+ * An empty schema model with the given parts filled in
+ */
+export function model(overrides: Partial<SchemaModel> = {}): SchemaModel {
+    return {
+        tables: [],
+        enums: [],
+        functions: [],
+        compositeTypes: [],
+        views: [],
+        domains: [],
+        ...overrides,
+    };
+}
@@ -0,0 +1,208 @@
+/**
+ * Tests for the programmatic API
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import { generate, parseSqlSources, tokenize } from "../src/index.js";
+import * as dbIntrospector from "../src/parsers/db-introspector.js";
+import * as logger from "../src/utils/logger.js";
+import * as prettierUtils from "../src/utils/prettier.js";
+
+vi.mock("fs", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("fs")>()),
+    writeFileSync: vi.fn(),
+    mkdirSync: vi.fn(),
+}));
+
+const sources = [
+    {
+        path: "migrations/001_init.sql",
+        content: `
+CREATE TYPE user_role AS ENUM ('admin', 'member');
+
+CREATE TABLE users (
+    id uuid PRIMARY KEY,
+    role user_role NOT NULL,
+    settings jsonb DEFAULT '{"theme": "dark"}'::jsonb
+);`,
+    },
+    {
+        path: "migrations/002_posts.sql",
+        content: `
+CREATE TABLE posts (
+    id uuid PRIMARY KEY,
+    author_id uuid REFERENCES users(id),
+    shape ltree
+);`,
+    },
+];
+
+describe("generate", () => {
+    let consoleSpy: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+        consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        logger.setVerboseLogging(true);
+    });
+
+    it("should return the generated file without writing to disk", async () => {
+        const { files } = await generate({ sources });
+
+        expect(files).toHaveLength(1);
+        expect(files[0].path).toBe("database.ts");
+        expect(files[0].content).toContain("export type Database");
+        expect(files[0].content).toMatch(/users: \{\s+Row: \{/);
+        expect(files[0].content).toContain('user_role: "admin" | "member"');
+        expect(fs.writeFileSync).not.toHaveBeenCalled();
+        expect(fs.mkdirSync).not.toHaveBeenCalled();
+    });
+
+    it("should render the same files on every call", async () => {
+        const detectPrettierConfig = vi.spyOn(
+            prettierUtils,
+            "detectPrettierConfig"
+        );
+        const options = {
+            sources,
+            zod: true,
+            valibot: true,
+            kysely: true,
+            drizzle: true,
+        };
+
+        vi.useFakeTimers({ now: new Date("2024-01-01T00:00:00Z") });
+        const first = await generate(options);
+        vi.setSystemTime(new Date("2025-06-30T12:00:00Z"));
+        const second = await generate(options);
+        vi.useRealTimers();
+
+        expect(second.files).toEqual(first.files);
+        expect(first.files[0].content).not.toContain("Generated:");
+        expect(first.files[0].content).toContain(
+            "Indentation: 2 spaces (default)"
+        );
+        expect(detectPrettierConfig).not.toHaveBeenCalled();
+    });
+
+    it("should return the parsed model and diagnostics", async () => {
+        const { model, diagnostics } = await generate({ sources });
+
+        expect(model.tables.map((t) => t.name)).toEqual(["users", "posts"]);
+        expect(model.enums[0].values).toEqual(["admin", "member"]);
+        expect(diagnostics).toEqual([
+            expect.objectContaining({
+                severity: "warning",
+                code: "unknown-type",
+                location: expect.objectContaining({
+                    file: "migrations/002_posts.sql",
+                }),
+            }),
+        ]);
+    });
+
+    it("should apply generator options", async () => {
+        const { files } = await generate({
+            sources,
+            fileName: "schema.ts",
+            namingConvention: "PascalCase",
+            indentSize: 4,
+        });
+
+        expect(files[0].path).toBe("schema.ts");
+        expect(files[0].content).toContain("Naming convention: PascalCase");
+        expect(files[0].content).toContain("Indentation: 4 spaces");
+    });
+
+    it("should leave out trigger and excluded functions", async () => {
+        const functionSources = [
+            {
+                path: "functions.sql",
+                content: `
+CREATE FUNCTION touch() RETURNS trigger LANGUAGE plpgsql AS $$ BEGIN RETURN NEW; END $$;
+CREATE FUNCTION _internal_count() RETURNS bigint LANGUAGE sql AS $$ SELECT 1 $$;
+CREATE FUNCTION user_count() RETURNS bigint STABLE SECURITY DEFINER
+    SET search_path = '' LANGUAGE sql AS $$ SELECT 1 $$;`,
+            },
+        ];
+
+        const { files, model } = await generate({
+            sources: functionSources,
+            excludeFunctions: ["_internal*"],
+            functionMetadata: true,
+        });
+
+        expect(model.functions).toHaveLength(3);
+        expect(files[0].content).not.toContain("touch");
+        expect(files[0].content).not.toContain("_internal_count");
+        expect(files[0].content).toContain(`      /**
+       * @volatility stable
+       * @securityDefiner
+       * @language sql
+       * @searchPath ''
+       */
+      user_count: { Args: never; Returns: number }`);
+
+        const withTriggers = await generate({
+            sources: functionSources,
+            includeTriggerFunctions: true,
+            includeFunctions: ["public.touch"],
+        });
+        expect(withTriggers.files[0].content).toContain(
+            "touch: { Args: never; Returns: unknown }"
+        );
+        expect(withTriggers.files[0].content).not.toContain("user_count");
+    });
+
+    it("should add the Zod schemas when requested", async () => {
+        const { files } = await generate({ sources, zod: true });
+
+        expect(files.map((file) => file.path)).toEqual([
+            "database.ts",
+            "database.zod.ts",
+        ]);
+        expect(files[1].content).toContain(
+            'export const userRoleSchema = z.enum(Constants["public"]["Enums"]["user_role"]);'
+        );
+        expect(files[1].content).toContain("settings: usersSettingsSchema");
+    });
+
+    it("should stay silent and restore the logging setting", async () => {
+        logger.setVerboseLogging(true);
+
+        await generate({ sources });
+
+        expect(consoleSpy).not.toHaveBeenCalled();
+        expect(logger.isVerboseLogging()).toBe(true);
+    });
+
+    it("should introspect the database when a connection string is given", async () => {
+        const introspectSpy = vi
+            .spyOn(dbIntrospector, "introspectDatabaseUrl")
+            .mockResolvedValue(parseSqlSources(sources, "public"));
+
+        const { files, model } = await generate({
+            connectionString: "postgresql://localhost/test",
+            schema: "public",
+        });
+
+        expect(introspectSpy).toHaveBeenCalledWith(
+            "postgresql://localhost/test",
+            ["public"]
+        );
+        expect(model.tables).toHaveLength(2);
+        expect(files[0].content).toContain("Source: database");
+    });
+
+    it("should export the SQL parsers", () => {
+        expect(tokenize("select 1").map((t) => t.kind)).toEqual([
+            "word",
+            "whitespace",
+            "number",
+        ]);
+    });
+});
@@ -0,0 +1,806 @@
+/**
+ * Tests for live database introspection
+ *
+ * Coverage targets:
+ * - introspectDatabase: query orchestration against recorded catalog rows
+ * - Column, constraint, index and relationship mapping
+ * - Enum, function, composite type, domain and view mapping
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+    introspectDatabase,
+    type CatalogClient,
+} from "../../src/parsers/db-introspector.js";
+import {
+    RELATIONS_QUERY,
+    COLUMNS_QUERY,
+    CONSTRAINTS_QUERY,
+    INDEXES_QUERY,
+    ENUMS_QUERY,
+    FUNCTIONS_QUERY,
+    COMPOSITE_TYPES_QUERY,
+    DOMAINS_QUERY,
+} from "../../src/parsers/db/queries.js";
+import * as logger from "../../src/utils/logger.js";
+
+// Rows recorded from a local Postgres 15 instance running the fixture schema:
+//
+//   create type user_role as enum ('admin', 'member');
+//   create type address as (street text, zip varchar(10));
+//   create table users (
+//       id uuid primary key default gen_random_uuid(),
+//       email text not null unique,
+//       role user_role not null default 'member',
+//       tags text[]
+//   );
+//   comment on table users is 'Application users';
+//   create table profiles (
+//       user_id uuid primary key references users(id),
+//       bio text
+//   );
+//   create table posts (
+//       id bigint generated always as identity primary key,
+//       author_id uuid not null references users(id),
+//       title varchar(200) not null
+//   );
+//   create index idx_posts_title on posts using btree (title) where title <> '';
+//   create view post_titles as select id, title from posts;
+//   create function search_posts(query text, max_rows int default 10)
+//       returns setof posts ...;
+const RECORDED_ROWS: Record<string, unknown[]> = {
+    [RELATIONS_QUERY]: [
+        {
+            schema_name: "public",
+            name: "post_titles",
+            relkind: "v",
+            comment: null,
+            definition: " SELECT posts.id,\n    posts.title\n   FROM posts;",
+        },
+        {
+            schema_name: "public",
+            name: "posts",
+            relkind: "r",
+            comment: null,
+            definition: null,
+        },
+        {
+            schema_name: "public",
+            name: "profiles",
+            relkind: "r",
+            comment: null,
+            definition: null,
+        },
+        {
+            schema_name: "public",
+            name: "users",
+            relkind: "r",
+            comment: "Application users",
+            definition: null,
+        },
+    ],
+    [COLUMNS_QUERY]: [
+        {
+            schema_name: "public",
+            table_name: "post_titles",
+            column_name: "id",
+            data_type: "bigint",
+            is_array: false,
+            not_null: false,
+            default_value: null,
+            identity: "",
+            generated: "",
+            comment: null,
+        },
+        {
+            schema_name: "public",
+            table_name: "post_titles",
+            column_name: "title",
+            data_type: "character varying(200)",
+            is_array: false,
+            not_null: false,
+            default_value: null,
+            identity: "",
+            generated: "",
+            comment: null,
+        },
+        {
+            schema_name: "public",
+            table_name: "posts",
+            column_name: "id",
+            data_type: "bigint",
+            is_array: false,
+            not_null: true,
+            default_value: null,
+            identity: "",
+            generated: "",
+            comment: null,
+        },
+        {
+            schema_name: "public",
+            table_name: "posts",
+            column_name: "author_id",
+            data_type: "uuid",
+            is_array: false,
+            not_null: true,
+            default_value: null,
+            identity: "",
+            generated: "",
+            comment: null,
+        },
+        {
+            schema_name: "public",
+            table_name: "posts",
+            column_name: "title",
+            data_type: "character varying(200)",
+            is_array: false,
+            not_null: true,
+            default_value: null,
+            identity: "",
+            generated: "",
+            comment: null,
+        },
+        {
+            schema_name: "public",
+            table_name: "profiles",
+            column_name: "user_id",
+            data_type: "uuid",
+            is_array: false,
+            not_null: true,
+            default_value: null,
+            identity: "",
+            generated: "",
+            comment: null,
+        },
+        {
+            schema_name: "public",
+            table_name: "profiles",
+            column_name: "bio",
+            data_type: "text",
+            is_array: false,
+            not_null: false,
+            default_value: null,
+            identity: "",
+            generated: "",
+            comment: null,
+        },
+        {
+            schema_name: "public",
+            table_name: "users",
+            column_name: "id",
+            data_type: "uuid",
+            is_array: false,
+            not_null: true,
+            default_value: "gen_random_uuid()",
+            identity: "",
+            generated: "",
+            comment: null,
+        },
+        {
+            schema_name: "public",
+            table_name: "users",
+            column_name: "email",
+            data_type: "text",
+            is_array: false,
+            not_null: true,
+            default_value: null,
+            identity: "",
+            generated: "",
+            comment: "Login email",
+        },
+        {
+            schema_name: "public",
+            table_name: "users",
+            column_name: "role",
+            data_type: "user_role",
+            is_array: false,
+            not_null: true,
+            default_value: "'member'::user_role",
+            identity: "",
+            generated: "",
+            comment: null,
+        },
+        {
+            schema_name: "public",
+            table_name: "users",
+            column_name: "tags",
+            data_type: "text",
+            is_array: true,
+            not_null: false,
+            default_value: null,
+            identity: "",
+            generated: "",
+            comment: null,
+        },
+    ],
+    [CONSTRAINTS_QUERY]: [
+        {
+            schema_name: "public",
+            table_name: "posts",
+            constraint_name: "posts_author_id_fkey",
+            constraint_type: "f",
+            columns: ["author_id"],
+            referenced_schema: "public",
+            referenced_table: "users",
+            referenced_columns: ["id"],
+        },
+        {
+            schema_name: "public",
+            table_name: "posts",
+            constraint_name: "posts_pkey",
+            constraint_type: "p",
+            columns: ["id"],
+            referenced_schema: null,
+            referenced_table: null,
+            referenced_columns: null,
+        },
+        {
+            schema_name: "public",
+            table_name: "profiles",
+            constraint_name: "profiles_pkey",
+            constraint_type: "p",
+            columns: ["user_id"],
+            referenced_schema: null,
+            referenced_table: null,
+            referenced_columns: null,
+        },
+        {
+            schema_name: "public",
+            table_name: "profiles",
+            constraint_name: "profiles_user_id_fkey",
+            constraint_type: "f",
+            columns: ["user_id"],
+            referenced_schema: "public",
+            referenced_table: "users",
+            referenced_columns: ["id"],
+        },
+        {
+            schema_name: "public",
+            table_name: "users",
+            constraint_name: "users_email_key",
+            constraint_type: "u",
+            columns: ["email"],
+            referenced_schema: null,
+            referenced_table: null,
+            referenced_columns: null,
+        },
+        {
+            schema_name: "public",
+            table_name: "users",
+            constraint_name: "users_pkey",
+            constraint_type: "p",
+            columns: ["id"],
+            referenced_schema: null,
+            referenced_table: null,
+            referenced_columns: null,
+        },
+    ],
+    [INDEXES_QUERY]: [
+        {
+            schema_name: "public",
+            table_name: "posts",
+            index_name: "idx_posts_title",
+            is_unique: false,
+            method: "btree",
+            columns: ["title"],
+            where_clause: "((title)::text <> ''::text)",
+        },
+    ],
+    [ENUMS_QUERY]: [
+        {
+            schema_name: "public",
+            name: "user_role",
+            values: ["admin", "member"],
+        },
+    ],
+    [FUNCTIONS_QUERY]: [
+        {
+            schema_name: "public",
+            name: "search_posts",
+            arg_names: ["query", "max_rows"],
+            arg_types: ["text", "integer"],
+            arg_modes: [],
+            default_count: 1,
+            returns: "posts",
+            returns_set: true,
+            volatility: "s",
+            security_definer: true,
+            language: "sql",
+            config: ["search_path=public, extensions"],
+        },
+    ],
+    [COMPOSITE_TYPES_QUERY]: [
+        {
+            schema_name: "public",
+            type_name: "address",
+            attribute_name: "street",
+            data_type: "text",
+        },
+        {
+            schema_name: "public",
+            type_name: "address",
+            attribute_name: "zip",
+            data_type: "character varying(10)",
+        },
+    ],
+};
+
+function createRecordedClient(
+    rows: Record<string, unknown[]> = RECORDED_ROWS
+): CatalogClient & { query: ReturnType<typeof vi.fn> } {
+    return {
+        query: vi.fn(async (text: string) => ({ rows: rows[text] ?? [] })),
+    };
+}
+
+describe("introspectDatabase", () => {
+    beforeEach(() => {
+        vi.spyOn(logger, "log").mockImplementation(() => {});
+    });
+
+    it("should run every catalog query with the requested schemas", async () => {
+        const client = createRecordedClient();
+
+        await introspectDatabase(client, ["public", "api"]);
+
+        expect(client.query).toHaveBeenCalledTimes(8);
+        for (const call of client.query.mock.calls) {
+            expect(call[1]).toEqual([["public", "api"]]);
+        }
+    });
+
+    it("should return an empty model for an empty database", async () => {
+        const result = await introspectDatabase(createRecordedClient({}), [
+            "public",
+        ]);
+
+        expect(result).toEqual({
+            tables: [],
+            enums: [],
+            functions: [],
+            compositeTypes: [],
+            views: [],
+            domains: [],
+        });
+    });
+
+    describe("Tables", () => {
+        it("should build tables with columns in attribute order", async () => {
+            const { tables } = await introspectDatabase(
+                createRecordedClient(),
+                ["public"]
+            );
+
+            expect(tables.map((t) => t.name)).toEqual([
+                "posts",
+                "profiles",
+                "users",
+            ]);
+            const users = tables.find((t) => t.name === "users")!;
+            expect(users.columns.map((c) => c.name)).toEqual([
+                "id",
+                "email",
+                "role",
+                "tags",
+            ]);
+            expect(users.comment).toBe("Application users");
+        });
+
+        it("should map column nullability, defaults, arrays and comments", async () => {
+            const { tables } = await introspectDatabase(
+                createRecordedClient(),
+                ["public"]
+            );
+            const users = tables.find((t) => t.name === "users")!;
+
+            expect(users.columns[0]).toEqual({
+                name: "id",
+                type: "uuid",
+                nullable: false,
+                defaultValue: "gen_random_uuid()",
+                isArray: false,
+                isPrimaryKey: true,
+                isUnique: false,
+            });
+            expect(users.columns[1].isUnique).toBe(true);
+            expect(users.columns[1].comment).toBe("Login email");
+            expect(users.columns[2].type).toBe("user_role");
+            expect(users.columns[3]).toMatchObject({
+                type: "text",
+                isArray: true,
+                nullable: true,
+            });
+        });
+
+        it("should attach foreign keys as relationships", async () => {
+            const { tables } = await introspectDatabase(
+                createRecordedClient(),
+                ["public"]
+            );
+            const posts = tables.find((t) => t.name === "posts")!;
+
+            expect(posts.relationships).toEqual([
+                {
+                    foreignKeyName: "posts_author_id_fkey",
+                    columns: ["author_id"],
+                    isOneToOne: false,
+                    referencedRelation: "users",
+                    referencedColumns: ["id"],
+                },
+            ]);
+            expect(posts.columns[1].foreignKey).toEqual({
+                table: "users",
+                column: "id",
+            });
+        });
+
+        it("should mark foreign keys covered by a primary key as one-to-one", async () => {
+            const { tables } = await introspectDatabase(
+                createRecordedClient(),
+                ["public"]
+            );
+            const profiles = tables.find((t) => t.name === "profiles")!;
+
+            expect(profiles.relationships[0].isOneToOne).toBe(true);
+        });
+
+        it("should attach indexes with method and WHERE clause", async () => {
+            const { tables } = await introspectDatabase(
+                createRecordedClient(),
+                ["public"]
+            );
+            const posts = tables.find((t) => t.name === "posts")!;
+
+            expect(posts.indexes).toEqual([
+                {
+                    name: "idx_posts_title",
+                    tableName: "posts",
+                    columns: ["title"],
+                    isUnique: false,
+                    method: "btree",
+                    whereClause: "((title)::text <> ''::text)",
+                },
+            ]);
+        });
+
+        it("should keep the schema of cross-schema foreign keys", async () => {
+            const { tables } = await introspectDatabase(
+                createRecordedClient({
+                    ...RECORDED_ROWS,
+                    [CONSTRAINTS_QUERY]: [
+                        {
+                            schema_name: "public",
+                            table_name: "profiles",
+                            constraint_name: "profiles_user_id_fkey",
+                            constraint_type: "f",
+                            columns: ["user_id"],
+                            referenced_schema: "auth",
+                            referenced_table: "users",
+                            referenced_columns: ["id"],
+                        },
+                    ],
+                }),
+                ["public"]
+            );
+            const profiles = tables.find((t) => t.name === "profiles")!;
+
+            expect(profiles.columns[0].foreignKey).toEqual({
+                schema: "auth",
+                table: "users",
+                column: "id",
+            });
+            expect(profiles.relationships[0].isOneToOne).toBe(false);
+        });
+
+        it("should read the ON DELETE and ON UPDATE actions of foreign keys", async () => {
+            const { tables } = await introspectDatabase(
+                createRecordedClient({
+                    ...RECORDED_ROWS,
+                    [CONSTRAINTS_QUERY]: [
+                        {
+                            schema_name: "public",
+                            table_name: "profiles",
+                            constraint_name: "profiles_user_id_fkey",
+                            constraint_type: "f",
+                            columns: ["user_id"],
+                            referenced_schema: "public",
+                            referenced_table: "users",
+                            referenced_columns: ["id"],
+                            on_delete: "c",
+                            on_update: "a",
+                        },
+                    ],
+                }),
+                ["public"]
+            );
+            const profiles = tables.find((t) => t.name === "profiles")!;
+
+            expect(profiles.relationships[0].onDelete).toBe("cascade");
+            expect(profiles.relationships[0]).not.toHaveProperty("onUpdate");
+            expect(profiles.columns[0].foreignKey).toEqual({
+                table: "users",
+                column: "id",
+                onDelete: "cascade",
+            });
+        });
+
+        it("should read check constraints", async () => {
+            const { tables } = await introspectDatabase(
+                createRecordedClient({
+                    ...RECORDED_ROWS,
+                    [CONSTRAINTS_QUERY]: [
+                        {
+                            schema_name: "public",
+                            table_name: "posts",
+                            constraint_name: "posts_title_check",
+                            constraint_type: "c",
+                            columns: ["title"],
+                            referenced_schema: null,
+                            referenced_table: null,
+                            referenced_columns: null,
+                            check_definition:
+                                "CHECK (((title)::text = ANY ((ARRAY['draft'::character varying, 'final'::character varying])::text[])))",
+                        },
+                        {
+                            schema_name: "public",
+                            table_name: "posts",
+                            constraint_name: "posts_title_length",
+                            constraint_type: "c",
+                            columns: ["title"],
+                            referenced_schema: null,
+                            referenced_table: null,
+                            referenced_columns: null,
+                            check_definition:
+                                "CHECK ((length((title)::text) > 3)) NOT VALID",
+                        },
+                    ],
+                }),
+                ["public"]
+            );
+            const posts = tables.find((t) => t.name === "posts")!;
+
+            expect(posts.checkConstraints).toEqual([
+                {
+                    name: "posts_title_check",
+                    expression:
+                        "((title)::text = ANY ((ARRAY['draft'::character varying, 'final'::character varying])::text[]))",
+                    column: "title",
+                    allowedValues: ["draft", "final"],
+                },
+                {
+                    name: "posts_title_length",
+                    expression: "(length((title)::text) > 3)",
+                    column: "title",
+                },
+            ]);
+        });
+
+        it("should read identity and generated columns", async () => {
+            const column = (
+                column_name: string,
+                identity: string,
+                generated: string,
+                default_value: string | null
+            ) => ({
+                schema_name: "public",
+                table_name: "users",
+                column_name,
+                data_type: "bigint",
+                is_array: false,
+                not_null: identity !== "",
+                default_value,
+                identity,
+                generated,
+                comment: null,
+            });
+            const { tables } = await introspectDatabase(
+                createRecordedClient({
+                    ...RECORDED_ROWS,
+                    [COLUMNS_QUERY]: [
+                        column("id", "a", "", null),
+                        column("legacy_id", "d", "", null),
+                        column("total", "", "s", "(price * quantity)"),
+                    ],
+                }),
+                ["public"]
+            );
+            const users = tables.find((t) => t.name === "users")!;
+
+            expect(users.columns[0].identity).toBe("always");
+            expect(users.columns[1].identity).toBe("by_default");
+            expect(users.columns[2]).toMatchObject({
+                defaultValue: null,
+                generationExpression: "(price * quantity)",
+            });
+            expect(users.columns[2].identity).toBeUndefined();
+        });
+    });
+
+    describe("Other objects", () => {
+        it("should build views and materialized views", async () => {
+            const { views } = await introspectDatabase(createRecordedClient(), [
+                "public",
+            ]);
+
+            expect(views).toHaveLength(1);
+            expect(views[0]).toMatchObject({
+                schema: "public",
+                name: "post_titles",
+                isMaterialized: false,
+                definition: "SELECT posts.id,\n    posts.title\n   FROM posts;",
+            });
+            expect(views[0].columns.map((c) => c.type)).toEqual([
+                "bigint",
+                "character varying(200)",
+            ]);
+        });
+
+        it("should build enums with values in sort order", async () => {
+            const { enums } = await introspectDatabase(createRecordedClient(), [
+                "public",
+            ]);
+
+            expect(enums).toEqual([
+                {
+                    schema: "public",
+                    name: "user_role",
+                    values: ["admin", "member"],
+                },
+            ]);
+        });
+
+        it("should build functions with trailing defaults and their attributes", async () => {
+            const { functions } = await introspectDatabase(
+                createRecordedClient(),
+                ["public"]
+            );
+
+            expect(functions).toEqual([
+                {
+                    schema: "public",
+                    name: "search_posts",
+                    args: [
+                        {
+                            name: "query",
+                            type: "text",
+                            hasDefault: false,
+                            mode: "in",
+                        },
+                        {
+                            name: "max_rows",
+                            type: "integer",
+                            hasDefault: true,
+                            mode: "in",
+                        },
+                    ],
+                    returns: "posts",
+                    returnsSet: true,
+                    volatility: "stable",
+                    securityDefiner: true,
+                    language: "sql",
+                    searchPath: "public, extensions",
+                },
+            ]);
+        });
+
+        it("should return OUT and TABLE arguments of functions as columns", async () => {
+            const { functions } = await introspectDatabase(
+                createRecordedClient({
+                    [FUNCTIONS_QUERY]: [
+                        {
+                            schema_name: "public",
+                            name: "split_name",
+                            arg_names: ["full_name", "first", "last"],
+                            arg_types: ["text", "text", "text"],
+                            arg_modes: ["i", "o", "o"],
+                            default_count: 0,
+                            returns: "record",
+                            returns_set: false,
+                            volatility: "v",
+                            security_definer: false,
+                            language: "plpgsql",
+                            config: [],
+                        },
+                        {
+                            schema_name: "public",
+                            name: "user_posts",
+                            arg_names: ["user_id", "id", "title"],
+                            arg_types: ["uuid", "bigint", "text"],
+                            arg_modes: ["i", "t", "t"],
+                            default_count: 0,
+                            returns: "record",
+                            returns_set: true,
+                            volatility: "v",
+                            security_definer: false,
+                            language: "plpgsql",
+                            config: [],
+                        },
+                    ],
+                }),
+                ["public"]
+            );
+
+            expect(functions[0].args).toEqual([
+                {
+                    name: "full_name",
+                    type: "text",
+                    hasDefault: false,
+                    mode: "in",
+                },
+            ]);
+            expect(functions[0].returnColumns).toEqual([
+                { name: "first", type: "text" },
+                { name: "last", type: "text" },
+            ]);
+            expect(functions[1]).toMatchObject({
+                args: [{ name: "user_id", type: "uuid" }],
+                returns: "record",
+                returnsSet: true,
+                returnColumns: [
+                    { name: "id", type: "bigint" },
+                    { name: "title", type: "text" },
+                ],
+            });
+        });
+
+        it("should build composite types with ordered attributes", async () => {
+            const { compositeTypes } = await introspectDatabase(
+                createRecordedClient(),
+                ["public"]
+            );
+
+            expect(compositeTypes).toEqual([
+                {
+                    schema: "public",
+                    name: "address",
+                    attributes: [
+                        { name: "street", type: "text" },
+                        { name: "zip", type: "character varying(10)" },
+                    ],
+                },
+            ]);
+        });
+
+        it("should build domains with their CHECK constraints", async () => {
+            const { domains } = await introspectDatabase(
+                createRecordedClient({
+                    [DOMAINS_QUERY]: [
+                        {
+                            schema_name: "public",
+                            name: "status",
+                            base_type: "text",
+                            is_array: false,
+                            not_null: true,
+                            default_value: "'active'::text",
+                            check_names: ["status_check"],
+                            check_definitions: [
+                                "CHECK ((VALUE = ANY (ARRAY['active'::text, 'archived'::text])))",
+                            ],
+                        },
+                    ],
+                }),
+                ["public"]
+            );
+
+            expect(domains).toEqual([
+                {
+                    schema: "public",
+                    name: "status",
+                    baseType: "text",
+                    isArray: false,
+                    nullable: false,
+                    defaultValue: "'active'::text",
+                    checkConstraints: [
+                        {
+                            name: "status_check",
+                            expression:
+                                "(VALUE = ANY (ARRAY['active'::text, 'archived'::text]))",
+                            column: "VALUE",
+                            allowedValues: ["active", "archived"],
+                        },
+                    ],
+                },
+            ]);
+        });
+    });
+});
@@ -10,6 +10,7 @@ import {
     inferTypeFromValue,
     normalizeTypeDefinition,
     flattenTypes,
+    scanSqlSources,
 } from "../../src/parsers/jsonb.js";
 
 // Use vi.hoisted to create the mock function before hoisting
@@ -900,3 +901,29 @@ describe("scanSchemas", () => {
         expect(result[0]!.table).toBe("users");
     });
 });
+
+describe("scanSqlSources", () => {
+    beforeEach(() => {
+        mockReadFileSync.mockClear();
+    });
+
+    it("should scan in-memory sources without reading files", () => {
+        const result = scanSqlSources(
+            [
+                {
+                    path: "migrations/001_users.sql",
+                    content: `create table users (
+                        preferences jsonb default '{"theme": "dark"}'::jsonb
+                    );`,
+                },
+            ],
+            false,
+            "preserve"
+        );
+
+        expect(mockReadFileSync).not.toHaveBeenCalled();
+        expect(result).toHaveLength(1);
+        expect(result[0]!.table).toBe("users");
+        expect(result[0]!.column).toBe("preferences");
+    });
+});
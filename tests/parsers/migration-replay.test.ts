@@ -0,0 +1,1185 @@
+/**
+ * Tests for migration replay
+ *
+ * Coverage targets:
+ * - applyAlterTableColumnChanges: every column action
+ * - Relationship, index and foreign key bookkeeping on rename/drop
+ * - Unknown tables and columns
+ * - applyDropStatement / applyRenameStatement: every object kind
+ * - applyCreateFunction and function signatures: overloads
+ * - applyAlterEnumChange: value positions and renames
+ * - applyAlterDomainChange: constraints and defaults
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import {
+    applyAlterTableColumnChanges,
+    applyDropStatement,
+    applyRenameStatement,
+    applyAlterEnumChange,
+    applyAlterDomainChange,
+    applyCreateFunction,
+} from "../../src/parsers/migration-replay.js";
+import * as logger from "../../src/utils/logger.js";
+import type {
+    TableDefinition,
+    ColumnDefinition,
+    IndexDefinition,
+    SchemaModel,
+    EnumDefinition,
+    DomainDefinition,
+} from "../../src/types/index.js";
+
+function column(
+    name: string,
+    overrides: Partial<ColumnDefinition> = {}
+): ColumnDefinition {
+    return {
+        name,
+        type: "text",
+        nullable: true,
+        defaultValue: null,
+        isArray: false,
+        isPrimaryKey: false,
+        isUnique: false,
+        ...overrides,
+    };
+}
+
+describe("applyAlterTableColumnChanges", () => {
+    let users: TableDefinition;
+    let posts: TableDefinition;
+    let tables: TableDefinition[];
+    let indexesByTable: Map<string, IndexDefinition[]>;
+
+    beforeEach(() => {
+        vi.spyOn(logger, "log").mockImplementation(() => {});
+
+        users = {
+            schema: "public",
+            name: "users",
+            columns: [
+                column("id", {
+                    type: "uuid",
+                    nullable: false,
+                    isPrimaryKey: true,
+                }),
+                column("name"),
+            ],
+            relationships: [],
+            indexes: [],
+        };
+        posts = {
+            schema: "public",
+            name: "posts",
+            columns: [
+                column("id", { type: "uuid", isPrimaryKey: true }),
+                column("user_id", {
+                    type: "uuid",
+                    foreignKey: { table: "users", column: "id" },
+                }),
+            ],
+            relationships: [
+                {
+                    foreignKeyName: "posts_user_id_fkey",
+                    columns: ["user_id"],
+                    isOneToOne: false,
+                    referencedRelation: "users",
+                    referencedColumns: ["id"],
+                },
+            ],
+            indexes: [],
+        };
+        tables = [users, posts];
+        indexesByTable = new Map([
+            [
+                "users",
+                [
+                    {
+                        name: "idx_users_name",
+                        tableName: "users",
+                        columns: ["name"],
+                        isUnique: false,
+                    },
+                ],
+            ],
+        ]);
+    });
+
+    it("should add columns", () => {
+        const result = applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "users",
+                actions: [
+                    {
+                        kind: "add_column",
+                        column: column("bio"),
+                        ifNotExists: false,
+                    },
+                ],
+            },
+            indexesByTable
+        );
+
+        expect(result).toBe(users);
+        expect(users.columns.map((c) => c.name)).toEqual(["id", "name", "bio"]);
+    });
+
+    it("should add a relationship for an added foreign key column", () => {
+        applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "posts",
+                actions: [
+                    {
+                        kind: "add_column",
+                        column: column("editor_id", {
+                            type: "uuid",
+                            isUnique: true,
+                            foreignKey: { table: "users", column: "id" },
+                        }),
+                        ifNotExists: false,
+                    },
+                ],
+            },
+            indexesByTable
+        );
+
+        expect(posts.relationships[1]).toEqual({
+            foreignKeyName: "posts_editor_id_fkey",
+            columns: ["editor_id"],
+            isOneToOne: true,
+            referencedRelation: "users",
+            referencedColumns: ["id"],
+        });
+    });
+
+    it("should not duplicate a column added with IF NOT EXISTS", () => {
+        applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "users",
+                actions: [
+                    {
+                        kind: "add_column",
+                        column: column("name", { type: "varchar" }),
+                        ifNotExists: true,
+                    },
+                ],
+            },
+            indexesByTable
+        );
+
+        expect(users.columns).toHaveLength(2);
+        expect(users.columns[1].type).toBe("text");
+        expect(logger.log).not.toHaveBeenCalled();
+    });
+
+    it("should drop columns with their relationships and indexes", () => {
+        applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "posts",
+                actions: [
+                    {
+                        kind: "drop_column",
+                        columnName: "user_id",
+                        ifExists: false,
+                    },
+                ],
+            },
+            indexesByTable
+        );
+        applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "users",
+                actions: [
+                    {
+                        kind: "drop_column",
+                        columnName: "name",
+                        ifExists: false,
+                    },
+                ],
+            },
+            indexesByTable
+        );
+
+        expect(posts.columns.map((c) => c.name)).toEqual(["id"]);
+        expect(posts.relationships).toEqual([]);
+        expect(indexesByTable.get("users")).toEqual([]);
+    });
+
+    it("should rename columns and every reference to them", () => {
+        applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "users",
+                actions: [
+                    {
+                        kind: "rename_column",
+                        columnName: "id",
+                        newName: "user_id",
+                    },
+                    {
+                        kind: "rename_column",
+                        columnName: "name",
+                        newName: "full_name",
+                    },
+                ],
+            },
+            indexesByTable
+        );
+
+        expect(users.columns.map((c) => c.name)).toEqual([
+            "user_id",
+            "full_name",
+        ]);
+        expect(indexesByTable.get("users")![0].columns).toEqual(["full_name"]);
+        expect(posts.relationships[0].referencedColumns).toEqual(["user_id"]);
+        expect(posts.columns[1].foreignKey!.column).toBe("user_id");
+    });
+
+    it("should rename foreign key columns in the table's relationships", () => {
+        applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "posts",
+                actions: [
+                    {
+                        kind: "rename_column",
+                        columnName: "user_id",
+                        newName: "author_id",
+                    },
+                ],
+            },
+            indexesByTable
+        );
+
+        expect(posts.relationships[0].columns).toEqual(["author_id"]);
+    });
+
+    it("should change column types, nullability and defaults", () => {
+        applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "users",
+                actions: [
+                    {
+                        kind: "alter_column_type",
+                        columnName: "name",
+                        type: "varchar(100)",
+                        isArray: true,
+                    },
+                    { kind: "set_not_null", columnName: "name" },
+                    {
+                        kind: "set_default",
+                        columnName: "name",
+                        defaultValue: "'{}'",
+                    },
+                ],
+            },
+            indexesByTable
+        );
+
+        expect(users.columns[1]).toMatchObject({
+            type: "varchar(100)",
+            isArray: true,
+            nullable: false,
+            defaultValue: "'{}'",
+        });
+
+        applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "users",
+                actions: [
+                    { kind: "drop_not_null", columnName: "name" },
+                    { kind: "drop_default", columnName: "name" },
+                ],
+            },
+            indexesByTable
+        );
+
+        expect(users.columns[1]).toMatchObject({
+            nullable: true,
+            defaultValue: null,
+        });
+    });
+
+    it("should keep primary key columns non-nullable on DROP NOT NULL", () => {
+        applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "users",
+                actions: [{ kind: "drop_not_null", columnName: "id" }],
+            },
+            indexesByTable
+        );
+
+        expect(users.columns[0].nullable).toBe(false);
+    });
+
+    it("should change identity and generation expressions", () => {
+        applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "users",
+                actions: [
+                    {
+                        kind: "set_identity",
+                        columnName: "id",
+                        identity: "always",
+                    },
+                    {
+                        kind: "set_expression",
+                        columnName: "name",
+                        expression: "upper(id::text)",
+                    },
+                ],
+            },
+            indexesByTable
+        );
+
+        expect(users.columns[0].identity).toBe("always");
+        expect(users.columns[1].generationExpression).toBe("upper(id::text)");
+
+        applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "users",
+                actions: [
+                    { kind: "drop_identity", columnName: "id" },
+                    { kind: "drop_expression", columnName: "name" },
+                ],
+            },
+            indexesByTable
+        );
+
+        expect(users.columns[0].identity).toBeUndefined();
+        expect(users.columns[1].generationExpression).toBeUndefined();
+    });
+
+    it("should add and drop CHECK constraints", () => {
+        users.checkConstraints = [
+            {
+                name: "users_name_check",
+                expression: "name in ('a')",
+                column: "name",
+                allowedValues: ["a"],
+            },
+        ];
+
+        applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "users",
+                actions: [
+                    {
+                        kind: "drop_constraint",
+                        constraintName: "users_name_check",
+                        ifExists: false,
+                    },
+                    {
+                        kind: "add_check",
+                        constraint: {
+                            name: "users_name_check",
+                            expression: "name in ('b')",
+                            column: "name",
+                            allowedValues: ["b"],
+                        },
+                    },
+                    {
+                        kind: "rename_column",
+                        columnName: "name",
+                        newName: "title",
+                    },
+                ],
+            },
+            indexesByTable
+        );
+        expect(users.checkConstraints).toEqual([
+            {
+                name: "users_name_check",
+                expression: "name in ('b')",
+                column: "title",
+                allowedValues: ["b"],
+            },
+        ]);
+
+        applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "users",
+                actions: [
+                    {
+                        kind: "drop_column",
+                        columnName: "title",
+                        ifExists: false,
+                    },
+                ],
+            },
+            indexesByTable
+        );
+        expect(users.checkConstraints).toEqual([]);
+    });
+
+    it("should number added CHECK constraints whose name is taken", () => {
+        const check = (expression: string) => ({
+            kind: "add_check" as const,
+            constraint: {
+                name: "users_name_check",
+                expression,
+                column: "name",
+            },
+        });
+
+        applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "users",
+                actions: [
+                    check("name <> ''"),
+                    check("char_length(name) < 100"),
+                ],
+            },
+            indexesByTable
+        );
+        applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "users",
+                actions: [
+                    {
+                        kind: "drop_constraint",
+                        constraintName: "users_name_check1",
+                        ifExists: false,
+                    },
+                ],
+            },
+            indexesByTable
+        );
+
+        expect(users.checkConstraints).toEqual([
+            {
+                name: "users_name_check",
+                expression: "name <> ''",
+                column: "name",
+            },
+        ]);
+    });
+
+    it("should drop foreign keys with DROP CONSTRAINT", () => {
+        applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "posts",
+                actions: [
+                    {
+                        kind: "drop_constraint",
+                        constraintName: "posts_user_id_fkey",
+                        ifExists: false,
+                    },
+                ],
+            },
+            indexesByTable
+        );
+
+        expect(posts.relationships).toEqual([]);
+    });
+
+    it("should return null and warn for unknown tables", () => {
+        const result = applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "auth",
+                tableName: "users",
+                actions: [{ kind: "drop_default", columnName: "id" }],
+            },
+            indexesByTable
+        );
+
+        expect(result).toBeNull();
+        expect(logger.log).toHaveBeenCalledWith(
+            expect.stringContaining("unknown table auth.users"),
+            "yellow"
+        );
+    });
+
+    it("should warn for unknown columns unless dropped with IF EXISTS", () => {
+        applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "users",
+                actions: [
+                    { kind: "drop_column", columnName: "nope", ifExists: true },
+                ],
+            },
+            indexesByTable
+        );
+        expect(logger.log).not.toHaveBeenCalled();
+
+        applyAlterTableColumnChanges(
+            tables,
+            {
+                schema: "public",
+                tableName: "users",
+                actions: [{ kind: "set_not_null", columnName: "nope" }],
+            },
+            indexesByTable
+        );
+        expect(logger.log).toHaveBeenCalledWith(
+            expect.stringContaining("users.nope not found"),
+            "yellow"
+        );
+    });
+});
+
+describe("object lifecycle", () => {
+    let model: SchemaModel;
+    let indexesByTable: Map<string, IndexDefinition[]>;
+
+    beforeEach(() => {
+        vi.spyOn(logger, "log").mockImplementation(() => {});
+
+        model = {
+            tables: [
+                {
+                    schema: "public",
+                    name: "users",
+                    columns: [
+                        column("id", { type: "uuid", isPrimaryKey: true }),
+                        column("mood", { type: "mood" }),
+                        column("email", { type: "email" }),
+                    ],
+                    relationships: [],
+                    indexes: [],
+                },
+                {
+                    schema: "public",
+                    name: "posts",
+                    columns: [
+                        column("id", { type: "uuid", isPrimaryKey: true }),
+                        column("user_id", {
+                            type: "uuid",
+                            foreignKey: { table: "users", column: "id" },
+                        }),
+                    ],
+                    relationships: [
+                        {
+                            foreignKeyName: "posts_user_id_fkey",
+                            columns: ["user_id"],
+                            isOneToOne: false,
+                            referencedRelation: "users",
+                            referencedColumns: ["id"],
+                        },
+                    ],
+                    indexes: [],
+                },
+            ],
+            enums: [{ schema: "public", name: "mood", values: ["happy"] }],
+            functions: [
+                {
+                    schema: "public",
+                    name: "feel",
+                    args: [{ name: "m", type: "mood" }],
+                    returns: "mood",
+                },
+            ],
+            compositeTypes: [
+                {
+                    schema: "public",
+                    name: "address",
+                    attributes: [{ name: "street", type: "text" }],
+                },
+            ],
+            views: [
+                {
+                    schema: "public",
+                    name: "active_users",
+                    columns: [column("id", { type: "uuid" })],
+                    isMaterialized: false,
+                },
+            ],
+            domains: [
+                {
+                    schema: "public",
+                    name: "email",
+                    baseType: "citext",
+                    isArray: false,
+                    nullable: true,
+                    defaultValue: null,
+                },
+            ],
+        };
+        indexesByTable = new Map([
+            [
+                "users",
+                [
+                    {
+                        name: "idx_users_mood",
+                        tableName: "users",
+                        columns: ["mood"],
+                        isUnique: false,
+                    },
+                ],
+            ],
+        ]);
+    });
+
+    it("should drop tables with their indexes and incoming foreign keys", () => {
+        applyDropStatement(
+            model,
+            {
+                kind: "table",
+                ifExists: false,
+                targets: [{ schema: "public", name: "users" }],
+            },
+            indexesByTable
+        );
+
+        expect(model.tables.map((t) => t.name)).toEqual(["posts"]);
+        expect(indexesByTable.has("users")).toBe(false);
+        expect(model.tables[0].relationships).toEqual([]);
+        expect(model.tables[0].columns[1].foreignKey).toBeUndefined();
+    });
+
+    it("should drop views, enums, composite types and functions", () => {
+        applyDropStatement(
+            model,
+            {
+                kind: "view",
+                ifExists: false,
+                targets: [{ schema: "public", name: "active_users" }],
+            },
+            indexesByTable
+        );
+        applyDropStatement(
+            model,
+            {
+                kind: "type",
+                ifExists: false,
+                targets: [
+                    { schema: "public", name: "mood" },
+                    { schema: "public", name: "address" },
+                ],
+            },
+            indexesByTable
+        );
+        applyDropStatement(
+            model,
+            {
+                kind: "function",
+                ifExists: false,
+                targets: [
+                    { schema: "public", name: "feel", argTypes: ["mood"] },
+                ],
+            },
+            indexesByTable
+        );
+
+        expect(model.views).toEqual([]);
+        expect(model.enums).toEqual([]);
+        expect(model.compositeTypes).toEqual([]);
+        expect(model.functions).toEqual([]);
+        expect(logger.log).not.toHaveBeenCalled();
+    });
+
+    it("should warn when dropping an object that was never created", () => {
+        applyDropStatement(
+            model,
+            {
+                kind: "table",
+                ifExists: true,
+                targets: [{ schema: "public", name: "ghosts" }],
+            },
+            indexesByTable
+        );
+        expect(logger.log).not.toHaveBeenCalled();
+
+        applyDropStatement(
+            model,
+            {
+                kind: "table",
+                ifExists: false,
+                targets: [{ schema: "auth", name: "users" }],
+            },
+            indexesByTable
+        );
+        expect(logger.log).toHaveBeenCalledWith(
+            expect.stringContaining(
+                "DROP TABLE auth.users: table was never created"
+            ),
+            "yellow"
+        );
+        expect(model.tables).toHaveLength(2);
+    });
+
+    it("should rename tables together with indexes and foreign keys", () => {
+        applyRenameStatement(
+            model,
+            {
+                kind: "table",
+                ifExists: false,
+                target: { schema: "public", name: "users" },
+                newSchema: "public",
+                newName: "members",
+            },
+            indexesByTable
+        );
+
+        const posts = model.tables[1];
+        expect(model.tables[0].name).toBe("members");
+        expect(indexesByTable.has("users")).toBe(false);
+        expect(indexesByTable.get("members")![0].tableName).toBe("members");
+        expect(posts.relationships[0].referencedRelation).toBe("members");
+        expect(posts.columns[1].foreignKey).toEqual({
+            table: "members",
+            column: "id",
+        });
+    });
+
+    it("should qualify foreign keys to a table moved to another schema", () => {
+        applyRenameStatement(
+            model,
+            {
+                kind: "table",
+                ifExists: false,
+                target: { schema: "public", name: "users" },
+                newSchema: "auth",
+                newName: "users",
+            },
+            indexesByTable
+        );
+
+        const posts = model.tables[1];
+        expect(model.tables[0].schema).toBe("auth");
+        expect(posts.relationships[0].referencedRelation).toBe("auth.users");
+        expect(posts.columns[1].foreignKey).toEqual({
+            table: "users",
+            column: "id",
+            schema: "auth",
+        });
+    });
+
+    it("should keep foreign keys of a moved table pointing into its old schema", () => {
+        applyRenameStatement(
+            model,
+            {
+                kind: "table",
+                ifExists: false,
+                target: { schema: "public", name: "posts" },
+                newSchema: "blog",
+                newName: "posts",
+            },
+            indexesByTable
+        );
+
+        const posts = model.tables[1];
+        expect(posts.schema).toBe("blog");
+        expect(posts.relationships[0].referencedRelation).toBe("public.users");
+        expect(posts.columns[1].foreignKey).toEqual({
+            table: "users",
+            column: "id",
+            schema: "public",
+        });
+    });
+
+    it("should only follow references into the schema of the renamed table", () => {
+        model.tables.push({
+            schema: "auth",
+            name: "users",
+            columns: [column("id", { type: "uuid", isPrimaryKey: true })],
+            relationships: [],
+            indexes: [],
+        });
+
+        applyRenameStatement(
+            model,
+            {
+                kind: "table",
+                ifExists: false,
+                target: { schema: "auth", name: "users" },
+                newSchema: "auth",
+                newName: "accounts",
+            },
+            indexesByTable
+        );
+        applyAlterTableColumnChanges(
+            model.tables,
+            {
+                schema: "auth",
+                tableName: "accounts",
+                actions: [
+                    {
+                        kind: "rename_column",
+                        columnName: "id",
+                        newName: "account_id",
+                    },
+                ],
+            },
+            indexesByTable
+        );
+
+        const posts = model.tables[1];
+        expect(posts.relationships[0]).toMatchObject({
+            referencedRelation: "users",
+            referencedColumns: ["id"],
+        });
+        expect(posts.columns[1].foreignKey).toEqual({
+            table: "users",
+            column: "id",
+        });
+    });
+
+    it("should rename views through ALTER TABLE", () => {
+        applyRenameStatement(
+            model,
+            {
+                kind: "table",
+                ifExists: false,
+                target: { schema: "public", name: "active_users" },
+                newSchema: "public",
+                newName: "active_members",
+            },
+            indexesByTable
+        );
+
+        expect(model.views[0].name).toBe("active_members");
+        expect(logger.log).not.toHaveBeenCalled();
+    });
+
+    it("should rename types and every column and signature using them", () => {
+        applyRenameStatement(
+            model,
+            {
+                kind: "type",
+                ifExists: false,
+                target: { schema: "public", name: "mood" },
+                newSchema: "public",
+                newName: "feeling",
+            },
+            indexesByTable
+        );
+
+        expect(model.enums[0].name).toBe("feeling");
+        expect(model.tables[0].columns[1].type).toBe("feeling");
+        expect(model.functions[0].args[0].type).toBe("feeling");
+        expect(model.functions[0].returns).toBe("feeling");
+    });
+
+    it("should drop and rename domains with the columns using them", () => {
+        applyRenameStatement(
+            model,
+            {
+                kind: "domain",
+                ifExists: false,
+                target: { schema: "public", name: "email" },
+                newSchema: "public",
+                newName: "email_address",
+            },
+            indexesByTable
+        );
+
+        expect(model.domains[0].name).toBe("email_address");
+        expect(model.tables[0].columns[2].type).toBe("email_address");
+
+        applyDropStatement(
+            model,
+            {
+                kind: "domain",
+                ifExists: false,
+                targets: [{ schema: "public", name: "email_address" }],
+            },
+            indexesByTable
+        );
+
+        expect(model.domains).toEqual([]);
+        expect(logger.log).not.toHaveBeenCalled();
+    });
+
+    it("should only drop and rename the overload with matching argument types", () => {
+        applyCreateFunction(model.functions, {
+            schema: "public",
+            name: "feel",
+            args: [
+                { name: "m", type: "mood" },
+                { name: "level", type: "int4" },
+            ],
+            returns: "mood",
+        });
+        applyCreateFunction(model.functions, {
+            schema: "public",
+            name: "feel",
+            args: [{ name: "tags", type: "varchar(20)[]" }],
+            returns: "text",
+        });
+
+        applyDropStatement(
+            model,
+            {
+                kind: "function",
+                ifExists: false,
+                targets: [
+                    {
+                        schema: "public",
+                        name: "feel",
+                        argTypes: ["public.mood", "integer"],
+                    },
+                ],
+            },
+            indexesByTable
+        );
+        applyRenameStatement(
+            model,
+            {
+                kind: "function",
+                ifExists: false,
+                target: {
+                    schema: "public",
+                    name: "feel",
+                    argTypes: ["character varying[]"],
+                },
+                newSchema: "public",
+                newName: "tag",
+            },
+            indexesByTable
+        );
+
+        expect(model.functions.map((f) => [f.name, f.args.length])).toEqual([
+            ["feel", 1],
+            ["tag", 1],
+        ]);
+        expect(model.functions[0].args[0].type).toBe("mood");
+        expect(logger.log).not.toHaveBeenCalled();
+    });
+
+    it("should replace a function with the same argument types", () => {
+        applyCreateFunction(model.functions, {
+            schema: "public",
+            name: "feel",
+            args: [{ name: "other", type: '"mood"' }],
+            returns: "text",
+        });
+
+        expect(model.functions).toHaveLength(1);
+        expect(model.functions[0].returns).toBe("text");
+    });
+
+    it("should rename functions and warn for unknown targets", () => {
+        applyRenameStatement(
+            model,
+            {
+                kind: "function",
+                ifExists: false,
+                target: { schema: "public", name: "feel" },
+                newSchema: "public",
+                newName: "sense",
+            },
+            indexesByTable
+        );
+        expect(model.functions[0].name).toBe("sense");
+
+        applyRenameStatement(
+            model,
+            {
+                kind: "view",
+                ifExists: false,
+                target: { schema: "public", name: "nope" },
+                newSchema: "public",
+                newName: "still_nope",
+            },
+            indexesByTable
+        );
+        expect(logger.log).toHaveBeenCalledWith(
+            expect.stringContaining("ALTER VIEW public.nope"),
+            "yellow"
+        );
+    });
+});
+
+describe("applyAlterEnumChange", () => {
+    let enums: EnumDefinition[];
+
+    beforeEach(() => {
+        vi.spyOn(logger, "log").mockImplementation(() => {});
+        enums = [{ schema: "public", name: "mood", values: ["happy", "sad"] }];
+    });
+
+    function addValue(value: string, position: object = {}) {
+        applyAlterEnumChange(enums, {
+            schema: "public",
+            enumName: "mood",
+            action: {
+                kind: "add_value",
+                value,
+                ifNotExists: false,
+                ...position,
+            },
+        });
+    }
+
+    it("should append values and honour BEFORE/AFTER", () => {
+        addValue("angry");
+        addValue("ecstatic", { before: "happy" });
+        addValue("meh", { after: "happy" });
+
+        expect(enums[0].values).toEqual([
+            "ecstatic",
+            "happy",
+            "meh",
+            "sad",
+            "angry",
+        ]);
+    });
+
+    it("should rename values in place", () => {
+        applyAlterEnumChange(enums, {
+            schema: "public",
+            enumName: "mood",
+            action: { kind: "rename_value", value: "sad", newValue: "blue" },
+        });
+
+        expect(enums[0].values).toEqual(["happy", "blue"]);
+    });
+
+    it("should skip duplicates silently only with IF NOT EXISTS", () => {
+        applyAlterEnumChange(enums, {
+            schema: "public",
+            enumName: "mood",
+            action: { kind: "add_value", value: "sad", ifNotExists: true },
+        });
+        expect(logger.log).not.toHaveBeenCalled();
+
+        addValue("sad");
+        expect(logger.log).toHaveBeenCalledWith(
+            expect.stringContaining("'sad' already exists in mood"),
+            "yellow"
+        );
+        expect(enums[0].values).toEqual(["happy", "sad"]);
+    });
+
+    it("should warn for unknown enums and neighbour values", () => {
+        addValue("meh", { after: "indifferent" });
+        expect(logger.log).toHaveBeenCalledWith(
+            expect.stringContaining("'indifferent' not found in mood"),
+            "yellow"
+        );
+
+        applyAlterEnumChange(enums, {
+            schema: "auth",
+            enumName: "mood",
+            action: { kind: "add_value", value: "x", ifNotExists: false },
+        });
+        expect(logger.log).toHaveBeenCalledWith(
+            expect.stringContaining("unknown enum auth.mood"),
+            "yellow"
+        );
+        expect(enums[0].values).toEqual(["happy", "sad"]);
+    });
+});
+
+describe("applyAlterDomainChange", () => {
+    let domains: DomainDefinition[];
+
+    beforeEach(() => {
+        vi.spyOn(logger, "log").mockImplementation(() => {});
+        domains = [
+            {
+                schema: "public",
+                name: "status",
+                baseType: "text",
+                isArray: false,
+                nullable: true,
+                defaultValue: null,
+                checkConstraints: [
+                    { name: "status_check", expression: "VALUE <> ''" },
+                ],
+            },
+        ];
+    });
+
+    it("should change nullability and defaults", () => {
+        applyAlterDomainChange(domains, {
+            schema: "public",
+            domainName: "status",
+            action: { kind: "set_not_null" },
+        });
+        applyAlterDomainChange(domains, {
+            schema: "public",
+            domainName: "status",
+            action: { kind: "set_default", defaultValue: "'active'" },
+        });
+
+        expect(domains[0].nullable).toBe(false);
+        expect(domains[0].defaultValue).toBe("'active'");
+
+        applyAlterDomainChange(domains, {
+            schema: "public",
+            domainName: "status",
+            action: { kind: "drop_default" },
+        });
+        expect(domains[0].defaultValue).toBeNull();
+    });
+
+    it("should add and drop CHECK constraints", () => {
+        applyAlterDomainChange(domains, {
+            schema: "public",
+            domainName: "status",
+            action: {
+                kind: "add_check",
+                constraint: {
+                    name: "status_values",
+                    expression: "VALUE IN ('active', 'archived')",
+                    column: "VALUE",
+                    allowedValues: ["active", "archived"],
+                },
+            },
+        });
+        applyAlterDomainChange(domains, {
+            schema: "public",
+            domainName: "status",
+            action: {
+                kind: "drop_constraint",
+                constraintName: "status_check",
+                ifExists: false,
+            },
+        });
+
+        expect(domains[0].checkConstraints?.map((c) => c.name)).toEqual([
+            "status_values",
+        ]);
+    });
+
+    it("should warn for unknown domains", () => {
+        applyAlterDomainChange(domains, {
+            schema: "auth",
+            domainName: "status",
+            action: { kind: "drop_not_null" },
+        });
+
+        expect(logger.log).toHaveBeenCalledWith(
+            expect.stringContaining("unknown domain auth.status"),
+            "yellow"
+        );
+    });
+});
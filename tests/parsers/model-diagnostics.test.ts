@@ -0,0 +1,182 @@
+/**
+ * Tests for schema model diagnostics
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { collectModelDiagnostics } from "../../src/parsers/model-diagnostics.js";
+import {
+    createDiagnosticCollector,
+    type DiagnosticCollector,
+} from "../../src/utils/diagnostics.js";
+import { column, table, model } from "../helpers/schema-model.js";
+
+describe("collectModelDiagnostics", () => {
+    let collector: DiagnosticCollector;
+
+    beforeEach(() => {
+        collector = createDiagnosticCollector();
+    });
+
+    it("should report columns whose type maps to unknown", () => {
+        const location = { file: "a.sql", line: 2, column: 3 };
+
+        collectModelDiagnostics(
+            model({
+                tables: [
+                    table("docs", [
+                        column("id", "uuid"),
+                        column("path", "ltree", { location }),
+                        column("status", "doc_status"),
+                    ]),
+                ],
+                enums: [
+                    { schema: "public", name: "doc_status", values: ["draft"] },
+                ],
+            }),
+            collector
+        );
+
+        expect(collector.diagnostics).toEqual([
+            {
+                severity: "warning",
+                code: "unknown-type",
+                message:
+                    'Column public.docs.path has type "ltree", generated as unknown',
+                location,
+            },
+        ]);
+    });
+
+    it("should report view columns that could not be inferred", () => {
+        const location = { file: "b.sql", line: 4, column: 1 };
+
+        collectModelDiagnostics(
+            model({
+                views: [
+                    {
+                        schema: "public",
+                        name: "stats",
+                        columns: [
+                            column("total", "numeric"),
+                            column("latest", "unknown"),
+                        ],
+                        isMaterialized: false,
+                        location,
+                    },
+                ],
+            }),
+            collector
+        );
+
+        expect(collector.diagnostics).toEqual([
+            {
+                severity: "warning",
+                code: "unknown-type",
+                message:
+                    "Could not infer the type of view column public.stats.latest from its definition",
+                location,
+            },
+        ]);
+    });
+
+    it("should report foreign keys to unknown tables and columns", () => {
+        const posts = table(
+            "posts",
+            [column("id", "uuid"), column("user_id", "uuid")],
+            {
+                relationships: [
+                    {
+                        foreignKeyName: "posts_user_id_fkey",
+                        columns: ["user_id"],
+                        isOneToOne: false,
+                        referencedRelation: "users",
+                        referencedColumns: ["uuid"],
+                    },
+                    {
+                        foreignKeyName: "posts_org_id_fkey",
+                        columns: ["org_id"],
+                        isOneToOne: false,
+                        referencedRelation: "auth.orgs",
+                        referencedColumns: ["id"],
+                    },
+                ],
+            }
+        );
+
+        collectModelDiagnostics(
+            model({ tables: [table("users", [column("id", "uuid")]), posts] }),
+            collector
+        );
+
+        expect(collector.diagnostics.map((d) => d.message)).toEqual([
+            "Foreign key posts_user_id_fkey on public.posts references unknown column(s) uuid of public.users",
+            "Foreign key posts_org_id_fkey on public.posts references unknown table auth.orgs",
+        ]);
+        expect(
+            collector.diagnostics.every(
+                (d) => d.code === "unresolved-foreign-key"
+            )
+        ).toBe(true);
+    });
+
+    it("should accept schema-qualified and unqualified targets that exist", () => {
+        const profiles = table("profiles", [column("user_id", "uuid")], {
+            relationships: [
+                {
+                    foreignKeyName: "profiles_user_id_fkey",
+                    columns: ["user_id"],
+                    isOneToOne: true,
+                    referencedRelation: "auth.users",
+                    referencedColumns: ["id"],
+                },
+                {
+                    foreignKeyName: "profiles_self_fkey",
+                    columns: ["user_id"],
+                    isOneToOne: false,
+                    referencedRelation: "profiles",
+                    referencedColumns: ["user_id"],
+                },
+            ],
+        });
+
+        collectModelDiagnostics(
+            model({
+                tables: [
+                    table("users", [column("id", "uuid")], { schema: "auth" }),
+                    profiles,
+                ],
+            }),
+            collector
+        );
+
+        expect(collector.diagnostics).toEqual([]);
+    });
+
+    it("should look up unqualified targets in the table's own schema only", () => {
+        const posts = table("posts", [column("user_id", "uuid")], {
+            relationships: [
+                {
+                    foreignKeyName: "posts_user_id_fkey",
+                    columns: ["user_id"],
+                    isOneToOne: false,
+                    referencedRelation: "users",
+                    referencedColumns: ["id"],
+                },
+            ],
+        });
+
+        collectModelDiagnostics(
+            model({
+                tables: [
+                    table("users", [column("id", "uuid")], { schema: "auth" }),
+                    posts,
+                ],
+            }),
+            collector
+        );
+
+        expect(collector.diagnostics.map((d) => d.message)).toEqual([
+            "Foreign key posts_user_id_fkey on public.posts references unknown table users",
+        ]);
+    });
+});
@@ -3,6 +3,7 @@
  *
  * Coverage targets:
  * - parseSqlFiles: complete orchestration flow
+ * - parseSqlSources: in-memory SQL
  * - File reading and statement splitting
  * - Parsing all SQL definition types
  * - Comment handling
@@ -10,12 +11,17 @@
  * - ALTER TABLE constraint handling
  * - Foreign key relationship detection
  * - Error handling
+ * - Source locations and diagnostics
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { parseSqlFiles } from "../../src/parsers/sql-file-parser.js";
+import {
+    parseSqlFiles,
+    parseSqlSources,
+} from "../../src/parsers/sql-file-parser.js";
 import * as fs from "fs";
 import * as logger from "../../src/utils/logger.js";
+import { createDiagnosticCollector } from "../../src/utils/diagnostics.js";
 import * as sqlParsers from "../../src/parsers/sql-parsers.js";
 import type {
     TableDefinition,
@@ -1625,5 +1631,456 @@ describe("SQL File Parser", () => {
                 );
             });
         });
+
+        describe("Migration replay", () => {
+            beforeEach(() => {
+                // Run the real statement parsers against multi-file migrations
+                vi.restoreAllMocks();
+                vi.spyOn(logger, "log").mockImplementation(() => {});
+            });
+
+            function mockMigrations(files: Record<string, string>): string[] {
+                vi.mocked(fs.readFileSync).mockImplementation(
+                    (path) => files[path as string]
+                );
+                return Object.keys(files);
+            }
+
+            it("should replay ALTER TABLE column changes across files in order", () => {
+                const paths = mockMigrations({
+                    "/m/001_init.sql": `
+                        CREATE TABLE users (
+                            id uuid PRIMARY KEY,
+                            name text,
+                            legacy_code text
+                        );
+                        CREATE INDEX idx_users_name ON users (name);
+                    `,
+                    "/m/002_changes.sql": `
+                        ALTER TABLE users ADD COLUMN email varchar(255);
+                        ALTER TABLE users RENAME COLUMN name TO full_name;
+                        ALTER TABLE users DROP COLUMN legacy_code;
+                        ALTER TABLE users ALTER COLUMN email TYPE text;
+                    `,
+                    "/m/003_constraints.sql": `
+                        ALTER TABLE users
+                            ALTER COLUMN email SET NOT NULL,
+                            ALTER COLUMN full_name SET DEFAULT 'anonymous';
+                        COMMENT ON COLUMN users.email IS 'Login email';
+                    `,
+                });
+
+                const { tables } = parseSqlFiles(paths, "public");
+                const users = tables[0];
+
+                expect(users.columns.map((c) => c.name)).toEqual([
+                    "id",
+                    "full_name",
+                    "email",
+                ]);
+                expect(users.columns[1].defaultValue).toBe("'anonymous'");
+                expect(users.columns[2]).toMatchObject({
+                    type: "text",
+                    nullable: false,
+                    comment: "Login email",
+                });
+                expect(users.indexes[0].columns).toEqual(["full_name"]);
+            });
+
+            it("should follow renamed and dropped columns in ALTER TABLE foreign keys", () => {
+                const paths = mockMigrations({
+                    "/m/001_init.sql": `
+                        CREATE TABLE users (id uuid PRIMARY KEY);
+                        CREATE TABLE posts (
+                            id uuid PRIMARY KEY,
+                            user_id uuid,
+                            editor_id uuid
+                        );
+                        ALTER TABLE posts ADD CONSTRAINT posts_user_id_fkey FOREIGN KEY (user_id) REFERENCES users(id);
+                        ALTER TABLE posts ADD CONSTRAINT posts_editor_id_fkey FOREIGN KEY (editor_id) REFERENCES users(id);
+                    `,
+                    "/m/002_rename.sql": `
+                        ALTER TABLE posts RENAME COLUMN user_id TO author_id;
+                        ALTER TABLE posts DROP COLUMN editor_id;
+                        ALTER TABLE posts ADD CONSTRAINT posts_author_id_key UNIQUE (author_id);
+                    `,
+                });
+
+                const { tables } = parseSqlFiles(paths, "public");
+                const posts = tables.find((t) => t.name === "posts")!;
+
+                expect(posts.relationships).toEqual([
+                    {
+                        foreignKeyName: "posts_user_id_fkey",
+                        columns: ["author_id"],
+                        isOneToOne: true,
+                        referencedRelation: "users",
+                        referencedColumns: ["id"],
+                    },
+                ]);
+            });
+
+            it("should drop and rename tables, views, types and functions", () => {
+                const paths = mockMigrations({
+                    "/m/001_init.sql": `
+                        CREATE TYPE status AS ENUM ('active', 'inactive');
+                        CREATE TYPE mood AS ENUM ('happy', 'sad');
+                        CREATE TABLE users (
+                            id uuid PRIMARY KEY,
+                            status status
+                        );
+                        CREATE TABLE sessions (id uuid PRIMARY KEY);
+                        CREATE TABLE posts (
+                            id uuid PRIMARY KEY,
+                            user_id uuid REFERENCES users(id)
+                        );
+                        CREATE INDEX idx_users_status ON users (status);
+                        CREATE VIEW active_users AS SELECT id FROM users;
+                        CREATE FUNCTION ping() RETURNS text AS $$ SELECT 'pong' $$ LANGUAGE sql;
+                    `,
+                    "/m/002_lifecycle.sql": `
+                        DROP TABLE sessions;
+                        DROP TYPE IF EXISTS mood;
+                        DROP FUNCTION ping();
+                        ALTER TABLE users RENAME TO members;
+                        ALTER TYPE status RENAME TO member_status;
+                        ALTER VIEW active_users RENAME TO active_members;
+                    `,
+                });
+
+                const { tables, enums, functions, views } = parseSqlFiles(
+                    paths,
+                    "public"
+                );
+
+                expect(tables.map((t) => t.name)).toEqual(["members", "posts"]);
+                expect(enums.map((e) => e.name)).toEqual(["member_status"]);
+                expect(functions).toEqual([]);
+                expect(views.map((v) => v.name)).toEqual(["active_members"]);
+
+                const members = tables[0];
+                expect(members.columns[1].type).toBe("member_status");
+                expect(members.indexes.map((i) => i.name)).toEqual([
+                    "idx_users_status",
+                ]);
+                expect(tables[1].relationships[0].referencedRelation).toBe(
+                    "members"
+                );
+                expect(tables[1].columns[1].foreignKey!.table).toBe("members");
+            });
+
+            it("should move tables to another schema with SET SCHEMA", () => {
+                const paths = mockMigrations({
+                    "/m/001_init.sql": `
+                        CREATE TABLE audit_log (id bigint PRIMARY KEY);
+                        ALTER TABLE audit_log SET SCHEMA archive;
+                    `,
+                });
+
+                const { tables } = parseSqlFiles(paths, "public");
+
+                expect(tables[0]).toMatchObject({
+                    schema: "archive",
+                    name: "audit_log",
+                });
+            });
+
+            it("should drop views created earlier in the same file", () => {
+                const paths = mockMigrations({
+                    "/m/001_init.sql": `
+                        CREATE TABLE users (id uuid PRIMARY KEY);
+                        CREATE VIEW v_users AS SELECT id FROM users;
+                        DROP VIEW v_users;
+                        CREATE VIEW v_members AS SELECT id FROM users;
+                    `,
+                });
+
+                const { views } = parseSqlFiles(paths, "public");
+
+                expect(views.map((v) => v.name)).toEqual(["v_members"]);
+            });
+
+            it("should replay enum value changes across files", () => {
+                const paths = mockMigrations({
+                    "/m/001_init.sql": `
+                        CREATE TYPE status AS ENUM ('draft', 'published');
+                    `,
+                    "/m/002_review.sql": `
+                        ALTER TYPE status ADD VALUE 'in_review' BEFORE 'published';
+                        ALTER TYPE status ADD VALUE IF NOT EXISTS 'archived';
+                    `,
+                    "/m/003_rename.sql": `
+                        ALTER TYPE status RENAME VALUE 'draft' TO 'pending';
+                        ALTER TYPE status ADD VALUE IF NOT EXISTS 'archived';
+                    `,
+                });
+
+                const { enums } = parseSqlFiles(paths, "public");
+
+                expect(enums[0].values).toEqual([
+                    "pending",
+                    "in_review",
+                    "published",
+                    "archived",
+                ]);
+            });
+
+            it("should replay domain definitions and changes across files", () => {
+                const paths = mockMigrations({
+                    "/m/001_init.sql": `
+                        CREATE DOMAIN email AS citext CHECK (VALUE ~ '@');
+                        CREATE DOMAIN legacy AS text;
+                        CREATE TABLE users (id uuid PRIMARY KEY, email email);
+                    `,
+                    "/m/002_changes.sql": `
+                        ALTER DOMAIN email SET NOT NULL;
+                        ALTER DOMAIN email DROP CONSTRAINT email_check;
+                        ALTER DOMAIN email RENAME TO email_address;
+                        DROP DOMAIN legacy;
+                    `,
+                });
+
+                const { domains, tables } = parseSqlFiles(paths, "public");
+
+                expect(domains).toEqual([
+                    expect.objectContaining({
+                        name: "email_address",
+                        baseType: "citext",
+                        nullable: false,
+                        checkConstraints: [],
+                    }),
+                ]);
+                expect(tables[0].columns[1].type).toBe("email_address");
+                expect(logger.log).not.toHaveBeenCalledWith(
+                    expect.anything(),
+                    "yellow"
+                );
+            });
+
+            it("should warn when dropping an object that was never created", () => {
+                const paths = mockMigrations({
+                    "/m/001_init.sql": `
+                        DROP TABLE ghosts;
+                        DROP VIEW IF EXISTS phantom_view;
+                    `,
+                });
+
+                const diagnostics = createDiagnosticCollector();
+
+                parseSqlFiles(paths, "public", true, diagnostics);
+
+                expect(
+                    diagnostics.diagnostics
+                        .filter((d) => d.code === "unapplied-statement")
+                        .map((d) => d.message)
+                ).toEqual([
+                    "DROP TABLE public.ghosts: table was never created",
+                ]);
+            });
+        });
+
+        describe("Statement splitting", () => {
+            beforeEach(() => {
+                vi.restoreAllMocks();
+                vi.spyOn(logger, "log").mockImplementation(() => {});
+            });
+
+            it("should keep semicolons inside dollar quotes, strings and comments", () => {
+                vi.mocked(fs.readFileSync).mockReturnValue(`
+                    /* setup; run first */
+                    CREATE TABLE notes (
+                        id bigint PRIMARY KEY,
+                        body text DEFAULT 'a;b' -- trailing; comment
+                    );
+                    CREATE FUNCTION touch(note_id bigint) RETURNS void AS $body$
+                    BEGIN
+                        UPDATE notes SET body = E'\\';' WHERE id = note_id;
+                    END;
+                    $body$ LANGUAGE plpgsql; CREATE TABLE tags (id bigint);
+                `);
+
+                const { tables, functions } = parseSqlFiles(
+                    ["/m/001_init.sql"],
+                    "public"
+                );
+
+                expect(tables.map((t) => t.name)).toEqual(["notes", "tags"]);
+                expect(tables[0].columns[1].defaultValue).toBe("'a;b'");
+                expect(functions.map((f) => f.name)).toEqual(["touch"]);
+            });
+        });
+
+        describe("Source locations and diagnostics", () => {
+            beforeEach(() => {
+                vi.restoreAllMocks();
+                vi.spyOn(logger, "log").mockImplementation(() => {});
+            });
+
+            it("should record file, line and column of parsed objects", () => {
+                vi.mocked(fs.readFileSync).mockReturnValue(
+                    [
+                        "-- users",
+                        "CREATE TABLE users (",
+                        '  id uuid PRIMARY KEY, "Display Name" text',
+                        ");",
+                        "  CREATE TYPE mood AS ENUM ('happy');",
+                        "CREATE INDEX idx_users_id ON users (id);",
+                        "CREATE VIEW v AS SELECT id FROM users;",
+                        "ALTER TABLE users ADD COLUMN bio text;",
+                    ].join("\n")
+                );
+
+                const { tables, enums, views } = parseSqlFiles(
+                    ["/m/001.sql"],
+                    "public"
+                );
+                const users = tables[0];
+                const at = (line: number, column: number) => ({
+                    file: "/m/001.sql",
+                    line,
+                    column,
+                });
+
+                expect(users.location).toEqual(at(2, 1));
+                expect(users.columns.map((c) => c.location)).toEqual([
+                    at(3, 3),
+                    at(3, 24),
+                    at(8, 1),
+                ]);
+                expect(enums[0].location).toEqual(at(5, 3));
+                expect(users.indexes[0].location).toEqual(at(6, 1));
+                expect(views[0].location).toEqual(at(7, 1));
+            });
+
+            it("should report unparsed and skipped statements", () => {
+                vi.mocked(fs.readFileSync).mockReturnValue(
+                    [
+                        "CREATE TABLE broken (;",
+                        "GRANT SELECT ON users TO anon;",
+                    ].join("\n")
+                );
+                const diagnostics = createDiagnosticCollector();
+
+                parseSqlFiles(["/m/001.sql"], "public", true, diagnostics);
+
+                expect(diagnostics.diagnostics).toEqual([
+                    {
+                        severity: "warning",
+                        code: "unparsed-statement",
+                        message:
+                            "Could not parse statement: CREATE TABLE broken (",
+                        location: { file: "/m/001.sql", line: 1, column: 1 },
+                    },
+                    {
+                        severity: "info",
+                        code: "skipped-statement",
+                        message:
+                            "Statement skipped: GRANT SELECT ON users TO anon",
+                        location: { file: "/m/001.sql", line: 2, column: 1 },
+                    },
+                ]);
+            });
+
+            it("should report migration statements that could not be applied", () => {
+                vi.mocked(fs.readFileSync).mockReturnValue(
+                    [
+                        "CREATE TABLE users (id uuid PRIMARY KEY);",
+                        "DROP TABLE posts;",
+                        "ALTER TABLE users DROP COLUMN name;",
+                        "ALTER TABLE profiles ADD COLUMN bio text;",
+                        "ALTER FUNCTION ping() RENAME TO pong;",
+                        "ALTER TYPE mood ADD VALUE 'sad';",
+                        "ALTER DOMAIN email SET NOT NULL;",
+                    ].join("\n")
+                );
+                const diagnostics = createDiagnosticCollector();
+
+                parseSqlFiles(["/m/001.sql"], "public", true, diagnostics);
+
+                expect(logger.log).not.toHaveBeenCalledWith(
+                    expect.stringContaining("⚠"),
+                    "yellow"
+                );
+                expect(diagnostics.diagnostics).toEqual(
+                    [
+                        [2, "DROP TABLE public.posts: table was never created"],
+                        [
+                            3,
+                            "Column users.name not found, ALTER TABLE action skipped",
+                        ],
+                        [
+                            4,
+                            "ALTER TABLE on unknown table public.profiles, skipped",
+                        ],
+                        [
+                            5,
+                            "ALTER FUNCTION public.ping: function was never created",
+                        ],
+                        [6, "ALTER TYPE on unknown enum public.mood, skipped"],
+                        [
+                            7,
+                            "ALTER DOMAIN on unknown domain public.email, skipped",
+                        ],
+                    ].map(([line, message]) => ({
+                        severity: "warning",
+                        code: "unapplied-statement",
+                        message,
+                        location: { file: "/m/001.sql", line, column: 1 },
+                    }))
+                );
+            });
+
+            it("should report files that fail to parse as errors", () => {
+                vi.mocked(fs.readFileSync).mockImplementation(() => {
+                    throw new Error("EACCES");
+                });
+                const diagnostics = createDiagnosticCollector();
+
+                parseSqlFiles(["/m/001.sql"], "public", true, diagnostics);
+
+                expect(diagnostics.diagnostics).toEqual([
+                    {
+                        severity: "error",
+                        code: "parse-error",
+                        message: "Error parsing /m/001.sql: EACCES",
+                    },
+                ]);
+            });
+        });
+    });
+
+    describe("parseSqlSources", () => {
+        beforeEach(() => {
+            vi.restoreAllMocks();
+            vi.spyOn(logger, "log").mockImplementation(() => {});
+        });
+
+        it("should replay in-memory sources in order without reading files", () => {
+            const diagnostics = createDiagnosticCollector();
+
+            const result = parseSqlSources(
+                [
+                    {
+                        path: "001_init.sql",
+                        content: "CREATE TABLE users (id uuid PRIMARY KEY);",
+                    },
+                    {
+                        path: "002_rename.sql",
+                        content: "ALTER TABLE users RENAME TO accounts;",
+                    },
+                ],
+                "public",
+                true,
+                diagnostics
+            );
+
+            expect(fs.readFileSync).not.toHaveBeenCalled();
+            expect(result.tables.map((t) => t.name)).toEqual(["accounts"]);
+            expect(result.tables[0].location).toEqual({
+                file: "001_init.sql",
+                line: 1,
+                column: 1,
+            });
+        });
     });
 });
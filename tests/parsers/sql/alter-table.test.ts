@@ -0,0 +1,244 @@
+/**
+ * Tests for ALTER TABLE column change parser
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseAlterTableColumnChanges } from "../../../src/parsers/sql/alter-table.js";
+
+describe("parseAlterTableColumnChanges", () => {
+    it("should parse ADD CONSTRAINT ... CHECK and DROP CONSTRAINT", () => {
+        const result = parseAlterTableColumnChanges(
+            "ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_status_check, ADD CONSTRAINT posts_status_check CHECK (status IN ('draft', 'archived')) NOT VALID"
+        );
+
+        expect(result!.actions).toEqual([
+            {
+                kind: "drop_constraint",
+                constraintName: "posts_status_check",
+                ifExists: true,
+            },
+            {
+                kind: "add_check",
+                constraint: {
+                    name: "posts_status_check",
+                    expression: "status IN ('draft', 'archived')",
+                    column: "status",
+                    allowedValues: ["draft", "archived"],
+                },
+            },
+        ]);
+    });
+
+    it("should parse the CHECK of an added column", () => {
+        const result = parseAlterTableColumnChanges(
+            "ALTER TABLE posts ADD COLUMN level int CHECK (level IN (1, 2))"
+        );
+
+        expect(result!.actions).toEqual([
+            expect.objectContaining({ kind: "add_column" }),
+            {
+                kind: "add_check",
+                constraint: {
+                    name: "posts_level_check",
+                    expression: "level IN (1, 2)",
+                    column: "level",
+                    allowedValues: [1, 2],
+                },
+            },
+        ]);
+    });
+
+    it("should parse ADD COLUMN", () => {
+        const result = parseAlterTableColumnChanges(
+            "ALTER TABLE users ADD COLUMN bio text NOT NULL DEFAULT ''"
+        );
+
+        expect(result).toEqual({
+            schema: "public",
+            tableName: "users",
+            actions: [
+                {
+                    kind: "add_column",
+                    ifNotExists: false,
+                    column: expect.objectContaining({
+                        name: "bio",
+                        type: "text",
+                        nullable: false,
+                        defaultValue: "''",
+                    }),
+                },
+            ],
+        });
+    });
+
+    it("should parse ADD without the COLUMN keyword and IF NOT EXISTS", () => {
+        const result = parseAlterTableColumnChanges(
+            "alter table public.users add if not exists tags text[]"
+        );
+
+        expect(result!.actions[0]).toMatchObject({
+            kind: "add_column",
+            ifNotExists: true,
+            column: { name: "tags", type: "text", isArray: true },
+        });
+    });
+
+    it("should parse ADD COLUMN with an inline foreign key", () => {
+        const result = parseAlterTableColumnChanges(
+            "ALTER TABLE posts ADD COLUMN author_id uuid REFERENCES users(id)"
+        );
+
+        expect(result!.actions[0]).toMatchObject({
+            kind: "add_column",
+            column: {
+                name: "author_id",
+                foreignKey: { table: "users", column: "id" },
+            },
+        });
+    });
+
+    it("should parse DROP COLUMN", () => {
+        const result = parseAlterTableColumnChanges(
+            'ALTER TABLE ONLY "users" DROP COLUMN IF EXISTS "legacy_id" CASCADE'
+        );
+
+        expect(result!.actions).toEqual([
+            { kind: "drop_column", columnName: "legacy_id", ifExists: true },
+        ]);
+    });
+
+    it("should parse RENAME COLUMN", () => {
+        const result = parseAlterTableColumnChanges(
+            "ALTER TABLE users RENAME COLUMN name TO full_name"
+        );
+
+        expect(result!.actions).toEqual([
+            { kind: "rename_column", columnName: "name", newName: "full_name" },
+        ]);
+    });
+
+    it("should parse ALTER COLUMN TYPE with USING and length modifiers", () => {
+        const result = parseAlterTableColumnChanges(
+            "ALTER TABLE users ALTER COLUMN age SET DATA TYPE numeric(10,2) USING age::numeric"
+        );
+
+        expect(result!.actions).toEqual([
+            {
+                kind: "alter_column_type",
+                columnName: "age",
+                type: "numeric(10,2)",
+                isArray: false,
+            },
+        ]);
+    });
+
+    it("should parse ALTER COLUMN TYPE to an array type", () => {
+        const result = parseAlterTableColumnChanges(
+            "ALTER TABLE users ALTER tags TYPE varchar(20)[]"
+        );
+
+        expect(result!.actions[0]).toEqual({
+            kind: "alter_column_type",
+            columnName: "tags",
+            type: "varchar(20)",
+            isArray: true,
+        });
+    });
+
+    it("should parse SET/DROP NOT NULL and SET/DROP DEFAULT", () => {
+        const result = parseAlterTableColumnChanges(`
+            ALTER TABLE users
+                ALTER COLUMN email SET NOT NULL,
+                ALTER COLUMN nickname DROP NOT NULL,
+                ALTER COLUMN status SET DEFAULT 'active',
+                ALTER COLUMN created_at DROP DEFAULT
+        `);
+
+        expect(result!.actions).toEqual([
+            { kind: "set_not_null", columnName: "email" },
+            { kind: "drop_not_null", columnName: "nickname" },
+            {
+                kind: "set_default",
+                columnName: "status",
+                defaultValue: "'active'",
+            },
+            { kind: "drop_default", columnName: "created_at" },
+        ]);
+    });
+
+    it("should parse identity and generation expression changes", () => {
+        const result = parseAlterTableColumnChanges(`
+            ALTER TABLE orders
+                ALTER COLUMN id ADD GENERATED ALWAYS AS IDENTITY (START WITH 100),
+                ALTER COLUMN legacy_id SET GENERATED BY DEFAULT RESTART,
+                ALTER COLUMN old_id DROP IDENTITY IF EXISTS,
+                ALTER COLUMN total SET EXPRESSION AS (price * quantity),
+                ALTER COLUMN subtotal DROP EXPRESSION
+        `);
+
+        expect(result!.actions).toEqual([
+            { kind: "set_identity", columnName: "id", identity: "always" },
+            {
+                kind: "set_identity",
+                columnName: "legacy_id",
+                identity: "by_default",
+            },
+            { kind: "drop_identity", columnName: "old_id" },
+            {
+                kind: "set_expression",
+                columnName: "total",
+                expression: "price * quantity",
+            },
+            { kind: "drop_expression", columnName: "subtotal" },
+        ]);
+    });
+
+    it("should keep commas inside defaults and types within one action", () => {
+        const result = parseAlterTableColumnChanges(
+            "ALTER TABLE prices ADD COLUMN amount numeric(12,2) DEFAULT round(1.5, 0), DROP COLUMN old_amount"
+        );
+
+        expect(result!.actions.map((a) => a.kind)).toEqual([
+            "add_column",
+            "drop_column",
+        ]);
+    });
+
+    it("should ignore non-column actions in a mixed statement", () => {
+        const result = parseAlterTableColumnChanges(
+            "ALTER TABLE users ADD COLUMN bio text, ADD CONSTRAINT users_email_key UNIQUE (email)"
+        );
+
+        expect(result!.actions).toHaveLength(1);
+        expect(result!.actions[0].kind).toBe("add_column");
+    });
+
+    it("should return null for constraint-only and table-level statements", () => {
+        expect(
+            parseAlterTableColumnChanges(
+                "ALTER TABLE posts ADD CONSTRAINT fk FOREIGN KEY (user_id) REFERENCES users(id)"
+            )
+        ).toBeNull();
+        expect(
+            parseAlterTableColumnChanges("ALTER TABLE users RENAME TO members")
+        ).toBeNull();
+        expect(
+            parseAlterTableColumnChanges(
+                "ALTER TABLE users ENABLE ROW LEVEL SECURITY"
+            )
+        ).toBeNull();
+        expect(
+            parseAlterTableColumnChanges("CREATE TABLE users (id uuid)")
+        ).toBeNull();
+    });
+
+    it("should use the schema from a qualified table name", () => {
+        const result = parseAlterTableColumnChanges(
+            'ALTER TABLE "auth"."users" DROP COLUMN phone',
+            "public"
+        );
+
+        expect(result!.schema).toBe("auth");
+        expect(result!.tableName).toBe("users");
+    });
+});
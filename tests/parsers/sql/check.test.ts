@@ -0,0 +1,88 @@
+/**
+ * Tests for CHECK constraint parser
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+    parseCheckConstraint,
+    splitCheckClauses,
+} from "../../../src/parsers/sql/check.js";
+
+describe("splitCheckClauses", () => {
+    it("should split named and unnamed CHECK clauses", () => {
+        const result = splitCheckClauses(
+            "text not null check (a in ('x')) constraint \"b check\" CHECK ((length(a) > 1)) default 'y'"
+        );
+
+        expect(result.checks).toEqual([
+            { name: null, expression: "a in ('x')" },
+            { name: "b check", expression: "(length(a) > 1)" },
+        ]);
+        expect(result.rest).toBe("text not null   default 'y'");
+    });
+
+    it("should ignore CHECK inside strings", () => {
+        expect(splitCheckClauses("text default 'check (x)'")).toEqual({
+            checks: [],
+            rest: "text default 'check (x)'",
+        });
+    });
+});
+
+describe("parseCheckConstraint", () => {
+    it("should narrow IN lists of strings", () => {
+        expect(
+            parseCheckConstraint("status IN ('draft', 'it''s')", "posts")
+        ).toEqual({
+            name: "posts_status_check",
+            expression: "status IN ('draft', 'it''s')",
+            column: "status",
+            allowedValues: ["draft", "it's"],
+        });
+    });
+
+    it("should narrow = ANY (ARRAY[...]) lists with casts", () => {
+        expect(
+            parseCheckConstraint(
+                "(\"kind\" = ANY (ARRAY['a'::text, 'b'::text]))",
+                "posts",
+                "posts_kind_check"
+            )
+        ).toMatchObject({ column: "kind", allowedValues: ["a", "b"] });
+
+        expect(
+            parseCheckConstraint(
+                "((kind)::text = ANY ((ARRAY['a'::character varying, 'b'::character varying])::text[]))",
+                "posts"
+            )
+        ).toMatchObject({ column: "kind", allowedValues: ["a", "b"] });
+    });
+
+    it("should narrow numeric lists", () => {
+        expect(
+            parseCheckConstraint("priority in (1, 2.5, -3, 1)", "tasks")
+        ).toMatchObject({ column: "priority", allowedValues: [1, 2.5, -3] });
+    });
+
+    it("should keep other expressions as metadata only", () => {
+        expect(
+            parseCheckConstraint(
+                "char_length(title) > 3",
+                "posts",
+                null,
+                "title"
+            )
+        ).toEqual({
+            name: "posts_title_check",
+            expression: "char_length(title) > 3",
+            column: "title",
+        });
+        expect(parseCheckConstraint("a in ('x', 1)", "t")).toEqual({
+            name: "t_check",
+            expression: "a in ('x', 1)",
+        });
+        expect(
+            parseCheckConstraint("a in ('x') or b in ('y')", "t")
+        ).not.toHaveProperty("allowedValues");
+    });
+});
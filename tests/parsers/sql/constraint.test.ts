@@ -50,6 +50,7 @@ describe("parseAlterTableForeignKey", () => {
 
         expect(result).toBeTruthy();
         expect(result!.relationship.foreignKeyName).toBe("fk_user");
+        expect(result!.relationship.onDelete).toBe("cascade");
     });
 
     it("should parse foreign key with on update", () => {
@@ -57,6 +58,8 @@ describe("parseAlterTableForeignKey", () => {
         const result = parseAlterTableForeignKey(sql);
 
         expect(result).toBeTruthy();
+        expect(result!.relationship.onUpdate).toBe("cascade");
+        expect(result!.relationship).not.toHaveProperty("onDelete");
     });
 
     it("should parse quoted table names", () => {
@@ -0,0 +1,131 @@
+/**
+ * Tests for domain definition parser
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+    parseDomainDefinition,
+    parseAlterDomainChange,
+} from "../../../src/parsers/sql/domain.js";
+
+describe("parseDomainDefinition", () => {
+    it("should parse a domain with its base type", () => {
+        expect(parseDomainDefinition("CREATE DOMAIN email AS citext")).toEqual({
+            schema: "public",
+            name: "email",
+            baseType: "citext",
+            isArray: false,
+            nullable: true,
+            defaultValue: null,
+        });
+    });
+
+    it("should parse the schema, NOT NULL and DEFAULT", () => {
+        const result = parseDomainDefinition(
+            `create domain "auth"."status" text collate "C" default 'active' not null`
+        );
+
+        expect(result).toMatchObject({
+            schema: "auth",
+            name: "status",
+            baseType: "text",
+            nullable: false,
+            defaultValue: "'active'",
+        });
+    });
+
+    it("should parse array and qualified base types", () => {
+        expect(
+            parseDomainDefinition("CREATE DOMAIN tags AS varchar(20)[]")
+        ).toMatchObject({ baseType: "varchar(20)", isArray: true });
+        expect(
+            parseDomainDefinition("CREATE DOMAIN feeling AS public.mood")
+        ).toMatchObject({ baseType: "mood", isArray: false });
+    });
+
+    it("should name CHECK constraints and narrow VALUE IN lists", () => {
+        const result = parseDomainDefinition(
+            `CREATE DOMAIN priority AS integer NOT NULL
+                CHECK (VALUE > 0)
+                CONSTRAINT priority_values CHECK (VALUE IN (1, 2, 3))`
+        );
+
+        expect(result!.nullable).toBe(false);
+        expect(result!.checkConstraints).toEqual([
+            { name: "priority_check", expression: "VALUE > 0" },
+            {
+                name: "priority_values",
+                expression: "VALUE IN (1, 2, 3)",
+                column: "VALUE",
+                allowedValues: [1, 2, 3],
+            },
+        ]);
+    });
+
+    it("should not mistake NOT NULL inside a CHECK for a constraint", () => {
+        const result = parseDomainDefinition(
+            "CREATE DOMAIN code AS text CHECK (VALUE IS NOT NULL)"
+        );
+
+        expect(result!.nullable).toBe(true);
+    });
+
+    it("should return null for other statements", () => {
+        expect(
+            parseDomainDefinition("CREATE TYPE mood AS ENUM ('a')")
+        ).toBeNull();
+    });
+});
+
+describe("parseAlterDomainChange", () => {
+    it("should parse NOT NULL and DEFAULT changes", () => {
+        expect(
+            parseAlterDomainChange("ALTER DOMAIN auth.email SET NOT NULL")
+        ).toEqual({
+            schema: "auth",
+            domainName: "email",
+            action: { kind: "set_not_null" },
+        });
+        expect(
+            parseAlterDomainChange("ALTER DOMAIN status SET DEFAULT 'active'")
+        ).toMatchObject({
+            action: { kind: "set_default", defaultValue: "'active'" },
+        });
+        expect(
+            parseAlterDomainChange("ALTER DOMAIN status DROP DEFAULT")
+        ).toMatchObject({ action: { kind: "drop_default" } });
+    });
+
+    it("should parse added and dropped constraints", () => {
+        expect(
+            parseAlterDomainChange(
+                "ALTER DOMAIN status ADD CONSTRAINT status_values CHECK (VALUE IN ('a', 'b')) NOT VALID"
+            )
+        ).toMatchObject({
+            action: {
+                kind: "add_check",
+                constraint: {
+                    name: "status_values",
+                    allowedValues: ["a", "b"],
+                },
+            },
+        });
+        expect(
+            parseAlterDomainChange(
+                "ALTER DOMAIN status DROP CONSTRAINT IF EXISTS status_values"
+            )
+        ).toMatchObject({
+            action: {
+                kind: "drop_constraint",
+                constraintName: "status_values",
+                ifExists: true,
+            },
+        });
+    });
+
+    it("should leave renames to parseRenameStatement", () => {
+        expect(
+            parseAlterDomainChange("ALTER DOMAIN status RENAME TO state")
+        ).toBeNull();
+    });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for DROP statement parser
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+    parseDropStatement,
+    parseObjectReference,
+} from "../../../src/parsers/sql/drop.js";
+
+describe("parseDropStatement", () => {
+    it("should parse DROP TABLE", () => {
+        expect(parseDropStatement("DROP TABLE users")).toEqual({
+            kind: "table",
+            ifExists: false,
+            targets: [{ schema: "public", name: "users" }],
+        });
+    });
+
+    it("should parse IF EXISTS, several targets and CASCADE", () => {
+        const result = parseDropStatement(
+            'drop table if exists public.users, "auth"."sessions" cascade'
+        );
+
+        expect(result).toEqual({
+            kind: "table",
+            ifExists: true,
+            targets: [
+                { schema: "public", name: "users" },
+                { schema: "auth", name: "sessions" },
+            ],
+        });
+    });
+
+    it("should map views and materialized views to the view kind", () => {
+        expect(parseDropStatement("DROP VIEW active_users")!.kind).toBe("view");
+        expect(
+            parseDropStatement("DROP MATERIALIZED VIEW IF EXISTS stats")!.kind
+        ).toBe("view");
+    });
+
+    it("should parse DROP TYPE", () => {
+        expect(parseDropStatement("DROP TYPE IF EXISTS mood RESTRICT")).toEqual(
+            {
+                kind: "type",
+                ifExists: true,
+                targets: [{ schema: "public", name: "mood" }],
+            }
+        );
+    });
+
+    it("should parse DROP DOMAIN", () => {
+        expect(parseDropStatement("DROP DOMAIN auth.email CASCADE")).toEqual({
+            kind: "domain",
+            ifExists: false,
+            targets: [{ schema: "auth", name: "email" }],
+        });
+    });
+
+    it("should parse DROP FUNCTION with argument types", () => {
+        const result = parseDropStatement(
+            "DROP FUNCTION api.search(text, integer), ping()"
+        );
+
+        expect(result).toEqual({
+            kind: "function",
+            ifExists: false,
+            targets: [
+                {
+                    schema: "api",
+                    name: "search",
+                    argTypes: ["text", "integer"],
+                },
+                { schema: "public", name: "ping", argTypes: [] },
+            ],
+        });
+    });
+
+    it("should use the default schema for unqualified names", () => {
+        expect(parseDropStatement("DROP TABLE users", "auth")!.targets).toEqual(
+            [{ schema: "auth", name: "users" }]
+        );
+    });
+
+    it("should return null for other statements", () => {
+        expect(parseDropStatement("DROP INDEX idx_users_name")).toBeNull();
+        expect(parseDropStatement("DROP POLICY p ON users")).toBeNull();
+        expect(parseDropStatement("CREATE TABLE users (id uuid)")).toBeNull();
+    });
+});
+
+describe("parseObjectReference", () => {
+    it("should reduce named and defaulted arguments to their types", () => {
+        expect(
+            parseObjectReference(
+                "f(IN user_id uuid, VARIADIC tags text[], lim integer DEFAULT 10)"
+            )
+        ).toEqual({
+            schema: "public",
+            name: "f",
+            argTypes: ["uuid", "text[]", "integer"],
+        });
+    });
+
+    it("should keep multi-word types intact", () => {
+        expect(
+            parseObjectReference(
+                "f(double precision, timestamp with time zone)"
+            )!.argTypes
+        ).toEqual(["double precision", "timestamp with time zone"]);
+    });
+
+    it("should leave OUT arguments out of the signature", () => {
+        expect(
+            parseObjectReference("f(a text, OUT b integer, INOUT c uuid)")!
+                .argTypes
+        ).toEqual(["text", "uuid"]);
+    });
+});
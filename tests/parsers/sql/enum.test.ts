@@ -3,7 +3,10 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { parseEnumDefinition } from "../../../src/parsers/sql/enum.js";
+import {
+    parseEnumDefinition,
+    parseAlterEnumChange,
+} from "../../../src/parsers/sql/enum.js";
 
 describe("parseEnumDefinition", () => {
     it("should parse basic enum", () => {
@@ -102,3 +105,70 @@ describe("parseEnumDefinition", () => {
         expect(result).toBeNull();
     });
 });
+
+describe("parseAlterEnumChange", () => {
+    it("should parse ADD VALUE", () => {
+        expect(parseAlterEnumChange("ALTER TYPE mood ADD VALUE 'meh'")).toEqual(
+            {
+                schema: "public",
+                enumName: "mood",
+                action: { kind: "add_value", value: "meh", ifNotExists: false },
+            }
+        );
+    });
+
+    it("should parse IF NOT EXISTS and BEFORE/AFTER positions", () => {
+        expect(
+            parseAlterEnumChange(
+                "alter type auth.mood add value if not exists 'meh' before 'sad'"
+            )
+        ).toEqual({
+            schema: "auth",
+            enumName: "mood",
+            action: {
+                kind: "add_value",
+                value: "meh",
+                ifNotExists: true,
+                before: "sad",
+            },
+        });
+        expect(
+            parseAlterEnumChange(
+                `ALTER TYPE "mood" ADD VALUE 'ecstatic' AFTER 'happy'`
+            )!.action
+        ).toEqual({
+            kind: "add_value",
+            value: "ecstatic",
+            ifNotExists: false,
+            after: "happy",
+        });
+    });
+
+    it("should parse RENAME VALUE", () => {
+        expect(
+            parseAlterEnumChange("ALTER TYPE mood RENAME VALUE 'sad' TO 'blue'")
+        ).toEqual({
+            schema: "public",
+            enumName: "mood",
+            action: { kind: "rename_value", value: "sad", newValue: "blue" },
+        });
+    });
+
+    it("should unescape doubled quotes in values", () => {
+        expect(
+            parseAlterEnumChange("ALTER TYPE label ADD VALUE 'it''s'")!.action
+        ).toMatchObject({ value: "it's" });
+    });
+
+    it("should return null for other ALTER TYPE statements", () => {
+        expect(
+            parseAlterEnumChange("ALTER TYPE mood RENAME TO feeling")
+        ).toBeNull();
+        expect(
+            parseAlterEnumChange("ALTER TYPE address ADD ATTRIBUTE zip text")
+        ).toBeNull();
+        expect(
+            parseAlterEnumChange("create type mood as enum ('happy')")
+        ).toBeNull();
+    });
+});
@@ -129,4 +129,168 @@ describe("parseFunctionDefinition", () => {
         // Should skip the empty argument and parse the valid ones
         expect(result!.args.length).toBeGreaterThanOrEqual(1);
     });
+
+    it("should parse RETURNS TABLE columns", () => {
+        const result = parseFunctionDefinition(`
+      create function get_user_posts(user_id uuid)
+      returns table (id uuid, cost numeric(10, 2), settings jsonb)
+      language sql
+      as $$ select 1 $$;
+    `);
+
+        expect(result).toMatchObject({
+            returns: "record",
+            returnsSet: true,
+            returnColumns: [
+                { name: "id", type: "uuid" },
+                { name: "cost", type: "numeric(10, 2)" },
+                { name: "settings", type: "jsonb" },
+            ],
+        });
+    });
+
+    it("should parse SETOF returns", () => {
+        const result = parseFunctionDefinition(`
+      create function user_posts(u users)
+      returns setof "public"."posts"
+      stable
+      language sql
+      as $$ select 1 $$;
+    `);
+
+        expect(result).toMatchObject({
+            returns: "public.posts",
+            returnsSet: true,
+        });
+        expect(result!.returnColumns).toBeUndefined();
+    });
+
+    it("should return OUT and INOUT parameters", () => {
+        const split = parseFunctionDefinition(`
+      create function split_name(full_name text, out first text, out last text)
+      language sql
+      as $$ select 1 $$;
+    `);
+        const counter = parseFunctionDefinition(`
+      create function bump(inout n integer)
+      returns integer
+      language sql
+      as $$ select n + 1 $$;
+    `);
+
+        expect(split!.args).toEqual([
+            { name: "full_name", type: "text", hasDefault: false, mode: "in" },
+        ]);
+        expect(split).toMatchObject({
+            returns: "record",
+            returnColumns: [
+                { name: "first", type: "text" },
+                { name: "last", type: "text" },
+            ],
+        });
+        expect(counter!.args).toEqual([
+            { name: "n", type: "integer", hasDefault: false, mode: "inout" },
+        ]);
+        expect(counter!.returns).toBe("integer");
+        expect(counter!.returnColumns).toBeUndefined();
+    });
+
+    it("should parse types and defaults containing commas and parentheses", () => {
+        const result = parseFunctionDefinition(`
+      create function price(
+        amount numeric(10, 2),
+        tags text[] default array['a', 'b'],
+        "Label" varchar(20) = 'x, (y)',
+        status public.order_status default 'open'::public.order_status
+      ) returns numeric
+      language sql
+      as $$ select amount $$;
+    `);
+
+        expect(result!.args).toEqual([
+            {
+                name: "amount",
+                type: "numeric(10, 2)",
+                hasDefault: false,
+                mode: "in",
+            },
+            {
+                name: "tags",
+                type: "text[]",
+                hasDefault: true,
+                mode: "in",
+                defaultValue: "array['a', 'b']",
+            },
+            {
+                name: "Label",
+                type: "varchar(20)",
+                hasDefault: true,
+                mode: "in",
+                defaultValue: "'x, (y)'",
+            },
+            {
+                name: "status",
+                type: "public.order_status",
+                hasDefault: true,
+                mode: "in",
+                defaultValue: "'open'::public.order_status",
+            },
+        ]);
+        expect(result!.returns).toBe("numeric");
+    });
+
+    it("should name unnamed arguments by position and make VARIADIC ones arrays", () => {
+        const result = parseFunctionDefinition(`
+      create function concat_all(text, double precision, variadic parts "any")
+      returns text
+      language sql
+      as $$ select 1 $$;
+    `);
+
+        expect(
+            result!.args.map(({ name, type, mode }) => ({ name, type, mode }))
+        ).toEqual([
+            { name: "arg1", type: "text", mode: "in" },
+            { name: "arg2", type: "double precision", mode: "in" },
+            { name: "parts", type: "any[]", mode: "variadic" },
+        ]);
+    });
+
+    it("should record volatility, security, language and search_path", () => {
+        const result = parseFunctionDefinition(`
+      create function public.lookup(language text)
+      returns table (language text, security text)
+      language 'plpgsql'
+      stable
+      security definer
+      set search_path to public, extensions
+      as $$
+      begin
+        -- immutable security invoker
+        return query select 1;
+      end
+      $$;
+    `);
+
+        expect(result).toMatchObject({
+            volatility: "stable",
+            securityDefiner: true,
+            language: "plpgsql",
+            searchPath: "public, extensions",
+        });
+    });
+
+    it("should only record the attributes that are written", () => {
+        const result = parseFunctionDefinition(`
+      create function one() returns integer
+      begin atomic
+        select 1; -- stable security definer
+      end
+    `);
+
+        expect(result!.volatility).toBeUndefined();
+        expect(result!.securityDefiner).toBeUndefined();
+        expect(result!.language).toBeUndefined();
+        expect(result!.searchPath).toBeUndefined();
+    });
 });
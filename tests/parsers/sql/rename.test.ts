@@ -0,0 +1,74 @@
+/**
+ * Tests for ALTER ... RENAME TO / SET SCHEMA parser
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseRenameStatement } from "../../../src/parsers/sql/rename.js";
+
+describe("parseRenameStatement", () => {
+    it("should parse ALTER TABLE RENAME TO", () => {
+        expect(
+            parseRenameStatement("ALTER TABLE users RENAME TO members")
+        ).toEqual({
+            kind: "table",
+            ifExists: false,
+            target: { schema: "public", name: "users" },
+            newSchema: "public",
+            newName: "members",
+        });
+    });
+
+    it("should parse ALTER TABLE SET SCHEMA", () => {
+        expect(
+            parseRenameStatement(
+                'ALTER TABLE IF EXISTS ONLY "public"."audit_log" SET SCHEMA archive'
+            )
+        ).toEqual({
+            kind: "table",
+            ifExists: true,
+            target: { schema: "public", name: "audit_log" },
+            newSchema: "archive",
+            newName: "audit_log",
+        });
+    });
+
+    it("should parse view, type, domain and function renames", () => {
+        expect(
+            parseRenameStatement("ALTER MATERIALIZED VIEW stats RENAME TO s")!
+                .kind
+        ).toBe("view");
+        expect(
+            parseRenameStatement('ALTER TYPE mood RENAME TO "feeling"')
+        ).toMatchObject({ kind: "type", newName: "feeling" });
+        expect(
+            parseRenameStatement("ALTER DOMAIN email SET SCHEMA auth")
+        ).toMatchObject({
+            kind: "domain",
+            newSchema: "auth",
+            newName: "email",
+        });
+        expect(
+            parseRenameStatement(
+                "ALTER FUNCTION api.search(text) RENAME TO find"
+            )
+        ).toEqual({
+            kind: "function",
+            ifExists: false,
+            target: { schema: "api", name: "search", argTypes: ["text"] },
+            newSchema: "api",
+            newName: "find",
+        });
+    });
+
+    it("should return null for column renames and other ALTER statements", () => {
+        expect(
+            parseRenameStatement("ALTER TABLE users RENAME COLUMN a TO b")
+        ).toBeNull();
+        expect(
+            parseRenameStatement("ALTER TYPE mood ADD VALUE 'meh'")
+        ).toBeNull();
+        expect(
+            parseRenameStatement("ALTER TABLE users ENABLE ROW LEVEL SECURITY")
+        ).toBeNull();
+    });
+});
@@ -249,6 +249,44 @@ describe("parseColumnDefinition", () => {
         );
         expect(result?.foreignKey?.schema).toBeUndefined();
     });
+
+    it("should parse identity columns", () => {
+        expect(
+            parseColumnDefinition(
+                "id bigint generated always as identity (start with 10 increment by 1) primary key"
+            )
+        ).toMatchObject({
+            type: "bigint",
+            identity: "always",
+            isPrimaryKey: true,
+            defaultValue: null,
+        });
+        expect(
+            parseColumnDefinition(
+                "legacy_id int GENERATED BY DEFAULT AS IDENTITY"
+            )
+        ).toMatchObject({
+            type: "int",
+            identity: "by_default",
+            nullable: false,
+            defaultValue: null,
+        });
+    });
+
+    it("should parse generated columns", () => {
+        const result = parseColumnDefinition(
+            "total numeric generated always as (price * coalesce(quantity, 0)) stored not null"
+        );
+
+        expect(result).toMatchObject({
+            type: "numeric",
+            generationExpression: "price * coalesce(quantity, 0)",
+            nullable: false,
+            defaultValue: null,
+            isArray: false,
+        });
+        expect(result!.identity).toBeUndefined();
+    });
 });
 
 describe("parseTableDefinition", () => {
@@ -350,6 +388,51 @@ describe("parseTableDefinition", () => {
         });
     });
 
+    it("should carry ON DELETE and ON UPDATE actions to relationships", () => {
+        const sql = `
+      create table posts (
+        id uuid primary key,
+        author_id uuid references users(id) on delete set null on update cascade,
+        editor_id uuid references users(id) on delete no action,
+        org_id uuid,
+        constraint fk_org foreign key (org_id) references orgs(id) on delete restrict
+      )
+    `;
+        const result = parseTableDefinition(sql);
+
+        expect(result!.columns[1].foreignKey).toEqual({
+            table: "users",
+            column: "id",
+            onDelete: "set null",
+            onUpdate: "cascade",
+        });
+        expect(
+            result!.relationships.map(
+                ({ foreignKeyName, onDelete, onUpdate }) => ({
+                    foreignKeyName,
+                    onDelete,
+                    onUpdate,
+                })
+            )
+        ).toEqual([
+            {
+                foreignKeyName: "posts_author_id_fkey",
+                onDelete: "set null",
+                onUpdate: "cascade",
+            },
+            {
+                foreignKeyName: "posts_editor_id_fkey",
+                onDelete: undefined,
+                onUpdate: undefined,
+            },
+            {
+                foreignKeyName: "fk_org",
+                onDelete: "restrict",
+                onUpdate: undefined,
+            },
+        ]);
+    });
+
     it("should handle multi-column foreign key", () => {
         const sql = `
       create table order_items (
@@ -387,6 +470,62 @@ describe("parseTableDefinition", () => {
         expect(result!.columns).toHaveLength(2);
     });
 
+    it("should collect inline and table-level CHECK constraints", () => {
+        const sql = `
+      create table posts (
+        status text not null check (status in ('draft', 'published')),
+        kind text constraint posts_kind check (kind = any (array['a', 'b'])),
+        title text,
+        constraint title_length check (char_length(title) > 3)
+      )
+    `;
+        const result = parseTableDefinition(sql);
+
+        expect(result!.columns.map((c) => c.name)).toEqual([
+            "status",
+            "kind",
+            "title",
+        ]);
+        expect(result!.columns[1]).toMatchObject({
+            isArray: false,
+            nullable: true,
+        });
+        expect(result!.checkConstraints).toEqual([
+            {
+                name: "posts_status_check",
+                expression: "status in ('draft', 'published')",
+                column: "status",
+                allowedValues: ["draft", "published"],
+            },
+            {
+                name: "posts_kind",
+                expression: "kind = any (array['a', 'b'])",
+                column: "kind",
+                allowedValues: ["a", "b"],
+            },
+            {
+                name: "title_length",
+                expression: "char_length(title) > 3",
+            },
+        ]);
+    });
+
+    it("should number CHECK constraints whose generated name is taken", () => {
+        const sql = `
+      create table t (
+        a integer check (a > 0) check (a < 10),
+        check (a in (1, 2))
+      )
+    `;
+        const result = parseTableDefinition(sql);
+
+        expect(result!.checkConstraints!.map((c) => c.name)).toEqual([
+            "t_a_check",
+            "t_a_check1",
+            "t_a_check2",
+        ]);
+    });
+
     it("should skip CASE WHEN expressions", () => {
         const sql = `
       create table test (
@@ -454,13 +593,14 @@ describe("parseTableDefinition", () => {
         const sql = `
       create table users (
         id uuid primary key,
-        bio text default 'It\\'s a test'
+        bio text default E'It\\'s a test',
+        motto text default 'It''s another test'
       )
     `;
         const result = parseTableDefinition(sql);
 
         expect(result).toBeTruthy();
-        expect(result!.columns).toHaveLength(2);
+        expect(result!.columns).toHaveLength(3);
     });
 
     it("should handle table with nested parentheses in default values", () => {
@@ -0,0 +1,197 @@
+/**
+ * Tests for the SQL tokenizer and statement splitter
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+    tokenize,
+    splitStatements,
+    splitByComma,
+    findClosingParen,
+    stripComments,
+} from "../../../src/parsers/sql/tokenizer.js";
+
+function kinds(sql: string) {
+    return tokenize(sql)
+        .filter((t) => t.kind !== "whitespace")
+        .map((t) => [t.kind, t.text]);
+}
+
+describe("tokenize", () => {
+    it("should tokenize words, symbols, numbers and parameters", () => {
+        expect(kinds("select a.b, 1.5e3 from t where x = $1")).toEqual([
+            ["word", "select"],
+            ["word", "a"],
+            ["symbol", "."],
+            ["word", "b"],
+            ["symbol", ","],
+            ["number", "1.5e3"],
+            ["word", "from"],
+            ["word", "t"],
+            ["word", "where"],
+            ["word", "x"],
+            ["symbol", "="],
+            ["parameter", "$1"],
+        ]);
+    });
+
+    it("should handle doubled quotes in strings and identifiers", () => {
+        expect(kinds(`'it''s' "say ""hi"""`)).toEqual([
+            ["string", "'it''s'"],
+            ["quoted_identifier", '"say ""hi"""'],
+        ]);
+    });
+
+    it("should only treat backslashes as escapes in E'' strings", () => {
+        expect(kinds(`E'a\\'b' 'C:\\' x`)).toEqual([
+            ["string", "E'a\\'b'"],
+            ["string", "'C:\\'"],
+            ["word", "x"],
+        ]);
+    });
+
+    it("should read dollar-quoted strings with and without tags", () => {
+        expect(kinds("$$ a; 'b $$ $fn$ $$ ; $fn$")).toEqual([
+            ["string", "$$ a; 'b $$"],
+            ["string", "$fn$ $$ ; $fn$"],
+        ]);
+    });
+
+    it("should read line and nested block comments", () => {
+        expect(kinds("a -- one; two\n/* x /* y */ z */ b")).toEqual([
+            ["word", "a"],
+            ["comment", "-- one; two"],
+            ["comment", "/* x /* y */ z */"],
+            ["word", "b"],
+        ]);
+    });
+
+    it("should run unterminated strings to the end of input", () => {
+        expect(kinds("'open ; still")).toEqual([["string", "'open ; still"]]);
+    });
+
+    it("should track offsets, lines and columns", () => {
+        const tokens = tokenize("a\n  bc 'x\ny' d").filter(
+            (t) => t.kind !== "whitespace"
+        );
+
+        expect(
+            tokens.map(({ text, start, line, column }) => ({
+                text,
+                start,
+                line,
+                column,
+            }))
+        ).toEqual([
+            { text: "a", start: 0, line: 1, column: 1 },
+            { text: "bc", start: 4, line: 2, column: 3 },
+            { text: "'x\ny'", start: 7, line: 2, column: 6 },
+            { text: "d", start: 13, line: 3, column: 4 },
+        ]);
+    });
+});
+
+describe("splitStatements", () => {
+    it("should split on top-level semicolons, including within a line", () => {
+        expect(
+            splitStatements(
+                "create table a (x int); create table b (y int)"
+            ).map((s) => s.text)
+        ).toEqual(["create table a (x int)", "create table b (y int)"]);
+    });
+
+    it("should skip leading comments and report statement positions", () => {
+        const statements = splitStatements(
+            "-- header\n\n/* doc */ drop table a;\n  drop table b; -- done\n"
+        );
+
+        expect(statements).toEqual([
+            {
+                text: "drop table a",
+                start: 21,
+                end: 33,
+                line: 3,
+                column: 11,
+            },
+            {
+                text: "drop table b",
+                start: 37,
+                end: 49,
+                line: 4,
+                column: 3,
+            },
+        ]);
+    });
+
+    it("should not split inside strings, dollar quotes or comments", () => {
+        const sql = `
+            insert into t values ('a;b', E'c\\';d');
+            create function f() returns void as $$ begin perform 1; end; $$ language plpgsql;
+            select 1 /* ; */ -- ;
+        `;
+
+        expect(splitStatements(sql).map((s) => s.text)).toEqual([
+            "insert into t values ('a;b', E'c\\';d')",
+            "create function f() returns void as $$ begin perform 1; end; $$ language plpgsql",
+            "select 1",
+        ]);
+    });
+
+    it("should keep BEGIN ATOMIC bodies in one statement", () => {
+        const sql = `
+            create function f(x int) returns text language sql
+            begin atomic
+                select case when x > 0 then 'pos' else 'neg' end;
+                select 'done';
+            end;
+            drop table t;
+        `;
+
+        const statements = splitStatements(sql);
+
+        expect(statements).toHaveLength(2);
+        expect(statements[0].text).toMatch(/^create function[\s\S]+end$/);
+        expect(statements[1].text).toBe("drop table t");
+    });
+
+    it("should return nothing for blank or comment-only input", () => {
+        expect(splitStatements("")).toEqual([]);
+        expect(splitStatements("  -- nothing here\n;;")).toEqual([]);
+    });
+});
+
+describe("splitByComma", () => {
+    it("should split on top-level commas only", () => {
+        expect(
+            splitByComma(
+                "a numeric(10, 2), b text default 'x,y', c int[] default array[1, 2], \"d,e\" int"
+            )
+        ).toEqual([
+            "a numeric(10, 2)",
+            "b text default 'x,y'",
+            "c int[] default array[1, 2]",
+            '"d,e" int',
+        ]);
+    });
+
+    it("should ignore commas in comments and drop a trailing empty part", () => {
+        expect(splitByComma("a -- x, y\n, b,")).toEqual(["a -- x, y", "b"]);
+    });
+});
+
+describe("findClosingParen", () => {
+    it("should find the matching parenthesis", () => {
+        const sql = "f(a, (b), ')', g(c)) rest";
+        expect(findClosingParen(sql, 1)).toBe(sql.indexOf(" rest") - 1);
+    });
+
+    it("should return -1 when unbalanced", () => {
+        expect(findClosingParen("f(a, (b)", 1)).toBe(-1);
+    });
+});
+
+describe("stripComments", () => {
+    it("should remove comments but not comment markers inside strings", () => {
+        expect(stripComments("a -- x\nb /* y */ '--z'")).toBe("a  \nb   '--z'");
+    });
+});
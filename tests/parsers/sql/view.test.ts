@@ -467,6 +467,126 @@ describe("View Parser", () => {
                 expect(result?.definition).toContain("UNION");
             });
 
+            it("should resolve columns through CTEs", () => {
+                const sql = `CREATE VIEW post_counts AS
+                    WITH counts (author, posts) AS (
+                        SELECT user_id, COUNT(*) FROM posts GROUP BY user_id
+                    ), named AS (
+                        SELECT c.*, u.name FROM counts c JOIN users u ON u.id = c.author
+                    )
+                    SELECT * FROM named;`;
+                const result = parseViewDefinition(sql, "public", sampleTables);
+
+                expect(
+                    result?.columns.map((c) => [c.name, c.type, c.nullable])
+                ).toEqual([
+                    ["author", "integer", false],
+                    ["posts", "bigint", false],
+                    ["name", "text", false],
+                ]);
+            });
+
+            it("should merge the branches of UNION", () => {
+                const sql = `CREATE VIEW labels AS
+                    SELECT id, MAX(title) AS label FROM posts GROUP BY id
+                    UNION ALL
+                    SELECT id, country FROM users;`;
+                const result = parseViewDefinition(sql, "public", sampleTables);
+
+                expect(
+                    result?.columns.map((c) => [c.name, c.type, c.nullable])
+                ).toEqual([
+                    ["id", "integer", false],
+                    ["label", "text", true],
+                ]);
+            });
+
+            it("should resolve subqueries in FROM and outer joins", () => {
+                const sql = `CREATE VIEW latest_posts AS
+                    SELECT u.name, p.title, p.author
+                    FROM users u
+                    LEFT JOIN (
+                        SELECT title, user_id AS author FROM posts WHERE active
+                    ) p ON p.author = u.id;`;
+                const result = parseViewDefinition(sql, "public", sampleTables);
+
+                expect(
+                    result?.columns.map((c) => [c.name, c.type, c.nullable])
+                ).toEqual([
+                    ["name", "text", false],
+                    ["title", "text", true],
+                    ["author", "integer", true],
+                ]);
+            });
+
+            it("should make the preserved side of RIGHT and FULL joins nullable", () => {
+                const sql = `CREATE VIEW pairs AS
+                    SELECT u.name, p.title FROM users u RIGHT JOIN posts p ON p.user_id = u.id;`;
+                const result = parseViewDefinition(sql, "public", sampleTables);
+
+                expect(result?.columns.map((c) => c.nullable)).toEqual([
+                    true,
+                    false,
+                ]);
+
+                const full = parseViewDefinition(
+                    sql.replace("RIGHT", "FULL OUTER"),
+                    "public",
+                    sampleTables
+                );
+                expect(full?.columns.map((c) => c.nullable)).toEqual([
+                    true,
+                    true,
+                ]);
+            });
+
+            it("should expand qualified stars", () => {
+                const sql = `CREATE VIEW post_authors AS
+                    SELECT p.*, u.name FROM posts p JOIN users u ON u.id = p.user_id;`;
+                const result = parseViewDefinition(sql, "public", sampleTables);
+
+                expect(result?.columns.map((c) => c.name)).toEqual([
+                    "id",
+                    "user_id",
+                    "title",
+                    "active",
+                    "name",
+                ]);
+            });
+
+            it("should type COALESCE from its arguments", () => {
+                const sql = `CREATE VIEW defaults AS
+                    SELECT COALESCE(age, 0) AS age, COALESCE(country, email) AS place,
+                        COALESCE(country, NULL) AS maybe FROM users;`;
+                const result = parseViewDefinition(sql, "public", sampleTables);
+
+                expect(
+                    result?.columns.map((c) => [c.name, c.type, c.nullable])
+                ).toEqual([
+                    ["age", "integer", false],
+                    ["place", "text", false],
+                    ["maybe", "text", true],
+                ]);
+            });
+
+            it("should read columns of other views", () => {
+                const view = parseViewDefinition(
+                    "CREATE VIEW names AS SELECT id, name FROM users;",
+                    "public",
+                    sampleTables
+                )!;
+                const result = parseViewDefinition(
+                    "CREATE VIEW name_list AS SELECT n.name FROM names n;",
+                    "public",
+                    [...sampleTables, view]
+                );
+
+                expect(result?.columns[0]).toMatchObject({
+                    name: "name",
+                    type: "text",
+                });
+            });
+
             it("should handle MIN and MAX aggregate functions", () => {
                 const sql = `CREATE VIEW min_max AS
                     SELECT MIN(age) AS min_age, MAX(age) AS max_age FROM users;`;
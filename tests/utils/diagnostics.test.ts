@@ -0,0 +1,103 @@
+/**
+ * Tests for the diagnostics collector and formatters
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+    createDiagnosticCollector,
+    formatDiagnostics,
+    printDiagnostics,
+} from "../../src/utils/diagnostics.js";
+import * as logger from "../../src/utils/logger.js";
+import type { Diagnostic } from "../../src/types/index.js";
+
+const location = { file: "migrations/001.sql", line: 3, column: 5 };
+
+const sample: Diagnostic[] = [
+    {
+        severity: "warning",
+        code: "unknown-type",
+        message: 'Column public.t.x has type "ltree", generated as unknown',
+        location,
+    },
+    {
+        severity: "info",
+        code: "skipped-statement",
+        message: "Statement skipped: GRANT",
+    },
+];
+
+describe("createDiagnosticCollector", () => {
+    it("should collect reports in order", () => {
+        const collector = createDiagnosticCollector();
+
+        collector.report("error", "parse-error", "boom", location);
+        collector.report("info", "skipped-statement", "GRANT");
+
+        expect(collector.diagnostics).toEqual([
+            {
+                severity: "error",
+                code: "parse-error",
+                message: "boom",
+                location,
+            },
+            { severity: "info", code: "skipped-statement", message: "GRANT" },
+        ]);
+    });
+});
+
+describe("formatDiagnostics", () => {
+    it("should format text with locations when known", () => {
+        expect(formatDiagnostics(sample, "text")).toBe(
+            'migrations/001.sql:3:5 - warning unknown-type: Column public.t.x has type "ltree", generated as unknown\n' +
+                "info skipped-statement: Statement skipped: GRANT"
+        );
+    });
+
+    it("should format JSON", () => {
+        expect(JSON.parse(formatDiagnostics(sample, "json"))).toEqual(sample);
+    });
+});
+
+describe("printDiagnostics", () => {
+    beforeEach(() => {
+        vi.restoreAllMocks();
+        vi.spyOn(logger, "log").mockImplementation(() => {});
+    });
+
+    it("should log errors and warnings but not info in text mode", () => {
+        printDiagnostics(sample, "text");
+
+        expect(logger.log).toHaveBeenCalledWith(
+            expect.stringContaining("1 diagnostic(s)"),
+            "yellow",
+            true
+        );
+        expect(logger.log).toHaveBeenCalledWith(
+            expect.stringContaining("migrations/001.sql:3:5 - warning"),
+            "yellow",
+            true
+        );
+        expect(logger.log).not.toHaveBeenCalledWith(
+            expect.stringContaining("skipped-statement"),
+            expect.anything(),
+            true
+        );
+    });
+
+    it("should stay silent in text mode without problems", () => {
+        printDiagnostics([sample[1]], "text");
+
+        expect(logger.log).not.toHaveBeenCalled();
+    });
+
+    it("should print every diagnostic as JSON", () => {
+        const consoleSpy = vi
+            .spyOn(console, "log")
+            .mockImplementation(() => {});
+
+        printDiagnostics(sample, "json");
+
+        expect(JSON.parse(consoleSpy.mock.calls[0][0])).toEqual(sample);
+    });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for the unified diff helper
+ */
+
+import { describe, it, expect } from "vitest";
+import { createUnifiedDiff } from "../../src/utils/diff.js";
+
+const lines = (count: number) =>
+    Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+describe("createUnifiedDiff", () => {
+    it("should return an empty string for equal texts", () => {
+        expect(createUnifiedDiff("a\nb", "a\nb", "old", "new")).toBe("");
+    });
+
+    it("should produce a hunk with context around a changed line", () => {
+        const oldText = lines(10).join("\n");
+        const newText = lines(10)
+            .map((l) => (l === "line 5" ? "line five" : l))
+            .join("\n");
+
+        expect(createUnifiedDiff(oldText, newText, "a.ts", "b.ts")).toBe(
+            [
+                "--- a.ts",
+                "+++ b.ts",
+                "@@ -2,7 +2,7 @@",
+                " line 2",
+                " line 3",
+                " line 4",
+                "-line 5",
+                "+line five",
+                " line 6",
+                " line 7",
+                " line 8",
+            ].join("\n")
+        );
+    });
+
+    it("should report added and removed lines", () => {
+        const diff = createUnifiedDiff("a\nb\nc", "a\nc\nd", "old", "new");
+
+        expect(diff.split("\n").slice(2)).toEqual([
+            "@@ -1,3 +1,3 @@",
+            " a",
+            "-b",
+            " c",
+            "+d",
+        ]);
+    });
+
+    it("should split distant changes into separate hunks", () => {
+        const oldText = lines(30).join("\n");
+        const newText = lines(30)
+            .filter((l) => l !== "line 2" && l !== "line 28")
+            .join("\n");
+
+        const hunks = createUnifiedDiff(oldText, newText, "old", "new")
+            .split("\n")
+            .filter((l) => l.startsWith("@@"));
+
+        expect(hunks).toEqual(["@@ -1,5 +1,4 @@", "@@ -25,6 +24,5 @@"]);
+    });
+
+    it("should merge changes that share context", () => {
+        const oldText = lines(12).join("\n");
+        const newText = lines(12)
+            .filter((l) => l !== "line 3" && l !== "line 8")
+            .join("\n");
+
+        const hunks = createUnifiedDiff(oldText, newText, "old", "new")
+            .split("\n")
+            .filter((l) => l.startsWith("@@"));
+
+        expect(hunks).toEqual(["@@ -1,11 +1,9 @@"]);
+    });
+
+    it("should diff against an empty text", () => {
+        expect(createUnifiedDiff("", "a", "old", "new")).toBe(
+            ["--- old", "+++ new", "@@ -1 +1 @@", "-", "+a"].join("\n")
+        );
+    });
+});
@@ -3,7 +3,11 @@
  */
 
 import { describe, it, expect } from "vitest";
-import { convertCase } from "../../src/utils/naming.js";
+import {
+    convertCase,
+    propertyKey,
+    schemaIdentifier,
+} from "../../src/utils/naming.js";
 
 describe("convertCase", () => {
     describe("preserve", () => {
@@ -126,3 +130,34 @@ describe("convertCase", () => {
         });
     });
 });
+
+describe("schemaIdentifier", () => {
+    it("should build a camelCase schema name", () => {
+        expect(
+            schemaIdentifier("public", "public", "user_profiles", "row")
+        ).toBe("userProfilesRowSchema");
+    });
+
+    it("should prefix objects outside the main schema", () => {
+        expect(schemaIdentifier("auth", "public", "users")).toBe(
+            "authUsersSchema"
+        );
+    });
+
+    it("should produce valid identifiers from any name", () => {
+        expect(schemaIdentifier("public", "public", "first-name")).toBe(
+            "firstNameSchema"
+        );
+        expect(schemaIdentifier("public", "public", "2fa_codes")).toBe(
+            "_2faCodesSchema"
+        );
+    });
+});
+
+describe("propertyKey", () => {
+    it("should quote keys that are not identifiers", () => {
+        expect(propertyKey("email")).toBe("email");
+        expect(propertyKey("first-name")).toBe('"first-name"');
+        expect(propertyKey("2fa")).toBe('"2fa"');
+    });
+});
@@ -6,7 +6,25 @@ import { describe, it, expect } from "vitest";
 import {
     mapPostgresTypeToTypeScript,
     detectGeometricTypes,
+    applyDomainConstraints,
 } from "../../src/utils/type-mapping.js";
+import type { DomainDefinition } from "../../src/types/index.js";
+
+function domain(
+    name: string,
+    baseType: string,
+    overrides: Partial<DomainDefinition> = {}
+): DomainDefinition {
+    return {
+        schema: "public",
+        name,
+        baseType,
+        isArray: false,
+        nullable: true,
+        defaultValue: null,
+        ...overrides,
+    };
+}
 
 describe("mapPostgresTypeToTypeScript", () => {
     const schema = "public";
@@ -277,6 +295,110 @@ describe("mapPostgresTypeToTypeScript", () => {
             ).toBe("unknown");
         });
     });
+
+    describe("domains", () => {
+        const domains = [
+            domain("email", "citext"),
+            domain("work_email", "email"),
+            domain("feeling", "mood"),
+            domain("moods", "mood", { isArray: true }),
+            domain("status", "text", {
+                checkConstraints: [
+                    {
+                        name: "status_check",
+                        expression: "VALUE IN ('active', 'archived')",
+                        column: "VALUE",
+                        allowedValues: ["active", "archived"],
+                    },
+                ],
+            }),
+        ];
+        const map = (pgType: string, isArray = false, brand = false) =>
+            mapPostgresTypeToTypeScript(
+                pgType,
+                isArray,
+                schema,
+                new Set(["mood"]),
+                false,
+                domains,
+                brand
+            );
+
+        it("should resolve domains through their base type", () => {
+            expect(map("email")).toBe("string");
+            expect(map("public.email")).toBe("string");
+            expect(map("work_email")).toBe("string");
+            expect(map("email", true)).toBe("string[]");
+        });
+
+        it("should resolve domains over enums and arrays", () => {
+            expect(map("feeling")).toBe('Database["public"]["Enums"]["mood"]');
+            expect(map("moods")).toBe('Database["public"]["Enums"]["mood"][]');
+        });
+
+        it("should narrow domains to the values their CHECK allows", () => {
+            expect(map("status")).toBe('"active" | "archived"');
+        });
+
+        it("should brand only the outermost domain", () => {
+            expect(map("email", false, true)).toBe(
+                'string & { __domain: "email" }'
+            );
+            expect(map("work_email", true, true)).toBe(
+                '(string & { __domain: "work_email" })[]'
+            );
+            expect(map("status", false, true)).toBe(
+                '("active" | "archived") & { __domain: "status" }'
+            );
+        });
+
+        it("should leave domains of other schemas unresolved", () => {
+            expect(
+                mapPostgresTypeToTypeScript(
+                    "email",
+                    false,
+                    "auth",
+                    noEnums,
+                    false,
+                    domains
+                )
+            ).toBe("unknown");
+        });
+    });
+});
+
+describe("applyDomainConstraints", () => {
+    const column = {
+        name: "status",
+        type: "status",
+        nullable: true,
+        defaultValue: null,
+        isArray: false,
+        isPrimaryKey: false,
+        isUnique: false,
+    };
+
+    it("should apply the NOT NULL and DEFAULT of the domain", () => {
+        const domains = [
+            domain("status", "text", {
+                nullable: false,
+                defaultValue: "'active'",
+            }),
+        ];
+
+        expect(applyDomainConstraints(column, "public", domains)).toEqual({
+            ...column,
+            nullable: false,
+            defaultValue: "'active'",
+        });
+        expect(
+            applyDomainConstraints(
+                { ...column, isArray: true },
+                "public",
+                domains
+            ).nullable
+        ).toBe(true);
+    });
 });
 
 describe("detectGeometricTypes", () => {
@@ -0,0 +1,184 @@
+/**
+ * Tests for debounced directory watching
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { watchDirectories } from "../../src/utils/watch.js";
+import type { WatchRoots } from "../../src/types/index.js";
+
+vi.mock("fs", () => ({
+    watch: vi.fn(),
+    readdirSync: vi.fn(),
+    statSync: vi.fn(),
+}));
+
+const actualFs = await vi.importActual<typeof fs>("fs");
+
+type WatchListener = (event: string, fileName: string | null) => void;
+
+function roots(directories: string[], files: string[] = []): WatchRoots {
+    return { directories, files };
+}
+
+describe("watchDirectories", () => {
+    let listeners: Map<string, WatchListener>;
+    let close: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        listeners = new Map();
+        close = vi.fn();
+        vi.mocked(fs.watch).mockImplementation(((
+            directory: string,
+            listener: WatchListener
+        ) => {
+            listeners.set(directory, listener);
+            return { close } as unknown as fs.FSWatcher;
+        }) as unknown as typeof fs.watch);
+        vi.mocked(fs.readdirSync).mockReturnValue([]);
+        vi.mocked(fs.statSync).mockReturnValue(undefined);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.clearAllMocks();
+    });
+
+    it("should watch every directory and its subdirectories", () => {
+        vi.mocked(fs.readdirSync).mockImplementation(((directory: string) =>
+            directory === "/a"
+                ? [
+                      { name: "nested", isDirectory: () => true },
+                      { name: "one.sql", isDirectory: () => false },
+                  ]
+                : []) as unknown as typeof fs.readdirSync);
+
+        watchDirectories(roots(["/a", "/b"]), () => true, vi.fn(), 100);
+
+        expect(Array.from(listeners.keys())).toEqual(["/a", "/a/nested", "/b"]);
+    });
+
+    it("should skip node_modules and dot-directories", () => {
+        vi.mocked(fs.readdirSync).mockImplementation(((directory: string) =>
+            directory === "/a"
+                ? [
+                      { name: "node_modules", isDirectory: () => true },
+                      { name: ".temp", isDirectory: () => true },
+                      { name: "schemas", isDirectory: () => true },
+                  ]
+                : []) as unknown as typeof fs.readdirSync);
+
+        watchDirectories(roots(["/a"]), () => true, vi.fn(), 100);
+        vi.mocked(fs.statSync).mockReturnValue({
+            isDirectory: () => true,
+        } as fs.Stats);
+        listeners.get("/a")!("rename", ".branches");
+        listeners.get("/a")!("rename", "views");
+
+        expect(Array.from(listeners.keys())).toEqual([
+            "/a",
+            "/a/schemas",
+            "/a/views",
+        ]);
+    });
+
+    it("should watch single files through their directory", () => {
+        vi.mocked(fs.statSync).mockImplementation(((path: string) => ({
+            isDirectory: () => path === "/b",
+        })) as unknown as typeof fs.statSync);
+        const onChange = vi.fn();
+
+        watchDirectories(
+            roots(["/a"], ["/a/seed.sql", "/b/config.toml", "/b/seed.sql"]),
+            () => true,
+            onChange,
+            100
+        );
+        const listener = listeners.get("/b")!;
+        listener("change", "config.toml");
+        listener("change", "other.toml");
+        vi.advanceTimersByTime(100);
+
+        expect(fs.watch).toHaveBeenCalledTimes(2);
+        expect(Array.from(listeners.keys())).toEqual(["/a", "/b"]);
+        expect(onChange).toHaveBeenCalledWith(["/b/config.toml"]);
+    });
+
+    it("should batch changes until the debounce window passes", () => {
+        const onChange = vi.fn();
+        watchDirectories(roots(["/a"]), () => true, onChange, 100);
+        const listener = listeners.get("/a")!;
+
+        listener("change", "one.sql");
+        vi.advanceTimersByTime(60);
+        listener("change", "two.sql");
+        listener("change", "one.sql");
+        vi.advanceTimersByTime(60);
+        expect(onChange).not.toHaveBeenCalled();
+
+        vi.advanceTimersByTime(40);
+        expect(onChange).toHaveBeenCalledTimes(1);
+        expect(onChange).toHaveBeenCalledWith(["/a/one.sql", "/a/two.sql"]);
+    });
+
+    it("should ignore files rejected by the filter", () => {
+        const onChange = vi.fn();
+        watchDirectories(
+            roots(["/a"]),
+            (path) => path.endsWith(".sql"),
+            onChange,
+            100
+        );
+        const listener = listeners.get("/a")!;
+
+        listener("change", "notes.txt");
+        listener("rename", null);
+        vi.advanceTimersByTime(200);
+
+        expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it("should close watchers and drop pending changes when stopped", () => {
+        const onChange = vi.fn();
+        const stop = watchDirectories(roots(["/a"]), () => true, onChange, 100);
+
+        listeners.get("/a")!("change", "one.sql");
+        stop();
+        vi.advanceTimersByTime(200);
+
+        expect(close).toHaveBeenCalled();
+        expect(onChange).not.toHaveBeenCalled();
+    });
+});
+
+describe("watchDirectories on the file system", () => {
+    let root: string;
+    let stop: () => void = () => {};
+
+    beforeEach(() => {
+        vi.mocked(fs.watch).mockImplementation(actualFs.watch);
+        vi.mocked(fs.readdirSync).mockImplementation(actualFs.readdirSync);
+        vi.mocked(fs.statSync).mockImplementation(actualFs.statSync);
+        root = actualFs.mkdtempSync(join(tmpdir(), "typegen-watch-"));
+        actualFs.mkdirSync(join(root, "nested"));
+    });
+
+    afterEach(() => {
+        stop();
+        actualFs.rmSync(root, { recursive: true, force: true });
+        vi.clearAllMocks();
+    });
+
+    it("should report changes in subdirectories", async () => {
+        const changed = new Promise<string[]>((resolve) => {
+            stop = watchDirectories(roots([root]), () => true, resolve, 50);
+        });
+
+        actualFs.writeFileSync(join(root, "nested", "001.sql"), "select 1;");
+
+        expect(await changed).toContain(join(root, "nested", "001.sql"));
+    });
+});